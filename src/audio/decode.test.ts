@@ -0,0 +1,178 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { decodeAudioFile } from './decode.js';
+import { AudioDecodeError } from '../utils/errors.js';
+
+interface Format {
+  /** WAV format tag: 1 for PCM, 3 for float */
+  tag?: number;
+  channels: number;
+  rate: number;
+  bits: number;
+}
+
+/** A RIFF chunk, padded to an even length */
+function chunk(id: string, body: Buffer, bigEndian = false): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'ascii');
+  if (bigEndian) {
+    header.writeUInt32BE(body.length, 4);
+  } else {
+    header.writeUInt32LE(body.length, 4);
+  }
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function fmtChunk({ tag = 1, channels, rate, bits }: Format): Buffer {
+  const body = Buffer.alloc(16);
+  body.writeUInt16LE(tag, 0);
+  body.writeUInt16LE(channels, 2);
+  body.writeUInt32LE(rate, 4);
+  body.writeUInt32LE(rate * channels * bits / 8, 8);
+  body.writeUInt16LE(channels * bits / 8, 12);
+  body.writeUInt16LE(bits, 14);
+  return chunk('fmt ', body);
+}
+
+function wavFile(chunks: Buffer[]): Buffer {
+  const body = Buffer.concat([Buffer.from('WAVE'), ...chunks]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+/** Interleaved samples in the -1..1 range as little-endian integers or floats */
+function pcm(frames: number[][], bits: number, float = false): Buffer {
+  const bytes = bits / 8;
+  const data = Buffer.alloc(frames.length * frames[0]!.length * bytes);
+  frames.flat().forEach((value, i) => {
+    if (float) {
+      data.writeFloatLE(value, i * bytes);
+    } else {
+      data.writeIntLE(Math.round(value * 2 ** (bits - 1)), i * bytes, bytes);
+    }
+  });
+  return data;
+}
+
+/** An AIFF sample rate as an 80-bit extended float */
+function extendedFloat(rate: number): Buffer {
+  const exponent = Math.floor(Math.log2(rate));
+  const buffer = Buffer.alloc(10);
+  buffer.writeUInt16BE(16383 + exponent, 0);
+  buffer.writeBigUInt64BE(BigInt(rate) << BigInt(63 - exponent), 2);
+  return buffer;
+}
+
+/** An AIFF or AIFC file of integer samples, little-endian for 'sowt' */
+function aiffFile({ channels, rate, bits }: Format, frames: number[][], compression?: string): Buffer {
+  const comm = Buffer.alloc(compression ? 22 : 18);
+  comm.writeUInt16BE(channels, 0);
+  comm.writeUInt32BE(frames.length, 2);
+  comm.writeUInt16BE(bits, 6);
+  extendedFloat(rate).copy(comm, 8);
+  if (compression) {
+    comm.write(compression, 18, 'ascii');
+  }
+  const bytes = bits / 8;
+  const data = Buffer.alloc(8 + frames.length * channels * bytes);
+  frames.flat().forEach((value, i) => {
+    const sample = Math.round(value * 2 ** (bits - 1));
+    if (compression === 'sowt') {
+      data.writeIntLE(sample, 8 + i * bytes, bytes);
+    } else {
+      data.writeIntBE(sample, 8 + i * bytes, bytes);
+    }
+  });
+
+  const body = Buffer.concat([Buffer.from(compression ? 'AIFC' : 'AIFF'), chunk('COMM', comm, true), chunk('SSND', data, true)]);
+  const header = Buffer.alloc(8);
+  header.write('FORM', 0, 'ascii');
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+describe('decodeAudioFile', () => {
+  let dir: string;
+
+  /** Write a file to the test directory and return its path */
+  function file(name: string, contents: Buffer | string): string {
+    const path = join(dir, name);
+    writeFileSync(path, contents);
+    return path;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'premiere-decode-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('mixes 16-bit stereo WAV to mono', async () => {
+    const path = file('stereo.wav', wavFile([
+      fmtChunk({ channels: 2, rate: 8000, bits: 16 }),
+      chunk('LIST', Buffer.from('INFOjunk!')),
+      chunk('data', pcm([[0.5, -0.25], [-1, -1], [0.25, 0.25]], 16))
+    ]));
+
+    const audio = await decodeAudioFile(path);
+    expect(audio).toMatchObject({ sampleRate: 8000, fileSampleRate: 8000, channels: 2, bitsPerSample: 16, start: 0 });
+    expect(audio.fileDuration).toBeCloseTo(3 / 8000, 10);
+    expect(Array.from(audio.samples)).toEqual([0.125, -1, 0.25]);
+  });
+
+  it('reads only the requested range, averaging frames to decimate', async () => {
+    const frames = Array.from({ length: 1000 }, (_, i) => [i / 1000]);
+    const path = file('ramp.wav', wavFile([fmtChunk({ tag: 3, channels: 1, rate: 8000, bits: 32 }), chunk('data', pcm(frames, 32, true))]));
+
+    const audio = await decodeAudioFile(path, { start: 0.01, duration: 0.02, minSampleRate: 3000 });
+    expect(audio).toMatchObject({ sampleRate: 4000, fileSampleRate: 8000, start: 0.01 });
+    expect(audio.fileDuration).toBe(0.125);
+    expect(audio.samples).toHaveLength(80);
+    // Frames 80 and 81 average to 0.0805
+    expect(audio.samples[0]).toBeCloseTo(0.0805, 6);
+    expect(audio.samples[79]).toBeCloseTo(0.2385, 6);
+
+    expect((await decodeAudioFile(path, { start: 5 })).samples).toHaveLength(0);
+  });
+
+  it('reads 24-bit AIFF and little-endian AIFC', async () => {
+    const frames = [[0.5], [-0.5], [0.25]];
+    const aiff = await decodeAudioFile(file('music.aiff', aiffFile({ channels: 1, rate: 44100, bits: 24 }, frames)));
+    expect(aiff).toMatchObject({ sampleRate: 44100, channels: 1, bitsPerSample: 24 });
+    expect(Array.from(aiff.samples)).toEqual([0.5, -0.5, 0.25]);
+
+    const aifc = aiffFile({ channels: 1, rate: 48000, bits: 16 }, frames, 'sowt');
+    expect(Array.from((await decodeAudioFile(file('music.aifc', aifc))).samples)).toEqual([0.5, -0.5, 0.25]);
+  });
+
+  it('decodes what there is of a file cut short', async () => {
+    const wav = wavFile([fmtChunk({ channels: 1, rate: 8000, bits: 16 }), chunk('data', pcm([[0.5], [0.5], [0.5], [0.5]], 16))]);
+    const audio = await decodeAudioFile(file('cut.wav', wav.subarray(0, wav.length - 3)));
+    expect(Array.from(audio.samples)).toEqual([0.5, 0.5]);
+  });
+
+  it('refuses files it cannot decode', async () => {
+    const decode = (name: string, contents: Buffer | string) => decodeAudioFile(file(name, contents));
+    const data = chunk('data', pcm([[0]], 16));
+
+    await expect(decodeAudioFile(join(dir, 'missing.wav'))).rejects.toThrow(AudioDecodeError);
+    await expect(decodeAudioFile(join(dir, 'missing.wav'))).rejects.toThrow('file could not be opened');
+    await expect(decode('notes.txt', 'just some text')).rejects.toThrow('not a WAV or AIFF file');
+    await expect(decode('empty.wav', '')).rejects.toThrow('not a WAV or AIFF file');
+    await expect(decode('adpcm.wav', wavFile([fmtChunk({ tag: 2, channels: 1, rate: 8000, bits: 4 }), data])))
+      .rejects.toThrow('WAV format 2 is compressed; only PCM and float WAV are supported');
+    await expect(decode('backwards.wav', wavFile([data, fmtChunk({ channels: 1, rate: 8000, bits: 16 })])))
+      .rejects.toThrow('WAV data chunk comes before its fmt chunk');
+    await expect(decode('header.wav', wavFile([fmtChunk({ channels: 1, rate: 8000, bits: 16 })]))).rejects.toThrow('WAV file has no data chunk');
+    await expect(decode('odd.wav', wavFile([fmtChunk({ channels: 1, rate: 8000, bits: 12 }), data]))).rejects.toThrow('12-bit samples are not supported');
+    await expect(decode('no-channels.wav', wavFile([fmtChunk({ channels: 0, rate: 8000, bits: 16 }), data])))
+      .rejects.toThrow('file reports no channels or a zero sample rate');
+    await expect(decode('ulaw.aifc', aiffFile({ channels: 1, rate: 8000, bits: 16 }, [[0]], 'ulaw')))
+      .rejects.toThrow("AIFC compression 'ulaw' is not supported");
+  });
+});
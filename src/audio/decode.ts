@@ -0,0 +1,288 @@
+/**
+ * PCM audio decoding
+ *
+ * Reads uncompressed WAV (RIFF/RF64, integer or float PCM) and AIFF/AIFC
+ * files straight from disk. Only the requested range is read, mixed down to
+ * mono and optionally decimated, so analysing a long music file doesn't mean
+ * holding all of it in memory at full resolution.
+ */
+
+import { promises as fs } from 'fs';
+import { AudioDecodeError, getErrorMessage } from '../utils/errors.js';
+
+type FileHandle = fs.FileHandle;
+
+/** Bytes read from disk per block while decoding samples */
+const READ_BLOCK_BYTES = 1024 * 1024;
+
+interface PcmLayout {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  encoding: 'int' | 'uint' | 'float';
+  littleEndian: boolean;
+  dataOffset: number;
+  frameCount: number;
+}
+
+export interface DecodeOptions {
+  /** Where to start reading, in seconds from the start of the file */
+  start?: number | undefined;
+  /** How much to read, in seconds; defaults to the rest of the file */
+  duration?: number | undefined;
+  /** Decimate by the largest whole factor that keeps at least this rate */
+  minSampleRate?: number | undefined;
+}
+
+export interface DecodedAudio {
+  /** Rate of `samples`, after any decimation */
+  sampleRate: number;
+  /** Rate of the file itself */
+  fileSampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  /** Length of the whole file in seconds */
+  fileDuration: number;
+  /** File time of the first sample, in seconds */
+  start: number;
+  /** Mono mix of the decoded range, in the -1..1 range */
+  samples: Float32Array;
+}
+
+async function readBytes(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * AIFF stores its sample rate as an 80-bit IEEE extended float
+ */
+function readExtendedFloat(buffer: Buffer, offset: number): number {
+  const signAndExponent = buffer.readUInt16BE(offset);
+  const exponent = (signAndExponent & 0x7fff) - 16383;
+  const mantissa = buffer.readUInt32BE(offset + 2) * 2 ** 32 + buffer.readUInt32BE(offset + 6);
+  const value = mantissa * 2 ** (exponent - 63);
+  return signAndExponent & 0x8000 ? -value : value;
+}
+
+async function readWavLayout(path: string, handle: FileHandle, fileSize: number, rf64: boolean): Promise<PcmLayout> {
+  let format: Omit<PcmLayout, 'dataOffset' | 'frameCount'> | undefined;
+  let blockAlign = 0;
+  let rf64DataSize: number | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= fileSize) {
+    const header = await readBytes(handle, offset, 8);
+    if (header.length < 8) {
+      break;
+    }
+    const id = header.toString('ascii', 0, 4);
+    let size = header.readUInt32LE(4);
+
+    if (id === 'ds64') {
+      const body = await readBytes(handle, offset + 8, Math.min(size, 28));
+      rf64DataSize = Number(body.readBigUInt64LE(8));
+    } else if (id === 'fmt ') {
+      const body = await readBytes(handle, offset + 8, Math.min(size, 40));
+      let formatTag = body.readUInt16LE(0);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (formatTag === 0xfffe && body.length >= 26) {
+        formatTag = body.readUInt16LE(24);
+      }
+      const bitsPerSample = body.readUInt16LE(14);
+      if (formatTag !== 1 && formatTag !== 3) {
+        throw new AudioDecodeError(path, `WAV format ${formatTag} is compressed; only PCM and float WAV are supported`);
+      }
+      format = {
+        sampleRate: body.readUInt32LE(4),
+        channels: body.readUInt16LE(2),
+        bitsPerSample,
+        encoding: formatTag === 3 ? 'float' : bitsPerSample === 8 ? 'uint' : 'int',
+        littleEndian: true
+      };
+      blockAlign = body.readUInt16LE(12);
+    } else if (id === 'data') {
+      if (!format) {
+        throw new AudioDecodeError(path, 'WAV data chunk comes before its fmt chunk');
+      }
+      if (rf64 && size === 0xffffffff && rf64DataSize !== undefined) {
+        size = rf64DataSize;
+      }
+      // Streaming writers leave the size unset; trust the file length instead
+      const available = Math.min(size, fileSize - offset - 8);
+      const frameBytes = blockAlign || format.channels * Math.ceil(format.bitsPerSample / 8);
+      return { ...format, dataOffset: offset + 8, frameCount: Math.floor(available / frameBytes) };
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new AudioDecodeError(path, format ? 'WAV file has no data chunk' : 'WAV file has no fmt chunk');
+}
+
+async function readAiffLayout(path: string, handle: FileHandle, fileSize: number, compressed: boolean): Promise<PcmLayout> {
+  let format: Omit<PcmLayout, 'dataOffset' | 'frameCount'> | undefined;
+  let frameCount = 0;
+  let dataOffset: number | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= fileSize) {
+    const header = await readBytes(handle, offset, 8);
+    if (header.length < 8) {
+      break;
+    }
+    const id = header.toString('ascii', 0, 4);
+    const size = header.readUInt32BE(4);
+
+    if (id === 'COMM') {
+      const body = await readBytes(handle, offset + 8, Math.min(size, 26));
+      const bitsPerSample = body.readUInt16BE(6);
+      let encoding: PcmLayout['encoding'] = 'int';
+      let littleEndian = false;
+      if (compressed && body.length >= 22) {
+        const compression = body.toString('ascii', 18, 22);
+        if (compression === 'sowt') {
+          littleEndian = true;
+        } else if (compression === 'fl32' || compression === 'FL32' || compression === 'fl64' || compression === 'FL64') {
+          encoding = 'float';
+        } else if (compression !== 'NONE' && compression !== 'twos') {
+          throw new AudioDecodeError(path, `AIFC compression '${compression}' is not supported`);
+        }
+      }
+      format = {
+        sampleRate: readExtendedFloat(body, 8),
+        channels: body.readUInt16BE(0),
+        bitsPerSample: encoding === 'float' && bitsPerSample !== 64 ? 32 : bitsPerSample,
+        encoding,
+        littleEndian
+      };
+      frameCount = body.readUInt32BE(2);
+    } else if (id === 'SSND') {
+      const body = await readBytes(handle, offset + 8, 8);
+      dataOffset = offset + 16 + body.readUInt32BE(0);
+    }
+
+    if (format && dataOffset !== undefined) {
+      const frameBytes = format.channels * Math.ceil(format.bitsPerSample / 8);
+      const available = Math.floor((fileSize - dataOffset) / frameBytes);
+      return { ...format, dataOffset, frameCount: Math.min(frameCount, available) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new AudioDecodeError(path, format ? 'AIFF file has no SSND chunk' : 'AIFF file has no COMM chunk');
+}
+
+function sampleReader(layout: PcmLayout): (buffer: Buffer, offset: number) => number {
+  const { bitsPerSample, encoding, littleEndian } = layout;
+  if (encoding === 'float') {
+    if (bitsPerSample === 64) {
+      return littleEndian ? (b, o) => b.readDoubleLE(o) : (b, o) => b.readDoubleBE(o);
+    }
+    return littleEndian ? (b, o) => b.readFloatLE(o) : (b, o) => b.readFloatBE(o);
+  }
+  switch (bitsPerSample) {
+    case 8:
+      return encoding === 'uint' ? (b, o) => (b[o]! - 128) / 128 : (b, o) => b.readInt8(o) / 128;
+    case 16:
+      return littleEndian ? (b, o) => b.readInt16LE(o) / 32768 : (b, o) => b.readInt16BE(o) / 32768;
+    case 24:
+      return littleEndian ? (b, o) => b.readIntLE(o, 3) / 8388608 : (b, o) => b.readIntBE(o, 3) / 8388608;
+    case 32:
+      return littleEndian ? (b, o) => b.readInt32LE(o) / 2147483648 : (b, o) => b.readInt32BE(o) / 2147483648;
+    default:
+      throw new Error(`${bitsPerSample}-bit samples are not supported`);
+  }
+}
+
+/**
+ * Decode a WAV or AIFF file to a mono sample buffer
+ */
+export async function decodeAudioFile(path: string, options: DecodeOptions = {}): Promise<DecodedAudio> {
+  let handle: FileHandle;
+  try {
+    handle = await fs.open(path, 'r');
+  } catch (error) {
+    throw new AudioDecodeError(path, 'file could not be opened', error instanceof Error ? error : undefined);
+  }
+
+  try {
+    const { size: fileSize } = await handle.stat();
+    const header = await readBytes(handle, 0, 12);
+    const container = header.toString('ascii', 0, 4);
+    const form = header.toString('ascii', 8, 12);
+
+    let layout: PcmLayout;
+    if ((container === 'RIFF' || container === 'RF64') && form === 'WAVE') {
+      layout = await readWavLayout(path, handle, fileSize, container === 'RF64');
+    } else if (container === 'FORM' && (form === 'AIFF' || form === 'AIFC')) {
+      layout = await readAiffLayout(path, handle, fileSize, form === 'AIFC');
+    } else {
+      throw new AudioDecodeError(path, 'not a WAV or AIFF file; only uncompressed WAV and AIFF can be analysed');
+    }
+
+    if (!layout.sampleRate || !layout.channels) {
+      throw new AudioDecodeError(path, 'file reports no channels or a zero sample rate');
+    }
+
+    let readSample: (buffer: Buffer, offset: number) => number;
+    try {
+      readSample = sampleReader(layout);
+    } catch (error) {
+      throw new AudioDecodeError(path, getErrorMessage(error));
+    }
+
+    const bytesPerSample = Math.ceil(layout.bitsPerSample / 8);
+    const frameBytes = bytesPerSample * layout.channels;
+    const startFrame = Math.min(layout.frameCount, Math.max(0, Math.round((options.start ?? 0) * layout.sampleRate)));
+    const requestedFrames = options.duration !== undefined
+      ? Math.round(options.duration * layout.sampleRate)
+      : layout.frameCount - startFrame;
+    const frameCount = Math.max(0, Math.min(requestedFrames, layout.frameCount - startFrame));
+    const factor = options.minSampleRate
+      ? Math.max(1, Math.floor(layout.sampleRate / options.minSampleRate))
+      : 1;
+
+    // Mix to mono and average each group of `factor` frames as they are read
+    const samples = new Float32Array(Math.floor(frameCount / factor));
+    const framesPerBlock = Math.max(factor, Math.floor(READ_BLOCK_BYTES / frameBytes / factor) * factor);
+    let accumulator = 0;
+    let accumulated = 0;
+    let written = 0;
+
+    for (let frame = 0; frame < frameCount && written < samples.length; frame += framesPerBlock) {
+      const framesInBlock = Math.min(framesPerBlock, frameCount - frame);
+      const block = await readBytes(handle, layout.dataOffset + (startFrame + frame) * frameBytes, framesInBlock * frameBytes);
+      const completeFrames = Math.floor(block.length / frameBytes);
+
+      for (let i = 0; i < completeFrames && written < samples.length; i++) {
+        let sum = 0;
+        for (let channel = 0; channel < layout.channels; channel++) {
+          sum += readSample(block, i * frameBytes + channel * bytesPerSample);
+        }
+        accumulator += sum / layout.channels;
+        if (++accumulated === factor) {
+          samples[written++] = accumulator / factor;
+          accumulator = 0;
+          accumulated = 0;
+        }
+      }
+      if (completeFrames < framesInBlock) {
+        break;
+      }
+    }
+
+    return {
+      sampleRate: layout.sampleRate / factor,
+      fileSampleRate: layout.sampleRate,
+      channels: layout.channels,
+      bitsPerSample: layout.bitsPerSample,
+      fileDuration: layout.frameCount / layout.sampleRate,
+      start: startFrame / layout.sampleRate,
+      samples: written < samples.length ? samples.subarray(0, written) : samples
+    };
+  } finally {
+    await handle.close();
+  }
+}
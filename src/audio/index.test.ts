@@ -0,0 +1,162 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ANALYSIS_SAMPLE_RATE, BeatGrid, DecodedAudio, analyzeAudioFile, detectBeats, selectCutBeats } from './index.js';
+import { AudioDecodeError } from '../utils/errors.js';
+
+/** Decaying clicks on every beat, louder on the first beat of each bar of four */
+function clickSamples(tempo: number, seconds: number, rate = ANALYSIS_SAMPLE_RATE): Float32Array {
+  const samples = new Float32Array(Math.round(rate * seconds));
+  for (let beat = 0; beat * 60 / tempo < seconds; beat++) {
+    const at = Math.round(beat * 60 / tempo * rate);
+    const gain = beat % 4 === 0 ? 0.9 : 0.3;
+    for (let i = 0; i < rate * 0.03 && at + i < samples.length; i++) {
+      samples[at + i] = Math.sin((at + i) * 0.9 * ANALYSIS_SAMPLE_RATE / rate) * Math.exp(-i / rate * 100) * gain;
+    }
+  }
+  return samples;
+}
+
+function decoded(samples: Float32Array): DecodedAudio {
+  return {
+    sampleRate: ANALYSIS_SAMPLE_RATE,
+    fileSampleRate: ANALYSIS_SAMPLE_RATE,
+    channels: 1,
+    bitsPerSample: 16,
+    fileDuration: samples.length / ANALYSIS_SAMPLE_RATE,
+    start: 0,
+    samples
+  };
+}
+
+/** A mono 16-bit WAV of the samples */
+function wavFile(samples: Float32Array, rate: number): Buffer {
+  const wav = Buffer.alloc(44 + samples.length * 2);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples.length * 2, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(rate, 24);
+  wav.writeUInt32LE(rate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples.length * 2, 40);
+  samples.forEach((value, i) => wav.writeInt16LE(Math.round(value * 32767), 44 + i * 2));
+  return wav;
+}
+
+/** Distance from a time to the nearest multiple of an interval */
+function offGrid(time: number, interval: number): number {
+  return Math.abs(time - Math.round(time / interval) * interval);
+}
+
+const EMPTY_GRID: BeatGrid = {
+  tempo: 0,
+  beatInterval: 0,
+  confidence: 0,
+  beats: [],
+  beatStrengths: [],
+  downbeats: [],
+  downbeatOffset: 0,
+  onsets: []
+};
+
+describe('detectBeats', () => {
+  it('finds the tempo, beats and downbeats of a click track', () => {
+    const grid = detectBeats(decoded(clickSamples(120, 10)));
+
+    expect(grid.tempo).toBeCloseTo(120, 0);
+    expect(grid.beatInterval).toBeCloseTo(0.5, 2);
+    expect(grid.confidence).toBeGreaterThan(0.9);
+    expect(grid.beats.length).toBeGreaterThanOrEqual(18);
+    // Each beat lands within a couple of analysis hops of a click
+    for (const beat of grid.beats) {
+      expect(offGrid(beat, 0.5)).toBeLessThan(0.025);
+    }
+    expect(grid.beatStrengths).toHaveLength(grid.beats.length);
+    expect(Math.max(...grid.beatStrengths)).toBe(1);
+    // The loud clicks open each bar, every two seconds
+    expect(grid.downbeats.length).toBeGreaterThanOrEqual(4);
+    for (const downbeat of grid.downbeats) {
+      expect(offGrid(downbeat, 2)).toBeLessThan(0.025);
+    }
+    expect(grid.downbeats[0]).toBe(grid.beats[grid.downbeatOffset]);
+    expect(grid.onsets.length).toBe(grid.beats.length);
+  });
+
+  it('prefers the played tempo to half or double it', () => {
+    expect(detectBeats(decoded(clickSamples(90, 12))).tempo).toBeCloseTo(90, 0);
+    expect(detectBeats(decoded(clickSamples(150, 8))).tempo).toBeCloseTo(150, 0);
+  });
+
+  it('finds nothing in silence', () => {
+    expect(detectBeats(decoded(new Float32Array(ANALYSIS_SAMPLE_RATE * 5)))).toEqual(EMPTY_GRID);
+  });
+
+  it('finds nothing in audio too short to analyse', () => {
+    expect(detectBeats(decoded(new Float32Array(0)))).toEqual(EMPTY_GRID);
+    // One analysis frame is 512 samples and the envelope needs two of them
+    expect(detectBeats(decoded(clickSamples(120, 0.05)))).toEqual(EMPTY_GRID);
+  });
+});
+
+describe('selectCutBeats', () => {
+  const grid: BeatGrid = {
+    ...EMPTY_GRID,
+    tempo: 120,
+    beatInterval: 0.5,
+    confidence: 1,
+    beats: Array.from({ length: 18 }, (_, i) => i / 2),
+    beatStrengths: Array.from({ length: 18 }, (_, i) => (i % 4 === 1 ? 1 : i % 2 === 1 ? 0.6 : 0.2)),
+    downbeats: [0.5, 2.5, 4.5, 6.5, 8.5],
+    downbeatOffset: 1
+  };
+
+  it('cuts on a regular grid from the first downbeat, sparser at lower sensitivity', () => {
+    expect(selectCutBeats(grid, 'cuts_only', 90)).toEqual(grid.beats.slice(1));
+    expect(selectCutBeats(grid, 'cuts_only', 70)).toEqual([0.5, 1.5, 2.5, 3.5, 4.5, 5.5, 6.5, 7.5, 8.5]);
+    expect(selectCutBeats(grid, 'cuts_and_transitions', 50)).toEqual(grid.downbeats);
+    expect(selectCutBeats(grid, 'cuts_only', 10)).toEqual([0.5, 4.5, 8.5]);
+  });
+
+  it('follows accents for beat sync, falling back to downbeats', () => {
+    expect(selectCutBeats(grid, 'beat_sync', 0)).toEqual(grid.downbeats);
+    expect(selectCutBeats(grid, 'beat_sync', 50)).toEqual([0.5, 1.5, 2.5, 3.5, 4.5, 5.5, 6.5, 7.5, 8.5]);
+    expect(selectCutBeats(grid, 'beat_sync', 100)).toEqual(grid.beats);
+    expect(selectCutBeats({ ...grid, beatStrengths: grid.beats.map(() => 0) }, 'beat_sync', 50)).toEqual(grid.downbeats);
+  });
+});
+
+describe('analyzeAudioFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'premiere-audio-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decimates a range of the file and times beats from its start', async () => {
+    const path = join(dir, 'music.wav');
+    writeFileSync(path, wavFile(clickSamples(120, 8, 22050), 22050));
+
+    const grid = await analyzeAudioFile(path, { start: 1.25, duration: 5 });
+    expect(grid.tempo).toBeCloseTo(120, 0);
+    // Clicks fall on whole and half seconds of the file, so a quarter second off the range start
+    for (const beat of grid.beats) {
+      expect(offGrid(beat + 1.25, 0.5)).toBeLessThan(0.025);
+    }
+    expect(grid.beats[grid.beats.length - 1]).toBeLessThan(5);
+  });
+
+  it('fails for audio it cannot decode', async () => {
+    const path = join(dir, 'music.mp3');
+    writeFileSync(path, 'ID3 not really an mp3');
+    await expect(analyzeAudioFile(path)).rejects.toThrow(AudioDecodeError);
+  });
+});
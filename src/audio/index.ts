@@ -0,0 +1,438 @@
+/**
+ * Beat detection for music-driven editing
+ *
+ * Builds an onset strength envelope from the spectral flux of the decoded
+ * audio, estimates the tempo from its autocorrelation, then tracks beats
+ * with dynamic programming (Ellis, "Beat Tracking by Dynamic Programming",
+ * 2007): each beat is placed where the envelope is strong while keeping the
+ * spacing close to the tempo. The resulting grid drives the cut lists for
+ * auto_edit_to_music.
+ */
+
+import { DecodedAudio, decodeAudioFile, DecodeOptions } from './decode.js';
+
+export { decodeAudioFile } from './decode.js';
+export type { DecodedAudio, DecodeOptions } from './decode.js';
+
+/** Analysis runs on audio decimated to roughly this rate */
+export const ANALYSIS_SAMPLE_RATE = 11025;
+
+/** FFT size and hop, about 46 ms and 12 ms at the analysis rate */
+const FRAME_SIZE = 512;
+const HOP_SIZE = 128;
+
+/**
+ * Spectrum bins are pooled into log-spaced bands before taking the flux, so
+ * a kick drum in a few low bins counts as much as a hi-hat spread across
+ * hundreds of high ones
+ */
+const FLUX_BANDS = 24;
+
+/** Tempo search range, and the tempo preferred when candidates are close */
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 200;
+const PREFERRED_TEMPO = 120;
+/** Width of the tempo preference, in octaves */
+const TEMPO_PREFERENCE_WIDTH = 1;
+
+/** How strongly beat spacing is held to the tempo while tracking */
+const TRACKING_TIGHTNESS = 100;
+
+/** Beats per bar; downbeats are picked assuming common time */
+const BEATS_PER_BAR = 4;
+
+export type BeatEditStyle = 'cuts_only' | 'cuts_and_transitions' | 'beat_sync';
+
+export interface BeatDetectionOptions {
+  /** 0-100; higher values report quieter onsets and accept weaker accents */
+  sensitivity?: number | undefined;
+}
+
+export interface BeatGrid {
+  /** Beats per minute */
+  tempo: number;
+  /** Seconds between beats */
+  beatInterval: number;
+  /** How clearly the audio has a pulse at that tempo, 0-1 */
+  confidence: number;
+  /** Beat times in seconds from the start of the analysed audio */
+  beats: number[];
+  /** Relative accent of each beat, 0-1 */
+  beatStrengths: number[];
+  /** First beat of each bar */
+  downbeats: number[];
+  /** Index into `beats` of the first downbeat */
+  downbeatOffset: number;
+  /** Onsets above the sensitivity threshold, in seconds */
+  onsets: number[];
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j]!, real[i]!];
+      [imag[i], imag[j]] = [imag[j]!, imag[i]!];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b]! * wReal - imag[b]! * wImag;
+        const tImag = real[b]! * wImag + imag[b]! * wReal;
+        real[b] = real[a]! - tReal;
+        imag[b] = imag[a]! - tImag;
+        real[a] = real[a]! + tReal;
+        imag[a] = imag[a]! + tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Upper bin (exclusive) of each flux band, geometrically spaced from the
+ * first bin above DC to Nyquist
+ */
+function bandEdges(bins: number): number[] {
+  const edges: number[] = [];
+  for (let band = 1; band <= FLUX_BANDS; band++) {
+    const edge = Math.round(bins ** (band / FLUX_BANDS));
+    edges.push(Math.min(bins, Math.max(edge, (edges[edges.length - 1] ?? 1) + 1)));
+  }
+  return edges;
+}
+
+/**
+ * Half-wave rectified spectral flux of the log-magnitude band energies, one
+ * value per hop, normalised to a peak of 1
+ */
+function onsetEnvelope(samples: Float32Array): Float64Array {
+  const frames = samples.length >= FRAME_SIZE ? Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1 : 0;
+  const envelope = new Float64Array(frames);
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME_SIZE);
+  }
+
+  const edges = bandEdges(FRAME_SIZE / 2);
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+  let previous = new Float64Array(edges.length);
+  let current = new Float64Array(edges.length);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i]! * window[i]!;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let flux = 0;
+    let bin = 1;
+    for (let band = 0; band < edges.length; band++) {
+      let magnitude = 0;
+      const first = bin;
+      for (; bin < edges[band]!; bin++) {
+        magnitude += Math.hypot(real[bin]!, imag[bin]!);
+      }
+      current[band] = Math.log1p(100 * magnitude / (bin - first));
+      if (frame > 0) {
+        flux += Math.max(0, current[band]! - previous[band]!);
+      }
+    }
+    envelope[frame] = flux;
+    [previous, current] = [current, previous];
+  }
+
+  let peak = 0;
+  for (const value of envelope) {
+    peak = Math.max(peak, value);
+  }
+  if (peak > 0) {
+    for (let i = 0; i < frames; i++) {
+      envelope[i] = envelope[i]! / peak;
+    }
+  }
+  return envelope;
+}
+
+/**
+ * Local maxima that stand clear of the surrounding average by a margin that
+ * shrinks as sensitivity rises
+ */
+function pickOnsets(envelope: Float64Array, sensitivity: number): number[] {
+  const margin = 0.02 + 0.3 * (1 - sensitivity / 100);
+  const averageRadius = 16;
+  const peakRadius = 3;
+  const onsets: number[] = [];
+
+  for (let i = 0; i < envelope.length; i++) {
+    const value = envelope[i]!;
+    let isPeak = true;
+    for (let j = Math.max(0, i - peakRadius); j <= Math.min(envelope.length - 1, i + peakRadius) && isPeak; j++) {
+      if (envelope[j]! > value || (envelope[j] === value && j < i)) {
+        isPeak = false;
+      }
+    }
+    if (!isPeak) {
+      continue;
+    }
+
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - averageRadius); j <= Math.min(envelope.length - 1, i + averageRadius); j++) {
+      sum += envelope[j]!;
+      count++;
+    }
+    if (value >= sum / count + margin) {
+      onsets.push(i);
+    }
+  }
+  return onsets;
+}
+
+/**
+ * Beat period in frames from the autocorrelation of the envelope, weighted
+ * towards PREFERRED_TEMPO so half and double tempo don't win on a tie
+ */
+function estimatePeriod(envelope: Float64Array, framesPerSecond: number): { period: number; confidence: number } {
+  const minLag = Math.max(1, Math.floor(framesPerSecond * 60 / MAX_TEMPO));
+  const maxLag = Math.min(envelope.length - 1, Math.ceil(framesPerSecond * 60 / MIN_TEMPO));
+
+  // Sharp onsets can be a single frame wide, and a period between two whole
+  // lags would then line them up at neither; spreading each over its
+  // neighbours keeps the nearest lag from losing out to twice the period
+  const smoothed = new Float64Array(envelope.length);
+  for (let i = 0; i < envelope.length; i++) {
+    smoothed[i] = 0.5 * envelope[i]! + 0.25 * ((envelope[i - 1] ?? 0) + (envelope[i + 1] ?? 0));
+  }
+  let mean = 0;
+  for (const value of smoothed) {
+    mean += value;
+  }
+  mean /= smoothed.length || 1;
+
+  const correlation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < smoothed.length; i++) {
+      sum += (smoothed[i]! - mean) * (smoothed[i - lag]! - mean);
+    }
+    return sum / (smoothed.length - lag);
+  };
+
+  const energy = correlation(0);
+  const scores = new Map<number, number>();
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const tempo = 60 * framesPerSecond / lag;
+    const preference = Math.exp(-0.5 * (Math.log2(tempo / PREFERRED_TEMPO) / TEMPO_PREFERENCE_WIDTH) ** 2);
+    const score = correlation(lag) * preference;
+    scores.set(lag, score);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (!bestLag || energy <= 0) {
+    return { period: framesPerSecond * 60 / PREFERRED_TEMPO, confidence: 0 };
+  }
+
+  // Parabolic interpolation between neighbouring lags for a fractional period
+  let period = bestLag;
+  const before = scores.get(bestLag - 1);
+  const after = scores.get(bestLag + 1);
+  if (before !== undefined && after !== undefined) {
+    const curvature = before - 2 * bestScore + after;
+    if (curvature < 0) {
+      period += 0.5 * (before - after) / curvature;
+    }
+  }
+
+  return { period, confidence: Math.max(0, Math.min(1, correlation(bestLag) / energy)) };
+}
+
+/**
+ * Dynamic-programming beat tracker; returns beat positions in frames
+ */
+function trackBeats(envelope: Float64Array, period: number): { beats: number[]; localScore: Float64Array } {
+  const length = envelope.length;
+
+  // Smooth the envelope with a Gaussian a fraction of a beat wide
+  const radius = Math.max(1, Math.round(period));
+  const kernel = new Float64Array(2 * radius + 1);
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-0.5 * (k * 32 / period) ** 2);
+  }
+  const localScore = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let k = Math.max(-radius, -i); k <= radius && i + k < length; k++) {
+      sum += envelope[i + k]! * kernel[k + radius]!;
+    }
+    localScore[i] = sum;
+  }
+
+  const score = new Float64Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+  const earliest = Math.round(2 * period);
+  const latest = Math.max(1, Math.round(period / 2));
+
+  for (let i = 0; i < length; i++) {
+    let best = -Infinity;
+    let bestIndex = -1;
+    for (let previous = Math.max(0, i - earliest); previous <= i - latest; previous++) {
+      const candidate = score[previous]! - TRACKING_TIGHTNESS * Math.log((i - previous) / period) ** 2;
+      if (candidate > best) {
+        best = candidate;
+        bestIndex = previous;
+      }
+    }
+    if (bestIndex >= 0 && best > 0) {
+      score[i] = localScore[i]! + best;
+      backlink[i] = bestIndex;
+    } else {
+      score[i] = localScore[i]!;
+    }
+  }
+
+  // The last beat is the best-scoring frame within a beat of the end
+  let last = -1;
+  for (let i = Math.max(0, length - Math.ceil(period)); i < length; i++) {
+    if (last < 0 || score[i]! > score[last]!) {
+      last = i;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let i = last; i >= 0; i = backlink[i]!) {
+    beats.unshift(i);
+  }
+
+  // Drop weak beats at either end, where the music fades in or out
+  const strengths = beats.map(beat => localScore[beat]!).sort((a, b) => a - b);
+  const floor = 0.5 * (strengths[Math.floor(strengths.length / 2)] ?? 0);
+  while (beats.length > 1 && localScore[beats[0]!]! < floor) {
+    beats.shift();
+  }
+  while (beats.length > 1 && localScore[beats[beats.length - 1]!]! < floor) {
+    beats.pop();
+  }
+
+  return { beats, localScore };
+}
+
+/**
+ * Detect tempo, beats, downbeats and onsets in decoded audio
+ */
+export function detectBeats(audio: DecodedAudio, options: BeatDetectionOptions = {}): BeatGrid {
+  const sensitivity = Math.max(0, Math.min(100, options.sensitivity ?? 50));
+  const envelope = onsetEnvelope(audio.samples);
+  const framesPerSecond = audio.sampleRate / HOP_SIZE;
+  // Hann-windowed frames respond most strongly to onsets near their centre
+  const frameTime = (frame: number) => (frame * HOP_SIZE + FRAME_SIZE / 2) / audio.sampleRate;
+
+  // Too short for two analysis frames, or silent throughout: there is no pulse to track
+  if (envelope.length < 2 || envelope.every(value => value === 0)) {
+    return {
+      tempo: 0,
+      beatInterval: 0,
+      confidence: 0,
+      beats: [],
+      beatStrengths: [],
+      downbeats: [],
+      downbeatOffset: 0,
+      onsets: []
+    };
+  }
+
+  const { period, confidence } = estimatePeriod(envelope, framesPerSecond);
+  const { beats, localScore } = trackBeats(envelope, period);
+
+  // Strengths are spread over 0-1 so accents stand out from the other beats
+  const scores = beats.map(beat => localScore[beat]!);
+  const weakest = Math.min(...scores);
+  const strongest = Math.max(...scores);
+  const beatStrengths = scores.map(value => (strongest > weakest ? (value - weakest) / (strongest - weakest) : 1));
+
+  // The bar phase whose beats carry the most accent is taken as the downbeat
+  let downbeatOffset = 0;
+  let bestAccent = -Infinity;
+  for (let phase = 0; phase < Math.min(BEATS_PER_BAR, beats.length); phase++) {
+    let accent = 0;
+    let count = 0;
+    for (let i = phase; i < beats.length; i += BEATS_PER_BAR) {
+      accent += beatStrengths[i]!;
+      count++;
+    }
+    if (accent / count > bestAccent) {
+      bestAccent = accent / count;
+      downbeatOffset = phase;
+    }
+  }
+
+  const beatTimes = beats.map(frameTime);
+  return {
+    tempo: 60 * framesPerSecond / period,
+    beatInterval: period / framesPerSecond,
+    confidence,
+    beats: beatTimes,
+    beatStrengths,
+    downbeats: beatTimes.filter((_, i) => i >= downbeatOffset && (i - downbeatOffset) % BEATS_PER_BAR === 0),
+    downbeatOffset,
+    onsets: pickOnsets(envelope, sensitivity).map(frameTime)
+  };
+}
+
+/**
+ * Decode part of an audio file and detect its beats. Times in the grid are
+ * relative to `start`.
+ */
+export async function analyzeAudioFile(path: string, options: BeatDetectionOptions & DecodeOptions = {}): Promise<BeatGrid> {
+  const audio = await decodeAudioFile(path, {
+    start: options.start,
+    duration: options.duration,
+    minSampleRate: ANALYSIS_SAMPLE_RATE
+  });
+  return detectBeats(audio, options);
+}
+
+/**
+ * Beats to cut on for an edit style.
+ *
+ * `cuts_only` and `cuts_and_transitions` cut on a regular grid starting at
+ * the first downbeat, every beat at high sensitivity down to every two bars
+ * at low sensitivity. `beat_sync` follows the music's accents instead: it
+ * cuts on every beat whose strength clears a threshold set by sensitivity,
+ * falling back to downbeats when none do.
+ */
+export function selectCutBeats(grid: BeatGrid, style: BeatEditStyle, sensitivity = 50): number[] {
+  if (style === 'beat_sync') {
+    const threshold = 0.9 - 0.8 * Math.max(0, Math.min(100, sensitivity)) / 100;
+    const accents = grid.beats.filter((_, i) => grid.beatStrengths[i]! >= threshold);
+    return accents.length > 0 ? accents : grid.downbeats;
+  }
+
+  const stride = sensitivity >= 80 ? 1 : sensitivity >= 60 ? 2 : sensitivity >= 30 ? BEATS_PER_BAR : 2 * BEATS_PER_BAR;
+  return grid.beats.filter((_, i) => i >= grid.downbeatOffset && (i - grid.downbeatOffset) % stride === 0);
+}
@@ -16,6 +16,10 @@ import {
   PremiereErrorCode,
   getErrorMessage,
 } from '../utils/errors.js';
+import { UxpSocketServer } from './websocket.js';
+import { buildScript } from './script.js';
+import { PremiereProSimulator } from '../simulator/index.js';
+import { TimeValue, TIME_SCRIPT_HELPERS, parseTimeOffset, parseTimeValue } from '../utils/time.js';
 import { ChildProcess } from 'child_process';
 import { promises as fs } from 'fs';
 import { join } from 'path';
@@ -27,6 +31,373 @@ const DEFAULT_RESPONSE_TIMEOUT_MS = 30000;
 /** Polling interval when waiting for response files in milliseconds */
 const RESPONSE_POLL_INTERVAL_MS = 100;
 
+/** Port the UXP panel connects to; matches the panel's default "Server Port" */
+const DEFAULT_SOCKET_PORT = 3000;
+
+/** The socket only listens on loopback so scripts can't be pushed from other machines */
+const DEFAULT_SOCKET_HOST = '127.0.0.1';
+
+/**
+ * ExtendScript for reading and writing markers, for scripts that also
+ * splice in TIME_SCRIPT_HELPERS. `markerTarget` resolves a sequence or a
+ * clip to its marker collection; clip markers live on the clip's source
+ * item in media time, so the target converts to and from timeline seconds.
+ */
+const MARKER_SCRIPT_HELPERS = `
+        function markerSeconds(time) {
+          return time.ticks !== undefined ? Number(time.ticks) / TICKS_PER_SECOND : Number(time.seconds);
+        }
+
+        function sameTime(seconds) {
+          return seconds;
+        }
+
+        function markerTarget(target) {
+          if (target.clipId) {
+            var clip = app.project.getClipByID(target.clipId);
+            if (!clip) {
+              throw new Error('Clip not found: ' + target.clipId);
+            }
+            if (!clip.projectItem || !clip.projectItem.getMarkers) {
+              throw new Error('Clip has no source item to hold markers: ' + target.clipId);
+            }
+            var clipStart = markerSeconds(clip.start);
+            var clipIn = markerSeconds(clip.inPoint);
+            var speed = Math.abs((clip.getSpeed ? clip.getSpeed() : 1) || 1);
+            return {
+              sequence: clipSequence(clip),
+              markers: clip.projectItem.getMarkers(),
+              toTimeline: function (seconds) { return clipStart + (seconds - clipIn) / speed; },
+              toMarker: function (seconds) { return clipIn + (seconds - clipStart) * speed; }
+            };
+          }
+          var sequence = app.project.getSequenceByID(target.sequenceId);
+          if (!sequence) {
+            throw new Error('Sequence not found: ' + target.sequenceId);
+          }
+          return { sequence: sequence, markers: sequence.markers, toTimeline: sameTime, toMarker: sameTime };
+        }
+
+        // Time specs from the caller, as timeline seconds on the sequence's frame grid
+        function resolveTimes(model, sequence) {
+          var resolved = {};
+          for (var key in model) {
+            resolved[key] = model[key];
+          }
+          var times = ['start', 'end', 'duration'];
+          for (var t = 0; t < times.length; t++) {
+            if (model[times[t]]) {
+              resolved[times[t]] = specTicks(model[times[t]], sequence) / TICKS_PER_SECOND;
+            }
+          }
+          return resolved;
+        }
+
+        function findMarker(markers, id) {
+          for (var m = 0; markers && m < markers.numMarkers; m++) {
+            if (markers[m].guid === id) {
+              return markers[m];
+            }
+          }
+          return null;
+        }
+
+        function readMarker(marker, toTimeline) {
+          var convert = toTimeline || sameTime;
+          var result = {
+            id: marker.guid,
+            name: marker.name,
+            comment: marker.comments,
+            start: convert(markerSeconds(marker.start)),
+            end: convert(markerSeconds(marker.end)),
+            type: marker.type,
+            color: typeof marker.getColorByIndex === 'function' ? marker.getColorByIndex() : marker.color
+          };
+          if (marker.type === 'WebLink') {
+            result.url = typeof marker.getWebLinkURL === 'function' ? marker.getWebLinkURL() : marker.url;
+            result.frameTarget = typeof marker.getWebLinkFrameTarget === 'function' ? marker.getWebLinkFrameTarget() : marker.frameTarget;
+          }
+          return result;
+        }
+
+        // Timeline seconds in, applied to a marker; unset fields are left as they are.
+        // An end or a duration sets the length, otherwise moving the marker keeps it.
+        function applyMarker(marker, model, toMarker) {
+          var convert = toMarker || sameTime;
+          if (model.name !== undefined && model.name !== null) marker.name = model.name;
+          if (model.comment !== undefined && model.comment !== null) marker.comments = model.comment;
+          var start = markerSeconds(marker.start);
+          var length = markerSeconds(marker.end) - start;
+          if (model.start !== undefined && model.start !== null) {
+            start = convert(model.start);
+            marker.start = ticksTime(Math.round(start * TICKS_PER_SECOND));
+          }
+          if (model.end !== undefined && model.end !== null) {
+            length = Math.max(0, convert(model.end) - start);
+          } else if (model.duration !== undefined && model.duration !== null) {
+            length = Math.max(0, convert(model.duration) - convert(0));
+          }
+          marker.end = ticksTime(Math.round((start + length) * TICKS_PER_SECOND));
+
+          // Premiere sets type and color through methods; older hosts take plain properties
+          if (model.type === 'WebLink' && typeof marker.setTypeAsWebLink === 'function') {
+            marker.setTypeAsWebLink(model.url || '', model.frameTarget || '');
+          } else if (model.type && typeof marker['setTypeAs' + model.type] === 'function') {
+            marker['setTypeAs' + model.type]();
+          } else if (model.type) {
+            marker.type = model.type;
+          }
+          if (model.color !== undefined && model.color !== null) {
+            if (typeof marker.setColorByIndex === 'function') {
+              marker.setColorByIndex(model.color);
+            } else {
+              marker.color = model.color;
+            }
+          }
+        }
+`;
+
+/** Interpolation as setInterpolationTypeAtKey numbers it */
+const KEYFRAME_INTERPOLATION: Record<PremiereProInterpolation, number> = { linear: 0, hold: 4, bezier: 5 };
+
+/**
+ * ExtendScript for reading and writing a clip's component parameters, for
+ * scripts that also splice in TIME_SCRIPT_HELPERS. Keyframes are stored at
+ * source times; callers see them as offsets from the clip's start on the
+ * timeline, converted through the clip's in point and speed.
+ */
+const COMPONENT_SCRIPT_HELPERS = `
+        var INTERPOLATION_NAMES = ${JSON.stringify(Object.fromEntries(Object.entries(KEYFRAME_INTERPOLATION).map(([name, code]) => [code, name])))};
+
+        function clipTimes(clip) {
+          return {
+            inPoint: Number(clip.inPoint.ticks),
+            duration: Number(clip.duration.ticks),
+            speed: Math.abs((clip.getSpeed ? clip.getSpeed() : 1) || 1)
+          };
+        }
+
+        function keyOffset(key, times) {
+          return (Number(key.ticks) - times.inPoint) / times.speed / TICKS_PER_SECOND;
+        }
+
+        function keyTime(offsetTicks, times) {
+          return ticksTime(Math.round(times.inPoint + offsetTicks * times.speed));
+        }
+
+        function keyframeTicks(spec, label, sequence, times) {
+          var offset = specTicks(spec, sequence);
+          if (offset < 0 || offset > times.duration) {
+            throw new Error(label + ' keyframe at ' + offset / TICKS_PER_SECOND + 's is outside the clip, which lasts ' + times.duration / TICKS_PER_SECOND + 's');
+          }
+          return offset;
+        }
+
+        // The parameter's keyframe within half a frame of a time, so keys set off the frame grid still match
+        function findKey(param, offsetTicks, sequence, times) {
+          var keys = param.isTimeVarying() ? param.getKeys() || [] : [];
+          var wanted = Number(keyTime(offsetTicks, times).ticks);
+          for (var k = 0; k < keys.length; k++) {
+            if (Math.abs(Number(keys[k].ticks) - wanted) < frameTicks(sequence) / 2) {
+              return keys[k];
+            }
+          }
+          return null;
+        }
+
+        // Components go by display name or match name, parameters by display name
+        function findComponent(clip, name) {
+          for (var c = 0; c < clip.components.numItems; c++) {
+            var component = clip.components[c];
+            if (component.displayName === name || component.matchName === name) {
+              return component;
+            }
+          }
+          return null;
+        }
+
+        function findParameter(component, name) {
+          for (var p = 0; p < component.properties.numItems; p++) {
+            if (component.properties[p].displayName === name) {
+              return component.properties[p];
+            }
+          }
+          return null;
+        }
+
+        // Null when the host can't say, or for modes without a name here such as auto bezier
+        function readInterpolation(param, key) {
+          if (typeof param.getInterpolationTypeAtKey !== 'function') {
+            return null;
+          }
+          try {
+            return INTERPOLATION_NAMES[param.getInterpolationTypeAtKey(key)] || null;
+          } catch (e) {
+            return null;
+          }
+        }
+
+        function readParameter(param, times) {
+          var value = null;
+          try {
+            value = param.getValue();
+          } catch (e) {
+            // Some parameters hold data scripting can't read
+          }
+          var animated = !!(param.isTimeVarying && param.isTimeVarying());
+          var keyframes = [];
+          var keys = animated ? param.getKeys() || [] : [];
+          for (var k = 0; k < keys.length; k++) {
+            keyframes.push({
+              time: keyOffset(keys[k], times),
+              value: param.getValueAtKey(keys[k]),
+              interpolation: readInterpolation(param, keys[k])
+            });
+          }
+          return {
+            name: param.displayName,
+            value: value,
+            keyframeable: param.areKeyframesSupported ? !!param.areKeyframesSupported() : true,
+            animated: animated,
+            keyframes: keyframes
+          };
+        }
+
+        function readComponents(clip) {
+          var times = clipTimes(clip);
+          var components = [];
+          for (var c = 0; c < clip.components.numItems; c++) {
+            var component = clip.components[c];
+            var parameters = [];
+            for (var p = 0; p < component.properties.numItems; p++) {
+              parameters.push(readParameter(component.properties[p], times));
+            }
+            components.push({ name: component.displayName, matchName: component.matchName, index: c, parameters: parameters });
+          }
+          return components;
+        }
+
+        function readClipComponents(clip) {
+          var sequence = clipSequence(clip);
+          return {
+            clipId: clip.nodeId,
+            name: clip.name,
+            trackType: clip.mediaType === 'Audio' ? 'audio' : 'video',
+            duration: clip.duration.seconds,
+            frameWidth: sequence ? Number(sequence.frameSizeHorizontal) : null,
+            frameHeight: sequence ? Number(sequence.frameSizeVertical) : null,
+            components: readComponents(clip)
+          };
+        }
+`;
+
+/**
+ * ExtendScript for reading and changing tracks. Sync lock, and adding or
+ * removing tracks, are only reachable through the QE DOM, which only sees
+ * the active sequence: `withQeSequence` makes the sequence active for the
+ * length of an action and then reopens whichever sequence was active.
+ */
+export const TRACK_SCRIPT_HELPERS = `
+        function sequenceTracks(sequence, type) {
+          return type === 'audio' ? sequence.audioTracks : sequence.videoTracks;
+        }
+
+        function sequenceTrack(sequence, type, index) {
+          var tracks = sequenceTracks(sequence, type);
+          if (index < 0 || index >= tracks.numTracks) {
+            throw new Error('Sequence has no ' + type + ' track ' + index);
+          }
+          return tracks[index];
+        }
+
+        function withQeSequence(sequence, action) {
+          app.enableQE();
+          var previous = app.project.activeSequence;
+          var switched = !previous || previous.sequenceID !== sequence.sequenceID;
+          if (switched) {
+            app.project.openSequence(sequence.sequenceID);
+          }
+          try {
+            var qeSequence = qe.project.getActiveSequence();
+            if (!qeSequence) {
+              throw new Error('Could not open sequence: ' + sequence.sequenceID);
+            }
+            return action(qeSequence);
+          } finally {
+            if (switched && previous) {
+              app.project.openSequence(previous.sequenceID);
+            }
+          }
+        }
+
+        function qeTrack(qeSequence, type, index) {
+          return type === 'audio' ? qeSequence.getAudioTrackAt(index) : qeSequence.getVideoTrackAt(index);
+        }
+
+        // Video tracks are hidden and audio tracks muted by the same call
+        function readTrackState(sequence, type, index, qeSequence) {
+          var track = sequenceTrack(sequence, type, index);
+          var state = {
+            type: type,
+            index: index,
+            name: track.name || (type === 'audio' ? 'Audio ' : 'Video ') + (index + 1),
+            locked: track.isLocked(),
+            targeted: track.isTargeted(),
+            syncLocked: qeSequence ? qeTrack(qeSequence, type, index).isSyncLocked() : null,
+            clipCount: track.clips.numItems
+          };
+          if (type === 'audio') {
+            state.muted = track.isMuted();
+          } else {
+            state.visible = !track.isMuted();
+          }
+          return state;
+        }
+`;
+
+/**
+ * ExtendScript for importing a file. `project.importFiles` only says whether
+ * the import worked, so `importFile` finds the new item in the target bin:
+ * a child that wasn't there before with the file's media path, or failing
+ * that its name. Premiere may reuse an item already holding the file, so
+ * existing children with the path are the last resort.
+ */
+export const IMPORT_SCRIPT_HELPERS = `
+        function importFile(path, bin) {
+          var before = {};
+          for (var b = 0; b < bin.children.numItems; b++) {
+            before[bin.children[b].nodeId] = true;
+          }
+          if (!app.project.importFiles([path], true, bin, false)) {
+            throw new Error('Premiere Pro could not import ' + path);
+          }
+
+          var fsName = new File(path).fsName;
+          var fileName = path.replace(/^.*[\\\\/]/, '');
+          var byName = null;
+          var existing = null;
+          for (var c = bin.children.numItems - 1; c >= 0; c--) {
+            var child = bin.children[c];
+            var mediaPath = child.getMediaPath ? child.getMediaPath() : '';
+            var samePath = mediaPath === path || mediaPath === fsName;
+            if (!before[child.nodeId]) {
+              if (samePath) {
+                return child;
+              }
+              if (!byName && child.name === fileName) {
+                byName = child;
+              }
+            } else if (!existing && samePath) {
+              existing = child;
+            }
+          }
+          if (byName || existing) {
+            return byName || existing;
+          }
+          throw new Error('Imported ' + path + ' but could not find it in bin ' + bin.name);
+        }
+`;
+
 export interface PremiereProProject {
   id: string;
   name: string;
@@ -43,6 +414,14 @@ export interface PremiereProSequence {
   frameRate: number;
   videoTracks: PremiereProTrack[];
   audioTracks: PremiereProTrack[];
+  /** Ticks per frame; set when the sequence is read with getSequence */
+  timebase?: number;
+  /** Timeline time of the sequence's first frame, in seconds */
+  zeroPoint?: number;
+  width?: number;
+  height?: number;
+  audioSampleRate?: number;
+  markers?: PremiereProMarker[];
 }
 
 export interface PremiereProTrack {
@@ -50,8 +429,16 @@ export interface PremiereProTrack {
   name: string;
   type: 'video' | 'audio';
   clips: PremiereProClip[];
+  index?: number;
+  locked?: boolean;
+  muted?: boolean;
+  transitions?: PremiereProTransition[];
 }
 
+/**
+ * Clip times are in seconds. For clips read with getSequence, `inPoint` and
+ * `outPoint` are the source range and `start`/`end` the timeline position.
+ */
 export interface PremiereProClip {
   id: string;
   name: string;
@@ -59,6 +446,68 @@ export interface PremiereProClip {
   outPoint: number;
   duration: number;
   mediaPath?: string;
+  start?: number;
+  end?: number;
+  projectItemId?: string;
+  mediaType?: 'video' | 'audio';
+  speed?: number;
+  enabled?: boolean;
+  linkedClipIds?: string[];
+  /** Tape name from the media's XMP metadata, when it has one */
+  reelName?: string;
+  /** Source timecode of the media's first frame, in seconds */
+  mediaStart?: number;
+  /** Clip volume in dB, for audio clips */
+  audioLevel?: number;
+  /** Display names of the effects applied to the clip, in order, excluding intrinsic ones */
+  effects?: string[];
+}
+
+export interface PremiereProTransition {
+  id?: string;
+  name: string;
+  matchName?: string;
+  /** Timeline range in seconds */
+  start: number;
+  end: number;
+}
+
+export interface PremiereProMarker {
+  id?: string;
+  name: string;
+  comment: string;
+  /** Timeline range in seconds; markers without a duration end where they start */
+  start: number;
+  end: number;
+  /** Comment, Chapter, Segmentation or WebLink */
+  type?: string;
+  /** Color index: green, red, purple, orange, yellow, white, blue, cyan */
+  color?: number;
+  /** Link and frame target of WebLink markers */
+  url?: string;
+  frameTarget?: string;
+}
+
+/** Markers of a sequence, or of a clip (held by its source item); set exactly one */
+export interface PremiereProMarkerTarget {
+  sequenceId?: string | undefined;
+  clipId?: string | undefined;
+}
+
+/**
+ * Marker fields to set, with times on the timeline. Unset fields are left
+ * alone when updating; `duration` is used when `end` isn't given.
+ */
+export interface PremiereProMarkerChanges {
+  name?: string | undefined;
+  comment?: string | undefined;
+  start?: TimeValue | undefined;
+  end?: TimeValue | undefined;
+  duration?: TimeValue | undefined;
+  type?: 'Comment' | 'Chapter' | 'Segmentation' | 'WebLink' | undefined;
+  color?: number | undefined;
+  url?: string | undefined;
+  frameTarget?: string | undefined;
 }
 
 export interface PremiereProProjectItem {
@@ -68,6 +517,294 @@ export interface PremiereProProjectItem {
   mediaPath?: string;
   duration?: number;
   frameRate?: number;
+  /** Tape name from the media's XMP metadata, when it has one */
+  reelName?: string;
+  /** Source timecode of the media's first frame, in seconds */
+  mediaStart?: number;
+  /** Length of the whole media, in seconds, whatever in and out marks are set */
+  mediaDuration?: number;
+  /** Whether the item's media file is missing; its mediaPath is then the last known path */
+  offline?: boolean;
+  /** Bins the item sits in, from the top of the project, separated by slashes; empty at the top */
+  bin?: string;
+}
+
+/**
+ * What buildSequence made of a sequence model: the clip each model clip
+ * became, the transitions that were applied, and anything it couldn't place
+ */
+export interface PremiereProSequenceBuildResult {
+  sequenceId: string;
+  name: string;
+  clips: Array<{ modelClipId: string; clipId: string; trackType: 'video' | 'audio'; trackIndex: number; start: number; end: number }>;
+  transitions: Array<{ trackType: 'video' | 'audio'; trackIndex: number; name: string; start: number; end: number; alignment: 'start' | 'center' | 'end' }>;
+  markers: number;
+  failures: Array<{ trackType: 'video' | 'audio'; trackIndex: number; modelClipId?: string; modelTransitionId?: string; transition?: string; effect?: string; start?: number; reason: string }>;
+}
+
+/** A caption cue on a sequence's frame grid, with styling that covers the whole cue */
+export interface PremiereProCaption {
+  start: number;
+  end: number;
+  text: string;
+  style?: {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    color?: string;
+    align?: 'left' | 'center' | 'right';
+    position?: 'top' | 'middle' | 'bottom';
+  };
+}
+
+/**
+ * How addCaptions should place captions. A caption track is made from a
+ * caption file Premiere Pro imports; burning in places a title clip per cue.
+ */
+export interface PremiereProCaptionOptions {
+  method: 'auto' | 'caption-track' | 'burn-in';
+  /** SRT file holding the cues, for caption tracks */
+  captionFile: string;
+  captionFormat: 'subtitle' | 'cea-608' | 'cea-708' | 'teletext';
+  /** Video track for burned-in captions; defaults to the first track above V1 that is empty under the captions */
+  trackIndex?: number | undefined;
+  fontFamily?: string | undefined;
+  fontSize?: number | undefined;
+  color?: string | undefined;
+}
+
+export interface PremiereProCaptionResult {
+  method: 'caption-track' | 'burn-in';
+  /** Project item imported from the caption file, for caption tracks */
+  captionItemId?: string;
+  /** Video track holding burned-in captions */
+  trackIndex?: number;
+  /** Title clips made for burned-in captions, by cue index */
+  clips: Array<{ cue: number; clipId: string; start: number; end: number }>;
+  failures: Array<{ cue: number; start: number; reason: string }>;
+}
+
+/**
+ * Editorial trims. Ripple moves a clip's in or out point and shifts the
+ * rest of its track to follow, roll moves the edit point between two
+ * clips, slip moves a clip's source range under it, and slide moves a clip
+ * between its neighbours, trimming them to match.
+ */
+export type PremiereProTrimEdit = 'ripple' | 'roll' | 'slip' | 'slide';
+
+/** A clip a trim changed, with how far each of its edges moved in seconds */
+export interface PremiereProTrimChange {
+  clipId: string;
+  name: string;
+  trackType: 'video' | 'audio';
+  trackIndex: number;
+  /** The clip trimmed, a clip linked to it, or a clip next to or after either */
+  role: 'clip' | 'linked' | 'neighbour';
+  startOffset: number;
+  endOffset: number;
+  inPointOffset: number;
+  outPointOffset: number;
+}
+
+export interface PremiereProTrimResult {
+  edit: PremiereProTrimEdit;
+  /** Offset applied, in seconds, after snapping to the sequence's frames */
+  offset: number;
+  changes: PremiereProTrimChange[];
+}
+
+/** Audio track channel layouts, as QE's addTracks numbers them */
+export const AUDIO_TRACK_TYPES = { mono: 0, stereo: 1, '5.1': 2, adaptive: 3 } as const;
+
+export type PremiereProAudioTrackType = keyof typeof AUDIO_TRACK_TYPES;
+
+/**
+ * A track's switches. `visible` is only reported for video tracks and
+ * `muted` only for audio tracks; `syncLocked` is null when the QE DOM
+ * couldn't be reached.
+ */
+export interface PremiereProTrackState {
+  type: 'video' | 'audio';
+  index: number;
+  name: string;
+  locked: boolean;
+  targeted: boolean;
+  syncLocked: boolean | null;
+  clipCount: number;
+  visible?: boolean;
+  muted?: boolean;
+}
+
+/** Track changes; unset fields are left as they are */
+export interface PremiereProTrackChanges {
+  name?: string | undefined;
+  locked?: boolean | undefined;
+  targeted?: boolean | undefined;
+  syncLocked?: boolean | undefined;
+  /** Video tracks only */
+  visible?: boolean | undefined;
+  /** Audio tracks only */
+  muted?: boolean | undefined;
+}
+
+/**
+ * A nest: clips moved into a new sequence that takes their place in the
+ * original sequence as a single clip per track type.
+ */
+export interface PremiereProNestResult {
+  /** The new nested sequence */
+  sequenceId: string;
+  name: string;
+  /** The nest clip on the video track, or the audio track for audio-only nests */
+  nestClipId: string;
+  /** Every nest clip: one on the lowest video and one on the lowest audio track the clips came from */
+  nestClipIds: string[];
+  start: number;
+  end: number;
+  clipCount: number;
+}
+
+/** A clip put back on the timeline from a nest */
+export interface PremiereProUnnestedClip {
+  clipId: string;
+  name: string;
+  /** The clip in the nested sequence it was copied from */
+  sourceClipId: string;
+  trackType: 'video' | 'audio';
+  trackIndex: number;
+  start: number;
+  end: number;
+}
+
+export interface PremiereProUnnestResult {
+  /** The nested sequence, which stays in the project */
+  sequenceId: string;
+  clips: PremiereProUnnestedClip[];
+  warnings: string[];
+}
+
+/** What Premiere Pro reads from a media file on import */
+export interface PremiereProMediaProbe {
+  path: string;
+  /** Null when the file couldn't be imported */
+  duration: number | null;
+  frameRate: number | null;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  error?: string;
+}
+
+export interface PremiereProMediaPathChange {
+  id: string;
+  name: string;
+  previousPath: string;
+  mediaPath: string;
+  offline: boolean;
+  mediaDuration: number;
+  frameRate: number;
+  /** Clips using the item across every sequence, all of which now play the new media */
+  clipCount: number;
+}
+
+/** How a project item's media is used across the project's sequences */
+export interface PremiereProMediaUsage {
+  itemId: string;
+  clipCount: number;
+  sequenceIds: string[];
+  /** The span of the media any clip plays, in seconds of source time */
+  sourceStart: number;
+  sourceEnd: number;
+}
+
+export interface PremiereProProjectCopy {
+  projectPath: string;
+  /** The project that stays open, saved before the copy was made */
+  originalPath: string;
+  relinkedCount: number;
+}
+
+export interface PremiereProProjectManagerOptions {
+  destinationPath: string;
+  /** Encoder preset the used part of each clip is transcoded to */
+  presetPath: string;
+  /** Frames kept either side of the used part */
+  handleFrames: number;
+  excludeUnused: boolean;
+}
+
+/**
+ * Compact signatures of the project state, used to detect changes between
+ * polls. Each map goes from an id to a string that changes whenever the
+ * object's visible state does.
+ */
+export interface PremiereProStateFingerprint {
+  documentId: string;
+  path: string;
+  activeSequenceId: string | null;
+  items: Record<string, string>;
+  sequences: Record<string, string>;
+  clips: Record<string, string>;
+}
+
+/** Keyframe interpolation, as the Effect Controls panel names it */
+export type PremiereProInterpolation = 'linear' | 'bezier' | 'hold';
+
+/** A keyframe, timed in seconds from the start of the clip on the timeline */
+export interface PremiereProKeyframe {
+  time: number;
+  value: any;
+  /** Applies from this keyframe to the next; null when it can't be read */
+  interpolation: PremiereProInterpolation | null;
+}
+
+/** A keyframe to set; the interpolation applies from it to the next keyframe */
+export interface PremiereProKeyframeChange {
+  time: TimeValue;
+  value: any;
+  interpolation?: PremiereProInterpolation | undefined;
+}
+
+export interface PremiereProParameter {
+  name: string;
+  /** Null for parameters scripting can't read */
+  value: any;
+  keyframeable: boolean;
+  animated: boolean;
+  keyframes: PremiereProKeyframe[];
+}
+
+export interface PremiereProComponent {
+  name: string;
+  matchName: string;
+  /** Position in the clip's component list; the intrinsic components come first */
+  index: number;
+  parameters: PremiereProParameter[];
+}
+
+export interface PremiereProClipComponents {
+  clipId: string;
+  name: string;
+  trackType: 'video' | 'audio';
+  duration: number;
+  /** The sequence's frame size, which Position is a fraction of */
+  frameWidth: number | null;
+  frameHeight: number | null;
+  components: PremiereProComponent[];
+}
+
+/**
+ * A change to one component parameter: either a static value, which
+ * clears any keyframes, or a keyframe list that replaces the existing
+ * keyframes.
+ */
+export interface PremiereProParameterChange {
+  /** Component display name or match name */
+  component: string;
+  /** Effect to add when the clip doesn't have the component yet */
+  effect?: string | undefined;
+  parameter: string;
+  value?: any;
+  keyframes?: PremiereProKeyframeChange[] | undefined;
 }
 
 export interface PremiereProEffect {
@@ -77,21 +814,71 @@ export interface PremiereProEffect {
   parameters: Record<string, any>;
 }
 
+export type CommunicationMethod = 'uxp' | 'extendscript' | 'file' | 'simulator';
+
+export interface PremiereProBridgeOptions {
+  /** Run scripts against the in-process simulator instead of Premiere Pro */
+  simulator?: boolean;
+}
+
+/** Marker changes with their times parsed, ready for resolveTimes in a script */
+function markerTimeSpecs(changes: PremiereProMarkerChanges): Record<string, unknown> {
+  return {
+    ...changes,
+    start: changes.start === undefined ? null : parseTimeValue(changes.start),
+    end: changes.end === undefined ? null : parseTimeValue(changes.end),
+    duration: changes.duration === undefined ? null : parseTimeValue(changes.duration)
+  };
+}
+
 export class PremiereProBridge {
   private logger: Logger;
-  private communicationMethod: 'uxp' | 'extendscript' | 'file';
+  private communicationMethod: CommunicationMethod;
   private tempDir: string;
   private uxpProcess?: ChildProcess;
+  private socketServer: UxpSocketServer | undefined;
+  private simulator: PremiereProSimulator | undefined;
   private isInitialized = false;
 
-  constructor() {
+  constructor(options: PremiereProBridgeOptions = {}) {
     this.logger = new Logger('PremiereProBridge');
     this.communicationMethod = 'file'; // Default to file-based communication
     // Use a fixed location so the CEP panel can watch the same folder
     this.tempDir = '/tmp/premiere-bridge';
+
+    const simulate = options.simulator ?? process.env.PREMIERE_BRIDGE_MODE === 'simulator';
+    if (simulate) {
+      this.simulator = new PremiereProSimulator();
+      this.communicationMethod = 'simulator';
+    }
+  }
+
+  /**
+   * The transport the next command will use. The UXP socket is preferred and
+   * the file transport is the fallback while no panel is connected.
+   */
+  getCommunicationMethod(): CommunicationMethod {
+    if (this.simulator) {
+      return 'simulator';
+    }
+    return this.socketServer?.isConnected() ? 'uxp' : 'file';
+  }
+
+  /**
+   * The simulator backing this bridge, if it was created in simulator mode
+   */
+  getSimulator(): PremiereProSimulator | undefined {
+    return this.simulator;
   }
 
   async initialize(): Promise<void> {
+    if (this.simulator) {
+      // Nothing to detect or connect to; scripts run in-process
+      this.isInitialized = true;
+      this.logger.info('Adobe Premiere Pro bridge initialized with the simulator');
+      return;
+    }
+
     try {
       await this.setupTempDirectory();
       await this.detectPremiereProInstallation();
@@ -150,9 +937,20 @@ export class PremiereProBridge {
   }
 
   private async initializeCommunication(): Promise<void> {
-    // For now, we'll use file-based communication as it's the most reliable
-    // In a production environment, you would set up UXP or ExtendScript communication
-    this.communicationMethod = 'file';
+    const port = Number(process.env.PREMIERE_BRIDGE_PORT) || DEFAULT_SOCKET_PORT;
+    const host = process.env.PREMIERE_BRIDGE_HOST || DEFAULT_SOCKET_HOST;
+    const token = process.env.PREMIERE_BRIDGE_TOKEN || undefined;
+
+    // The socket is optional: if the port is taken we still have the file transport
+    const socketServer = new UxpSocketServer(host, port, token);
+    try {
+      await socketServer.start();
+      this.socketServer = socketServer;
+      this.communicationMethod = 'uxp';
+    } catch (error) {
+      this.logger.warn(`UXP socket unavailable, using file communication only: ${getErrorMessage(error)}`);
+      this.communicationMethod = 'file';
+    }
     this.logger.info(`Using ${this.communicationMethod} communication method`);
   }
 
@@ -161,7 +959,38 @@ export class PremiereProBridge {
       throw new BridgeNotInitializedError('executeScript');
     }
 
+    if (this.simulator) {
+      return this.simulator.execute(script, timeoutMs);
+    }
+
     const commandId = uuidv4();
+
+    if (this.socketServer?.isConnected()) {
+      return await this.executeScriptOverSocket(this.socketServer, commandId, script, timeoutMs);
+    }
+
+    return await this.executeScriptOverFiles(commandId, script, timeoutMs);
+  }
+
+  private async executeScriptOverSocket(socketServer: UxpSocketServer, commandId: string, script: string, timeoutMs: number): Promise<any> {
+    try {
+      return await socketServer.send(commandId, script, timeoutMs);
+    } catch (error) {
+      if (error instanceof ScriptExecutionError || error instanceof ResponseTimeoutError || error instanceof ResponseParseError) {
+        throw error;
+      }
+
+      const message = getErrorMessage(error);
+      this.logger.error(`Failed to execute script over socket (command ${commandId}): ${message}`);
+      throw new ScriptExecutionError(
+        `Failed to execute script: ${message}`,
+        { commandId },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private async executeScriptOverFiles(commandId: string, script: string, timeoutMs: number): Promise<any> {
     const commandFile = join(this.tempDir, `command-${commandId}.json`);
     const responseFile = join(this.tempDir, `response-${commandId}.json`);
 
@@ -269,13 +1098,13 @@ export class PremiereProBridge {
 
   // Project Management
   async createProject(name: string, location: string): Promise<PremiereProProject> {
-    const script = `
+    const script = buildScript(`
       // Create new project
-      app.newProject("${name}", "${location}");
+      app.newProject(args.name, args.location);
       var project = app.project;
       
       // Return project info
-      JSON.stringify({
+      return JSON.stringify({
         id: project.documentID,
         name: project.name,
         path: project.path,
@@ -283,19 +1112,19 @@ export class PremiereProBridge {
         sequences: [],
         projectItems: []
       });
-    `;
+    `, { name, location });
     
     return await this.executeScript(script);
   }
 
   async openProject(path: string): Promise<PremiereProProject> {
-    const script = `
+    const script = buildScript(`
       // Open existing project
-      app.openDocument("${path}");
+      app.openDocument(args.path);
       var project = app.project;
       
       // Return project info
-      JSON.stringify({
+      return JSON.stringify({
         id: project.documentID,
         name: project.name,
         path: project.path,
@@ -303,29 +1132,30 @@ export class PremiereProBridge {
         sequences: [],
         projectItems: []
       });
-    `;
+    `, { path });
     
     return await this.executeScript(script);
   }
 
   async saveProject(): Promise<void> {
-    const script = `
+    const script = buildScript(`
       // Save current project
       app.project.save();
-      JSON.stringify({ success: true });
-    `;
+      return JSON.stringify({ success: true });
+    `);
     
     await this.executeScript(script);
   }
 
   async importMedia(filePath: string): Promise<PremiereProProjectItem> {
-    const script = `
+    const script = buildScript(`
+      ${IMPORT_SCRIPT_HELPERS}
       // Import media file
-      var file = new File("${filePath}");
-      var importedItem = app.project.importFiles([file.fsName]);
+      var file = new File(args.filePath);
+      var importedItem = importFile(file.fsName, app.project.rootItem);
       
       // Return imported item info
-      JSON.stringify({
+      return JSON.stringify({
         id: importedItem.nodeId,
         name: importedItem.name,
         type: importedItem.type,
@@ -333,18 +1163,18 @@ export class PremiereProBridge {
         duration: importedItem.getOutPoint() - importedItem.getInPoint(),
         frameRate: importedItem.getVideoFrameRate()
       });
-    `;
+    `, { filePath });
     
     return await this.executeScript(script);
   }
 
   async createSequence(name: string, presetPath?: string): Promise<PremiereProSequence> {
-    const script = `
+    const script = buildScript(`
       // Create new sequence
-      var sequence = app.project.createNewSequence("${name}", "${presetPath || ''}");
+      var sequence = app.project.createNewSequence(args.name, args.presetPath);
       
       // Return sequence info
-      JSON.stringify({
+      return JSON.stringify({
         id: sequence.sequenceID,
         name: sequence.name,
         duration: sequence.end - sequence.zeroPoint,
@@ -352,22 +1182,23 @@ export class PremiereProBridge {
         videoTracks: [],
         audioTracks: []
       });
-    `;
+    `, { name, presetPath: presetPath || '' });
     
     return await this.executeScript(script);
   }
 
-  async addToTimeline(sequenceId: string, projectItemId: string, trackIndex: number, time: number): Promise<PremiereProClip> {
-    const script = `
+  async addToTimeline(sequenceId: string, projectItemId: string, trackIndex: number, time: TimeValue): Promise<PremiereProClip> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       // Add item to timeline
-      var sequence = app.project.getSequenceByID("${sequenceId}");
-      var projectItem = app.project.getProjectItemByID("${projectItemId}");
-      var track = sequence.videoTracks[${trackIndex}];
+      var sequence = app.project.getSequenceByID(args.sequenceId);
+      var projectItem = app.project.getProjectItemByID(args.projectItemId);
+      var track = sequence.videoTracks[args.trackIndex];
       
-      var clip = track.insertClip(projectItem, ${time});
+      var clip = track.insertClip(projectItem, specTime(args.time, sequence));
       
       // Return clip info
-      JSON.stringify({
+      return JSON.stringify({
         id: clip.clipID,
         name: clip.name,
         inPoint: clip.start,
@@ -375,64 +1206,1950 @@ export class PremiereProBridge {
         duration: clip.duration,
         mediaPath: clip.projectItem.getMediaPath()
       });
-    `;
+    `, { sequenceId, projectItemId, trackIndex, time: parseTimeValue(time) });
     
     return await this.executeScript(script);
   }
 
   async renderSequence(sequenceId: string, outputPath: string, presetPath: string): Promise<void> {
-    const script = `
+    const script = buildScript(`
       // Render sequence
-      var sequence = app.project.getSequenceByID("${sequenceId}");
+      var sequence = app.project.getSequenceByID(args.sequenceId);
       var encoder = app.encoder;
       
-      encoder.encodeSequence(sequence, "${outputPath}", "${presetPath}", 
+      encoder.encodeSequence(sequence, args.outputPath, args.presetPath, 
         encoder.ENCODE_ENTIRE, false);
       
-      JSON.stringify({ success: true });
-    `;
+      return JSON.stringify({ success: true });
+    `, { sequenceId, outputPath, presetPath });
     
     await this.executeScript(script);
   }
 
   async listProjectItems(): Promise<PremiereProProjectItem[]> {
-    const script = `
+    const script = buildScript(`
       try {
         if (!app.project || !app.project.rootItem) {
           throw new Error('No open project');
         }
-        function walk(item) {
+        function tapeName(item) {
+          try {
+            var xmp = item.getXMPMetadata ? item.getXMPMetadata() : '';
+            var match = /tapeName(?:>|=")([^<"]+)/.exec(xmp || '');
+            return match ? match[1] : undefined;
+          } catch (e) {
+            return undefined;
+          }
+        }
+        // The marks are cleared to read where the media ends, then put back
+        function mediaDuration(item) {
+          if (!item.getOutPoint || !item.clearOutPoint) {
+            return undefined;
+          }
+          var markedIn = item.getInPoint();
+          var markedOut = item.getOutPoint();
+          item.clearInPoint();
+          item.clearOutPoint();
+          var duration = item.getOutPoint().seconds - item.getInPoint().seconds;
+          if (markedIn.ticks !== item.getInPoint().ticks) {
+            item.setInPoint(markedIn, 4);
+          }
+          if (markedOut.ticks !== item.getOutPoint().ticks) {
+            item.setOutPoint(markedOut, 4);
+          }
+          return duration;
+        }
+        function walk(item, bin) {
           var results = [];
-          if (item.type === ProjectItemType.BIN) {
+          if (item.type === ProjectItemType.BIN || item.type === ProjectItemType.ROOT) {
+            var path = item.type === ProjectItemType.ROOT ? '' : (bin ? bin + '/' : '') + item.name;
             for (var i = 0; i < item.children.numItems; i++) {
-              results = results.concat(walk(item.children[i]));
+              results = results.concat(walk(item.children[i], path));
             }
           } else {
+            var footage = item.type !== ProjectItemType.SEQUENCE;
             results.push({
               id: item.nodeId || item.treePath || item.name,
               name: item.name,
               type: item.type === ProjectItemType.BIN ? 'bin' : (item.type === ProjectItemType.SEQUENCE ? 'sequence' : 'footage'),
               mediaPath: item.getMediaPath ? item.getMediaPath() : undefined,
               duration: item.getOutPoint ? (item.getOutPoint() - item.getInPoint()) : undefined,
-              frameRate: item.getVideoFrameRate ? item.getVideoFrameRate() : undefined
+              frameRate: item.getVideoFrameRate ? item.getVideoFrameRate() : undefined,
+              reelName: tapeName(item),
+              mediaStart: item.startTime ? Number(item.startTime().seconds) : undefined,
+              mediaDuration: footage ? mediaDuration(item) : undefined,
+              offline: footage && item.isOffline ? item.isOffline() : false,
+              bin: bin
             });
           }
           return results;
         }
-        var items = walk(app.project.rootItem);
-        JSON.stringify({ ok: true, items });
+        var items = walk(app.project.rootItem, '');
+        return JSON.stringify({ ok: true, items: items });
       } catch (e) {
-        JSON.stringify({ ok: false, error: String(e) });
+        return JSON.stringify({ ok: false, error: String(e) });
       }
-    `;
+    `);
     const result = await this.executeScript(script);
     if (result.ok) return result.items;
     throw new Error(result.error || 'Unknown error listing project items');
   }
 
-  async cleanup(): Promise<void> {
-    if (this.uxpProcess) {
-      this.uxpProcess.kill();
+  /**
+   * Read the duration, frame rate and kinds of media of files by importing
+   * them into a scratch bin, which is deleted again afterwards
+   */
+  async probeMedia(paths: string[]): Promise<PremiereProMediaProbe[]> {
+    const script = buildScript(`
+      ${IMPORT_SCRIPT_HELPERS}
+      try {
+        if (!app.project || !app.project.rootItem) {
+          throw new Error('No open project');
+        }
+        var bin = app.project.rootItem.createBin('Media Probe ' + new Date().getTime());
+        var probes = [];
+        try {
+          for (var p = 0; p < args.paths.length; p++) {
+            var probe = { path: args.paths[p], duration: null, frameRate: null, hasVideo: false, hasAudio: false };
+            try {
+              var item = importFile(args.paths[p], bin);
+              probe.duration = item.getOutPoint().seconds - item.getInPoint().seconds;
+              probe.frameRate = item.getVideoFrameRate ? item.getVideoFrameRate() : null;
+              probe.hasVideo = item.hasVideo ? item.hasVideo() : false;
+              probe.hasAudio = item.hasAudio ? item.hasAudio() : false;
+            } catch (e) {
+              probe.error = String(e);
+            }
+            probes.push(probe);
+          }
+        } finally {
+          bin.deleteBin();
+        }
+        return JSON.stringify({ ok: true, probes: probes });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { paths });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.probes;
+    throw new Error(result.error || 'Unknown error probing media');
+  }
+
+  /**
+   * The source ranges every sequence plays of each project item, for the
+   * items used at all
+   */
+  async listMediaUsage(): Promise<PremiereProMediaUsage[]> {
+    const script = buildScript(`
+      try {
+        var usage = {};
+        var order = [];
+        for (var q = 0; q < app.project.sequences.numSequences; q++) {
+          var sequence = app.project.sequences[q];
+          var trackLists = [sequence.videoTracks, sequence.audioTracks];
+          for (var k = 0; k < trackLists.length; k++) {
+            for (var i = 0; i < trackLists[k].numTracks; i++) {
+              var clips = trackLists[k][i].clips;
+              for (var c = 0; c < clips.numItems; c++) {
+                var clip = clips[c];
+                if (!clip.projectItem) {
+                  continue;
+                }
+                var id = clip.projectItem.nodeId;
+                var inPoint = clip.inPoint.seconds;
+                var outPoint = clip.outPoint.seconds;
+                if (!usage[id]) {
+                  usage[id] = { itemId: id, clipCount: 0, sequenceIds: [], sourceStart: Math.min(inPoint, outPoint), sourceEnd: Math.max(inPoint, outPoint) };
+                  order.push(id);
+                }
+                var entry = usage[id];
+                entry.clipCount++;
+                entry.sourceStart = Math.min(entry.sourceStart, inPoint, outPoint);
+                entry.sourceEnd = Math.max(entry.sourceEnd, inPoint, outPoint);
+                var listed = false;
+                for (var s = 0; s < entry.sequenceIds.length; s++) {
+                  listed = listed || entry.sequenceIds[s] === sequence.sequenceID;
+                }
+                if (!listed) {
+                  entry.sequenceIds.push(sequence.sequenceID);
+                }
+              }
+            }
+          }
+        }
+        var list = [];
+        for (var o = 0; o < order.length; o++) {
+          list.push(usage[order[o]]);
+        }
+        return JSON.stringify({ ok: true, usage: list });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `);
+    const result = await this.executeScript(script);
+    if (result.ok) return result.usage;
+    throw new Error(result.error || 'Unknown error reading media usage');
+  }
+
+  /**
+   * Save a copy of the open project with its items pointed at other media
+   * files. Scripting can only save the open project under another name,
+   * which leaves the copy open in its place, so the items are relinked, the
+   * project saved as the copy and the items relinked back; the original is
+   * then opened again and the copy closed. The original file is never
+   * written, so a project with unsaved changes is refused rather than
+   * having them end up only in the copy.
+   */
+  async saveRelinkedProjectCopy(path: string, relinks: Array<{ itemId: string; path: string }>): Promise<PremiereProProjectCopy> {
+    const script = buildScript(`
+      try {
+        var project = app.project;
+        if (!project || !project.path) {
+          throw new Error('No open project');
+        }
+        if (project.dirty) {
+          throw new Error('The project has unsaved changes; save it first so the collected copy matches it');
+        }
+        var originalPath = project.path;
+
+        var changed = [];
+        var failure = null;
+        for (var r = 0; r < args.relinks.length && !failure; r++) {
+          var item = project.getProjectItemByID(args.relinks[r].itemId);
+          if (!item) {
+            failure = 'Project item not found: ' + args.relinks[r].itemId;
+            break;
+          }
+          var previousPath = item.getMediaPath();
+          item.changeMediaPath(args.relinks[r].path, true);
+          if (item.getMediaPath() === previousPath && previousPath !== args.relinks[r].path) {
+            failure = 'Premiere Pro did not accept ' + args.relinks[r].path + ' as media for ' + item.name;
+            break;
+          }
+          changed.push({ item: item, path: previousPath });
+        }
+        if (!failure) {
+          try {
+            project.saveAs(args.path);
+          } catch (e) {
+            failure = 'Could not save the copy: ' + String(e);
+          }
+        }
+
+        var unrestored = [];
+        for (var c = 0; c < changed.length; c++) {
+          changed[c].item.changeMediaPath(changed[c].path, true);
+          if (changed[c].item.getMediaPath() !== changed[c].path) {
+            unrestored.push(changed[c].item.name);
+          }
+        }
+
+        // The original on disk matches what was open, since it had no unsaved changes
+        if (project.path !== originalPath) {
+          app.openDocument(originalPath);
+          if (app.project.path !== originalPath) {
+            throw new Error('Saved the copy, but could not open ' + originalPath + ' again; the open project is the copy at ' + project.path);
+          }
+          if (typeof project.closeDocument === 'function') {
+            project.closeDocument(false, false);
+          }
+        } else if (unrestored.length > 0) {
+          throw new Error('Could not point ' + unrestored.join(', ') + ' back at the original media; close the project without saving. ' + originalPath + ' has not been changed');
+        }
+        if (failure) {
+          throw new Error(failure);
+        }
+        return JSON.stringify({ ok: true, copy: { projectPath: args.path, originalPath: originalPath, relinkedCount: changed.length } });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { path, relinks });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.copy;
+    throw new Error(result.error || 'Unknown error saving project copy');
+  }
+
+  /**
+   * Run Premiere Pro's Project Manager on the open project to consolidate
+   * and transcode it: a copy of the project goes into the destination with
+   * just the used part of each clip's media, plus handles. Returns the
+   * errors it reports.
+   */
+  async runProjectManager(options: PremiereProProjectManagerOptions): Promise<string[]> {
+    const script = buildScript(`
+      try {
+        var manager = app.projectManager;
+        if (!manager) {
+          throw new Error('Project Manager is not available to scripting in this version of Premiere Pro');
+        }
+        var settings = manager.options;
+        settings.destinationPath = args.destinationPath;
+        settings.excludeUnused = args.excludeUnused;
+        settings.includeAllSequences = true;
+        settings.includePreviews = false;
+        settings.renameMedia = false;
+        settings.clipTransferOption = settings.CLIP_TRANSFER_TRANSCODE;
+        settings.clipTranscoderOption = settings.CLIP_TRANSCODE_MATCH_PRESET;
+        settings.encoderPresetFilePath = args.presetPath;
+        settings.handleFrameCount = args.handleFrames;
+        manager.process(app.project);
+        var errors = [];
+        for (var m = 0; manager.errors && m < manager.errors.length; m++) {
+          errors.push(String(manager.errors[m]));
+        }
+        return JSON.stringify({ ok: true, errors: errors });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { ...options });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.errors;
+    throw new Error(result.error || 'Unknown error running Project Manager');
+  }
+
+  /**
+   * Point a project item at another media file, which changes every clip
+   * using it. Premiere Pro's checks that the file matches the item's media
+   * are skipped with `overrideChecks`.
+   */
+  async changeMediaPath(itemId: string, path: string, overrideChecks: boolean): Promise<PremiereProMediaPathChange> {
+    const script = buildScript(`
+      try {
+        var item = app.project.getProjectItemByID(args.itemId);
+        if (!item) {
+          throw new Error('Project item not found: ' + args.itemId);
+        }
+        if (item.type === ProjectItemType.BIN || item.type === ProjectItemType.SEQUENCE || !item.canChangeMediaPath()) {
+          throw new Error(item.name + ' has no media file that can be changed');
+        }
+        var previousPath = item.getMediaPath();
+        item.changeMediaPath(args.path, args.overrideChecks);
+        // The result of changeMediaPath isn't reliable across versions, so the item is read back
+        if (item.getMediaPath() === previousPath && previousPath !== args.path) {
+          throw new Error('Premiere Pro did not accept ' + args.path + ' as media for ' + item.name + (args.overrideChecks ? '' : '; it may not match the original media'));
+        }
+
+        var clipCount = 0;
+        for (var q = 0; q < app.project.sequences.numSequences; q++) {
+          var sequence = app.project.sequences[q];
+          var trackLists = [sequence.videoTracks, sequence.audioTracks];
+          for (var k = 0; k < trackLists.length; k++) {
+            for (var i = 0; i < trackLists[k].numTracks; i++) {
+              var clips = trackLists[k][i].clips;
+              for (var c = 0; c < clips.numItems; c++) {
+                if (clips[c].projectItem && clips[c].projectItem.nodeId === item.nodeId) {
+                  clipCount++;
+                }
+              }
+            }
+          }
+        }
+
+        var markedIn = item.getInPoint();
+        var markedOut = item.getOutPoint();
+        item.clearInPoint();
+        item.clearOutPoint();
+        var mediaDuration = item.getOutPoint().seconds - item.getInPoint().seconds;
+        if (markedIn.ticks !== item.getInPoint().ticks) {
+          item.setInPoint(markedIn, 4);
+        }
+        if (markedOut.ticks !== item.getOutPoint().ticks) {
+          item.setOutPoint(markedOut, 4);
+        }
+
+        return JSON.stringify({
+          ok: true,
+          change: {
+            id: item.nodeId,
+            name: item.name,
+            previousPath: previousPath,
+            mediaPath: item.getMediaPath(),
+            offline: item.isOffline(),
+            mediaDuration: mediaDuration,
+            frameRate: item.getVideoFrameRate ? item.getVideoFrameRate() : 0,
+            clipCount: clipCount
+          }
+        });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { itemId, path, overrideChecks });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.change;
+    throw new Error(result.error || 'Unknown error changing media path');
+  }
+
+  /**
+   * Read a sequence with everything interchange formats need: frame timing,
+   * every track with its clips and transitions, and each clip's source range
+   */
+  async getSequence(sequenceId: string): Promise<PremiereProSequence> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${MARKER_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+
+        function seconds(time) {
+          if (time === undefined || time === null) {
+            return 0;
+          }
+          if (typeof time === 'object') {
+            return time.ticks !== undefined ? Number(time.ticks) / TICKS_PER_SECOND : Number(time.seconds);
+          }
+          return Number(time) / TICKS_PER_SECOND;
+        }
+
+        function tapeName(item) {
+          try {
+            var xmp = item.getXMPMetadata ? item.getXMPMetadata() : '';
+            var match = /tapeName(?:>|=")([^<"]+)/.exec(xmp || '');
+            return match ? match[1] : undefined;
+          } catch (e) {
+            return undefined;
+          }
+        }
+
+        // Components every clip carries; anything else was applied as an effect
+        var INTRINSIC_COMPONENTS = { 'Opacity': true, 'Motion': true, 'Time Remapping': true, 'Volume': true, 'Channel Volume': true, 'Panner': true };
+
+        function readClip(clip) {
+          var item = clip.projectItem;
+          var linked = [];
+          var linkedItems = clip.getLinkedItems ? clip.getLinkedItems() : null;
+          if (linkedItems) {
+            for (var l = 0; l < linkedItems.numItems; l++) {
+              if (linkedItems[l].nodeId !== clip.nodeId) {
+                linked.push(linkedItems[l].nodeId);
+              }
+            }
+          }
+          var speed = clip.getSpeed ? clip.getSpeed() : 1;
+          var effects = [];
+          var audioLevel;
+          for (var f = 0; clip.components && f < clip.components.numItems; f++) {
+            var component = clip.components[f];
+            if (INTRINSIC_COMPONENTS[component.displayName]) {
+              if (component.displayName === 'Volume' && component.properties['Volume']) {
+                audioLevel = Number(component.properties['Volume'].getValue());
+              }
+              continue;
+            }
+            effects.push(component.displayName);
+          }
+          return {
+            id: clip.nodeId,
+            name: clip.name,
+            start: seconds(clip.start),
+            end: seconds(clip.end),
+            inPoint: seconds(clip.inPoint),
+            outPoint: seconds(clip.outPoint),
+            duration: seconds(clip.duration),
+            projectItemId: item ? item.nodeId : undefined,
+            mediaPath: item && item.getMediaPath ? item.getMediaPath() : undefined,
+            mediaType: clip.mediaType === 'Audio' ? 'audio' : 'video',
+            speed: speed || 1,
+            enabled: !clip.disabled,
+            linkedClipIds: linked,
+            reelName: item ? tapeName(item) : undefined,
+            mediaStart: item && item.startTime ? seconds(item.startTime()) : 0,
+            audioLevel: clip.mediaType === 'Audio' ? audioLevel : undefined,
+            effects: effects
+          };
+        }
+
+        function readTrack(track, type, index) {
+          var clips = [];
+          for (var c = 0; c < track.clips.numItems; c++) {
+            clips.push(readClip(track.clips[c]));
+          }
+          var transitions = [];
+          for (var t = 0; t < track.transitions.numItems; t++) {
+            var transition = track.transitions[t];
+            transitions.push({
+              name: transition.name,
+              matchName: transition.matchName,
+              start: seconds(transition.start),
+              end: seconds(transition.end)
+            });
+          }
+          return {
+            id: track.id,
+            name: track.name,
+            type: type,
+            index: index,
+            locked: typeof track.isLocked === 'function' ? track.isLocked() : !!track.locked,
+            muted: typeof track.isMuted === 'function' ? track.isMuted() : !!track.muted,
+            clips: clips,
+            transitions: transitions
+          };
+        }
+
+        var videoTracks = [];
+        for (var v = 0; v < sequence.videoTracks.numTracks; v++) {
+          videoTracks.push(readTrack(sequence.videoTracks[v], 'video', v));
+        }
+        var audioTracks = [];
+        for (var a = 0; a < sequence.audioTracks.numTracks; a++) {
+          audioTracks.push(readTrack(sequence.audioTracks[a], 'audio', a));
+        }
+        var markers = [];
+        for (var m = 0; sequence.markers && m < sequence.markers.numMarkers; m++) {
+          markers.push(readMarker(sequence.markers[m]));
+        }
+        var settings = sequence.getSettings ? sequence.getSettings() : {};
+
+        return JSON.stringify({
+          ok: true,
+          sequence: {
+            id: sequence.sequenceID,
+            name: sequence.name,
+            duration: seconds(sequence.end) - seconds(sequence.zeroPoint),
+            frameRate: TICKS_PER_SECOND / Number(sequence.timebase),
+            timebase: Number(sequence.timebase),
+            zeroPoint: seconds(sequence.zeroPoint),
+            width: settings.videoFrameWidth,
+            height: settings.videoFrameHeight,
+            audioSampleRate: settings.audioSampleRate,
+            videoTracks: videoTracks,
+            audioTracks: audioTracks,
+            markers: markers
+          }
+        });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.sequence;
+    throw new Error(result.error || 'Unknown error reading sequence');
+  }
+
+  /**
+   * Create a sequence from a sequence model, as read by getSequence or
+   * converted from an interchange format. Clips need a projectItemId; they
+   * are placed by track position with their source range and speed, and
+   * transitions are attached to whichever clip edge they line up with.
+   */
+  async buildSequence(model: PremiereProSequence): Promise<PremiereProSequenceBuildResult> {
+    const trackPlan = (track: PremiereProTrack) => ({
+      clips: track.clips
+        .filter(clip => clip.projectItemId)
+        .map(clip => ({
+          id: clip.id,
+          projectItemId: clip.projectItemId,
+          start: clip.start ?? 0,
+          inPoint: clip.inPoint,
+          outPoint: clip.outPoint,
+          speed: clip.speed ?? 1,
+          enabled: clip.enabled !== false,
+          audioLevel: clip.audioLevel ?? null,
+          effects: clip.effects ?? []
+        }))
+        .sort((a, b) => a.start - b.start),
+      transitions: track.transitions ?? []
+    });
+
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${MARKER_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.createNewSequence(args.name, '');
+        if (!sequence) {
+          throw new Error('Could not create sequence ' + args.name);
+        }
+        if (args.timebase && sequence.getSettings && sequence.setSettings) {
+          var settings = sequence.getSettings();
+          settings.videoFrameRate = ticksTime(args.timebase);
+          if (args.width) settings.videoFrameWidth = args.width;
+          if (args.height) settings.videoFrameHeight = args.height;
+          if (args.audioSampleRate) settings.audioSampleRate = args.audioSampleRate;
+          sequence.setSettings(settings);
+        }
+        var perFrame = frameTicks(sequence);
+
+        function snap(seconds) {
+          return Math.round(seconds * TICKS_PER_SECOND / perFrame) * perFrame;
+        }
+
+        var result = { sequenceId: sequence.sequenceID, name: sequence.name, clips: [], transitions: [], markers: 0, failures: [] };
+
+        function placeTrack(plan, track, type, index) {
+          var placed = [];
+          for (var c = 0; c < plan.clips.length; c++) {
+            var model = plan.clips[c];
+            var projectItem = app.project.getProjectItemByID(model.projectItemId);
+            if (!projectItem) {
+              result.failures.push({ trackType: type, trackIndex: index, modelClipId: model.id, reason: 'Project item not found: ' + model.projectItemId });
+              continue;
+            }
+            projectItem.setInPoint(ticksTime(snap(model.inPoint)), 4);
+            projectItem.setOutPoint(ticksTime(snap(model.outPoint)), 4);
+            var item = track.overwriteClip(projectItem, ticksTime(snap(model.start)));
+            projectItem.clearInPoint();
+            projectItem.clearOutPoint();
+            if (!item) {
+              result.failures.push({ trackType: type, trackIndex: index, modelClipId: model.id, reason: 'Clip could not be placed' });
+              continue;
+            }
+
+            // Every track's clips are placed explicitly, so drop what the edit linked in
+            var linked = item.getLinkedItems ? item.getLinkedItems() : null;
+            var extras = [];
+            for (var l = 0; linked && l < linked.numItems; l++) {
+              if (linked[l].nodeId !== item.nodeId) {
+                extras.push(linked[l]);
+              }
+            }
+            for (var l = 0; l < extras.length; l++) {
+              extras[l].getTrack().removeClip(extras[l], false);
+            }
+
+            if (model.speed !== 1) {
+              item.speed = model.speed;
+            }
+            if (!model.enabled) {
+              item.disabled = true;
+            }
+            if (model.audioLevel !== null && item.mediaType === 'Audio') {
+              var volume = item.components[0] ? item.components[0].properties['Volume'] : null;
+              if (volume) {
+                volume.setValue(model.audioLevel);
+              }
+            }
+            for (var f = 0; f < model.effects.length; f++) {
+              if (!item.addEffect(model.effects[f])) {
+                result.failures.push({ trackType: type, trackIndex: index, modelClipId: model.id, effect: model.effects[f], reason: 'Effect not available: ' + model.effects[f] });
+              }
+            }
+            placed.push(item);
+            result.clips.push({ modelClipId: model.id, clipId: item.nodeId, trackType: type, trackIndex: index, start: item.start.seconds, end: item.end.seconds });
+          }
+
+          for (var t = 0; t < plan.transitions.length; t++) {
+            var transition = plan.transitions[t];
+            var start = snap(transition.start);
+            var end = snap(transition.end);
+            var duration = ticksTime(end - start);
+            var added = null;
+            var alignment = null;
+            for (var p = 0; p < placed.length && !alignment; p++) {
+              var clipStart = Number(placed[p].start.ticks);
+              var clipEnd = Number(placed[p].end.ticks);
+              var next = p + 1 < placed.length ? placed[p + 1] : null;
+              if (next && Math.abs(Number(next.start.ticks) - clipEnd) < perFrame / 2 && clipEnd > start && clipEnd < end) {
+                alignment = 'center';
+                added = track.addTransition(transition.name, placed[p], next, duration);
+              } else if (Math.abs(clipStart - start) < perFrame / 2) {
+                alignment = 'start';
+                added = track.addTransition(transition.name, placed[p], 'start', duration);
+              } else if (Math.abs(clipEnd - end) < perFrame / 2) {
+                alignment = 'end';
+                added = track.addTransition(transition.name, placed[p], 'end', duration);
+              }
+            }
+            if (added) {
+              result.transitions.push({ trackType: type, trackIndex: index, name: transition.name, start: transition.start, end: transition.end, alignment: alignment });
+            } else {
+              result.failures.push({
+                trackType: type,
+                trackIndex: index,
+                modelTransitionId: transition.id,
+                transition: transition.name,
+                start: transition.start,
+                reason: alignment ? 'Transition not available: ' + transition.name : 'Transition does not line up with a clip edge'
+              });
+            }
+          }
+        }
+
+        // Video first: an edit onto a video track may also fill audio tracks
+        var kinds = [
+          { type: 'video', plans: args.videoTracks, tracks: sequence.videoTracks },
+          { type: 'audio', plans: args.audioTracks, tracks: sequence.audioTracks }
+        ];
+        for (var k = 0; k < kinds.length; k++) {
+          for (var i = 0; i < kinds[k].plans.length; i++) {
+            var plan = kinds[k].plans[i];
+            if (plan.clips.length === 0 && plan.transitions.length === 0) {
+              continue;
+            }
+            var track = i < kinds[k].tracks.numTracks ? kinds[k].tracks[i] : null;
+            if (!track) {
+              for (var c = 0; c < plan.clips.length; c++) {
+                result.failures.push({ trackType: kinds[k].type, trackIndex: i, modelClipId: plan.clips[c].id, reason: 'Sequence has no ' + kinds[k].type + ' track ' + i });
+              }
+              continue;
+            }
+            placeTrack(plan, track, kinds[k].type, i);
+          }
+        }
+
+        for (var m = 0; m < args.markers.length; m++) {
+          var model = args.markers[m];
+          applyMarker(sequence.markers.createMarker(model.start), model);
+          result.markers++;
+        }
+
+        return JSON.stringify({ ok: true, result: result });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, {
+      name: model.name,
+      timebase: model.timebase ?? null,
+      width: model.width ?? null,
+      height: model.height ?? null,
+      audioSampleRate: model.audioSampleRate ?? null,
+      videoTracks: model.videoTracks.map(trackPlan),
+      audioTracks: model.audioTracks.map(trackPlan),
+      markers: model.markers ?? []
+    });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.result;
+    throw new Error(result.error || 'Unknown error building sequence');
+  }
+
+  /** Markers of a sequence or clip in time order, with times on the timeline */
+  async listMarkers(target: PremiereProMarkerTarget): Promise<PremiereProMarker[]> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${MARKER_SCRIPT_HELPERS}
+      try {
+        var target = markerTarget(args.target);
+        var markers = [];
+        for (var m = 0; target.markers && m < target.markers.numMarkers; m++) {
+          markers.push(readMarker(target.markers[m], target.toTimeline));
+        }
+        return JSON.stringify({ ok: true, markers: markers });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { target });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.markers;
+    throw new Error(result.error || 'Unknown error listing markers');
+  }
+
+  /**
+   * Create markers on a sequence or clip. Times are snapped to the
+   * sequence's frames; each marker needs a start.
+   */
+  async addMarkers(target: PremiereProMarkerTarget, markers: PremiereProMarkerChanges[]): Promise<PremiereProMarker[]> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${MARKER_SCRIPT_HELPERS}
+      try {
+        var target = markerTarget(args.target);
+        var created = [];
+        for (var m = 0; m < args.markers.length; m++) {
+          var model = resolveTimes(args.markers[m], target.sequence);
+          var marker = target.markers.createMarker(target.toMarker(model.start));
+          applyMarker(marker, model, target.toMarker);
+          created.push(readMarker(marker, target.toTimeline));
+        }
+        return JSON.stringify({ ok: true, markers: created });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { target, markers: markers.map(markerTimeSpecs) });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.markers;
+    throw new Error(result.error || 'Unknown error adding markers');
+  }
+
+  async updateMarker(target: PremiereProMarkerTarget, markerId: string, changes: PremiereProMarkerChanges): Promise<PremiereProMarker> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${MARKER_SCRIPT_HELPERS}
+      try {
+        var target = markerTarget(args.target);
+        var marker = findMarker(target.markers, args.markerId);
+        if (!marker) {
+          throw new Error('Marker not found: ' + args.markerId);
+        }
+        applyMarker(marker, resolveTimes(args.changes, target.sequence), target.toMarker);
+        return JSON.stringify({ ok: true, marker: readMarker(marker, target.toTimeline) });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { target, markerId, changes: markerTimeSpecs(changes) });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.marker;
+    throw new Error(result.error || 'Unknown error updating marker');
+  }
+
+  /** Delete a marker, returning it as it was */
+  async deleteMarker(target: PremiereProMarkerTarget, markerId: string): Promise<PremiereProMarker> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${MARKER_SCRIPT_HELPERS}
+      try {
+        var target = markerTarget(args.target);
+        var marker = findMarker(target.markers, args.markerId);
+        if (!marker) {
+          throw new Error('Marker not found: ' + args.markerId);
+        }
+        var deleted = readMarker(marker, target.toTimeline);
+        target.markers.deleteMarker(marker);
+        return JSON.stringify({ ok: true, marker: deleted });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { target, markerId });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.marker;
+    throw new Error(result.error || 'Unknown error deleting marker');
+  }
+
+  /**
+   * Put captions on a sequence. With method 'auto' they go on a new caption
+   * track when the host supports caption tracks and are burned in as title
+   * clips otherwise.
+   */
+  async addCaptions(sequenceId: string, captions: PremiereProCaption[], options: PremiereProCaptionOptions): Promise<PremiereProCaptionResult> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${IMPORT_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+
+        function secondsTime(seconds) {
+          return ticksTime(Math.round(seconds * TICKS_PER_SECOND));
+        }
+
+        if (args.method !== 'burn-in' && typeof sequence.createCaptionTrack === 'function') {
+          var formats = typeof Sequence !== 'undefined' ? {
+            'subtitle': Sequence.CAPTION_FORMAT_SUBTITLE,
+            'cea-608': Sequence.CAPTION_FORMAT_608,
+            'cea-708': Sequence.CAPTION_FORMAT_708,
+            'teletext': Sequence.CAPTION_FORMAT_TELETEXT
+          } : {};
+          var captionItem = importFile(args.captionFile, app.project.rootItem);
+          sequence.createCaptionTrack(captionItem, 0, formats[args.captionFormat]);
+          return JSON.stringify({ ok: true, result: { method: 'caption-track', captionItemId: captionItem.nodeId, clips: [], failures: [] } });
+        }
+        if (args.method === 'caption-track') {
+          throw new Error('This version of Premiere Pro has no caption tracks; use burn-in instead');
+        }
+
+        var trackIndex = args.trackIndex;
+        if (trackIndex === null) {
+          var first = args.captions[0].start;
+          var last = args.captions[args.captions.length - 1].end;
+          for (var v = 1; v < sequence.videoTracks.numTracks && trackIndex === null; v++) {
+            var clear = true;
+            for (var i = 0; i < sequence.videoTracks[v].clips.numItems && clear; i++) {
+              var existing = sequence.videoTracks[v].clips[i];
+              clear = existing.end.seconds <= first || existing.start.seconds >= last;
+            }
+            if (clear) {
+              trackIndex = v;
+            }
+          }
+          if (trackIndex === null) {
+            throw new Error('No empty video track above V1 for burned-in captions; pass trackIndex');
+          }
+        }
+        var track = sequence.videoTracks[trackIndex];
+        if (!track) {
+          throw new Error('Video track not found: ' + trackIndex);
+        }
+        var result = { method: 'burn-in', trackIndex: trackIndex, clips: [], failures: [] };
+        for (var c = 0; c < args.captions.length; c++) {
+          var caption = args.captions[c];
+          var style = caption.style || {};
+          try {
+            var titleItem = app.project.createNewTitle(caption.text);
+            if (!titleItem) {
+              throw new Error('Failed to create title');
+            }
+            var title = titleItem.getText ? titleItem.getText() : null;
+            if (title) {
+              title.text = caption.text;
+              if (args.fontFamily) title.fontFamily = args.fontFamily;
+              if (args.fontSize) title.fontSize = args.fontSize;
+              if (style.color || args.color) title.fillColor = style.color || args.color;
+              if (style.bold) title.bold = true;
+              if (style.italic) title.italic = true;
+              if (style.underline) title.underline = true;
+              title.horizontalJustification = style.align || 'center';
+              title.verticalJustification = style.position || 'bottom';
+            }
+            var clip = track.overwriteClip(titleItem, secondsTime(caption.start));
+            if (!clip) {
+              throw new Error('Title could not be placed');
+            }
+            clip.end = secondsTime(caption.end);
+            result.clips.push({ cue: c, clipId: clip.nodeId, start: clip.start.seconds, end: clip.end.seconds });
+          } catch (e) {
+            result.failures.push({ cue: c, start: caption.start, reason: String(e) });
+          }
+        }
+        return JSON.stringify({ ok: true, result: result });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId, captions, ...options, trackIndex: options.trackIndex ?? null });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.result;
+    throw new Error(result.error || 'Unknown error adding captions');
+  }
+
+  /**
+   * Read text clips on a video track as captions: graphics made with the
+   * Type tool (their Source Text parameter) and legacy titles. Clips with no
+   * text, such as footage, are counted as skipped.
+   */
+  async getTextClips(sequenceId: string, trackIndex: number): Promise<{ captions: PremiereProCaption[]; skippedClips: number }> {
+    const script = buildScript(`
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+        var track = sequence.videoTracks[args.trackIndex];
+        if (!track) {
+          throw new Error('Video track not found: ' + args.trackIndex);
+        }
+
+        function sourceText(clip) {
+          for (var f = 0; clip.components && f < clip.components.numItems; f++) {
+            var properties = clip.components[f].properties;
+            var param = properties && properties.getParamForDisplayName ? properties.getParamForDisplayName('Source Text') : properties ? properties['Source Text'] : null;
+            if (param) {
+              // The value is a JSON document holding the text and its layout
+              var value = param.getValue();
+              try {
+                return JSON.parse(value).textEditValue;
+              } catch (e) {
+                return String(value);
+              }
+            }
+          }
+          return null;
+        }
+
+        var captions = [];
+        var skippedClips = 0;
+        for (var c = 0; c < track.clips.numItems; c++) {
+          var clip = track.clips[c];
+          var text = sourceText(clip);
+          var style = {};
+          var title = text === null && clip.projectItem && clip.projectItem.getText ? clip.projectItem.getText() : null;
+          if (title) {
+            text = title.text;
+            if (title.bold) style.bold = true;
+            if (title.italic) style.italic = true;
+            if (title.underline) style.underline = true;
+            if (title.fillColor) style.color = title.fillColor;
+            if (title.horizontalJustification) style.align = title.horizontalJustification;
+            if (title.verticalJustification) style.position = title.verticalJustification === 'center' ? 'middle' : title.verticalJustification;
+          }
+          if (text === null || text === undefined || text === '') {
+            skippedClips++;
+            continue;
+          }
+          captions.push({ start: clip.start.seconds, end: clip.end.seconds, text: String(text), style: style });
+        }
+        return JSON.stringify({ ok: true, captions: captions, skippedClips: skippedClips });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId, trackIndex });
+    const result = await this.executeScript(script);
+    if (result.ok) return { captions: result.captions, skippedClips: result.skippedClips };
+    throw new Error(result.error || 'Unknown error reading text clips');
+  }
+
+  /**
+   * Apply an editorial trim to a clip and the clips linked to it. A positive
+   * offset moves the edit later. Every clip involved is checked for enough
+   * source media, room on its track and an unlocked track before anything
+   * changes, so a refused trim leaves the timeline as it was. `edge` picks
+   * the in or out point for ripple and roll edits.
+   */
+  async trimEdit(clipId: string, edit: PremiereProTrimEdit, offset: TimeValue, edge: 'in' | 'out' = 'out'): Promise<PremiereProTrimResult> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      try {
+        var clip = app.project.getClipByID(args.clipId);
+        if (!clip) {
+          throw new Error('Clip not found: ' + args.clipId);
+        }
+        var sequence = clipSequence(clip);
+        var perFrame = frameTicks(sequence);
+        var delta = signedTicks(args.offset, sequence);
+        if (delta === 0) {
+          throw new Error('The offset is less than a frame');
+        }
+
+        function ticks(time) {
+          return Number(time.ticks);
+        }
+
+        function frames(amount) {
+          return Math.floor(amount / perFrame + 1e-6);
+        }
+
+        function label(item) {
+          return (item.mediaType === 'Audio' ? 'A' : 'V') + (item.getTrack().index + 1) + ' clip "' + item.name + '"';
+        }
+
+        function speedOf(item) {
+          return Math.abs(item.getSpeed ? item.getSpeed() : 1) || 1;
+        }
+
+        // The out mark is cleared to read where the media ends, then put back
+        function mediaEnd(item) {
+          var projectItem = item.projectItem;
+          var marked = projectItem.getOutPoint();
+          projectItem.clearOutPoint();
+          var end = ticks(projectItem.getOutPoint());
+          if (ticks(marked) !== end) {
+            projectItem.setOutPoint(marked, 4);
+          }
+          return end;
+        }
+
+        function otherClips(item) {
+          var clips = item.getTrack().clips;
+          var others = [];
+          for (var c = 0; c < clips.numItems; c++) {
+            if (clips[c].nodeId !== item.nodeId) {
+              others.push(clips[c]);
+            }
+          }
+          return others;
+        }
+
+        // The clip butting against an item's start ('before') or end ('after')
+        function adjacent(item, side) {
+          var others = otherClips(item);
+          for (var c = 0; c < others.length; c++) {
+            var edge = side === 'before' ? ticks(others[c].end) - ticks(item.start) : ticks(others[c].start) - ticks(item.end);
+            if (Math.abs(edge) < perFrame / 2) {
+              return others[c];
+            }
+          }
+          return null;
+        }
+
+        // Empty timeline before or after an item, up to the next clip or the start of the sequence
+        function room(item, side) {
+          var others = otherClips(item);
+          var limit = side === 'before' ? 0 : Infinity;
+          for (var c = 0; c < others.length; c++) {
+            if (side === 'before' && ticks(others[c].end) <= ticks(item.start)) {
+              limit = Math.max(limit, ticks(others[c].end));
+            } else if (side === 'after' && ticks(others[c].start) >= ticks(item.end)) {
+              limit = Math.min(limit, ticks(others[c].start));
+            }
+          }
+          return side === 'before' ? ticks(item.start) - limit : limit - ticks(item.end);
+        }
+
+        // Plan a change to one clip in timeline ticks, refusing it if the clip can't take it
+        var plan = [];
+        function change(item, role, startDelta, inDelta, outDelta) {
+          for (var p = 0; p < plan.length; p++) {
+            if (plan[p].item.nodeId === item.nodeId) {
+              return;
+            }
+          }
+          if (item.getTrack().isLocked()) {
+            throw new Error(label(item) + ' is on a locked track');
+          }
+          var speed = speedOf(item);
+          var inPoint = ticks(item.inPoint) + Math.round(inDelta * speed);
+          var outPoint = ticks(item.outPoint) + Math.round(outDelta * speed);
+          if (inPoint < 0) {
+            throw new Error('Not enough media before the in point of ' + label(item) + ': needs ' + frames(-inDelta) + ' frames, has ' + frames(ticks(item.inPoint) / speed));
+          }
+          if (outDelta > 0) {
+            var end = mediaEnd(item);
+            if (outPoint > end) {
+              throw new Error('Not enough media after the out point of ' + label(item) + ': needs ' + frames(outDelta) + ' frames, has ' + frames(Math.max(0, end - ticks(item.outPoint)) / speed));
+            }
+          }
+          if ((outPoint - inPoint) / speed < perFrame / 2) {
+            throw new Error(label(item) + ' would be less than a frame long');
+          }
+          plan.push({
+            item: item,
+            role: role,
+            start: startDelta,
+            inPoint: inPoint - ticks(item.inPoint),
+            outPoint: outPoint - ticks(item.outPoint),
+            growth: outDelta - inDelta,
+            before: { start: ticks(item.start), end: ticks(item.end), inPoint: ticks(item.inPoint), outPoint: ticks(item.outPoint) }
+          });
+        }
+
+        function trim(item, role) {
+          if (args.edit === 'slip') {
+            change(item, role, 0, delta, delta);
+          } else if (args.edit === 'ripple') {
+            var shift = args.edge === 'in' ? -delta : delta;
+            var followers = otherClips(item);
+            var oldEnd = ticks(item.end);
+            change(item, role, 0, args.edge === 'in' ? delta : 0, args.edge === 'in' ? 0 : delta);
+            for (var f = 0; f < followers.length; f++) {
+              if (ticks(followers[f].start) > oldEnd - perFrame / 2) {
+                change(followers[f], 'neighbour', shift, 0, 0);
+              }
+            }
+          } else if (args.edit === 'roll') {
+            var partner = adjacent(item, args.edge === 'in' ? 'before' : 'after');
+            if (!partner) {
+              throw new Error(label(item) + ' has no clip against its ' + args.edge + ' point to roll with');
+            }
+            if (args.edge === 'in') {
+              change(partner, 'neighbour', 0, 0, delta);
+              change(item, role, delta, delta, 0);
+            } else {
+              change(item, role, 0, 0, delta);
+              change(partner, 'neighbour', delta, delta, 0);
+            }
+          } else {
+            var previous = adjacent(item, 'before');
+            var next = adjacent(item, 'after');
+            change(item, role, delta, 0, 0);
+            if (previous) {
+              change(previous, 'neighbour', 0, 0, delta);
+            } else if (-delta > room(item, 'before')) {
+              throw new Error('Only ' + frames(room(item, 'before')) + ' frames of room before ' + label(item) + ' to slide into');
+            }
+            if (next) {
+              change(next, 'neighbour', delta, delta, 0);
+            } else if (delta > room(item, 'after')) {
+              throw new Error('Only ' + frames(room(item, 'after')) + ' frames of room after ' + label(item) + ' to slide into');
+            }
+          }
+        }
+
+        trim(clip, 'clip');
+        var linked = clip.getLinkedItems ? clip.getLinkedItems() : null;
+        for (var l = 0; linked && l < linked.numItems; l++) {
+          if (linked[l].nodeId !== clip.nodeId) {
+            trim(linked[l], 'linked');
+          }
+        }
+
+        // Shorten clips first and lengthen them last so no clip runs over another on the way
+        plan.sort(function (a, b) {
+          var order = function (entry) { return entry.growth < 0 ? 0 : entry.growth === 0 ? 1 : 2; };
+          if (order(a) !== order(b)) {
+            return order(a) - order(b);
+          }
+          return a.start + b.start > 0 ? b.before.start - a.before.start : a.before.start - b.before.start;
+        });
+        for (var p = 0; p < plan.length; p++) {
+          var entry = plan[p];
+          if (entry.inPoint > 0) {
+            entry.item.outPoint = ticksTime(entry.before.outPoint + entry.outPoint);
+            entry.item.inPoint = ticksTime(entry.before.inPoint + entry.inPoint);
+          } else {
+            entry.item.inPoint = ticksTime(entry.before.inPoint + entry.inPoint);
+            entry.item.outPoint = ticksTime(entry.before.outPoint + entry.outPoint);
+          }
+          if (entry.start !== 0) {
+            entry.item.start = ticksTime(entry.before.start + entry.start);
+          }
+        }
+
+        var changes = [];
+        for (var p = 0; p < plan.length; p++) {
+          var entry = plan[p];
+          changes.push({
+            clipId: entry.item.nodeId,
+            name: entry.item.name,
+            trackType: entry.item.mediaType === 'Audio' ? 'audio' : 'video',
+            trackIndex: entry.item.getTrack().index,
+            role: entry.role,
+            startOffset: (ticks(entry.item.start) - entry.before.start) / TICKS_PER_SECOND,
+            endOffset: (ticks(entry.item.end) - entry.before.end) / TICKS_PER_SECOND,
+            inPointOffset: (ticks(entry.item.inPoint) - entry.before.inPoint) / TICKS_PER_SECOND,
+            outPointOffset: (ticks(entry.item.outPoint) - entry.before.outPoint) / TICKS_PER_SECOND
+          });
+        }
+        return JSON.stringify({ ok: true, edit: args.edit, offset: delta / TICKS_PER_SECOND, changes: changes });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { clipId, edit, offset: parseTimeOffset(offset), edge });
+    const result = await this.executeScript(script);
+    if (result.ok) return { edit: result.edit, offset: result.offset, changes: result.changes };
+    throw new Error(result.error || 'Unknown error trimming clip');
+  }
+
+  /**
+   * Move clips to new start times on their tracks, keeping their length and
+   * source range. Moves are made in the order given, so list clips moving
+   * earlier from the earliest and clips moving later from the latest.
+   */
+  async moveClips(moves: Array<{ clipId: string; start: TimeValue }>): Promise<Array<{ clipId: string; start: number }>> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      try {
+        var moved = [];
+        for (var m = 0; m < args.moves.length; m++) {
+          var clip = app.project.getClipByID(args.moves[m].clipId);
+          if (!clip) {
+            throw new Error('Clip not found: ' + args.moves[m].clipId);
+          }
+          clip.start = specTime(args.moves[m].start, clipSequence(clip));
+          moved.push({ clipId: clip.nodeId, start: clip.start.seconds });
+        }
+        return JSON.stringify({ ok: true, moved: moved });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { moves: moves.map(move => ({ clipId: move.clipId, start: parseTimeValue(move.start) })) });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.moved;
+    throw new Error(result.error || 'Unknown error moving clips');
+  }
+
+  /**
+   * Add tracks to a sequence after the track at `after` (-1 puts them
+   * first; by default they go after the last track of their type). Returns
+   * the new tracks.
+   */
+  async addTracks(sequenceId: string, type: 'video' | 'audio', count: number, options: { after?: number | undefined; audioType?: PremiereProAudioTrackType | undefined } = {}): Promise<PremiereProTrackState[]> {
+    const script = buildScript(`
+      ${TRACK_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+        var existing = sequenceTracks(sequence, args.type).numTracks;
+        var after = args.after === null ? existing - 1 : args.after;
+        if (after < -1 || after >= existing) {
+          throw new Error('Sequence has no ' + args.type + ' track ' + after + ' to add tracks after');
+        }
+        var added = withQeSequence(sequence, function (qeSequence) {
+          if (args.type === 'audio') {
+            qeSequence.addTracks(0, 0, args.count, args.audioType, after);
+          } else {
+            qeSequence.addTracks(args.count, after, 0);
+          }
+          if (sequenceTracks(sequence, args.type).numTracks !== existing + args.count) {
+            throw new Error('Premiere Pro did not add the tracks');
+          }
+          var tracks = [];
+          for (var t = 0; t < args.count; t++) {
+            tracks.push(readTrackState(sequence, args.type, after + 1 + t, qeSequence));
+          }
+          return tracks;
+        });
+        return JSON.stringify({ ok: true, tracks: added });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId, type, count, after: options.after ?? null, audioType: AUDIO_TRACK_TYPES[options.audioType ?? 'stereo'] });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.tracks;
+    throw new Error(result.error || 'Unknown error adding tracks');
+  }
+
+  /** Delete a track along with any clips on it. Returns the track as it was. */
+  async deleteTrack(sequenceId: string, type: 'video' | 'audio', index: number): Promise<PremiereProTrackState> {
+    const script = buildScript(`
+      ${TRACK_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+        var existing = sequenceTracks(sequence, args.type).numTracks;
+        var deleted = withQeSequence(sequence, function (qeSequence) {
+          var state = readTrackState(sequence, args.type, args.index, qeSequence);
+          if (args.type === 'audio') {
+            qeSequence.removeAudioTrack(args.index);
+          } else {
+            qeSequence.removeVideoTrack(args.index);
+          }
+          if (sequenceTracks(sequence, args.type).numTracks !== existing - 1) {
+            throw new Error('Premiere Pro did not delete the track');
+          }
+          return state;
+        });
+        return JSON.stringify({ ok: true, track: deleted });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId, type, index });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.track;
+    throw new Error(result.error || 'Unknown error deleting track');
+  }
+
+  /** Rename a track or flip its switches. Returns the track's new state. */
+  async updateTrack(sequenceId: string, type: 'video' | 'audio', index: number, changes: PremiereProTrackChanges): Promise<PremiereProTrackState> {
+    const script = buildScript(`
+      ${TRACK_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+        var track = sequenceTrack(sequence, args.type, args.index);
+        var changes = args.changes;
+        if (changes.visible !== undefined && args.type === 'audio') {
+          throw new Error('Audio tracks are muted rather than hidden');
+        }
+        if (changes.muted !== undefined && args.type === 'video') {
+          throw new Error('Video tracks are hidden rather than muted');
+        }
+        if (changes.name !== undefined) {
+          track.name = changes.name;
+          if (track.name !== changes.name) {
+            throw new Error('Premiere Pro did not rename the track');
+          }
+        }
+        if (changes.locked !== undefined) track.setLocked(changes.locked);
+        if (changes.targeted !== undefined) track.setTargeted(changes.targeted, true);
+        if (changes.visible !== undefined) track.setMute(!changes.visible);
+        if (changes.muted !== undefined) track.setMute(changes.muted);
+        var state = withQeSequence(sequence, function (qeSequence) {
+          if (changes.syncLocked !== undefined) {
+            qeTrack(qeSequence, args.type, args.index).setSyncLock(changes.syncLocked);
+          }
+          return readTrackState(sequence, args.type, args.index, qeSequence);
+        });
+        return JSON.stringify({ ok: true, track: state });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId, type, index, changes });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.track;
+    throw new Error(result.error || 'Unknown error updating track');
+  }
+
+  /** Read a clip's components with their parameter values and keyframes */
+  async getClipComponents(clipId: string): Promise<PremiereProClipComponents> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${COMPONENT_SCRIPT_HELPERS}
+      try {
+        var clip = app.project.getClipByID(args.clipId);
+        if (!clip) {
+          throw new Error('Clip not found: ' + args.clipId);
+        }
+        return JSON.stringify({ ok: true, clip: readClipComponents(clip) });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { clipId });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.clip;
+    throw new Error(result.error || 'Unknown error reading clip components');
+  }
+
+  /**
+   * Set component parameters on a clip, adding effects the changes name
+   * when the clip lacks them. Keyframe times are checked against the clip
+   * before anything changes. Returns the clip's components afterwards.
+   */
+  async setClipParameters(clipId: string, changes: PremiereProParameterChange[]): Promise<PremiereProClipComponents> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${COMPONENT_SCRIPT_HELPERS}
+      try {
+        var clip = app.project.getClipByID(args.clipId);
+        if (!clip) {
+          throw new Error('Clip not found: ' + args.clipId);
+        }
+        var sequence = clipSequence(clip);
+        var times = clipTimes(clip);
+        for (var c = 0; c < args.changes.length; c++) {
+          var change = args.changes[c];
+          if (!findComponent(clip, change.component) && !change.effect) {
+            throw new Error('Clip has no ' + change.component + ' component');
+          }
+          for (var k = 0; change.keyframes && k < change.keyframes.length; k++) {
+            change.keyframes[k].ticks = keyframeTicks(change.keyframes[k].time, change.parameter, sequence, times);
+          }
+        }
+
+        for (var c = 0; c < args.changes.length; c++) {
+          var change = args.changes[c];
+          var component = findComponent(clip, change.component);
+          if (!component) {
+            component = clip.addEffect(change.effect);
+            if (!component) {
+              throw new Error('Could not add ' + change.effect + ' to the clip');
+            }
+          }
+          var param = findParameter(component, change.parameter);
+          if (!param) {
+            throw new Error(change.component + ' has no ' + change.parameter + ' parameter');
+          }
+          if (change.keyframes) {
+            if (param.areKeyframesSupported && !param.areKeyframesSupported()) {
+              throw new Error(change.parameter + ' cannot be keyframed');
+            }
+            // Turning keyframing off and on again clears the old keyframes
+            param.setTimeVarying(false);
+            param.setTimeVarying(true);
+            for (var k = 0; k < change.keyframes.length; k++) {
+              var key = keyTime(change.keyframes[k].ticks, times);
+              param.addKey(key);
+              param.setValueAtKey(key, change.keyframes[k].value, true);
+              param.setInterpolationTypeAtKey(key, change.keyframes[k].interpolation, true);
+            }
+          } else {
+            if (param.isTimeVarying && param.isTimeVarying()) {
+              param.setTimeVarying(false);
+            }
+            param.setValue(change.value, true);
+          }
+        }
+        return JSON.stringify({ ok: true, clip: readClipComponents(clip) });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, {
+      clipId,
+      changes: changes.map(change => ({
+        ...change,
+        keyframes: change.keyframes?.map(keyframe => ({
+          time: parseTimeValue(keyframe.time),
+          value: keyframe.value,
+          interpolation: KEYFRAME_INTERPOLATION[keyframe.interpolation ?? 'linear']
+        }))
+      }))
+    });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.clip;
+    throw new Error(result.error || 'Unknown error setting clip parameters');
+  }
+
+  /**
+   * Add or remove keyframes on one parameter of a clip's component, picked
+   * by position as getClipComponents lists them. Removals are made first;
+   * `remove: 'all'` clears every keyframe. Added keyframes join any already
+   * there, replacing one at the same time. Returns the parameter afterwards.
+   */
+  async changeKeyframes(
+    clipId: string,
+    componentIndex: number,
+    parameterIndex: number,
+    changes: { add?: PremiereProKeyframeChange[] | undefined; remove?: TimeValue[] | 'all' | undefined }
+  ): Promise<PremiereProParameter> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${COMPONENT_SCRIPT_HELPERS}
+      try {
+        var clip = app.project.getClipByID(args.clipId);
+        if (!clip) {
+          throw new Error('Clip not found: ' + args.clipId);
+        }
+        var component = clip.components[args.componentIndex];
+        var param = component ? component.properties[args.parameterIndex] : null;
+        if (!param) {
+          throw new Error('Clip has no parameter ' + args.parameterIndex + ' on component ' + args.componentIndex);
+        }
+        var sequence = clipSequence(clip);
+        var times = clipTimes(clip);
+        var removals = [];
+        for (var r = 0; r < args.remove.length; r++) {
+          var key = findKey(param, keyframeTicks(args.remove[r], param.displayName, sequence, times), sequence, times);
+          if (!key) {
+            throw new Error(param.displayName + ' has no keyframe at ' + specTicks(args.remove[r], sequence) / TICKS_PER_SECOND + 's');
+          }
+          removals.push(key);
+        }
+        for (var a = 0; a < args.add.length; a++) {
+          args.add[a].ticks = keyframeTicks(args.add[a].time, param.displayName, sequence, times);
+        }
+        if (args.add.length > 0 && param.areKeyframesSupported && !param.areKeyframesSupported()) {
+          throw new Error(param.displayName + ' cannot be keyframed');
+        }
+
+        if (args.removeAll) {
+          param.setTimeVarying(false);
+        }
+        for (var r = 0; r < removals.length; r++) {
+          param.removeKey(removals[r], true);
+        }
+        if (args.add.length > 0 && !param.isTimeVarying()) {
+          param.setTimeVarying(true);
+        }
+        for (var a = 0; a < args.add.length; a++) {
+          var existing = findKey(param, args.add[a].ticks, sequence, times);
+          var time = existing || keyTime(args.add[a].ticks, times);
+          if (!existing) {
+            param.addKey(time);
+          }
+          param.setValueAtKey(time, args.add[a].value, true);
+          param.setInterpolationTypeAtKey(time, args.add[a].interpolation, true);
+        }
+        return JSON.stringify({ ok: true, parameter: readParameter(param, times) });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, {
+      clipId,
+      componentIndex,
+      parameterIndex,
+      add: (changes.add ?? []).map(keyframe => ({
+        time: parseTimeValue(keyframe.time),
+        value: keyframe.value,
+        interpolation: KEYFRAME_INTERPOLATION[keyframe.interpolation ?? 'linear']
+      })),
+      remove: changes.remove === 'all' ? [] : (changes.remove ?? []).map(parseTimeValue),
+      removeAll: changes.remove === 'all'
+    });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.parameter;
+    throw new Error(result.error || 'Unknown error changing keyframes');
+  }
+
+  /**
+   * Nest clips: the sequence is cloned and the clone cleared down to the
+   * given clips, which keep their tracks, effects and keyframes there; the
+   * clips are then replaced by the new sequence on the lowest video track
+   * and the lowest audio track they were on.
+   */
+  async nestClips(sequenceId: string, clipIds: string[], name: string): Promise<PremiereProNestResult> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          throw new Error('Sequence not found: ' + args.sequenceId);
+        }
+        var wanted = {};
+        for (var w = 0; w < args.clipIds.length; w++) {
+          wanted[args.clipIds[w]] = true;
+        }
+
+        // Clips by track and position, since the clone's clips have new IDs
+        var kinds = [
+          { type: 'video', tracks: sequence.videoTracks, lowest: -1 },
+          { type: 'audio', tracks: sequence.audioTracks, lowest: -1 }
+        ];
+        var chosen = {};
+        var found = [];
+        var rangeStart = null;
+        var rangeEnd = null;
+        for (var k = 0; k < kinds.length; k++) {
+          for (var i = 0; i < kinds[k].tracks.numTracks; i++) {
+            var track = kinds[k].tracks[i];
+            for (var c = 0; c < track.clips.numItems; c++) {
+              var clip = track.clips[c];
+              if (!wanted[clip.nodeId]) {
+                continue;
+              }
+              if (track.isLocked()) {
+                throw new Error('Clip ' + clip.nodeId + ' is on locked track ' + (kinds[k].type === 'video' ? 'V' : 'A') + (i + 1));
+              }
+              chosen[kinds[k].type + i + ':' + c] = true;
+              found.push({ clip: clip, track: track });
+              if (kinds[k].lowest === -1) {
+                kinds[k].lowest = i;
+              }
+              var start = Number(clip.start.ticks);
+              var end = Number(clip.end.ticks);
+              rangeStart = rangeStart === null ? start : Math.min(rangeStart, start);
+              rangeEnd = rangeEnd === null ? end : Math.max(rangeEnd, end);
+            }
+          }
+        }
+        if (found.length !== args.clipIds.length) {
+          var missing = [];
+          for (var w = 0; w < args.clipIds.length; w++) {
+            var present = false;
+            for (var f = 0; f < found.length; f++) {
+              present = present || found[f].clip.nodeId === args.clipIds[w];
+            }
+            if (!present) {
+              missing.push(args.clipIds[w]);
+            }
+          }
+          throw new Error('Clips not found in the sequence: ' + missing.join(', '));
+        }
+
+        // The nest takes up the whole range on the lowest tracks, so it mustn't overwrite anything left out
+        for (var k = 0; k < kinds.length; k++) {
+          if (kinds[k].lowest === -1) {
+            continue;
+          }
+          var lowest = kinds[k].tracks[kinds[k].lowest];
+          for (var c = 0; c < lowest.clips.numItems; c++) {
+            var other = lowest.clips[c];
+            if (!wanted[other.nodeId] && Number(other.start.ticks) < rangeEnd && Number(other.end.ticks) > rangeStart) {
+              throw new Error(other.name + ' (' + other.nodeId + ') sits within the nest on ' + (kinds[k].type === 'video' ? 'V' : 'A') + (kinds[k].lowest + 1) + '; nest it too or leave out the clips around it');
+            }
+          }
+        }
+
+        var nested = sequence.clone();
+        if (!nested) {
+          throw new Error('Could not copy the sequence to nest into');
+        }
+        nested.name = args.name;
+        var nestedKinds = [nested.videoTracks, nested.audioTracks];
+        for (var k = 0; k < kinds.length; k++) {
+          for (var i = 0; i < nestedKinds[k].numTracks; i++) {
+            var track = nestedKinds[k][i];
+            var locked = track.isLocked();
+            track.setLocked(false);
+            for (var c = track.clips.numItems - 1; c >= 0; c--) {
+              if (!chosen[kinds[k].type + i + ':' + c]) {
+                track.removeClip(track.clips[c], false);
+              }
+            }
+            // The range moves to the start of the nested sequence, earliest clip first
+            for (var c = 0; c < track.clips.numItems; c++) {
+              track.clips[c].start = ticksTime(Number(track.clips[c].start.ticks) - rangeStart);
+            }
+            track.setLocked(locked);
+          }
+        }
+        var markers = nested.markers;
+        while (markers && markers.numMarkers > 0) {
+          markers.deleteMarker(markers.getFirstMarker());
+        }
+
+        for (var f = 0; f < found.length; f++) {
+          found[f].track.removeClip(found[f].clip, false);
+        }
+        var nestClips = [];
+        for (var k = 0; k < kinds.length; k++) {
+          if (kinds[k].lowest === -1) {
+            continue;
+          }
+          var nestClip = kinds[k].tracks[kinds[k].lowest].overwriteClip(nested.projectItem, ticksTime(rangeStart));
+          if (!nestClip) {
+            throw new Error('Could not place the nested sequence on the timeline');
+          }
+          // Each track type's nest clip is placed explicitly, so drop what the edit linked in
+          var linked = nestClip.getLinkedItems ? nestClip.getLinkedItems() : null;
+          var extras = [];
+          for (var l = 0; linked && l < linked.numItems; l++) {
+            if (linked[l].nodeId !== nestClip.nodeId) {
+              extras.push(linked[l]);
+            }
+          }
+          for (var l = 0; l < extras.length; l++) {
+            extras[l].getTrack().removeClip(extras[l], false);
+          }
+          nestClips.push(nestClip.nodeId);
+        }
+
+        return JSON.stringify({
+          ok: true,
+          nest: {
+            sequenceId: nested.sequenceID,
+            name: nested.name,
+            nestClipId: nestClips[0],
+            nestClipIds: nestClips,
+            start: rangeStart / TICKS_PER_SECOND,
+            end: rangeEnd / TICKS_PER_SECOND,
+            clipCount: found.length
+          }
+        });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { sequenceId, clipIds, name });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.nest;
+    throw new Error(result.error || 'Unknown error nesting clips');
+  }
+
+  /**
+   * Replace a nest clip, and its part on the other track type, with copies of
+   * the clips inside the nested sequence: same track indexes, placed where
+   * they play through the nest and trimmed to the part the nest shows.
+   * Effects and keyframes are copied across as far as scripting allows.
+   * Nothing changes if a target track is missing, locked or occupied.
+   */
+  async unnestClip(clipId: string): Promise<PremiereProUnnestResult> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      ${COMPONENT_SCRIPT_HELPERS}
+      try {
+        var nestClip = app.project.getClipByID(args.clipId);
+        if (!nestClip) {
+          throw new Error('Clip not found: ' + args.clipId);
+        }
+        var nested = null;
+        for (var q = 0; nestClip.projectItem && q < app.project.sequences.numSequences; q++) {
+          var candidate = app.project.sequences[q];
+          if (candidate.projectItem && candidate.projectItem.nodeId === nestClip.projectItem.nodeId) {
+            nested = candidate;
+          }
+        }
+        if (!nested) {
+          throw new Error('Clip ' + args.clipId + ' is not a nested sequence');
+        }
+        if (Math.abs((nestClip.getSpeed ? nestClip.getSpeed() : 1) - 1) > 1e-6) {
+          throw new Error('Nest clips with a speed change cannot be unnested');
+        }
+        var sequence = clipSequence(nestClip);
+        var perFrame = frameTicks(sequence);
+        var nestIn = Number(nestClip.inPoint.ticks);
+        var nestOut = Number(nestClip.outPoint.ticks);
+        var offset = Number(nestClip.start.ticks) - nestIn;
+
+        // The nest clip and its other part: nest_clips places the video and audio parts
+        // separately, so they're matched by sequence, start and in point rather than links
+        var parts = [nestClip];
+        var otherTracks = nestClip.mediaType === 'Audio' ? sequence.videoTracks : sequence.audioTracks;
+        for (var i = 0; i < otherTracks.numTracks && parts.length === 1; i++) {
+          for (var c = 0; c < otherTracks[i].clips.numItems; c++) {
+            var other = otherTracks[i].clips[c];
+            if (other.projectItem && other.projectItem.nodeId === nestClip.projectItem.nodeId
+              && Math.abs(Number(other.start.ticks) - Number(nestClip.start.ticks)) < perFrame / 2
+              && Math.abs(Number(other.inPoint.ticks) - nestIn) < perFrame / 2) {
+              parts.push(other);
+              break;
+            }
+          }
+        }
+        var isPart = {};
+        var types = {};
+        for (var p = 0; p < parts.length; p++) {
+          isPart[parts[p].nodeId] = true;
+          types[parts[p].mediaType === 'Audio' ? 'audio' : 'video'] = true;
+        }
+
+        var warnings = [];
+        var placements = [];
+        var kinds = [
+          { type: 'video', from: nested.videoTracks, to: sequence.videoTracks },
+          { type: 'audio', from: nested.audioTracks, to: sequence.audioTracks }
+        ];
+        for (var k = 0; k < kinds.length; k++) {
+          if (!types[kinds[k].type]) {
+            continue;
+          }
+          for (var i = 0; i < kinds[k].from.numTracks; i++) {
+            var source = kinds[k].from[i];
+            for (var c = 0; c < source.clips.numItems; c++) {
+              var clip = source.clips[c];
+              var start = Math.max(Number(clip.start.ticks), nestIn);
+              var end = Math.min(Number(clip.end.ticks), nestOut);
+              if (end - start < perFrame / 2) {
+                continue;
+              }
+              var label = (kinds[k].type === 'video' ? 'V' : 'A') + (i + 1);
+              var target = i < kinds[k].to.numTracks ? kinds[k].to[i] : null;
+              if (!target) {
+                throw new Error('Sequence has no track ' + label + ' for ' + clip.name);
+              }
+              if (target.isLocked()) {
+                throw new Error('Track ' + label + ' is locked');
+              }
+              for (var o = 0; o < target.clips.numItems; o++) {
+                var other = target.clips[o];
+                if (!isPart[other.nodeId] && Number(other.start.ticks) < end + offset - perFrame / 2 && Number(other.end.ticks) > start + offset + perFrame / 2) {
+                  throw new Error(other.name + ' on ' + label + ' is in the way of ' + clip.name);
+                }
+              }
+              placements.push({ clip: clip, track: target, type: kinds[k].type, index: i, start: start, end: end });
+            }
+          }
+        }
+
+        for (var p = 0; p < parts.length; p++) {
+          parts[p].getTrack().removeClip(parts[p], false);
+        }
+
+        var placed = [];
+        for (var n = 0; n < placements.length; n++) {
+          var plan = placements[n];
+          var clip = plan.clip;
+          var speed = clip.getSpeed ? clip.getSpeed() : 1;
+          var inPoint = Number(clip.inPoint.ticks) + (plan.start - Number(clip.start.ticks)) * speed;
+          var projectItem = clip.projectItem;
+          projectItem.setInPoint(ticksTime(Math.round(inPoint)), 4);
+          projectItem.setOutPoint(ticksTime(Math.round(inPoint + (plan.end - plan.start) * speed)), 4);
+          var item = plan.track.overwriteClip(projectItem, ticksTime(plan.start + offset));
+          projectItem.clearInPoint();
+          projectItem.clearOutPoint();
+          if (!item) {
+            warnings.push('Could not place ' + clip.name);
+            continue;
+          }
+          var linkedItems = item.getLinkedItems ? item.getLinkedItems() : null;
+          var extras = [];
+          for (var l = 0; linkedItems && l < linkedItems.numItems; l++) {
+            if (linkedItems[l].nodeId !== item.nodeId) {
+              extras.push(linkedItems[l]);
+            }
+          }
+          for (var l = 0; l < extras.length; l++) {
+            extras[l].getTrack().removeClip(extras[l], false);
+          }
+          if (speed !== 1) {
+            item.speed = speed;
+          }
+          if (clip.disabled) {
+            item.disabled = true;
+          }
+
+          // Components line up by match name; effects the copy lacks are added by name
+          var used = {};
+          for (var s = 0; s < clip.components.numItems; s++) {
+            var from = clip.components[s];
+            var to = null;
+            for (var t = 0; t < item.components.numItems && !to; t++) {
+              if (!used[t] && item.components[t].matchName === from.matchName) {
+                to = item.components[t];
+                used[t] = true;
+              }
+            }
+            if (!to) {
+              to = item.addEffect(from.displayName);
+              if (to) {
+                used[item.components.numItems - 1] = true;
+              }
+            }
+            if (!to) {
+              warnings.push('Could not copy ' + from.displayName + ' onto ' + clip.name);
+              continue;
+            }
+            for (var r = 0; r < from.properties.numItems; r++) {
+              var param = from.properties[r];
+              var copy = findParameter(to, param.displayName);
+              try {
+                if (param.isTimeVarying && param.isTimeVarying()) {
+                  // Keyframes sit at source times, which the copy shares
+                  var keys = param.getKeys() || [];
+                  copy.setTimeVarying(true);
+                  for (var y = 0; y < keys.length; y++) {
+                    copy.addKey(keys[y]);
+                    copy.setValueAtKey(keys[y], param.getValueAtKey(keys[y]), true);
+                    if (typeof param.getInterpolationTypeAtKey === 'function') {
+                      copy.setInterpolationTypeAtKey(keys[y], param.getInterpolationTypeAtKey(keys[y]), true);
+                    }
+                  }
+                } else {
+                  copy.setValue(param.getValue(), true);
+                }
+              } catch (e) {
+                warnings.push('Could not copy ' + from.displayName + ' ' + param.displayName + ' onto ' + clip.name);
+              }
+            }
+          }
+          placed.push({
+            clipId: item.nodeId,
+            name: item.name,
+            sourceClipId: clip.nodeId,
+            trackType: plan.type,
+            trackIndex: plan.index,
+            start: item.start.seconds,
+            end: item.end.seconds
+          });
+        }
+        if (types.video && types.audio && placed.length > 0) {
+          warnings.push('Scripting cannot link clips, so unnested video and audio are no longer linked');
+        }
+
+        return JSON.stringify({ ok: true, result: { sequenceId: nested.sequenceID, clips: placed, warnings: warnings } });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `, { clipId });
+    const result = await this.executeScript(script);
+    if (result.ok) return result.result;
+    throw new Error(result.error || 'Unknown error unnesting clip');
+  }
+
+  async getStateFingerprint(timeoutMs: number = DEFAULT_RESPONSE_TIMEOUT_MS): Promise<PremiereProStateFingerprint> {
+    const script = buildScript(`
+      try {
+        var project = app.project;
+        if (!project || !project.rootItem) {
+          throw new Error('No open project');
+        }
+        var state = {
+          documentId: project.documentID,
+          path: project.path,
+          activeSequenceId: project.activeSequence ? project.activeSequence.sequenceID : null,
+          items: {},
+          sequences: {},
+          clips: {}
+        };
+
+        function walk(bin) {
+          for (var i = 0; i < bin.children.numItems; i++) {
+            var child = bin.children[i];
+            var isBin = child.type === ProjectItemType.BIN;
+            state.items[child.nodeId] = [child.name, child.type, isBin ? child.children.numItems : child.getMediaPath()].join('|');
+            if (isBin) {
+              walk(child);
+            }
+          }
+        }
+        walk(project.rootItem);
+
+        function trackSignature(track) {
+          var parts = [track.name, track.locked, track.muted, track.transitions.numItems];
+          for (var c = 0; c < track.clips.numItems; c++) {
+            var clip = track.clips[c];
+            var clipSignature = [
+              clip.name, clip.start.seconds, clip.end.seconds, clip.inPoint.seconds,
+              clip.outPoint.seconds, clip.speed, clip.components.numItems
+            ].join('|');
+            state.clips[clip.nodeId] = clipSignature;
+            parts.push(clip.nodeId + '=' + clipSignature);
+          }
+          return parts.join(';');
+        }
+
+        for (var s = 0; s < project.sequences.numSequences; s++) {
+          var sequence = project.sequences[s];
+          var parts = [sequence.name, sequence.framerate];
+          for (var v = 0; v < sequence.videoTracks.numTracks; v++) {
+            parts.push('V' + v + ':' + trackSignature(sequence.videoTracks[v]));
+          }
+          for (var a = 0; a < sequence.audioTracks.numTracks; a++) {
+            parts.push('A' + a + ':' + trackSignature(sequence.audioTracks[a]));
+          }
+          for (var m = 0; m < sequence.markers.numMarkers; m++) {
+            var marker = sequence.markers[m];
+            parts.push('M:' + [marker.start.seconds, marker.end.seconds, marker.name, marker.comment, marker.type, marker.color].join('|'));
+          }
+          state.sequences[sequence.sequenceID] = parts.join('#');
+        }
+
+        return JSON.stringify({ ok: true, state: state });
+      } catch (e) {
+        return JSON.stringify({ ok: false, error: String(e) });
+      }
+    `);
+    const result = await this.executeScript(script, timeoutMs);
+    if (result.ok) return result.state;
+    throw new Error(result.error || 'Unknown error reading project state');
+  }
+
+  async cleanup(): Promise<void> {
+    if (this.simulator) {
+      this.logger.info('Adobe Premiere Pro bridge cleaned up');
+      return;
+    }
+
+    if (this.uxpProcess) {
+      this.uxpProcess.kill();
+    }
+
+    if (this.socketServer) {
+      await this.socketServer.stop();
+      this.socketServer = undefined;
     }
     
     // Clean up temp directory
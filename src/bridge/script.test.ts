@@ -0,0 +1,66 @@
+import { buildScript, encodeScriptLiteral } from './script.js';
+import { PremiereProSimulator } from '../simulator/index.js';
+
+const HOSTILE_STRINGS = [
+  'He said "cut here"',
+  "it's O'Brien's clip",
+  'C:\\Users\\editor\\Footage\\A001.mov',
+  'trailing backslash \\',
+  'line\u2028separator and paragraph\u2029separator',
+  'comment closer */ and opener /*',
+  '");app.quit();//',
+  "');app.quit();//",
+  '`${app.quit()}`',
+  'tab\tnewline\ncarriage\rnull\u0000end',
+  'héllo wörld — 日本語 🎬',
+  '</script><script>alert(1)</script>'
+];
+
+describe('buildScript', () => {
+  let simulator: PremiereProSimulator;
+
+  beforeEach(() => {
+    simulator = new PremiereProSimulator();
+  });
+
+  it.each(HOSTILE_STRINGS)('round-trips %j byte for byte', (value) => {
+    const script = buildScript('return JSON.stringify({ value: args.value, length: args.value.length });', { value });
+
+    expect(simulator.execute(script)).toEqual({ value, length: value.length });
+  });
+
+  it('round-trips hostile strings nested in arrays and objects', () => {
+    const args = { names: HOSTILE_STRINGS, nested: { path: HOSTILE_STRINGS[2], text: HOSTILE_STRINGS[6] } };
+    const script = buildScript('return JSON.stringify(args);', args);
+
+    expect(simulator.execute(script)).toEqual(args);
+  });
+
+  it('passes hostile strings to the model unchanged', () => {
+    const name = '");app.quit();// */ \u2028 \\';
+    const script = buildScript('var bin = app.project.rootItem.createBin(args.name); return JSON.stringify({ name: bin.name });', { name });
+
+    expect(simulator.execute(script)).toEqual({ name });
+    expect(simulator.app.project.rootItem.children[0]?.name).toBe(name);
+  });
+
+  it('produces pure ASCII scripts', () => {
+    const script = buildScript('return "";', { value: HOSTILE_STRINGS.join('') });
+
+    expect(script).toMatch(/^[\x00-\x7f]*$/);
+    expect(script).not.toContain('\u2028');
+  });
+
+  it('composes into a single expression', () => {
+    const first = buildScript('return args.a;', { a: 'one */' });
+    const second = buildScript('return args.b;', { b: 'two");' });
+
+    expect(simulator.execute(`JSON.stringify([${first}, ${second}])`)).toEqual(['one */', 'two");']);
+  });
+});
+
+describe('encodeScriptLiteral', () => {
+  it('encodes undefined as null', () => {
+    expect(encodeScriptLiteral(undefined)).toBe('"null"');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Safe ExtendScript templating
+ *
+ * Scripts never have caller-supplied values spliced into their source. Instead
+ * the values travel as a JSON payload that the ExtendScript side decodes into
+ * an `args` object, so clip names, title text and Windows paths containing
+ * quotes, backslashes or newlines can't break the script or inject code.
+ */
+
+/** Values that can be passed to a script; anything JSON can represent */
+export type ScriptArgs = Record<string, unknown>;
+
+/**
+ * Encode a value as an ExtendScript string literal holding its JSON form.
+ *
+ * JSON.stringify already escapes quotes, backslashes and control characters.
+ * On top of that every non-ASCII character is written as a \uXXXX escape:
+ * U+2028/U+2029 are line terminators inside ES3 string literals, and keeping
+ * the script pure ASCII avoids code page surprises when the panel evaluates it.
+ */
+export function encodeScriptLiteral(value: unknown): string {
+  const json = JSON.stringify(value === undefined ? null : value);
+  return JSON.stringify(json).replace(/[\u007f-\uffff]/g, (char) =>
+    '\\u' + char.charCodeAt(0).toString(16).padStart(4, '0')
+  );
+}
+
+/**
+ * Build a script from a function body and its arguments.
+ *
+ * The body runs inside a function with `args` in scope and must `return` its
+ * result (normally a JSON.stringify call). The produced script is a single
+ * expression, so its value is the script's completion value and several
+ * scripts can be composed into one payload.
+ */
+export function buildScript(body: string, args: ScriptArgs = {}): string {
+  return `(function (args) {\n${body}\n})(JSON.parse(${encodeScriptLiteral(args)}))`;
+}
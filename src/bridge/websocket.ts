@@ -0,0 +1,262 @@
+/**
+ * WebSocket transport for the UXP panel
+ *
+ * The MCP server hosts a local WebSocket endpoint that the Premiere Pro panel
+ * connects to. Commands are multiplexed by id so several scripts can be in
+ * flight at once, and responses resolve as soon as the panel pushes them.
+ *
+ * Only the panel may connect. Browsers always send an Origin header on
+ * WebSocket handshakes, so any http(s) origin is turned away; otherwise a
+ * web page open on the same machine could drive Premiere Pro. When a token
+ * is configured the panel must also send it as the `token` query parameter.
+ */
+
+import { IncomingMessage } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Logger } from '../utils/logger.js';
+import {
+  BridgeInitializationError,
+  ScriptExecutionError,
+  ResponseTimeoutError,
+  ResponseParseError,
+  getErrorMessage,
+} from '../utils/errors.js';
+
+/** Message sent from the MCP server to the panel */
+export interface SocketCommand {
+  type: 'command';
+  id: string;
+  script: string;
+  timestamp: string;
+}
+
+/** Message sent from the panel back to the MCP server */
+export interface SocketResponse {
+  type: 'response';
+  id: string;
+  result?: any;
+  error?: string;
+}
+
+interface PendingCommand {
+  client: WebSocket;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class UxpSocketServer {
+  private logger: Logger;
+  private server: WebSocketServer | undefined;
+  private clients = new Set<WebSocket>();
+  private pending = new Map<string, PendingCommand>();
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+    /** When set, the panel must connect with `?token=<token>` */
+    private readonly token?: string | undefined
+  ) {
+    this.logger = new Logger('UxpSocketServer');
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const server = new WebSocketServer({
+        host: this.host,
+        port: this.port,
+        verifyClient: ({ origin, req }: { origin: string; req: IncomingMessage }) => this.verifyClient(origin, req)
+      });
+
+      const onStartupError = (error: Error) => {
+        reject(new BridgeInitializationError(
+          `Failed to listen on ws://${this.host}:${this.port}: ${getErrorMessage(error)}`,
+          error
+        ));
+      };
+
+      server.once('error', onStartupError);
+      server.once('listening', () => {
+        server.removeListener('error', onStartupError);
+        server.on('error', (error) => {
+          this.logger.error(`UXP socket server error: ${getErrorMessage(error)}`);
+        });
+        this.server = server;
+        resolve();
+      });
+      server.on('connection', (client) => this.handleConnection(client));
+    });
+
+    this.logger.info(`Waiting for UXP panel on ws://${this.host}:${this.port}`);
+  }
+
+  /**
+   * Whether at least one panel is connected and able to receive commands
+   */
+  isConnected(): boolean {
+    for (const client of this.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async send(id: string, script: string, timeoutMs: number): Promise<any> {
+    const client = this.pickClient();
+    if (!client) {
+      throw new ScriptExecutionError('No UXP panel connected', { commandId: id });
+    }
+
+    const command: SocketCommand = {
+      type: 'command',
+      id,
+      script,
+      timestamp: new Date().toISOString()
+    };
+
+    return await new Promise<any>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new ResponseTimeoutError(timeoutMs, `command ${id}`));
+      }, timeoutMs);
+
+      this.pending.set(id, { client, resolve, reject, timer });
+
+      client.send(JSON.stringify(command), (error) => {
+        if (error) {
+          this.settle(id, new ScriptExecutionError(
+            `Failed to send command to UXP panel: ${getErrorMessage(error)}`,
+            { commandId: id },
+            error
+          ));
+        }
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, new ScriptExecutionError('UXP socket server stopped', { commandId: id }));
+    }
+    for (const client of this.clients) {
+      client.terminate();
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private verifyClient(origin: string | undefined, req: IncomingMessage): boolean {
+    if (origin && /^https?:/i.test(origin)) {
+      this.logger.warn(`Refused WebSocket connection from web origin ${origin}`);
+      return false;
+    }
+
+    if (!this.token) {
+      return true;
+    }
+    const actual = Buffer.from(new URL(req.url ?? '/', 'ws://localhost').searchParams.get('token') ?? '');
+    const expected = Buffer.from(this.token);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      this.logger.warn('Refused WebSocket connection without a valid bridge token');
+      return false;
+    }
+    return true;
+  }
+
+  private pickClient(): WebSocket | undefined {
+    // The most recently connected panel wins; stale sockets are skipped
+    const open = [...this.clients].filter(client => client.readyState === WebSocket.OPEN);
+    return open[open.length - 1];
+  }
+
+  private handleConnection(client: WebSocket): void {
+    this.clients.add(client);
+    this.logger.info(`UXP panel connected (${this.clients.size} active)`);
+
+    client.on('message', (data) => this.handleMessage(data));
+
+    client.on('close', () => {
+      this.clients.delete(client);
+      this.logger.warn(`UXP panel disconnected (${this.clients.size} active)`);
+
+      // Anything still waiting on this panel will never be answered
+      for (const [id, pending] of this.pending) {
+        if (pending.client === client) {
+          this.settle(id, new ScriptExecutionError('UXP panel disconnected before responding', { commandId: id }));
+        }
+      }
+    });
+
+    client.on('error', (error) => {
+      this.logger.warn(`UXP panel socket error: ${getErrorMessage(error)}`);
+    });
+  }
+
+  private handleMessage(data: RawData): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data.toString());
+    } catch (error) {
+      this.logger.warn(`Ignoring malformed message from UXP panel: ${getErrorMessage(error)}`);
+      return;
+    }
+
+    // Valid JSON isn't necessarily an object: null or 42 must not reach the lookups below
+    if (typeof parsed !== 'object' || parsed === null || typeof (parsed as { id?: unknown }).id !== 'string') {
+      this.logger.warn(`Ignoring UXP panel message without a command id: ${data.toString().slice(0, 100)}`);
+      return;
+    }
+    const message = parsed as SocketResponse;
+
+    if (message.type !== 'response' || !this.pending.has(message.id)) {
+      this.logger.debug(`Ignoring unexpected message from UXP panel: ${message.type} ${message.id}`);
+      return;
+    }
+
+    if (message.error !== undefined) {
+      this.settle(message.id, new ScriptExecutionError(
+        `Script failed in Premiere Pro: ${message.error}`,
+        { commandId: message.id }
+      ));
+      return;
+    }
+
+    // Panels may hand back the raw ExtendScript string rather than parsed JSON
+    let result = message.result;
+    if (typeof result === 'string') {
+      try {
+        result = JSON.parse(result);
+      } catch (error) {
+        this.settle(message.id, new ResponseParseError(
+          `Invalid JSON in socket response for command ${message.id}: ${getErrorMessage(error)}`,
+          error instanceof Error ? error : undefined
+        ));
+        return;
+      }
+    }
+
+    this.settle(message.id, undefined, result);
+  }
+
+  private settle(id: string, error?: Error, result?: any): void {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+}
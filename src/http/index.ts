@@ -0,0 +1,252 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ *
+ * Serves the MCP endpoint over HTTP so one server on the edit-suite machine
+ * can be shared by several clients. Every client session gets its own
+ * protocol `Server` and transport, while the bridge to Premiere Pro is shared.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server as NodeHttpServer } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { BridgeInitializationError, getErrorMessage } from '../utils/errors.js';
+
+/** Path the MCP endpoint is served on */
+export const MCP_ENDPOINT_PATH = '/mcp';
+
+/** Requests larger than this are rejected before parsing */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** When set, every request must carry `Authorization: Bearer <token>` */
+  authToken?: string | undefined;
+}
+
+/** Told when a client session is established and when it goes away */
+export interface HttpSessionListener {
+  /** Called once the initialize handshake has assigned the session its id */
+  opened(server: Server): void;
+  closed(server: Server): void;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+export class McpHttpServer {
+  private logger: Logger;
+  private httpServer: NodeHttpServer | undefined;
+  private sessions = new Map<string, HttpSession>();
+
+  constructor(
+    private readonly options: HttpTransportOptions,
+    private readonly createMcpServer: () => Server,
+    private readonly listener?: HttpSessionListener | undefined
+  ) {
+    this.logger = new Logger('McpHttpServer');
+  }
+
+  async start(): Promise<void> {
+    const { host, port } = this.options;
+
+    await new Promise<void>((resolve, reject) => {
+      const httpServer = createServer((req, res) => {
+        this.handleRequest(req, res).catch((error) => {
+          this.logger.error(`Unhandled error serving ${req.method} ${req.url}: ${getErrorMessage(error)}`);
+          if (!res.headersSent) {
+            this.sendError(res, 500, -32603, 'Internal server error');
+          } else {
+            res.end();
+          }
+        });
+      });
+
+      const onStartupError = (error: Error) => {
+        reject(new BridgeInitializationError(
+          `Failed to listen on http://${host}:${port}${MCP_ENDPOINT_PATH}: ${getErrorMessage(error)}`,
+          error
+        ));
+      };
+
+      httpServer.once('error', onStartupError);
+      httpServer.listen(port, host, () => {
+        httpServer.removeListener('error', onStartupError);
+        httpServer.on('error', (error) => {
+          this.logger.error(`HTTP server error: ${getErrorMessage(error)}`);
+        });
+        this.httpServer = httpServer;
+        resolve();
+      });
+    });
+
+    if (!this.options.authToken && !LOOPBACK_HOSTS.has(host)) {
+      this.logger.warn(`Serving on ${host} without a bearer token; anyone who can reach this port can drive Premiere Pro`);
+    }
+    this.logger.info(`MCP endpoint listening on http://${host}:${port}${MCP_ENDPOINT_PATH}`);
+  }
+
+  /**
+   * Number of client sessions currently open
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async stop(): Promise<void> {
+    for (const [sessionId, session] of [...this.sessions]) {
+      this.sessions.delete(sessionId);
+      try {
+        await session.server.close();
+      } catch (error) {
+        this.logger.warn(`Failed to close session ${sessionId}: ${getErrorMessage(error)}`);
+      }
+    }
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_ENDPOINT_PATH) {
+      this.sendError(res, 404, -32000, `Not found; the MCP endpoint is ${MCP_ENDPOINT_PATH}`);
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, -32001, 'Missing or invalid bearer token');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await this.readJsonBody(req);
+      } catch (error) {
+        this.sendError(res, 400, -32700, `Parse error: ${getErrorMessage(error)}`);
+        return;
+      }
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, -32001, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      const session = await this.createSession();
+      try {
+        await session.transport.handleRequest(req, res, body);
+      } catch (error) {
+        await this.closeSession(session);
+        throw error;
+      }
+      // A rejected handshake leaves no session id and nothing will reach this server again
+      if (!session.transport.sessionId) {
+        await this.closeSession(session);
+      }
+      return;
+    }
+
+    this.sendError(res, 400, -32000, 'Bad request: missing session id, and the request is not an initialize request');
+  }
+
+  private async createSession(): Promise<HttpSession> {
+    const { host, port } = this.options;
+    const server = this.createMcpServer();
+
+    // Reject requests whose Host header doesn't match, so a web page can't
+    // reach a loopback-only server through DNS rebinding
+    const loopback = LOOPBACK_HOSTS.has(host);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: loopback,
+      allowedHosts: loopback ? [...LOOPBACK_HOSTS].map(name => (name === '::1' ? `[::1]:${port}` : `${name}:${port}`)) : [],
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, session);
+        this.logger.info(`Client session ${sessionId} opened (${this.sessions.size} active)`);
+        this.listener?.opened(server);
+      }
+    });
+    const session: HttpSession = { server, transport };
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        this.logger.info(`Client session ${sessionId} closed (${this.sessions.size} active)`);
+      }
+      if (sessionId) {
+        this.listener?.closed(server);
+      }
+    };
+
+    // The SDK's transport typings predate exactOptionalPropertyTypes
+    await server.connect(transport as Transport);
+    return session;
+  }
+
+  private async closeSession(session: HttpSession): Promise<void> {
+    try {
+      await session.server.close();
+    } catch (error) {
+      this.logger.warn(`Failed to close client session: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const token = this.options.authToken;
+    if (!token) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match?.[1]) {
+      return false;
+    }
+
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(match[1].trim());
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buffer.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new Error(`request body exceeds ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(buffer);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
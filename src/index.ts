@@ -25,13 +25,18 @@ import {
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListToolsRequestSchema,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { PremiereProTools } from './tools/index.js';
 import { PremiereProResources } from './resources/index.js';
+import { ResourceSubscriptions } from './resources/subscriptions.js';
 import { PremiereProPrompts } from './prompts/index.js';
 import { PremiereProBridge } from './bridge/index.js';
+import { McpHttpServer, HttpTransportOptions } from './http/index.js';
 import { Logger } from './utils/logger.js';
 import { PremiereError, getErrorMessage } from './utils/errors.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
@@ -39,17 +44,95 @@ import { zodToJsonSchema } from 'zod-to-json-schema';
 /** Timeout for graceful shutdown in milliseconds */
 const SHUTDOWN_TIMEOUT_MS = 5000;
 
+/** Default HTTP port; 3000 is taken by the UXP panel socket */
+const DEFAULT_HTTP_PORT = 3001;
+
+/** HTTP is served on loopback unless a host is given explicitly */
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+interface ServerOptions {
+  transport: 'stdio' | 'http';
+  http: HttpTransportOptions;
+}
+
+/**
+ * Resolve the transport from command line flags, falling back to environment
+ * variables. The bearer token is only read from the environment so it never
+ * shows up in process listings.
+ *
+ *   --http              serve streamable HTTP instead of stdio (MCP_TRANSPORT=http)
+ *   --port <port>       HTTP port (MCP_PORT, default 3001)
+ *   --host <host>       HTTP bind address (MCP_HOST, default 127.0.0.1)
+ *   MCP_AUTH_TOKEN      require `Authorization: Bearer <token>` on HTTP requests
+ */
+function parseServerOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): ServerOptions {
+  const options: ServerOptions = {
+    transport: env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio',
+    http: {
+      host: env.MCP_HOST || DEFAULT_HTTP_HOST,
+      port: Number(env.MCP_PORT) || DEFAULT_HTTP_PORT,
+      authToken: env.MCP_AUTH_TOKEN || undefined
+    }
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    switch (arg) {
+      case '--http':
+        options.transport = 'http';
+        break;
+      case '--stdio':
+        options.transport = 'stdio';
+        break;
+      case '--port': {
+        const port = Number(value);
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+          throw new Error(`Invalid --port value: ${value}`);
+        }
+        options.http.port = port;
+        i++;
+        break;
+      }
+      case '--host':
+        if (!value) {
+          throw new Error('--host requires a value');
+        }
+        options.http.host = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
 class MCPPremiereProServer {
-  private server: Server;
   private tools: PremiereProTools;
   private resources: PremiereProResources;
+  private subscriptions: ResourceSubscriptions;
   private prompts: PremiereProPrompts;
   private bridge: PremiereProBridge;
+  private httpServer: McpHttpServer | undefined;
   private logger: Logger;
 
-  constructor() {
+  constructor(private readonly options: ServerOptions) {
     this.logger = new Logger('MCPPremiereProServer');
-    this.server = new Server(
+    this.bridge = new PremiereProBridge();
+    this.tools = new PremiereProTools(this.bridge);
+    this.resources = new PremiereProResources(this.bridge);
+    this.subscriptions = new ResourceSubscriptions(this.bridge);
+    this.prompts = new PremiereProPrompts();
+  }
+
+  /**
+   * Build a protocol server wired to the shared bridge. Stdio uses a single
+   * one; the HTTP transport creates one per client session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'mcp-adobe-premiere-pro',
         version: '1.0.0',
@@ -58,24 +141,23 @@ class MCPPremiereProServer {
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
+          },
           prompts: {},
           logging: {}
         }
       }
     );
 
-    this.bridge = new PremiereProBridge();
-    this.tools = new PremiereProTools(this.bridge);
-    this.resources = new PremiereProResources(this.bridge);
-    this.prompts = new PremiereProPrompts();
-
-    this.setupHandlers();
+    this.setupHandlers(server);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools = this.tools.getAvailableTools().map((tool) => ({
         name: tool.name,
         description: tool.description,
@@ -85,11 +167,20 @@ class MCPPremiereProServer {
     });
 
     // Execute tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      // Long-running tools report progress when the client asked for it with a progress token
+      const progressToken = request.params._meta?.progressToken;
+      const onProgress = progressToken === undefined ? undefined : (progress: number, total: number, message: string) => {
+        extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, total, message } })
+          .catch(error => this.logger.warn(`Failed to send progress for '${name}': ${getErrorMessage(error)}`));
+      };
 
       try {
-        const result = await this.tools.executeTool(name, args || {});
+        const result = await this.tools.executeTool(name, args || {}, onProgress);
+        if (this.tools.isMutatingTool(name) && result?.success !== false) {
+          await this.subscriptions.handleToolCompleted(name, args || {});
+        }
         return {
           content: [
             {
@@ -115,14 +206,32 @@ class MCPPremiereProServer {
     });
 
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       return {
         resources: this.resources.getAvailableResources()
       };
     });
 
+    // List resource templates for per-sequence, per-clip and per-item URIs
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resources.getResourceTemplates()
+      };
+    });
+
+    // Track resource subscriptions for this client
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.subscribe(server, request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(server, request.params.uri);
+      return {};
+    });
+
     // Read resource content
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
       try {
@@ -148,14 +257,14 @@ class MCPPremiereProServer {
     });
 
     // List available prompts
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return {
         prompts: this.prompts.getAvailablePrompts()
       };
     });
 
     // Get prompt content
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -176,7 +285,7 @@ class MCPPremiereProServer {
     });
 
     // Error handling
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       this.logger.error('Server error:', error);
     };
   }
@@ -186,10 +295,21 @@ class MCPPremiereProServer {
       await this.bridge.initialize();
       this.logger.info('Adobe Premiere Pro bridge initialized');
       
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      if (this.options.transport === 'http') {
+        // HTTP sessions only get notifications once their handshake has succeeded
+        this.httpServer = new McpHttpServer(this.options.http, () => this.createServer(), {
+          opened: (server) => this.subscriptions.addSession(server),
+          closed: (server) => this.subscriptions.removeSession(server)
+        });
+        await this.httpServer.start();
+      } else {
+        const server = this.createServer();
+        this.subscriptions.addSession(server);
+        server.onclose = () => this.subscriptions.removeSession(server);
+        await server.connect(new StdioServerTransport());
+      }
       
-      this.logger.info('MCP Adobe Premiere Pro Server started successfully');
+      this.logger.info(`MCP Adobe Premiere Pro Server started successfully (${this.options.transport})`);
     } catch (error) {
       this.logger.error('Failed to start server:', error);
       throw error;
@@ -198,6 +318,11 @@ class MCPPremiereProServer {
 
   async stop(): Promise<void> {
     try {
+      if (this.httpServer) {
+        await this.httpServer.stop();
+        this.httpServer = undefined;
+      }
+      this.subscriptions.stop();
       await this.bridge.cleanup();
       this.logger.info('MCP Adobe Premiere Pro Server stopped');
     } catch (error) {
@@ -208,7 +333,14 @@ class MCPPremiereProServer {
 }
 
 // Start the server
-const server = new MCPPremiereProServer();
+let serverOptions: ServerOptions;
+try {
+  serverOptions = parseServerOptions(process.argv.slice(2));
+} catch (error) {
+  console.error(getErrorMessage(error));
+  process.exit(1);
+}
+const server = new MCPPremiereProServer(serverOptions);
 
 /**
  * Graceful shutdown handler with timeout protection
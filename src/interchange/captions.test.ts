@@ -0,0 +1,149 @@
+import { CaptionCue, conformCaptions, formatSrt, formatVtt, parseCaptions, parseSrt, parseVtt, validateCaptions } from './captions.js';
+import { frameRateToTicksPerFrame } from '../utils/time.js';
+
+function cuesFixture(): CaptionCue[] {
+  return [
+    { start: 1, end: 3.5, lines: ['Plain text'] },
+    { start: 4, end: 6, lines: ['Two lines', 'where 5 > 3 & more'], style: { italic: true, color: 'yellow' } },
+    { start: 7.25, end: 9, lines: ['Up top'], style: { bold: true, position: 'top', align: 'left' } },
+    { start: 3725.04, end: 3726, lines: ['An hour in'] }
+  ];
+}
+
+describe('SubRip', () => {
+  it('round-trips cues with their whole-cue styling', () => {
+    const text = formatSrt(cuesFixture());
+    expect(text).toContain('1\n00:00:01,000 --> 00:00:03,500\nPlain text\n');
+    expect(text).toContain('<font color="yellow"><i>Two lines\nwhere 5 > 3 & more</i></font>');
+    expect(text).toContain('{\\an7}<b>Up top</b>');
+    expect(text).toContain('01:02:05,040 --> 01:02:06,000');
+
+    const parsed = parseSrt(text);
+    expect(parsed).toMatchObject({ format: 'srt', styleSheets: [], warnings: [] });
+    expect(parsed.cues).toEqual(cuesFixture());
+  });
+
+  it('skips malformed cues with a warning for each', () => {
+    const parsed = parseSrt([
+      '1', '00:00:01,000 --> 00:00:02,000', 'Kept', '',
+      '2', '00:00:03,000 -> 00:00:04,000', 'No arrow', '',
+      '3', '00:00:05,000 --> 00:00:04,000', 'Backwards', '',
+      '4', '00:00:05,000 --> 00:00:61,000', 'Bad seconds', '',
+      '5', '00:00:06,000 --> 00:00:07,000', '', '',
+      '6', '00:00:08,000 --> 00:00:09,000', '<b>Half</b> bold'
+    ].join('\r\n'));
+
+    expect(parsed.cues.map(cue => cue.lines)).toEqual([['Kept'], ['Half bold']]);
+    expect(parsed.warnings).toEqual([
+      'Line 5: skipped a block with no cue timing',
+      'Line 10: skipped a cue that ends before it starts',
+      'Line 14: skipped a cue with invalid timing "00:00:05,000 --> 00:00:61,000"',
+      'Line 18: skipped a cue with no text',
+      "1 cue(s) style only part of their text; that styling isn't kept"
+    ]);
+  });
+
+  it('fails when there are no cues at all', () => {
+    expect(() => parseSrt('')).toThrow('No caption cues found in the SRT file');
+    expect(() => parseSrt('just some text\n')).toThrow('No caption cues found in the SRT file');
+  });
+});
+
+describe('WebVTT', () => {
+  it('round-trips cues, escaping text and defining custom colors', () => {
+    const cues = cuesFixture();
+    cues[0]!.id = 'intro';
+    cues[0]!.style = { color: '#FF8800', voice: 'Sam' };
+    const text = formatVtt(cues);
+    expect(text).toMatch(/^WEBVTT\n\nSTYLE\n::cue\(\.color_ff8800\) \{ color: #FF8800; \}\n/);
+    expect(text).toContain('intro\n00:00:01.000 --> 00:00:03.500\n<v Sam><c.color_ff8800>Plain text</c></v>\n');
+    expect(text).toContain('where 5 &gt; 3 &amp; more');
+    expect(text).toContain('00:00:07.250 --> 00:00:09.000 align:start line:0');
+
+    const parsed = parseVtt(text);
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.styleSheets).toEqual(['::cue(.color_ff8800) { color: #FF8800; }']);
+    expect(parsed.cues).toEqual([
+      { id: 'intro', start: 1, end: 3.5, lines: ['Plain text'], style: { color: '#FF8800', voice: 'Sam' } },
+      cues[1],
+      cues[2],
+      cues[3]
+    ]);
+  });
+
+  it('reads cue settings, short timestamps and entities, and skips notes', () => {
+    const parsed = parseCaptions([
+      '﻿WEBVTT - a title',
+      '',
+      'NOTE written by hand',
+      '',
+      '00:05.000 --> 00:06.500 align:end line:50%',
+      'Tom &amp; Jerry&#33;',
+      '',
+      '01:00.000 --> 01:01.000',
+      '<c.lime>Green</c> <00:01:00.500>karaoke'
+    ].join('\n'));
+
+    expect(parsed.format).toBe('vtt');
+    expect(parsed.cues).toEqual([
+      { start: 5, end: 6.5, lines: ['Tom & Jerry!'], style: { align: 'right', position: 'middle' } },
+      { start: 60, end: 61, lines: ['Green karaoke'] }
+    ]);
+    expect(parsed.warnings).toEqual(["1 cue(s) style only part of their text; that styling isn't kept"]);
+  });
+
+  it('refuses files without the WEBVTT header', () => {
+    expect(() => parseVtt('00:01.000 --> 00:02.000\nHello\n')).toThrow('Not a WebVTT file');
+    expect(() => parseVtt('WEBVTT\n\nNOTE nothing else\n')).toThrow('No caption cues found in the WebVTT file');
+  });
+});
+
+describe('conformCaptions', () => {
+  const timebase = frameRateToTicksPerFrame(25);
+
+  it('snaps cues to frames, shifts them and cleans up what falls outside', () => {
+    const { cues, warnings } = conformCaptions([
+      { start: 0, end: 0.5, lines: ['Gone'] },
+      { start: 0.9, end: 2.01, lines: ['Cut at zero'] },
+      { start: 2.5, end: 2.505, lines: ['Too short'] },
+      { start: 3, end: 5, lines: ['Overlaps'] },
+      { start: 4, end: 5, lines: ['Next'] }
+    ], { timebase, offset: -1 });
+
+    expect(cues.map(cue => [cue.lines[0], cue.start, cue.end])).toEqual([
+      ['Cut at zero', 0, 1.0],
+      ['Too short', 1.52, 1.56],
+      ['Overlaps', 2, 3],
+      ['Next', 3, 4]
+    ]);
+    expect(warnings).toEqual([
+      '1 cue(s) end before the start of the sequence and were dropped',
+      '1 cue(s) start before the start of the sequence and were cut to start at 0',
+      '1 cue(s) are shorter than a frame and were lengthened to one frame',
+      '1 cue(s) overlap the next cue and were cut where it starts'
+    ]);
+  });
+
+  it('keeps frame positions when converting from another frame rate', () => {
+    // Frame 240 at 23.976 fps is frame 240 at 25 fps
+    const { cues } = conformCaptions([{ start: 240 * 1001 / 24000, end: 264 * 1001 / 24000, lines: ['Ten seconds'] }], { timebase, sourceFrameRate: 23.976 });
+    expect(cues[0]).toMatchObject({ start: 9.6, end: 10.56 });
+  });
+});
+
+describe('validateCaptions', () => {
+  it('flags fast, long and tall cues', () => {
+    const violations = validateCaptions([
+      { start: 0, end: 1, lines: ['This cue has far too many characters to read in one second'] },
+      { start: 2, end: 10, lines: ['One', 'Two', 'Three'] },
+      { start: 11, end: 11, lines: ['Instant'] }
+    ], { maxLineLength: 32 });
+
+    expect(violations.map(violation => [violation.cue, violation.rule])).toEqual([
+      [0, 'reading-speed'],
+      [0, 'line-length'],
+      [1, 'line-count'],
+      [2, 'reading-speed']
+    ]);
+  });
+});
@@ -0,0 +1,529 @@
+/**
+ * SubRip (.srt) and WebVTT (.vtt) captions
+ *
+ * A caption file is a list of cues, each showing one or more lines of text
+ * over a time range. Cues are read into plain text lines plus the styling
+ * that applies to the whole cue (emphasis, color, alignment and vertical
+ * placement), since that is what caption tracks and title clips can carry.
+ * Times are in seconds.
+ */
+
+import { TICKS_PER_SECOND, frameRateToTicksPerFrame } from '../utils/time.js';
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  /** CSS color name or hex value */
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+  /** Vertical placement on screen */
+  position?: 'top' | 'middle' | 'bottom';
+  /** Speaker from a WebVTT voice span */
+  voice?: string;
+}
+
+export interface CaptionCue {
+  id?: string;
+  start: number;
+  end: number;
+  lines: string[];
+  style?: CaptionStyle;
+}
+
+export interface ParsedCaptions {
+  format: CaptionFormat;
+  cues: CaptionCue[];
+  /** CSS from WebVTT STYLE blocks */
+  styleSheets: string[];
+  warnings: string[];
+}
+
+export interface CaptionTimingOptions {
+  /** Seconds added to every cue after any frame rate conversion */
+  offset?: number | undefined;
+  /** Frame rate the cues were timed against; cues keep their frame positions at the target rate */
+  sourceFrameRate?: number | undefined;
+  /** Ticks per frame of the sequence the cues are placed on; times snap to its frames */
+  timebase: number;
+}
+
+/** Colors WebVTT defines as cue classes, e.g. <c.yellow> */
+const VTT_COLOR_CLASSES = new Set(['white', 'lime', 'cyan', 'red', 'yellow', 'magenta', 'blue', 'black']);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', lrm: '\u200E', rlm: '\u200F' };
+
+const TIMING_PATTERN = /^\s*(\S+)\s+-->\s+(\S+)(.*)$/;
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/;
+
+/** Cue timing such as 00:01:02,500 or 01:02.500, in seconds */
+function parseTimestamp(text: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) {
+    return null;
+  }
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction!.padEnd(3, '0')) / 1000;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(Math.floor(milliseconds / 3600000))}:${pad(Math.floor(milliseconds / 60000) % 60)}:${pad(Math.floor(milliseconds / 1000) % 60)}${separator}${pad(milliseconds % 1000, 3)}`;
+}
+
+function unescapeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Strip inline markup from cue text, keeping styling that covers every
+ * visible character. Returns whether some styling only covered part of the
+ * cue and so had to be dropped.
+ */
+function parseCueText(text: string, classColors: Map<string, string> = new Map()): { lines: string[]; style: CaptionStyle; partial: boolean } {
+  const style: CaptionStyle = {};
+
+  // SubRip files often carry ASS-style overrides such as {\an8} for placement
+  const override = /\{\\an([1-9])\}/.exec(text);
+  if (override) {
+    const code = Number(override[1]);
+    style.position = code >= 7 ? 'top' : code >= 4 ? 'middle' : 'bottom';
+    style.align = (['left', 'center', 'right'] as const)[(code - 1) % 3]!;
+  }
+  text = text.replace(/\{\\[^}]*\}/g, '');
+
+  interface Span { tag: string; classes: string[]; annotation: string; color?: string }
+  const open: Span[] = [];
+  const segments: Array<{ text: string; spans: Span[] }> = [];
+  let position = 0;
+  for (const match of text.matchAll(/<(\/?)([a-z]+|\d[\d:.]*)((?:\.[\w-]+)*)([^>]*)>/gi)) {
+    segments.push({ text: text.slice(position, match.index), spans: [...open] });
+    position = match.index! + match[0].length;
+    const tag = match[2]!.toLowerCase();
+    if (/^\d/.test(tag)) {
+      // Karaoke timestamps inside a cue
+      continue;
+    }
+    if (match[1]) {
+      const index = open.map(span => span.tag).lastIndexOf(tag);
+      if (index !== -1) {
+        open.splice(index);
+      }
+      continue;
+    }
+    const span: Span = { tag, classes: match[3]!.split('.').filter(Boolean), annotation: match[4]!.trim() };
+    const colorClass = span.classes.find(name => classColors.has(name) || VTT_COLOR_CLASSES.has(name.toLowerCase()));
+    const color = /color\s*=\s*["']?([^"'\s>]+)/i.exec(span.annotation)?.[1] ?? (colorClass && (classColors.get(colorClass) ?? colorClass));
+    if (color) {
+      span.color = color;
+    }
+    open.push(span);
+  }
+  segments.push({ text: text.slice(position), spans: [...open] });
+
+  const visible = segments.filter(segment => segment.text.trim());
+  const coverage = (test: (span: Span) => boolean) => {
+    const covered = visible.filter(segment => segment.spans.some(test)).length;
+    return covered === 0 ? 'none' : covered === visible.length ? 'all' : 'some';
+  };
+  let partial = false;
+  const flags: Array<[keyof Pick<CaptionStyle, 'bold' | 'italic' | 'underline'>, string]> = [['bold', 'b'], ['italic', 'i'], ['underline', 'u']];
+  for (const [flag, tag] of flags) {
+    const covered = coverage(span => span.tag === tag);
+    if (covered === 'all') {
+      style[flag] = true;
+    } else if (covered === 'some') {
+      partial = true;
+    }
+  }
+  const colors = new Set(visible.map(segment => [...segment.spans].reverse().find(span => span.color)?.color));
+  if (colors.size === 1 && [...colors][0]) {
+    style.color = [...colors][0]!;
+  } else if (colors.size > 1) {
+    partial = true;
+  }
+  const voice = visible.map(segment => segment.spans.find(span => span.tag === 'v')?.annotation).find(Boolean);
+  if (voice) {
+    style.voice = voice;
+  }
+
+  const lines = unescapeEntities(segments.map(segment => segment.text).join(''))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+  return { lines, style, partial };
+}
+
+/** Alignment and vertical placement from WebVTT cue settings */
+function parseCueSettings(settings: string): CaptionStyle {
+  const style: CaptionStyle = {};
+  for (const setting of settings.trim().split(/\s+/)) {
+    const [name, value = ''] = setting.split(':');
+    if (name === 'align') {
+      const align = ({ start: 'left', left: 'left', center: 'center', middle: 'center', end: 'right', right: 'right' } as const)[value as 'start'];
+      if (align) {
+        style.align = align;
+      }
+    } else if (name === 'line') {
+      const line = value.split(',')[0]!;
+      if (line.endsWith('%')) {
+        const percent = Number(line.slice(0, -1));
+        style.position = percent < 33 ? 'top' : percent > 66 ? 'bottom' : 'middle';
+      } else if (line !== 'auto' && Number.isFinite(Number(line))) {
+        style.position = Number(line) < 0 ? 'bottom' : 'top';
+      }
+    }
+  }
+  return style;
+}
+
+function isEmptyStyle(style: CaptionStyle): boolean {
+  return Object.keys(style).length === 0;
+}
+
+/**
+ * Parse cue blocks shared by both formats: an optional identifier line, a
+ * timing line and the cue text. Malformed cues are skipped with a warning.
+ */
+function parseCueBlock(block: string[], lineNumber: number, format: CaptionFormat, warnings: string[], classColors?: Map<string, string>): { cue: CaptionCue; partial: boolean } | null {
+  const timingIndex = block.findIndex(line => line.includes('-->'));
+  if (timingIndex === -1 || timingIndex > 1) {
+    warnings.push(`Line ${lineNumber}: skipped a block with no cue timing`);
+    return null;
+  }
+  const timing = TIMING_PATTERN.exec(block[timingIndex]!);
+  const start = timing ? parseTimestamp(timing[1]!) : null;
+  const end = timing ? parseTimestamp(timing[2]!) : null;
+  if (start === null || end === null) {
+    warnings.push(`Line ${lineNumber + timingIndex}: skipped a cue with invalid timing "${block[timingIndex]!.trim()}"`);
+    return null;
+  }
+  if (end <= start) {
+    warnings.push(`Line ${lineNumber + timingIndex}: skipped a cue that ends before it starts`);
+    return null;
+  }
+
+  const { lines, style, partial } = parseCueText(block.slice(timingIndex + 1).join('\n'), classColors);
+  if (lines.length === 0) {
+    warnings.push(`Line ${lineNumber + timingIndex}: skipped a cue with no text`);
+    return null;
+  }
+  if (format === 'vtt') {
+    Object.assign(style, parseCueSettings(timing![3]!));
+  }
+
+  const cue: CaptionCue = { start, end, lines };
+  const id = timingIndex === 1 ? block[0]!.trim() : '';
+  if (id) {
+    cue.id = id;
+  }
+  if (!isEmptyStyle(style)) {
+    cue.style = style;
+  }
+  return { cue, partial };
+}
+
+/** Split text into blank-line separated blocks, with each block's first line number */
+function blocks(text: string): Array<{ lines: string[]; lineNumber: number }> {
+  const result: Array<{ lines: string[]; lineNumber: number }> = [];
+  let current: { lines: string[]; lineNumber: number } | null = null;
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { lines: [], lineNumber: index + 1 };
+      result.push(current);
+    }
+    current.lines.push(line);
+  });
+  return result;
+}
+
+export function parseSrt(text: string): ParsedCaptions {
+  const warnings: string[] = [];
+  const cues: CaptionCue[] = [];
+  let partialStyling = 0;
+  for (const block of blocks(text)) {
+    const parsed = parseCueBlock(block.lines, block.lineNumber, 'srt', warnings);
+    if (parsed) {
+      // SubRip cue numbers are only a sequence, not an identifier worth keeping
+      delete parsed.cue.id;
+      cues.push(parsed.cue);
+      partialStyling += parsed.partial ? 1 : 0;
+    }
+  }
+  return finishCaptions('srt', cues, [], warnings, partialStyling);
+}
+
+export function parseVtt(text: string): ParsedCaptions {
+  const all = blocks(text);
+  const header = all.shift();
+  if (!header || !/^WEBVTT(?:[ \t].*)?$/.test(header.lines[0]!)) {
+    throw new Error('Not a WebVTT file: the first line must be WEBVTT');
+  }
+
+  const warnings: string[] = [];
+  const cues: CaptionCue[] = [];
+  const styleSheets: string[] = [];
+  const classColors = new Map<string, string>();
+  let partialStyling = 0;
+  for (const block of all) {
+    const first = block.lines[0]!;
+    if (/^NOTE(?:\s|$)/.test(first) || /^REGION(?:\s|$)/.test(first)) {
+      continue;
+    }
+    if (/^STYLE(?:\s|$)/.test(first)) {
+      const css = block.lines.slice(1).join('\n');
+      styleSheets.push(css);
+      // Classes that only set a color, as formatVtt writes for colors outside the named ones
+      for (const rule of css.matchAll(/::cue\(\.([\w-]+)\)\s*\{\s*color\s*:\s*([^;}]+?)\s*;?\s*\}/g)) {
+        classColors.set(rule[1]!, rule[2]!);
+      }
+      continue;
+    }
+    const parsed = parseCueBlock(block.lines, block.lineNumber, 'vtt', warnings, classColors);
+    if (parsed) {
+      cues.push(parsed.cue);
+      partialStyling += parsed.partial ? 1 : 0;
+    }
+  }
+  return finishCaptions('vtt', cues, styleSheets, warnings, partialStyling);
+}
+
+function finishCaptions(format: CaptionFormat, cues: CaptionCue[], styleSheets: string[], warnings: string[], partialStyling: number): ParsedCaptions {
+  if (cues.length === 0) {
+    throw new Error(`No caption cues found in the ${format === 'srt' ? 'SRT' : 'WebVTT'} file`);
+  }
+  if (partialStyling > 0) {
+    warnings.push(`${partialStyling} cue(s) style only part of their text; that styling isn't kept`);
+  }
+  cues.sort((a, b) => a.start - b.start);
+  return { format, cues, styleSheets, warnings };
+}
+
+/** Parse SRT or WebVTT, detecting the format from the WEBVTT header when not given */
+export function parseCaptions(text: string, format?: CaptionFormat): ParsedCaptions {
+  const detected = format ?? (/^\uFEFF?WEBVTT/.test(text) ? 'vtt' : 'srt');
+  return detected === 'vtt' ? parseVtt(text) : parseSrt(text);
+}
+
+/**
+ * Move cues onto a sequence's frame grid: rescale for a frame rate change,
+ * shift by the offset and round each edge to the nearest frame. Cues that
+ * end up before the start of the sequence are dropped, and a cue that runs
+ * into the next one is cut at the next one's start.
+ */
+export function conformCaptions(cues: CaptionCue[], options: CaptionTimingOptions): { cues: CaptionCue[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const frameRate = TICKS_PER_SECOND / options.timebase;
+  const scale = options.sourceFrameRate ? TICKS_PER_SECOND / frameRateToTicksPerFrame(options.sourceFrameRate) / frameRate : 1;
+  const offset = options.offset ?? 0;
+  const toFrame = (seconds: number) => Math.round((seconds * scale + offset) * frameRate);
+  const toSeconds = (frame: number) => frame * options.timebase / TICKS_PER_SECOND;
+
+  const conformed: Array<CaptionCue & { startFrame: number; endFrame: number }> = [];
+  let dropped = 0;
+  let clipped = 0;
+  let lengthened = 0;
+  for (const cue of cues) {
+    let startFrame = toFrame(cue.start);
+    let endFrame = toFrame(cue.end);
+    if (endFrame <= 0) {
+      dropped++;
+      continue;
+    }
+    if (startFrame < 0) {
+      startFrame = 0;
+      clipped++;
+    }
+    if (endFrame <= startFrame) {
+      endFrame = startFrame + 1;
+      lengthened++;
+    }
+    conformed.push({ ...cue, startFrame, endFrame });
+  }
+
+  let trimmed = 0;
+  for (let index = 0; index < conformed.length - 1; index++) {
+    const cue = conformed[index]!;
+    const next = conformed[index + 1]!;
+    if (cue.endFrame > next.startFrame) {
+      cue.endFrame = Math.max(cue.startFrame + 1, next.startFrame);
+      trimmed++;
+    }
+  }
+
+  if (dropped > 0) {
+    warnings.push(`${dropped} cue(s) end before the start of the sequence and were dropped`);
+  }
+  if (clipped > 0) {
+    warnings.push(`${clipped} cue(s) start before the start of the sequence and were cut to start at 0`);
+  }
+  if (lengthened > 0) {
+    warnings.push(`${lengthened} cue(s) are shorter than a frame and were lengthened to one frame`);
+  }
+  if (trimmed > 0) {
+    warnings.push(`${trimmed} cue(s) overlap the next cue and were cut where it starts`);
+  }
+
+  return {
+    cues: conformed.map(({ startFrame, endFrame, ...cue }) => ({ ...cue, start: toSeconds(startFrame), end: toSeconds(endFrame) })),
+    warnings
+  };
+}
+
+/**
+ * Write cues as SubRip. Whole-cue emphasis and color become inline tags and
+ * top or middle placement an {\anN} override, which Premiere Pro and most
+ * players honour.
+ */
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues.map((cue, index) => {
+    const style = cue.style ?? {};
+    let text = cue.lines.join('\n');
+    if (style.underline) {
+      text = `<u>${text}</u>`;
+    }
+    if (style.italic) {
+      text = `<i>${text}</i>`;
+    }
+    if (style.bold) {
+      text = `<b>${text}</b>`;
+    }
+    if (style.color) {
+      text = `<font color="${style.color}">${text}</font>`;
+    }
+    if ((style.position && style.position !== 'bottom') || (style.align && style.align !== 'center')) {
+      const row = style.position === 'top' ? 6 : style.position === 'middle' ? 3 : 0;
+      const column = style.align === 'left' ? 1 : style.align === 'right' ? 3 : 2;
+      text = `{\\an${row + column}}${text}`;
+    }
+    return `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${text}\n`;
+  }).join('\n');
+}
+
+/**
+ * Write cues as WebVTT. Emphasis and color become inline tags and placement
+ * becomes align and line cue settings. Colors outside WebVTT's named classes
+ * get a class of their own, defined in a STYLE block.
+ */
+export function formatVtt(cues: CaptionCue[]): string {
+  const colorClasses = new Map<string, string>();
+  const body = cues.map(cue => {
+    const style = cue.style ?? {};
+    let text = cue.lines.map(line => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')).join('\n');
+    if (style.underline) {
+      text = `<u>${text}</u>`;
+    }
+    if (style.italic) {
+      text = `<i>${text}</i>`;
+    }
+    if (style.bold) {
+      text = `<b>${text}</b>`;
+    }
+    if (style.color) {
+      let name = style.color.toLowerCase();
+      if (!VTT_COLOR_CLASSES.has(name)) {
+        name = colorClasses.get(style.color) ?? `color_${name.replace(/[^\w-]/g, '')}`;
+        colorClasses.set(style.color, name);
+      }
+      text = `<c.${name}>${text}</c>`;
+    }
+    if (style.voice) {
+      text = `<v ${style.voice}>${text}</v>`;
+    }
+    const settings = [
+      style.align && style.align !== 'center' ? `align:${style.align === 'left' ? 'start' : 'end'}` : '',
+      style.position === 'top' ? 'line:0' : style.position === 'middle' ? 'line:50%' : ''
+    ].filter(Boolean).join(' ');
+    const timing = `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}${settings ? ` ${settings}` : ''}`;
+    return `${cue.id ? `${cue.id}\n` : ''}${timing}\n${text}\n`;
+  });
+
+  const header = ['WEBVTT\n'];
+  if (colorClasses.size > 0) {
+    header.push(`STYLE\n${[...colorClasses].map(([color, name]) => `::cue(.${name}) { color: ${color}; }`).join('\n')}\n`);
+  }
+  return [...header, ...body].join('\n');
+}
+
+export interface CaptionValidationOptions {
+  /** Highest comfortable reading speed, in characters per second */
+  maxCharactersPerSecond?: number | undefined;
+  maxLineLength?: number | undefined;
+  maxLines?: number | undefined;
+}
+
+export interface CaptionViolation {
+  /** Index of the cue in the list that was checked */
+  cue: number;
+  start: number;
+  rule: 'reading-speed' | 'line-length' | 'line-count';
+  message: string;
+}
+
+/** Defaults follow common broadcast and streaming subtitle guidelines */
+export const DEFAULT_CAPTION_LIMITS = {
+  maxCharactersPerSecond: 20,
+  maxLineLength: 42,
+  maxLines: 2
+};
+
+/**
+ * Check cues against reading-speed and layout limits. Reading speed counts
+ * every character except line breaks, over the cue's duration.
+ */
+export function validateCaptions(cues: CaptionCue[], options: CaptionValidationOptions = {}): CaptionViolation[] {
+  const maxCharactersPerSecond = options.maxCharactersPerSecond ?? DEFAULT_CAPTION_LIMITS.maxCharactersPerSecond;
+  const maxLineLength = options.maxLineLength ?? DEFAULT_CAPTION_LIMITS.maxLineLength;
+  const maxLines = options.maxLines ?? DEFAULT_CAPTION_LIMITS.maxLines;
+  const violations: CaptionViolation[] = [];
+
+  cues.forEach((cue, index) => {
+    const characters = cue.lines.reduce((total, line) => total + [...line].length, 0);
+    const duration = cue.end - cue.start;
+    const speed = duration > 0 ? characters / duration : Infinity;
+    if (speed > maxCharactersPerSecond) {
+      violations.push({
+        cue: index,
+        start: cue.start,
+        rule: 'reading-speed',
+        message: `${Math.round(speed * 10) / 10} characters per second is faster than ${maxCharactersPerSecond}`
+      });
+    }
+    cue.lines.forEach((line, lineIndex) => {
+      const length = [...line].length;
+      if (length > maxLineLength) {
+        violations.push({
+          cue: index,
+          start: cue.start,
+          rule: 'line-length',
+          message: `Line ${lineIndex + 1} has ${length} characters, more than ${maxLineLength}`
+        });
+      }
+    });
+    if (cue.lines.length > maxLines) {
+      violations.push({
+        cue: index,
+        start: cue.start,
+        rule: 'line-count',
+        message: `${cue.lines.length} lines, more than ${maxLines}`
+      });
+    }
+  });
+  return violations;
+}
@@ -0,0 +1,173 @@
+import { conformEdl, formatEdl, parseEdl } from './edl.js';
+import { PremiereProProjectItem, PremiereProSequence } from '../bridge/index.js';
+
+function sequenceFixture(): PremiereProSequence {
+  return {
+    id: 'seq-1',
+    name: 'Rough Cut',
+    duration: 12,
+    frameRate: 25,
+    width: 1920,
+    height: 1080,
+    videoTracks: [
+      {
+        id: 'V1',
+        name: 'Video 1',
+        type: 'video',
+        clips: [
+          { id: 'c1', name: 'Interview A', start: 0, end: 4, duration: 4, inPoint: 1, outPoint: 5, mediaPath: '/media/interview_a.mov' },
+          { id: 'c2', name: 'B-roll', start: 4, end: 8, duration: 4, inPoint: 2, outPoint: 6, mediaPath: '/media/broll.mp4' },
+          { id: 'c3', name: 'Fast', start: 10, end: 12, duration: 2, inPoint: 0, outPoint: 4, speed: 2, mediaPath: '/media/fast.mov' }
+        ],
+        transitions: [{ name: 'Cross Dissolve', start: 3.6, end: 4.4 }]
+      }
+    ],
+    audioTracks: [
+      {
+        id: 'A1',
+        name: 'Audio 1',
+        type: 'audio',
+        clips: [
+          { id: 'c4', name: 'Interview A', start: 0, end: 4, duration: 4, inPoint: 1, outPoint: 5, mediaPath: '/media/interview_a.mov' }
+        ]
+      }
+    ],
+    markers: []
+  };
+}
+
+function itemsFixture(): PremiereProProjectItem[] {
+  return [
+    { id: 'i1', name: 'interview_a.mov', type: 'footage', mediaPath: '/media/interview_a.mov', duration: 60, frameRate: 25 },
+    { id: 'i2', name: 'broll.mp4', type: 'footage', mediaPath: '/media/broll.mp4', duration: 60, frameRate: 25 },
+    { id: 'i3', name: 'fast.mov', type: 'footage', mediaPath: '/media/fast.mov', duration: 60, frameRate: 25 }
+  ];
+}
+
+/** [name, start, end] of each clip on a track of a sequence model */
+function placed(sequence: PremiereProSequence, type: 'video' | 'audio', index: number) {
+  const track = type === 'video' ? sequence.videoTracks[index] : sequence.audioTracks[index];
+  return track?.clips.map(clip => [clip.name, clip.start, clip.end]);
+}
+
+describe('formatEdl', () => {
+  it('writes a CMX3600 list with dissolves and motion effects', () => {
+    const result = formatEdl(sequenceFixture(), { audioTrackIndexes: [0] });
+
+    expect(result).toMatchObject({ frameRate: 25, dropFrame: false, channels: { V: 'Video 1', A: 'Audio 1' }, warnings: [] });
+    const lines = result.text.split('\n');
+    expect(lines.slice(0, 2)).toEqual(['TITLE: Rough Cut', 'FCM: NON-DROP FRAME']);
+    expect(result.text).toMatch(/intervie V\s+C\s+00:00:01:00 00:00:04:15 00:00:00:00 00:00:03:15/);
+    expect(result.text).toMatch(/broll\s+V\s+D\s+020 00:00:01:15 00:00:06:00 00:00:03:15 00:00:08:00/);
+    expect(result.text).toMatch(/intervie A\s+C\s+00:00:01:00 00:00:05:00 00:00:00:00 00:00:04:00/);
+    expect(result.text).toMatch(/M2\s+fast\s+050\.0\s+00:00:00:00/);
+    expect(result.text).toContain('* TO CLIP NAME: B-roll');
+  });
+
+  it('refuses tracks the sequence does not have', () => {
+    expect(() => formatEdl(sequenceFixture(), { videoTrackIndex: 3 })).toThrow('Sequence has no video track 3');
+    expect(() => formatEdl(sequenceFixture(), { audioTrackIndexes: [0, 0, 0, 0, 0] })).toThrow('at most 4 audio channels');
+    expect(() => formatEdl(sequenceFixture(), { videoTrackIndex: null })).toThrow('No tracks selected');
+  });
+
+  it('falls back to non-drop-frame at rates without drop-frame timecode', () => {
+    const result = formatEdl(sequenceFixture(), { dropFrame: true });
+    expect(result.dropFrame).toBe(false);
+    expect(result.warnings).toEqual([expect.stringContaining('Drop-frame timecode only exists at 29.97 and 59.94 fps')]);
+  });
+});
+
+describe('parseEdl and conformEdl', () => {
+  it('round-trips a sequence through its EDL', () => {
+    const { text } = formatEdl(sequenceFixture(), { audioTrackIndexes: [0] });
+    const edl = parseEdl(text);
+    expect(edl).toMatchObject({ title: 'Rough Cut', dropFrame: false, warnings: [] });
+
+    const plan = conformEdl(edl, itemsFixture());
+    expect(plan).toMatchObject({ frameRate: 25, unmatchedEvents: [], unmappedTransitions: [] });
+    expect(placed(plan.sequence, 'video', 0)).toEqual([
+      ['Interview A', 0, 4],
+      ['B-roll', 4, 8],
+      ['Fast', 10, 12]
+    ]);
+    expect(placed(plan.sequence, 'audio', 0)).toEqual([['Interview A', 0, 4]]);
+    expect(plan.matchedSources.map(source => [source.projectItemId, source.matchedBy])).toEqual([
+      ['i1', 'source file'],
+      ['i2', 'source file'],
+      ['i3', 'source file']
+    ]);
+    const [interview, broll, fast] = plan.sequence.videoTracks[0]!.clips;
+    expect(interview).toMatchObject({ inPoint: 1 });
+    expect(broll).toMatchObject({ inPoint: 2 });
+    expect(fast).toMatchObject({ inPoint: 0, speed: 2 });
+    expect(plan.sequence.videoTracks[0]!.transitions).toEqual([expect.objectContaining({ start: 3.6, end: 4.4 })]);
+  });
+
+  it('reads drop-frame timecode and counts across the dropped frame numbers', () => {
+    const edl = parseEdl([
+      'TITLE: Drop',
+      'FCM: DROP FRAME',
+      '001  interview V     C        00:00:59;28 00:01:00;04 01:00:59;28 01:01:00;04',
+      '* FROM CLIP NAME: interview_a.mov'
+    ].join('\n'));
+    expect(edl.dropFrame).toBe(true);
+    expect(edl.events[0]!.recordIn).toMatchObject({ minutes: 0, seconds: 59, frames: 28, dropFrame: true });
+
+    const plan = conformEdl(edl, itemsFixture());
+    expect(plan).toMatchObject({ frameRate: 29.97, dropFrame: true, unmatchedEvents: [] });
+    // 00:00:59;28 is frame 1798 and 00:01:00;04 is frame 1802, as ;00 and ;01 don't exist
+    const clip = plan.sequence.videoTracks[0]!.clips[0]!;
+    expect(clip.start).toBeCloseTo(1798 * 1001 / 30000, 6);
+    expect(clip.end).toBeCloseTo(1802 * 1001 / 30000, 6);
+    expect(clip.inPoint).toBeCloseTo(1798 * 1001 / 30000, 6);
+  });
+
+  it('writes drop-frame timecode that reads back to the same frames', () => {
+    const sequence = sequenceFixture();
+    sequence.frameRate = 29.97;
+    sequence.videoTracks[0]!.clips = [
+      { id: 'c1', name: 'Interview A', start: 1798 * 1001 / 30000, end: 1802 * 1001 / 30000, duration: 4 * 1001 / 30000, inPoint: 0, outPoint: 4 * 1001 / 30000, mediaPath: '/media/interview_a.mov' }
+    ];
+    sequence.videoTracks[0]!.transitions = [];
+
+    const result = formatEdl(sequence);
+    expect(result.dropFrame).toBe(true);
+    expect(result.text).toContain('FCM: DROP FRAME');
+    expect(result.text).toMatch(/intervie V\s+C\s+00:00:00;00 00:00:00;04 00:00:59;28 00:01:00;04/);
+
+    const clip = conformEdl(parseEdl(result.text), itemsFixture(), { recordStart: 0 }).sequence.videoTracks[0]!.clips[0]!;
+    expect(clip.start).toBeCloseTo(1798 * 1001 / 30000, 6);
+    expect(clip.end).toBeCloseTo(1802 * 1001 / 30000, 6);
+  });
+
+  it('skips lines it cannot read, with a warning for each', () => {
+    const edl = parseEdl([
+      'TITLE: Broken',
+      'this is not an event',
+      '001  interview V     C        00:00:01:00 00:00:99:00 00:00:00:00 00:00:03:00',
+      '002  broll     V     C        00:00:00:00 00:00:02:00 00:00:00:00 00:00:02:00'
+    ].join('\n'));
+
+    expect(edl.events.map(event => event.number)).toEqual([2]);
+    expect(edl.warnings).toEqual([
+      'Line 2 isn\'t a CMX3600 event and was skipped: this is not an event',
+      expect.stringContaining('Line 3 has an invalid timecode and was skipped')
+    ]);
+    expect(parseEdl('')).toEqual({ title: undefined, dropFrame: false, events: [], warnings: [] });
+  });
+
+  it('reports events whose source matches no project item', () => {
+    const edl = parseEdl([
+      '001  MISSING   V     C        00:00:00:00 00:00:02:00 01:00:00:00 01:00:02:00',
+      '002  broll     V     C        00:00:00:00 00:00:02:00 01:00:02:00 01:00:04:00',
+      '003  broll     XYZ   C        00:00:00:00 00:00:02:00 01:00:04:00 01:00:06:00'
+    ].join('\n'));
+    const plan = conformEdl(edl, itemsFixture());
+
+    expect(plan.unmatchedEvents).toEqual([
+      expect.objectContaining({ event: 1, line: 1, reel: 'MISSING' }),
+      expect.objectContaining({ event: 3, line: 3, channel: 'XYZ' })
+    ]);
+    expect(placed(plan.sequence, 'video', 0)).toEqual([['broll.mp4', 2, 4]]);
+  });
+});
@@ -0,0 +1,846 @@
+/**
+ * CMX3600 edit decision lists
+ *
+ * An EDL describes one video track and up to four audio channels as a list
+ * of numbered events, each taking a range of a source reel and laying it at
+ * a range of the record (sequence) timeline. Cuts are single-line events;
+ * dissolves are two-line events that cut to the outgoing source and then
+ * dissolve to the incoming one over a number of frames.
+ */
+
+import {
+  PremiereProClip,
+  PremiereProProjectItem,
+  PremiereProSequence,
+  PremiereProTrack,
+  PremiereProTransition
+} from '../bridge/index.js';
+import {
+  Timecode,
+  TimeValue,
+  formatTimecode,
+  frameRateToTicksPerFrame,
+  framesToTimecode,
+  isDropFrameRate,
+  parseTimecode,
+  secondsToTicks,
+  ticksPerFrameToFrameRate,
+  ticksToSeconds,
+  timecodeToFrames,
+  timeValueToTicks
+} from '../utils/time.js';
+import { fileName, fileStem, sameName, samePath } from './media.js';
+
+/** CMX3600 reel names are at most eight characters */
+export const EDL_REEL_NAME_LENGTH = 8;
+
+/** Reel for black, used for fades from and to black */
+const BLACK_REEL = 'BL';
+
+/** Reel for sources that aren't files, such as titles and generated media */
+const AUX_REEL = 'AX';
+
+/** EDL channel names, in the order selected audio tracks are mapped to them */
+const AUDIO_CHANNELS = ['A', 'A2', 'A3', 'A4'];
+
+/** Channel sets a single CMX3600 event can carry */
+const CHANNEL_COMBINATIONS: Record<string, string> = {
+  'V+A': 'B',
+  'A+A2': 'AA',
+  'V+A+A2': 'AA/V'
+};
+
+/** Transitions that map naturally onto an EDL dissolve */
+const DISSOLVE_PATTERN = /dissolve|cross|fade|constant|exponential|dip/i;
+
+export interface EdlExportOptions {
+  /** TITLE line; defaults to the sequence name */
+  title?: string | undefined;
+  /** Video track to export, or null for audio only; defaults to the first */
+  videoTrackIndex?: number | null | undefined;
+  /** Audio tracks mapped, in order, to channels A, A2, A3 and A4 */
+  audioTrackIndexes?: number[] | undefined;
+  /** Timecode rate; defaults to the sequence frame rate */
+  frameRate?: number | undefined;
+  /** Drop-frame timecode; defaults to true for 29.97 and 59.94 */
+  dropFrame?: boolean | undefined;
+}
+
+export interface EdlExportResult {
+  text: string;
+  eventCount: number;
+  frameRate: number;
+  dropFrame: boolean;
+  /** EDL channel for each exported track, e.g. { V: 'Video 1', A: 'Audio 1' } */
+  channels: Record<string, string>;
+  warnings: string[];
+}
+
+/** A stretch of one channel that comes from a single source */
+interface EdlSegment {
+  /** The clip, or null for black */
+  clip: PremiereProClip | null;
+  recordIn: number;
+  recordOut: number;
+  /** Dissolve into this segment from the previous source (null for black) */
+  dissolveFrom?: { clip: PremiereProClip | null; frames: number } | undefined;
+}
+
+interface EdlEvent {
+  channel: string;
+  recordIn: number;
+  /** Event lines with `{channel}` standing in for the channel field */
+  lines: string[];
+}
+
+/**
+ * Reel name for a clip: the media's tape name if it has one, otherwise the
+ * file name, trimmed to what CMX3600 allows
+ */
+export function edlReelName(clip: Pick<PremiereProClip, 'reelName' | 'mediaPath'> | null): string {
+  if (!clip) {
+    return BLACK_REEL;
+  }
+  const source = clip.reelName || fileStem(clip.mediaPath);
+  const reel = source.replace(/[^A-Za-z0-9_]/g, '_').slice(0, EDL_REEL_NAME_LENGTH);
+  return reel || AUX_REEL;
+}
+
+/**
+ * Render a sequence as a CMX3600 EDL. Throws when a selected track doesn't
+ * exist or too many audio tracks are selected.
+ */
+export function formatEdl(sequence: PremiereProSequence, options: EdlExportOptions = {}): EdlExportResult {
+  const warnings: string[] = [];
+  const ticksPerFrame = options.frameRate
+    ? frameRateToTicksPerFrame(options.frameRate)
+    : sequence.timebase ?? frameRateToTicksPerFrame(sequence.frameRate);
+  let dropFrame = options.dropFrame ?? isDropFrameRate(ticksPerFrame);
+  if (dropFrame && !isDropFrameRate(ticksPerFrame)) {
+    warnings.push(`Drop-frame timecode only exists at 29.97 and 59.94 fps; writing non-drop-frame at ${roundRate(ticksPerFrameToFrameRate(ticksPerFrame))} fps`);
+    dropFrame = false;
+  }
+
+  const toFrames = (seconds: number) => Math.round(secondsToTicks(seconds) / ticksPerFrame);
+  const timecode = (frames: number) => formatTimecode(framesToTimecode(frames, ticksPerFrame, dropFrame));
+  const recordOffset = toFrames(sequence.zeroPoint ?? 0);
+
+  const selected: Array<{ channel: string; track: PremiereProTrack }> = [];
+  const videoTrackIndex = options.videoTrackIndex === undefined ? 0 : options.videoTrackIndex;
+  if (videoTrackIndex !== null) {
+    const track = sequence.videoTracks[videoTrackIndex];
+    if (!track) {
+      throw new Error(`Sequence has no video track ${videoTrackIndex}`);
+    }
+    selected.push({ channel: 'V', track });
+  }
+  const audioTrackIndexes = options.audioTrackIndexes ?? [];
+  if (audioTrackIndexes.length > AUDIO_CHANNELS.length) {
+    throw new Error(`A CMX3600 EDL carries at most ${AUDIO_CHANNELS.length} audio channels; ${audioTrackIndexes.length} audio tracks were selected`);
+  }
+  audioTrackIndexes.forEach((index, position) => {
+    const track = sequence.audioTracks[index];
+    if (!track) {
+      throw new Error(`Sequence has no audio track ${index}`);
+    }
+    selected.push({ channel: AUDIO_CHANNELS[position]!, track });
+  });
+  if (selected.length === 0) {
+    throw new Error('No tracks selected for the EDL');
+  }
+
+  // Source frame of a clip at a record frame, following its speed
+  const sourceFrame = (clip: PremiereProClip, recordFrame: number): number => {
+    const speed = clip.speed ?? 1;
+    const recordIn = toFrames(clip.start ?? 0) + recordOffset;
+    return toFrames((clip.mediaStart ?? 0) + clip.inPoint) + Math.round((recordFrame - recordIn) * speed);
+  };
+
+  const reelSources = new Map<string, Set<string>>();
+  const reel = (clip: PremiereProClip | null): string => {
+    const name = edlReelName(clip);
+    if (clip?.mediaPath && !clip.reelName) {
+      const sources = reelSources.get(name) ?? new Set<string>();
+      sources.add(clip.mediaPath);
+      reelSources.set(name, sources);
+    }
+    return name;
+  };
+
+  const eventLine = (clip: PremiereProClip | null, edit: string, frames: number | null, sourceIn: number, sourceOut: number, recordIn: number, recordOut: number) =>
+    `${reel(clip).padEnd(EDL_REEL_NAME_LENGTH)} {channel} ${edit.padEnd(4)} ${frames === null ? '   ' : String(frames).padStart(3, '0')} ` +
+    `${timecode(sourceIn)} ${timecode(sourceOut)} ${timecode(recordIn)} ${timecode(recordOut)}`;
+
+  const events: EdlEvent[] = [];
+  for (const { channel, track } of selected) {
+    for (const segment of trackSegments(track, toFrames, recordOffset, warnings)) {
+      const lines: string[] = [];
+      const { clip, recordIn, recordOut, dissolveFrom } = segment;
+      const firstFrame = clip ? toFrames(clip.mediaStart ?? 0) : 0;
+      let sourceIn = clip ? sourceFrame(clip, recordIn) : 0;
+      const sourceOut = clip ? sourceFrame(clip, recordOut) : recordOut - recordIn;
+      if (clip && sourceIn < firstFrame) {
+        const shortfall = firstFrame - sourceIn;
+        warnings.push(`${track.name}: ${clip.name} is ${shortfall} frame${shortfall === 1 ? '' : 's'} short of media before ${timecode(recordIn)}; its source timecode starts at the first frame instead`);
+        sourceIn = firstFrame;
+      }
+
+      if (dissolveFrom) {
+        const fromSource = dissolveFrom.clip ? sourceFrame(dissolveFrom.clip, recordIn) : 0;
+        lines.push(eventLine(dissolveFrom.clip, 'C', null, fromSource, fromSource, recordIn, recordIn));
+        lines.push(eventLine(clip, 'D', dissolveFrom.frames, sourceIn, sourceOut, recordIn, recordOut));
+      } else {
+        lines.push(eventLine(clip, 'C', null, sourceIn, sourceOut, recordIn, recordOut));
+      }
+
+      if (clip && (clip.speed ?? 1) !== 1) {
+        const rate = ticksPerFrameToFrameRate(ticksPerFrame) * (clip.speed ?? 1);
+        const field = (rate < 0 ? '-' : '') + Math.abs(rate).toFixed(1).padStart(5, '0');
+        lines.push(`M2   ${reel(clip).padEnd(EDL_REEL_NAME_LENGTH)}       ${field}    ${timecode(sourceIn)}`);
+      }
+
+      if (dissolveFrom) {
+        if (dissolveFrom.clip) {
+          lines.push(`* FROM CLIP NAME: ${dissolveFrom.clip.name}`);
+        }
+        if (clip) {
+          lines.push(`* TO CLIP NAME: ${clip.name}`);
+        }
+      } else if (clip) {
+        lines.push(`* FROM CLIP NAME: ${clip.name}`);
+      }
+      if (clip?.mediaPath) {
+        lines.push(`* SOURCE FILE: ${clip.mediaPath}`);
+      }
+
+      events.push({ channel, recordIn, lines });
+    }
+  }
+
+  for (const [name, sources] of reelSources) {
+    if (sources.size > 1) {
+      warnings.push(`Reel ${name} is shared by ${sources.size} files; the SOURCE FILE comments tell them apart`);
+    }
+  }
+
+  const merged = mergeChannels(events);
+  if (merged.length > 999) {
+    warnings.push(`The EDL has ${merged.length} events; CMX3600 numbers only go up to 999, so event numbers wrap`);
+  }
+
+  const header = [
+    `TITLE: ${options.title ?? sequence.name}`,
+    `FCM: ${dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    ''
+  ];
+  const body = merged.map((event, index) => {
+    const number = String((index % 999) + 1).padStart(3, '0');
+    return event.lines
+      .map(line => line.startsWith('*') || line.startsWith('M2')
+        ? line
+        : `${number}  ${line.replace('{channel}', event.channel.padEnd(5))}`)
+      .join('\n');
+  });
+
+  return {
+    text: [...header, body.join('\n\n'), ''].join('\n'),
+    eventCount: merged.length,
+    frameRate: roundRate(ticksPerFrameToFrameRate(ticksPerFrame)),
+    dropFrame,
+    channels: Object.fromEntries(selected.map(({ channel, track }) => [channel, track.name])),
+    warnings
+  };
+}
+
+function roundRate(frameRate: number): number {
+  return Math.round(frameRate * 1000) / 1000;
+}
+
+/**
+ * Split a track into EDL segments: one per enabled clip, shortened where a
+ * dissolve takes over, plus black for fades to black
+ */
+function trackSegments(
+  track: PremiereProTrack,
+  toFrames: (seconds: number) => number,
+  recordOffset: number,
+  warnings: string[]
+): EdlSegment[] {
+  const clips = track.clips
+    .filter(clip => clip.enabled !== false)
+    .map(clip => ({ clip, recordIn: toFrames(clip.start ?? 0) + recordOffset, recordOut: toFrames(clip.end ?? 0) + recordOffset }))
+    .filter(entry => entry.recordOut > entry.recordIn)
+    .sort((a, b) => a.recordIn - b.recordIn);
+
+  const skipped = track.clips.length - clips.length;
+  if (skipped > 0) {
+    warnings.push(`${track.name}: ${skipped} disabled or empty clip${skipped === 1 ? '' : 's'} left out`);
+  }
+
+  const segments: EdlSegment[] = clips.map(({ clip, recordIn, recordOut }) => ({ clip, recordIn, recordOut }));
+  const fadesToBlack: EdlSegment[] = [];
+
+  for (const transition of track.transitions ?? []) {
+    const start = toFrames(transition.start) + recordOffset;
+    const end = toFrames(transition.end) + recordOffset;
+    if (end <= start) {
+      continue;
+    }
+    if (!DISSOLVE_PATTERN.test(transition.name)) {
+      warnings.push(`${track.name}: ${describeTransition(transition)} is written as a dissolve`);
+    }
+
+    // A cut inside the transition means it dissolves from one clip to the next
+    const incomingIndex = segments.findIndex((segment, index) => index > 0 &&
+      segment.recordIn > start && segment.recordIn <= end &&
+      segments[index - 1]!.recordOut === segment.recordIn);
+    if (incomingIndex > 0) {
+      const outgoing = segments[incomingIndex - 1]!;
+      const incoming = segments[incomingIndex]!;
+      outgoing.recordOut = start;
+      incoming.recordIn = start;
+      incoming.dissolveFrom = { clip: outgoing.clip, frames: end - start };
+      continue;
+    }
+
+    const fadeIn = segments.find(segment => segment.recordIn === start && !segment.dissolveFrom);
+    if (fadeIn) {
+      fadeIn.dissolveFrom = { clip: null, frames: end - start };
+      continue;
+    }
+
+    const fadeOut = segments.find(segment => segment.recordOut === end);
+    if (fadeOut) {
+      fadeOut.recordOut = start;
+      fadesToBlack.push({ clip: null, recordIn: start, recordOut: end, dissolveFrom: { clip: fadeOut.clip, frames: end - start } });
+      continue;
+    }
+
+    warnings.push(`${track.name}: ${describeTransition(transition)} doesn't line up with a clip edge and was left out`);
+  }
+
+  return [...segments, ...fadesToBlack]
+    .filter(segment => segment.recordOut > segment.recordIn)
+    .sort((a, b) => a.recordIn - b.recordIn);
+}
+
+function describeTransition(transition: PremiereProTransition): string {
+  return `${transition.name} at ${transition.start.toFixed(3)}s`;
+}
+
+/**
+ * Combine identical events on different channels into one event where
+ * CMX3600 has a channel code for the combination (B, AA, AA/V)
+ */
+function mergeChannels(events: EdlEvent[]): EdlEvent[] {
+  const order = ['V', ...AUDIO_CHANNELS];
+  const groups = new Map<string, EdlEvent[]>();
+  for (const event of events) {
+    const key = `${event.recordIn}\n${event.lines.join('\n')}`;
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  }
+
+  const merged: EdlEvent[] = [];
+  for (const group of groups.values()) {
+    const channels = group.map(event => event.channel).sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    const combined = CHANNEL_COMBINATIONS[channels.join('+')];
+    if (combined) {
+      merged.push({ ...group[0]!, channel: combined });
+    } else {
+      merged.push(...group);
+    }
+  }
+
+  const rank = (channel: string) => channel === 'B' || channel === 'AA/V' ? 0 : channel === 'AA' ? 1 : order.indexOf(channel);
+  return merged.sort((a, b) => a.recordIn - b.recordIn || rank(a.channel) - rank(b.channel));
+}
+
+/** Reel names that stand for black rather than a source */
+const BLACK_REELS = new Set(['BL', 'BLK', 'BLACK']);
+
+/** Transitions an imported dissolve becomes, by track type */
+const IMPORT_TRANSITIONS = { video: 'Cross Dissolve', audio: 'Constant Power' };
+
+/** Assumed when neither the EDL, the caller nor the matched media give a rate */
+const DEFAULT_IMPORT_FRAME_RATE = 25;
+
+const TIMECODE_FIELD = '(\\d{1,2}:\\d{2}:\\d{2}[:;.,]\\d{2})';
+const EVENT_PATTERN = new RegExp(
+  `^(\\d+)\\s+(\\S+)\\s+(\\S+)\\s+(C|D|W\\d+|K[BO]?)\\s+(?:(\\d+)\\s+)?${TIMECODE_FIELD}\\s+${TIMECODE_FIELD}\\s+${TIMECODE_FIELD}\\s+${TIMECODE_FIELD}$`,
+  'i'
+);
+const MOTION_PATTERN = new RegExp(`^M2\\s+(\\S+)\\s+(-?\\d+(?:\\.\\d+)?)\\s+${TIMECODE_FIELD}$`, 'i');
+
+/** Tracks each channel code lays an event on; audio tracks are 0-based */
+const CHANNEL_TRACKS: Record<string, { video: boolean; audio: number[] }> = {
+  'V': { video: true, audio: [] },
+  'A': { video: false, audio: [0] },
+  'A1': { video: false, audio: [0] },
+  'A2': { video: false, audio: [1] },
+  'A3': { video: false, audio: [2] },
+  'A4': { video: false, audio: [3] },
+  'AA': { video: false, audio: [0, 1] },
+  'B': { video: true, audio: [0] },
+  'A/V': { video: true, audio: [0] },
+  'A2/V': { video: true, audio: [1] },
+  'AA/V': { video: true, audio: [0, 1] },
+  'NONE': { video: false, audio: [] }
+};
+
+export interface EdlSource {
+  reel: string;
+  sourceIn: Timecode;
+  sourceOut: Timecode;
+  clipName?: string | undefined;
+  sourceFile?: string | undefined;
+  /** Playback rate from an M2 line, in frames per second */
+  motionFrameRate?: number | undefined;
+}
+
+export interface EdlEventEntry {
+  number: number;
+  /** Line the event starts on, for reporting */
+  line: number;
+  channel: string;
+  /** Tracks the channel code covers, or null when the code isn't known */
+  tracks: { video: boolean; audio: number[] } | null;
+  /** C, D, W### or K */
+  edit: string;
+  transitionFrames: number;
+  /** The incoming source */
+  source: EdlSource;
+  /** The outgoing source of a two-line transition event */
+  from?: EdlSource | undefined;
+  recordIn: Timecode;
+  recordOut: Timecode;
+}
+
+export interface ParsedEdl {
+  title?: string | undefined;
+  dropFrame: boolean;
+  events: EdlEventEntry[];
+  warnings: string[];
+}
+
+export type EdlMatchMethod = 'source file' | 'tape name' | 'clip name' | 'reel name';
+
+export interface EdlImportOptions {
+  /** Name of the new sequence; defaults to the EDL title */
+  name?: string | undefined;
+  /** Timecode rate of the EDL; defaults to 29.97 for drop-frame, otherwise the matched media's rate */
+  frameRate?: number | undefined;
+  /** Record time placed at the start of the sequence; defaults to the hour the first event starts in */
+  recordStart?: TimeValue | undefined;
+}
+
+export interface EdlImportIssue {
+  event: number;
+  line: number;
+  reel?: string | undefined;
+  clipName?: string | undefined;
+  channel?: string | undefined;
+  reason: string;
+}
+
+export interface EdlImportPlan {
+  /** Sequence model ready for the bridge to build; clip ids are `event:channel` */
+  sequence: PremiereProSequence;
+  frameRate: number;
+  dropFrame: boolean;
+  matchedSources: Array<{ reel: string; clipName?: string | undefined; projectItemId: string; projectItemName: string; matchedBy: EdlMatchMethod; events: number }>;
+  unmatchedEvents: EdlImportIssue[];
+  unmappedTransitions: EdlImportIssue[];
+  warnings: string[];
+}
+
+/** A clip being planned, in frames so dissolve handles stay exact */
+interface PlannedClip {
+  id: string;
+  name: string;
+  item: PremiereProProjectItem;
+  recordIn: number;
+  recordOut: number;
+  sourceIn: number;
+  speed: number;
+}
+
+/**
+ * Parse a CMX3600 EDL. Lines that aren't events, notes or known comments
+ * are skipped with a warning rather than failing the whole list.
+ */
+export function parseEdl(text: string): ParsedEdl {
+  const edl: ParsedEdl = { title: undefined, dropFrame: false, events: [], warnings: [] };
+  let dropFrame = false;
+  let current: EdlEventEntry | undefined;
+
+  const timecode = (field: string): Timecode | null => {
+    const parsed = parseTimecode(field);
+    return parsed ? { ...parsed, dropFrame: parsed.dropFrame || dropFrame } : null;
+  };
+
+  text.split(/\r\n|\r|\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNumber = index + 1;
+    if (!line) {
+      return;
+    }
+
+    const title = /^TITLE:\s*(.*)$/i.exec(line);
+    if (title) {
+      edl.title = title[1]!.trim();
+      return;
+    }
+    const fcm = /^FCM:\s*(.*)$/i.exec(line);
+    if (fcm) {
+      dropFrame = /^DROP/i.test(fcm[1]!.trim());
+      // The first FCM sets the list's mode; later ones switch it per event
+      if (edl.events.length === 0) {
+        edl.dropFrame = dropFrame;
+      }
+      return;
+    }
+
+    const event = EVENT_PATTERN.exec(line);
+    if (event) {
+      const [, number, reel, channel, edit, frames, sourceIn, sourceOut, recordIn, recordOut] = event;
+      const times = [sourceIn!, sourceOut!, recordIn!, recordOut!].map(timecode);
+      if (times.some(time => time === null)) {
+        edl.warnings.push(`Line ${lineNumber} has an invalid timecode and was skipped: ${line}`);
+        return;
+      }
+      const [srcIn, srcOut, recIn, recOut] = times as Timecode[];
+      const source: EdlSource = { reel: reel!, sourceIn: srcIn!, sourceOut: srcOut! };
+      const code = edit!.toUpperCase();
+
+      // The second line of a transition event names the incoming source
+      if (current && current.number === Number(number) && !current.from && code !== 'C') {
+        current.from = current.source;
+        current.source = source;
+        current.channel = channel!.toUpperCase();
+        current.tracks = CHANNEL_TRACKS[current.channel] ?? null;
+        current.edit = code;
+        current.transitionFrames = Number(frames ?? 0);
+        current.recordIn = recIn!;
+        current.recordOut = recOut!;
+        return;
+      }
+
+      current = {
+        number: Number(number),
+        line: lineNumber,
+        channel: channel!.toUpperCase(),
+        tracks: CHANNEL_TRACKS[channel!.toUpperCase()] ?? null,
+        edit: code,
+        transitionFrames: Number(frames ?? 0),
+        source,
+        recordIn: recIn!,
+        recordOut: recOut!
+      };
+      edl.events.push(current);
+      return;
+    }
+
+    const motion = MOTION_PATTERN.exec(line);
+    if (motion) {
+      const reel = motion[1];
+      const target = !current ? undefined : current.source.reel === reel ? current.source : current.from?.reel === reel ? current.from : undefined;
+      if (target) {
+        target.motionFrameRate = Number(motion[2]);
+      } else {
+        edl.warnings.push(`Line ${lineNumber} has a motion effect for a reel the event doesn't use: ${line}`);
+      }
+      return;
+    }
+
+    // AUD 3 / AUD 4 lines add the extra CMX3600 audio channels to an event
+    const aud = /^AUD\s+(\d)(?:\s+(\d))?$/i.exec(line);
+    if (aud && current?.tracks) {
+      const extra = [aud[1], aud[2]].filter(Boolean).map(channel => Number(channel) - 1);
+      current.tracks = { video: current.tracks.video, audio: [...new Set([...current.tracks.audio, ...extra])] };
+      return;
+    }
+
+    const comment = /^\*\s*(FROM CLIP NAME|TO CLIP NAME|SOURCE FILE)\s*:\s*(.*)$/i.exec(line);
+    if (comment && current) {
+      const kind = comment[1]!.toUpperCase();
+      const value = comment[2]!.trim();
+      if (kind === 'TO CLIP NAME') {
+        current.source.clipName = value;
+      } else if (kind === 'FROM CLIP NAME') {
+        (current.from ?? current.source).clipName = value;
+      } else if (!current.source.sourceFile) {
+        current.source.sourceFile = value;
+      } else if (current.from) {
+        // With two, the outgoing source's file comes first
+        current.from.sourceFile = current.source.sourceFile;
+        current.source.sourceFile = value;
+      }
+      return;
+    }
+
+    if (!line.startsWith('*') && !/^(SPLIT|SWM|M2|AUD)\b/i.test(line)) {
+      edl.warnings.push(`Line ${lineNumber} isn't a CMX3600 event and was skipped: ${line}`);
+    }
+  });
+
+  return edl;
+}
+
+/**
+ * Find the project item an EDL source refers to, trying the most specific
+ * evidence first: the source file path, the tape name in the media's
+ * metadata, the clip name comment, then the reel name against file names
+ */
+export function matchEdlSource(source: EdlSource, items: PremiereProProjectItem[]): { item: PremiereProProjectItem; matchedBy: EdlMatchMethod; candidates: number } | null {
+  const footage = items.filter(item => item.type === 'footage');
+
+  const levels: Array<[EdlMatchMethod, (item: PremiereProProjectItem) => boolean]> = [
+    ['source file', item => samePath(item.mediaPath, source.sourceFile)],
+    ['source file', item => !!source.sourceFile && sameName(fileName(item.mediaPath), fileName(source.sourceFile))],
+    ['tape name', item => sameName(item.reelName, source.reel)],
+    ['clip name', item => sameName(item.name, source.clipName) || sameName(fileName(item.mediaPath), source.clipName)],
+    ['reel name', item => sameName(fileStem(item.mediaPath), source.reel) || sameName(fileStem(item.name), source.reel) || sameName(edlReelName(item), source.reel)]
+  ];
+
+  for (const [matchedBy, matches] of levels) {
+    const candidates = footage.filter(matches);
+    if (candidates.length > 0) {
+      return { item: candidates[0]!, matchedBy, candidates: candidates.length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn a parsed EDL into a sequence model, matching each source against the
+ * project's items. Dissolves become centred transitions, with the outgoing
+ * clip extended into its handle; anything that can't be matched or mapped
+ * is reported instead of placed.
+ */
+export function conformEdl(edl: ParsedEdl, items: PremiereProProjectItem[], options: EdlImportOptions = {}): EdlImportPlan {
+  const warnings = [...edl.warnings];
+  const unmatchedEvents: EdlImportIssue[] = [];
+  const unmappedTransitions: EdlImportIssue[] = [];
+  const issue = (event: EdlEventEntry, reason: string, source: EdlSource = event.source): EdlImportIssue => ({
+    event: event.number,
+    line: event.line,
+    reel: source.reel,
+    clipName: source.clipName,
+    channel: event.channel,
+    reason
+  });
+
+  // Match every distinct source once
+  const matchedSources: EdlImportPlan['matchedSources'] = [];
+  const matches = new Map<string, PremiereProProjectItem | null>();
+  const resolve = (source: EdlSource, counted: boolean): PremiereProProjectItem | null => {
+    const key = [source.reel, source.clipName ?? '', source.sourceFile ?? ''].join('\u0000');
+    if (!matches.has(key)) {
+      const match = matchEdlSource(source, items);
+      matches.set(key, match?.item ?? null);
+      if (match) {
+        matchedSources.push({
+          reel: source.reel,
+          clipName: source.clipName,
+          projectItemId: match.item.id,
+          projectItemName: match.item.name,
+          matchedBy: match.matchedBy,
+          events: 0
+        });
+        if (match.candidates > 1) {
+          warnings.push(`Reel ${source.reel}${source.clipName ? ` (${source.clipName})` : ''} matches ${match.candidates} project items by ${match.matchedBy}; using ${match.item.name}`);
+        }
+      }
+    }
+    const item = matches.get(key) ?? null;
+    const summary = item && matchedSources.find(entry => entry.projectItemId === item.id && entry.reel === source.reel);
+    if (summary && counted) {
+      summary.events++;
+    }
+    return item;
+  };
+
+  const isBlack = (source: EdlSource) => BLACK_REELS.has(source.reel.toUpperCase());
+  const resolved = edl.events.map(event => ({
+    event,
+    item: isBlack(event.source) ? null : resolve(event.source, true),
+    fromItem: event.from && !isBlack(event.from) ? resolve(event.from, false) : null
+  }));
+
+  let frameRate = options.frameRate ?? (edl.dropFrame ? 29.97 : undefined);
+  if (!frameRate) {
+    frameRate = resolved.map(entry => entry.item?.frameRate).find(rate => !!rate && rate > 0);
+  }
+  if (!frameRate) {
+    frameRate = DEFAULT_IMPORT_FRAME_RATE;
+    warnings.push(`The EDL doesn't say what frame rate it uses and no matched media has one; assuming ${DEFAULT_IMPORT_FRAME_RATE} fps`);
+  }
+  const ticksPerFrame = frameRateToTicksPerFrame(frameRate);
+  const frames = (timecode: Timecode) => timecodeToFrames(timecode, ticksPerFrame);
+  const seconds = (count: number) => ticksToSeconds(count * ticksPerFrame);
+  const toFrames = (value: number) => Math.round(secondsToTicks(value) / ticksPerFrame);
+
+  let recordStart: number;
+  if (options.recordStart !== undefined) {
+    recordStart = Math.round(timeValueToTicks(options.recordStart, ticksPerFrame) / ticksPerFrame);
+  } else {
+    const first = resolved
+      .map(({ event }) => event.recordIn)
+      .sort((a, b) => frames(a) - frames(b))[0];
+    recordStart = first ? frames({ hours: first.hours, minutes: 0, seconds: 0, frames: 0, dropFrame: first.dropFrame }) : 0;
+  }
+
+  const planned = new Map<string, PlannedClip[]>();
+  const transitions = new Map<string, PremiereProTransition[]>();
+  const trackKeys = (tracks: { video: boolean; audio: number[] }) => [
+    ...(tracks.video ? ['V'] : []),
+    ...tracks.audio.map(index => `A${index + 1}`)
+  ];
+  const available = (clip: PlannedClip) => clip.item.duration ? toFrames(clip.item.duration) : Infinity;
+  const sourceOut = (clip: PlannedClip) => clip.sourceIn + Math.round((clip.recordOut - clip.recordIn) * clip.speed);
+
+  const ordered = [...resolved].sort((a, b) => frames(a.event.recordIn) - frames(b.event.recordIn));
+  for (const { event, item, fromItem } of ordered) {
+    if (!event.tracks) {
+      unmatchedEvents.push(issue(event, `Unknown channel ${event.channel}`));
+      continue;
+    }
+    const recordIn = frames(event.recordIn) - recordStart;
+    const recordOut = frames(event.recordOut) - recordStart;
+    if (recordIn < 0) {
+      unmatchedEvents.push(issue(event, 'Starts before the record start of the sequence'));
+      continue;
+    }
+    const incomingBlack = isBlack(event.source);
+    if (!incomingBlack && !item) {
+      unmatchedEvents.push(issue(event, 'No project item matches the reel, clip name or source file'));
+      continue;
+    }
+
+    const dissolve = event.edit === 'D' && event.transitionFrames > 0;
+    if (event.edit !== 'C' && !dissolve) {
+      unmappedTransitions.push(issue(event, `${event.edit} ${event.edit.startsWith('W') ? 'wipe' : 'key'} events aren't mapped to a transition; placed as a cut`));
+    }
+    const length = event.transitionFrames;
+    let reported = false;
+    const unmapped = (reason: string) => {
+      if (!reported) {
+        unmappedTransitions.push(issue(event, reason, event.from ?? event.source));
+        reported = true;
+      }
+    };
+
+    for (const key of trackKeys(event.tracks)) {
+      const clips = planned.get(key) ?? [];
+      planned.set(key, clips);
+      const trackTransitions = transitions.get(key) ?? [];
+      transitions.set(key, trackTransitions);
+      const name = key === 'V' ? IMPORT_TRANSITIONS.video : IMPORT_TRANSITIONS.audio;
+      const previous = clips[clips.length - 1];
+      const outgoing = dissolve && event.from && !isBlack(event.from) && previous?.recordOut === recordIn && previous.item === fromItem
+        ? previous
+        : undefined;
+
+      if (incomingBlack) {
+        // A dissolve to black fades the outgoing clip out over its handle
+        if (dissolve && event.from && !isBlack(event.from)) {
+          if (!outgoing) {
+            unmapped('The outgoing clip of the fade to black isn\'t on the timeline');
+          } else if (sourceOut(outgoing) + Math.round(length * outgoing.speed) > available(outgoing)) {
+            unmapped(`${outgoing.name} doesn't have ${length} frames of media after its out point for the fade to black`);
+          } else {
+            outgoing.recordOut += length;
+            trackTransitions.push({ id: `${event.number}:${key}`, name, start: seconds(recordIn), end: seconds(recordIn + length) });
+          }
+        }
+        continue;
+      }
+
+      const speed = event.source.motionFrameRate !== undefined
+        ? event.source.motionFrameRate / ticksPerFrameToFrameRate(ticksPerFrame)
+        : 1;
+      if (speed <= 0) {
+        unmatchedEvents.push(issue(event, 'Reverse motion effects aren\'t supported'));
+        break;
+      }
+      const clip: PlannedClip = {
+        id: `${event.number}:${key}`,
+        name: event.source.clipName ?? item!.name,
+        item: item!,
+        recordIn,
+        recordOut,
+        sourceIn: frames(event.source.sourceIn) - toFrames(item!.mediaStart ?? 0),
+        speed
+      };
+
+      if (dissolve && event.from && isBlack(event.from)) {
+        trackTransitions.push({ id: `${event.number}:${key}`, name, start: seconds(recordIn), end: seconds(recordIn + length) });
+      } else if (dissolve) {
+        if (!outgoing) {
+          unmapped('The outgoing clip of the dissolve isn\'t on the timeline');
+        } else if (sourceOut(outgoing) + Math.round(length * outgoing.speed) > available(outgoing)) {
+          unmapped(`${outgoing.name} doesn't have ${length} frames of media after its out point for the dissolve`);
+        } else {
+          // Premiere centres the dissolve on the cut, so both clips meet halfway through it
+          const shift = Math.floor(length / 2);
+          outgoing.recordOut += shift;
+          clip.recordIn += shift;
+          clip.sourceIn += Math.round(shift * speed);
+          trackTransitions.push({ id: `${event.number}:${key}`, name, start: seconds(recordIn), end: seconds(recordIn + length) });
+        }
+      }
+
+      if (clip.sourceIn < 0) {
+        warnings.push(`Event ${event.number}: source timecode is before the start of ${item!.name}; placed from its first frame`);
+        clip.sourceIn = 0;
+      }
+      clips.push(clip);
+    }
+  }
+
+  const modelTrack = (key: string, type: 'video' | 'audio', index: number): PremiereProTrack => ({
+    id: key,
+    name: type === 'video' ? `Video ${index + 1}` : `Audio ${index + 1}`,
+    type,
+    index,
+    clips: (planned.get(key) ?? []).map(clip => ({
+      id: clip.id,
+      name: clip.name,
+      projectItemId: clip.item.id,
+      mediaPath: clip.item.mediaPath ?? '',
+      mediaType: type,
+      start: seconds(clip.recordIn),
+      end: seconds(clip.recordOut),
+      inPoint: seconds(clip.sourceIn),
+      outPoint: seconds(sourceOut(clip)),
+      duration: seconds(clip.recordOut - clip.recordIn),
+      speed: clip.speed
+    })),
+    transitions: transitions.get(key) ?? []
+  });
+
+  const audioTrackCount = Math.max(0, ...[...planned.keys()].filter(key => key.startsWith('A')).map(key => Number(key.slice(1))));
+  const videoTracks = [modelTrack('V', 'video', 0)];
+  const audioTracks = Array.from({ length: audioTrackCount }, (_, index) => modelTrack(`A${index + 1}`, 'audio', index));
+  const end = Math.max(0, ...[...videoTracks, ...audioTracks].flatMap(track => track.clips.map(clip => clip.end ?? 0)));
+
+  return {
+    sequence: {
+      id: '',
+      name: options.name ?? edl.title ?? 'EDL Import',
+      duration: end,
+      frameRate: roundRate(ticksPerFrameToFrameRate(ticksPerFrame)),
+      timebase: ticksPerFrame,
+      zeroPoint: 0,
+      videoTracks,
+      audioTracks
+    },
+    frameRate: roundRate(ticksPerFrameToFrameRate(ticksPerFrame)),
+    dropFrame: edl.dropFrame,
+    // Outgoing sides of dissolves are matched too, but only count as incoming
+    matchedSources: matchedSources.filter(entry => entry.events > 0),
+    unmatchedEvents,
+    unmappedTransitions,
+    warnings
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Interchange formats
+ *
+ * Converts sequences read through the bridge to and from the formats other
+ * editing, finishing and review tools exchange timelines in.
+ */
+
+export { EDL_REEL_NAME_LENGTH, conformEdl, edlReelName, formatEdl, matchEdlSource, parseEdl } from './edl.js';
+export type {
+  EdlEventEntry,
+  EdlExportOptions,
+  EdlExportResult,
+  EdlImportIssue,
+  EdlImportOptions,
+  EdlImportPlan,
+  EdlMatchMethod,
+  EdlSource,
+  ParsedEdl
+} from './edl.js';
+export { conformTimeline, fileUrlToPath, matchMediaReference } from './media.js';
+export type { MediaMatchMethod, MediaReference, ParsedTimeline, TimelineImportIssue, TimelineImportPlan } from './media.js';
+export { formatXmeml, parseXmeml } from './xmeml.js';
+export type { ParsedXmeml, XmemlExportOptions, XmemlExportResult, XmemlImportOptions } from './xmeml.js';
+export { formatOtio, parseOtio } from './otio.js';
+export type { OtioExportOptions, OtioExportResult } from './otio.js';
+export { DEFAULT_CAPTION_LIMITS, conformCaptions, formatSrt, formatVtt, parseCaptions, parseSrt, parseVtt, validateCaptions } from './captions.js';
+export type {
+  CaptionCue,
+  CaptionFormat,
+  CaptionStyle,
+  CaptionTimingOptions,
+  CaptionValidationOptions,
+  CaptionViolation,
+  ParsedCaptions
+} from './captions.js';
+export { formatScc } from './scc.js';
+export type { SccExportResult } from './scc.js';
+export {
+  MARKER_COLORS,
+  MARKER_TYPES,
+  formatMarkerCsv,
+  formatMarkerJson,
+  formatYoutubeChapters,
+  markerColorName,
+  markerTypeName,
+  parseMarkerCsv
+} from './markers.js';
+export type {
+  MarkerColorName,
+  MarkerImportIssue,
+  MarkerImportOptions,
+  MarkerImportPlan,
+  MarkerTypeName,
+  YoutubeChaptersResult
+} from './markers.js';
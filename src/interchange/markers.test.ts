@@ -0,0 +1,145 @@
+import { formatMarkerCsv, formatYoutubeChapters, parseMarkerCsv } from './markers.js';
+import { PremiereProMarker, PremiereProSequence } from '../bridge/index.js';
+
+function sequenceFixture(duration = 120): PremiereProSequence {
+  return {
+    id: 'seq-1',
+    name: 'Rough Cut',
+    duration,
+    frameRate: 25,
+    width: 1920,
+    height: 1080,
+    videoTracks: [],
+    audioTracks: [],
+    markers: [],
+    zeroPoint: 3600
+  };
+}
+
+function marker(start: number, name: string, changes: Partial<PremiereProMarker> = {}): PremiereProMarker {
+  return { name, comment: '', start, end: start, type: 'Comment', color: 0, ...changes };
+}
+
+describe('formatMarkerCsv and parseMarkerCsv', () => {
+  it('round-trips markers, quoting fields and writing timecodes from the start timecode', () => {
+    const markers = [
+      marker(10, 'Note'),
+      marker(0, 'Open', { comment: 'Says "hi", then waves\nover two lines', end: 2, type: 'Chapter', color: 1 }),
+      marker(30, 'Site', { type: 'WebLink', color: 6, url: 'https://example.com/a,b' })
+    ];
+    const text = formatMarkerCsv(markers, sequenceFixture());
+    expect(text).toMatch(/^\uFEFFTimecode,Name,Comment,Color,Type,Duration,URL\r\n01:00:00:00,Open,"Says ""hi"", then waves\nover two lines",red,chapter,00:00:02:00,\r\n/);
+    expect(text).toContain('\r\n01:00:10:00,Note,,green,comment,00:00:00:00,\r\n');
+    expect(text).toContain('\r\n01:00:30:00,Site,,blue,weblink,00:00:00:00,"https://example.com/a,b"\r\n');
+
+    const plan = parseMarkerCsv(text, sequenceFixture());
+    expect(plan).toMatchObject({ issues: [], warnings: [] });
+    // The quoted comment spans two lines, so the rows after it start a line later
+    expect(plan.markers).toEqual([
+      { line: 2, start: 0, end: 2, name: 'Open', comment: 'Says "hi", then waves\nover two lines', type: 'Chapter', color: 1 },
+      { line: 4, start: 10, end: 10, name: 'Note', comment: '', type: 'Comment', color: 0 },
+      { line: 5, start: 30, end: 30, name: 'Site', comment: '', type: 'WebLink', color: 6, url: 'https://example.com/a,b' }
+    ]);
+  });
+
+  it('skips rows it cannot place and warns about values it cannot read', () => {
+    const plan = parseMarkerCsv([
+      '01:00:05:00,Kept,first,red',
+      ',No time,,',
+      'soon,Bad time,,',
+      '00:59:59:00,Early,,',
+      '01:05:00:00,Late,,',
+      '1:30,Clock,,magenta',
+      '01:00:10:00,Odd,,teal'
+    ].join('\n'), sequenceFixture(), { color: 'blue' });
+
+    expect(plan.markers.map(({ line, start, name, color }) => [line, start, name, color])).toEqual([
+      [1, 5, 'Kept', 1],
+      [6, 90, 'Clock', 2],
+      [7, 10, 'Odd', 6]
+    ]);
+    expect(plan.issues).toEqual([
+      { line: 2, reason: 'No timecode' },
+      { line: 3, reason: expect.stringContaining('"soon"') },
+      { line: 4, reason: '00:59:59:00 is before the start of the sequence at 01:00:00:00' },
+      { line: 5, reason: '01:05:00:00 is past the end of the sequence at 01:02:00:00' }
+    ]);
+    expect(plan.warnings).toEqual([
+      'Line 7: unknown color "teal"; expected one of green, red, purple, orange, yellow, white, blue, cyan'
+    ]);
+  });
+
+  it('reads named columns in any order, with semicolons, and fixes up ranges and types', () => {
+    const plan = parseMarkerCsv([
+      'Start;End;Title;Type;Link;Owner',
+      '0:10;0:05;Backwards;chapter;;Sam',
+      '1:50;2:30;Long;Web Link;;Sam',
+      '1:00;1:01;Site;weblink;https://example.com;',
+      '0:20;0:21;Kind;sticky;;'
+    ].join('\r\n'), sequenceFixture(), { type: 'segmentation' });
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.markers.map(({ start, end, name, type, url }) => [start, end, name, type, url])).toEqual([
+      [10, 10, 'Backwards', 'Chapter', undefined],
+      [110, 120, 'Long', 'Comment', undefined],
+      [60, 61, 'Site', 'WebLink', 'https://example.com'],
+      [20, 21, 'Kind', 'Segmentation', undefined]
+    ]);
+    expect(plan.warnings).toEqual([
+      'Ignored column(s) "Owner"',
+      'Line 2: the marker ends before it starts, so it was given no duration',
+      'Line 3: the marker runs past the end of the sequence and was shortened',
+      'Line 3: web link marker has no URL, so it was made a comment marker',
+      'Line 5: unknown marker type "sticky"'
+    ]);
+  });
+
+  it('reads nothing from an empty file', () => {
+    expect(parseMarkerCsv('\uFEFF\r\n', sequenceFixture())).toEqual({ markers: [], issues: [], warnings: [] });
+  });
+});
+
+describe('formatYoutubeChapters', () => {
+  it('lists the chapter markers as timestamps and titles', () => {
+    const result = formatYoutubeChapters([
+      marker(75, 'End', { type: 'Chapter' }),
+      marker(0, 'Intro', { type: 'Chapter' }),
+      marker(40, 'A note'),
+      marker(30.9, 'Middle', { type: 'Chapter' })
+    ], sequenceFixture());
+
+    expect(result).toEqual({
+      text: '00:00 Intro\n00:30 Middle\n01:15 End\n',
+      chapterCount: 3,
+      warnings: ['Using the 3 chapter markers; 1 other markers were left out']
+    });
+  });
+
+  it('still writes lists YouTube would refuse, with a warning for each rule broken', () => {
+    const result = formatYoutubeChapters([
+      marker(5, 'A'),
+      marker(5.5, 'B'),
+      marker(12, '', { comment: 'From the comment\nand not this' })
+    ], sequenceFixture(20));
+
+    expect(result.text).toBe('00:05 A\n00:12 From the comment\n');
+    expect(result.chapterCount).toBe(2);
+    expect(result.warnings).toEqual([
+      '"B" starts in the same second as "A" and was left out',
+      'YouTube needs the first chapter to start at 00:00',
+      'YouTube needs at least 3 chapters; there are 2',
+      'Chapter "A" is shorter than YouTube\'s minimum of 10 seconds',
+      'Chapter "From the comment" is shorter than YouTube\'s minimum of 10 seconds'
+    ]);
+  });
+
+  it('writes hours once a chapter starts an hour in', () => {
+    const result = formatYoutubeChapters([
+      marker(0, 'Intro'),
+      marker(1800, 'Half an hour'),
+      marker(3700.5, 'Overtime')
+    ], sequenceFixture(7300));
+
+    expect(result).toEqual({ text: '0:00:00 Intro\n0:30:00 Half an hour\n1:01:40 Overtime\n', chapterCount: 3, warnings: [] });
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Marker lists
+ *
+ * Sequence markers as spreadsheet rows (CSV), JSON and YouTube chapter
+ * lists, and marker rows read back from CSV review notes. Marker times are
+ * in seconds from the start of the sequence; SMPTE timecodes in lists
+ * include the sequence's start timecode, the way Premiere Pro displays them.
+ */
+
+import type { PremiereProMarker, PremiereProMarkerChanges, PremiereProSequence } from '../bridge/index.js';
+import {
+  TICKS_PER_SECOND,
+  frameRateToTicksPerFrame,
+  parseTimeValue,
+  secondsToTimecode,
+  secondsToTicks,
+  timeSpecToTicks
+} from '../utils/time.js';
+
+/** Marker types as tools name them, and as Premiere Pro does */
+export const MARKER_TYPES = {
+  comment: 'Comment',
+  chapter: 'Chapter',
+  segmentation: 'Segmentation',
+  weblink: 'WebLink'
+} as const;
+
+export type MarkerTypeName = keyof typeof MARKER_TYPES;
+
+/** Marker colors in Premiere Pro's color index order */
+export const MARKER_COLORS = ['green', 'red', 'purple', 'orange', 'yellow', 'white', 'blue', 'cyan'] as const;
+
+export type MarkerColorName = typeof MARKER_COLORS[number];
+
+/** Other names the marker colors go by */
+const COLOR_ALIASES: Record<string, MarkerColorName> = { magenta: 'purple', violet: 'purple' };
+
+/** CSV headers each marker field is recognised by, normalised to lower case */
+const CSV_COLUMNS = {
+  start: ['timecode', 'time', 'tc', 'in', 'start', 'position', 'record in'],
+  end: ['out', 'end', 'record out'],
+  duration: ['duration', 'length'],
+  name: ['name', 'marker name', 'title', 'marker'],
+  comment: ['comment', 'comments', 'description', 'note', 'notes'],
+  color: ['color', 'colour', 'marker color', 'marker colour'],
+  type: ['type', 'marker type'],
+  url: ['url', 'link', 'web link']
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+/** Columns of a CSV without a header row */
+const HEADERLESS_COLUMNS: CsvColumn[] = ['start', 'name', 'comment', 'color'];
+
+/** Elapsed time such as 1:23, 01:02:03 or 12:05.5, as YouTube and spreadsheets write it */
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/;
+
+/** YouTube's rules for chapter lists */
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+export interface MarkerImportOptions {
+  /** Type of rows without one; defaults to comment */
+  type?: MarkerTypeName | undefined;
+  /** Color of rows without one; defaults to green */
+  color?: MarkerColorName | undefined;
+}
+
+export interface MarkerImportIssue {
+  line: number;
+  reason: string;
+}
+
+export interface MarkerImportPlan {
+  /** Markers ready for the bridge to add, in seconds from the start of the sequence */
+  markers: Array<PremiereProMarkerChanges & { line: number; start: number; end: number }>;
+  /** Rows that were skipped */
+  issues: MarkerImportIssue[];
+  warnings: string[];
+}
+
+export interface YoutubeChaptersResult {
+  text: string;
+  chapterCount: number;
+  warnings: string[];
+}
+
+export function markerTypeName(type: string | undefined): string {
+  return Object.entries(MARKER_TYPES).find(([, premiereType]) => premiereType === type)?.[0] ?? type ?? 'comment';
+}
+
+export function markerColorName(color: number | undefined): string {
+  return MARKER_COLORS[color ?? 0] ?? String(color);
+}
+
+function sequenceTimebase(sequence: PremiereProSequence): number {
+  return sequence.timebase ?? frameRateToTicksPerFrame(sequence.frameRate);
+}
+
+function byStart(a: PremiereProMarker, b: PremiereProMarker): number {
+  return a.start - b.start;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write markers as CSV with a header row, one marker per row. Timecodes
+ * include the sequence's start timecode and the file starts with a byte
+ * order mark so spreadsheet apps read it as UTF-8.
+ */
+export function formatMarkerCsv(markers: PremiereProMarker[], sequence: PremiereProSequence): string {
+  const timebase = sequenceTimebase(sequence);
+  const timecode = (seconds: number) => secondsToTimecode(seconds + (sequence.zeroPoint ?? 0), timebase);
+  const rows = [['Timecode', 'Name', 'Comment', 'Color', 'Type', 'Duration', 'URL']];
+  for (const marker of [...markers].sort(byStart)) {
+    rows.push([
+      timecode(marker.start),
+      marker.name,
+      marker.comment,
+      markerColorName(marker.color),
+      markerTypeName(marker.type),
+      secondsToTimecode(marker.end - marker.start, timebase),
+      marker.url ?? ''
+    ]);
+  }
+  return `\uFEFF${rows.map(row => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+}
+
+/** Write markers as JSON, with both seconds and timecodes */
+export function formatMarkerJson(markers: PremiereProMarker[], sequence: PremiereProSequence): string {
+  const timebase = sequenceTimebase(sequence);
+  const timecode = (seconds: number) => secondsToTimecode(seconds + (sequence.zeroPoint ?? 0), timebase);
+  return `${JSON.stringify({
+    sequence: {
+      id: sequence.id,
+      name: sequence.name,
+      frameRate: sequence.frameRate,
+      duration: sequence.duration,
+      startTimecode: timecode(0)
+    },
+    markers: [...markers].sort(byStart).map(marker => ({
+      id: marker.id,
+      name: marker.name,
+      comment: marker.comment,
+      type: markerTypeName(marker.type),
+      color: markerColorName(marker.color),
+      start: marker.start,
+      end: marker.end,
+      duration: marker.end - marker.start,
+      timecode: timecode(marker.start),
+      endTimecode: timecode(marker.end),
+      ...(marker.url !== undefined ? { url: marker.url, frameTarget: marker.frameTarget } : {})
+    }))
+  }, null, 2)}\n`;
+}
+
+/** Whole seconds as 00:00, or 0:00:00 once the list runs past an hour */
+function chapterTimestamp(seconds: number, withHours: boolean): string {
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return withHours ? `${Math.floor(minutes / 60)}:${pad(minutes % 60)}:${pad(whole % 60)}` : `${pad(minutes)}:${pad(whole % 60)}`;
+}
+
+/**
+ * Write markers as a chapter list for a YouTube description, one
+ * `00:00 Title` line per chapter. Chapter markers are used when there are
+ * any, otherwise every marker. Times are from the start of the sequence, as
+ * in an export of it. Lists YouTube won't turn into chapters are still
+ * written, with a warning for each rule they break.
+ */
+export function formatYoutubeChapters(markers: PremiereProMarker[], sequence: PremiereProSequence): YoutubeChaptersResult {
+  const warnings: string[] = [];
+  let chapters = markers.filter(marker => marker.type === MARKER_TYPES.chapter);
+  if (chapters.length === 0) {
+    chapters = markers;
+  } else if (chapters.length < markers.length) {
+    warnings.push(`Using the ${chapters.length} chapter markers; ${markers.length - chapters.length} other markers were left out`);
+  }
+
+  // YouTube timestamps are whole seconds, so markers within the same second collapse to the first
+  const entries: Array<{ seconds: number; title: string }> = [];
+  for (const marker of [...chapters].sort(byStart)) {
+    const seconds = Math.floor(marker.start);
+    const title = (marker.name || marker.comment.split(/\r\n|\r|\n/)[0] || `Chapter ${entries.length + 1}`).trim();
+    if (entries.length > 0 && entries[entries.length - 1]!.seconds === seconds) {
+      warnings.push(`"${title}" starts in the same second as "${entries[entries.length - 1]!.title}" and was left out`);
+      continue;
+    }
+    entries.push({ seconds, title });
+  }
+
+  if (entries.length > 0 && entries[0]!.seconds !== 0) {
+    warnings.push('YouTube needs the first chapter to start at 00:00');
+  }
+  if (entries.length < YOUTUBE_MIN_CHAPTERS) {
+    warnings.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters; there are ${entries.length}`);
+  }
+  entries.forEach((entry, index) => {
+    const end = entries[index + 1]?.seconds ?? sequence.duration;
+    if (end - entry.seconds < YOUTUBE_MIN_CHAPTER_SECONDS) {
+      warnings.push(`Chapter "${entry.title}" is shorter than YouTube's minimum of ${YOUTUBE_MIN_CHAPTER_SECONDS} seconds`);
+    }
+  });
+
+  const withHours = entries.some(entry => entry.seconds >= 3600);
+  return {
+    text: entries.map(entry => `${chapterTimestamp(entry.seconds, withHours)} ${entry.title}\n`).join(''),
+    chapterCount: entries.length,
+    warnings
+  };
+}
+
+/** Split CSV text into rows of fields, with the line each row starts on */
+function parseCsvRows(text: string): Array<{ fields: string[]; line: number }> {
+  const body = text.replace(/^\uFEFF/, '');
+  // Guess the delimiter from the first line: spreadsheets in some locales write semicolons, Premiere Pro writes tabs
+  const firstLine = body.split(/\r\n|\r|\n/, 1)[0] ?? '';
+  const delimiter = ['\t', ';', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: Array<{ fields: string[]; line: number }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index]!;
+    if (quoted) {
+      if (char === '"' && body[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && body[index + 1] === '\n') {
+        index++;
+      }
+      fields.push(field);
+      rows.push({ fields, line: rowLine });
+      fields = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    rows.push({ fields, line: rowLine });
+  }
+  return rows.filter(row => row.fields.some(value => value.trim() !== ''));
+}
+
+/** Which marker field each column holds, when the row is a header row */
+function headerColumns(fields: string[]): Array<CsvColumn | null> | null {
+  const columns = fields.map(field => {
+    const header = field.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return (Object.keys(CSV_COLUMNS) as CsvColumn[]).find(column => CSV_COLUMNS[column].includes(header)) ?? null;
+  });
+  return columns.includes('start') ? columns : null;
+}
+
+/**
+ * Seconds from the start of the sequence for a CSV time, snapped to the
+ * sequence's frames. SMPTE timecodes are read as the sequence displays
+ * them, so the start timecode is taken off positions; clock times like 1:23
+ * and plain seconds count from the start of the sequence.
+ */
+function parseCsvTime(text: string, sequence: PremiereProSequence, position: boolean): number {
+  const timebase = sequenceTimebase(sequence);
+  const snap = (seconds: number) => Math.round(secondsToTicks(seconds) / timebase) * timebase / TICKS_PER_SECOND;
+  const clock = CLOCK_PATTERN.exec(text.trim());
+  if (clock) {
+    const [, hours, minutes, seconds] = clock;
+    return snap(Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds));
+  }
+  const spec = parseTimeValue(text);
+  const seconds = timeSpecToTicks(spec, timebase) / TICKS_PER_SECOND;
+  return position && spec.unit === 'timecode' ? snap(seconds - (sequence.zeroPoint ?? 0)) : seconds;
+}
+
+function parseColor(text: string): number | null {
+  const name = text.trim().toLowerCase();
+  if (/^[0-7]$/.test(name)) {
+    return Number(name);
+  }
+  const index = MARKER_COLORS.indexOf((COLOR_ALIASES[name] ?? name) as MarkerColorName);
+  return index === -1 ? null : index;
+}
+
+function parseType(text: string): MarkerTypeName | null {
+  const name = text.trim().toLowerCase().replace(/[^a-z]/g, '');
+  return name in MARKER_TYPES ? name as MarkerTypeName : null;
+}
+
+/**
+ * Read markers from CSV rows of timecode, name, comment and color. A header
+ * row naming the columns may also bring end, duration, type and URL
+ * columns, in any order; Premiere Pro's own marker exports are read this
+ * way. Rows whose time can't be read or falls outside the sequence are
+ * skipped and reported rather than failing the whole list.
+ */
+export function parseMarkerCsv(text: string, sequence: PremiereProSequence, options: MarkerImportOptions = {}): MarkerImportPlan {
+  const plan: MarkerImportPlan = { markers: [], issues: [], warnings: [] };
+  const rows = parseCsvRows(text);
+  const header = rows[0] ? headerColumns(rows[0].fields) : null;
+  const columns = header ?? HEADERLESS_COLUMNS;
+  if (header && rows[0]!.fields.length > header.filter(Boolean).length) {
+    const ignored = rows[0]!.fields.filter((_, index) => !header[index]).map(field => `"${field.trim()}"`);
+    plan.warnings.push(`Ignored column(s) ${ignored.join(', ')}`);
+  }
+  const timebase = sequenceTimebase(sequence);
+  const timecode = (seconds: number) => secondsToTimecode(seconds + (sequence.zeroPoint ?? 0), timebase);
+
+  for (const row of header ? rows.slice(1) : rows) {
+    const cell = (column: CsvColumn) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : (row.fields[index] ?? '').trim();
+    };
+    const skip = (reason: string) => plan.issues.push({ line: row.line, reason });
+
+    if (!cell('start')) {
+      skip('No timecode');
+      continue;
+    }
+    let start: number;
+    let end: number;
+    try {
+      start = parseCsvTime(cell('start'), sequence, true);
+      end = cell('end') ? parseCsvTime(cell('end'), sequence, true)
+        : cell('duration') ? start + parseCsvTime(cell('duration'), sequence, false)
+        : start;
+    } catch (error) {
+      skip(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    if (start < 0) {
+      skip(`${cell('start')} is before the start of the sequence at ${timecode(0)}`);
+      continue;
+    }
+    if (start >= sequence.duration) {
+      skip(`${cell('start')} is past the end of the sequence at ${timecode(sequence.duration)}`);
+      continue;
+    }
+    if (end < start) {
+      plan.warnings.push(`Line ${row.line}: the marker ends before it starts, so it was given no duration`);
+      end = start;
+    } else if (end > sequence.duration) {
+      plan.warnings.push(`Line ${row.line}: the marker runs past the end of the sequence and was shortened`);
+      end = sequence.duration;
+    }
+
+    let color = options.color ? MARKER_COLORS.indexOf(options.color) : undefined;
+    if (cell('color')) {
+      const parsed = parseColor(cell('color'));
+      if (parsed === null) {
+        plan.warnings.push(`Line ${row.line}: unknown color "${cell('color')}"; expected one of ${MARKER_COLORS.join(', ')}`);
+      } else {
+        color = parsed;
+      }
+    }
+    let type = options.type;
+    if (cell('type')) {
+      const parsed = parseType(cell('type'));
+      if (parsed === null) {
+        plan.warnings.push(`Line ${row.line}: unknown marker type "${cell('type')}"`);
+      } else {
+        type = parsed;
+      }
+    }
+    if (type === 'weblink' && !cell('url')) {
+      plan.warnings.push(`Line ${row.line}: web link marker has no URL, so it was made a comment marker`);
+      type = 'comment';
+    }
+
+    plan.markers.push({
+      line: row.line,
+      start,
+      end,
+      name: cell('name'),
+      comment: cell('comment'),
+      type: type ? MARKER_TYPES[type] : undefined,
+      color,
+      url: type === 'weblink' ? cell('url') : undefined
+    });
+  }
+  return plan;
+}
@@ -0,0 +1,222 @@
+/**
+ * Minimal XML reading and writing
+ *
+ * Interchange formats such as FCP7 XML only need elements, attributes and
+ * text, so this covers exactly that: comments, processing instructions and
+ * the doctype are skipped when parsing, and namespaces are left as part of
+ * the element name.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+type XmlChild = XmlNode | number | boolean | null | undefined;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Build an element. Numbers and booleans become text; null and undefined
+ * children are dropped so optional content can be written inline.
+ */
+export function xmlElement(name: string, attributes: Record<string, string | number> = {}, ...children: XmlChild[]): XmlElement {
+  return {
+    name,
+    attributes: Object.fromEntries(Object.entries(attributes).map(([key, value]) => [key, String(value)])),
+    children: children
+      .filter((child): child is XmlNode | number | boolean => child !== null && child !== undefined)
+      .map(child => (typeof child === 'object' ? child : String(child)))
+  };
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[body] ?? entity;
+  });
+}
+
+/**
+ * Serialize an element tree with two-space indentation. Elements holding
+ * only text stay on one line so values read the way editors write them.
+ */
+export function formatXml(root: XmlElement, doctype?: string): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  if (doctype) {
+    lines.push(`<!DOCTYPE ${doctype}>`);
+  }
+
+  const write = (element: XmlElement, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const attributes = Object.entries(element.attributes)
+      .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+      .join('');
+    if (element.children.length === 0) {
+      lines.push(`${indent}<${element.name}${attributes}/>`);
+    } else if (element.children.every(child => typeof child === 'string')) {
+      lines.push(`${indent}<${element.name}${attributes}>${escapeXml(element.children.join(''))}</${element.name}>`);
+    } else {
+      lines.push(`${indent}<${element.name}${attributes}>`);
+      for (const child of element.children) {
+        if (typeof child === 'string') {
+          lines.push(`${indent}  ${escapeXml(child)}`);
+        } else {
+          write(child, depth + 1);
+        }
+      }
+      lines.push(`${indent}</${element.name}>`);
+    }
+  };
+
+  write(root, 0);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a document and return its root element. Whitespace-only text
+ * between elements is dropped; malformed markup throws with the line it
+ * was found on.
+ */
+export function parseXml(text: string): XmlElement {
+  let position = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+
+  const fail = (reason: string): never => {
+    const line = text.slice(0, position).split('\n').length;
+    throw new Error(`Invalid XML at line ${line}: ${reason}`);
+  };
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, position);
+    if (end === -1) {
+      fail(`missing ${terminator}`);
+    }
+    position = end + terminator.length;
+  };
+  const addChild = (node: XmlNode) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else if (typeof node === 'string') {
+      if (node.trim()) {
+        fail('text outside the root element');
+      }
+    } else if (root) {
+      fail('more than one root element');
+    } else {
+      root = node;
+    }
+  };
+
+  while (position < text.length) {
+    const open = text.indexOf('<', position);
+    const textEnd = open === -1 ? text.length : open;
+    if (textEnd > position) {
+      const chunk = text.slice(position, textEnd);
+      if (chunk.trim()) {
+        addChild(unescapeXml(chunk));
+      }
+      position = textEnd;
+      continue;
+    }
+
+    if (text.startsWith('<!--', position)) {
+      skipPast('-->');
+    } else if (text.startsWith('<![CDATA[', position)) {
+      const end = text.indexOf(']]>', position);
+      if (end === -1) {
+        fail('unterminated CDATA section');
+      }
+      addChild(text.slice(position + 9, end));
+      position = end + 3;
+    } else if (text.startsWith('<?', position)) {
+      skipPast('?>');
+    } else if (text.startsWith('<!', position)) {
+      // Doctypes may carry an internal subset in brackets
+      const bracket = text.indexOf('[', position);
+      const close = text.indexOf('>', position);
+      if (bracket !== -1 && bracket < close) {
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (text.startsWith('</', position)) {
+      const match = /^<\/([^\s>]+)\s*>/.exec(text.slice(position));
+      const current = stack.pop();
+      if (!match || !current || current.name !== match[1]) {
+        fail(`unexpected closing tag${match ? ` </${match[1]}>` : ''}`);
+      }
+      position += match![0].length;
+      if (stack.length === 0) {
+        addChild(current!);
+      }
+    } else {
+      const match = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(text.slice(position));
+      if (!match) {
+        fail('malformed start tag');
+      }
+      const [whole, name, attributeText, selfClosing] = match!;
+      const element: XmlElement = { name: name!, attributes: {}, children: [] };
+      for (const attribute of attributeText!.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[attribute[1]!] = unescapeXml(attribute[2] ?? attribute[3] ?? '');
+      }
+      position += whole.length;
+      if (selfClosing) {
+        if (stack.length === 0) {
+          addChild(element);
+        } else {
+          stack[stack.length - 1]!.children.push(element);
+        }
+      } else {
+        if (stack.length > 0) {
+          stack[stack.length - 1]!.children.push(element);
+        }
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`<${stack[stack.length - 1]!.name}> is never closed`);
+  }
+  if (!root) {
+    fail('no root element');
+  }
+  return root!;
+}
+
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return (element?.children ?? []).filter((child): child is XmlElement => typeof child !== 'string' && child.name === name);
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/** Text content of an element, including its descendants */
+export function elementText(element: XmlElement | undefined): string {
+  if (!element) {
+    return '';
+  }
+  return element.children.map(child => (typeof child === 'string' ? child : elementText(child))).join('');
+}
+
+/** Trimmed text of the first child with the given name, or undefined */
+export function childText(element: XmlElement | undefined, name: string): string | undefined {
+  const child = childElement(element, name);
+  return child ? elementText(child).trim() : undefined;
+}
@@ -0,0 +1,163 @@
+/**
+ * Media references
+ *
+ * Interchange files point at media by path and name, usually as written on
+ * another machine or platform. These helpers compare paths loosely (either
+ * kind of separator, any case) and conform a parsed timeline's clips to the
+ * project items they refer to.
+ */
+
+import {
+  PremiereProClip,
+  PremiereProProjectItem,
+  PremiereProSequence,
+  PremiereProTrack
+} from '../bridge/index.js';
+import { frameRateToTicksPerFrame, secondsToTicks } from '../utils/time.js';
+
+/** The media a clip plays, as an interchange file names it */
+export interface MediaReference {
+  id?: string | undefined;
+  name: string;
+  path?: string | undefined;
+  reelName?: string | undefined;
+}
+
+export type MediaMatchMethod = 'file path' | 'file name' | 'item name';
+
+export interface TimelineImportIssue {
+  clipId: string;
+  /** Track label, such as V1 or A2 */
+  track: string;
+  name: string;
+  /** Timeline position in seconds */
+  start: number;
+  file?: string | undefined;
+  reason: string;
+}
+
+/** A timeline read from an interchange file, before it's matched to the project */
+export interface ParsedTimeline {
+  /** Sequence model without project items */
+  sequence: PremiereProSequence;
+  /** Media each clip plays, by model clip id */
+  clipFiles: Record<string, MediaReference>;
+  /** Clips that can't be rebuilt, such as nested sequences and generators */
+  unsupportedClips: TimelineImportIssue[];
+  warnings: string[];
+}
+
+export interface TimelineImportPlan {
+  /** Sequence model ready for the bridge to build */
+  sequence: PremiereProSequence;
+  matchedFiles: Array<{ file: string; path?: string | undefined; projectItemId: string; projectItemName: string; matchedBy: MediaMatchMethod; clips: number }>;
+  unmatchedClips: TimelineImportIssue[];
+  warnings: string[];
+}
+
+/** File name without its directory; both kinds of path separator are accepted */
+export function fileName(path: string | undefined): string {
+  return (path ?? '').split(/[\\/]/).pop() ?? '';
+}
+
+/** File name without its directory or extension */
+export function fileStem(path: string | undefined): string {
+  const name = fileName(path);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+export function samePath(a: string | undefined, b: string | undefined): boolean {
+  const normalize = (path: string) => path.replace(/\\/g, '/').toLowerCase();
+  return !!a && !!b && normalize(a) === normalize(b);
+}
+
+export function sameName(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * file:// URL for a local path. FCP XML names the host (file://localhost/...);
+ * OTIO leaves it empty. Drive letters become a leading /C:/.
+ */
+export function pathToFileUrl(path: string, host = ''): string {
+  const joined = path.replace(/\\/g, '/').split('/').map(segment => encodeURIComponent(segment)).join('/');
+  return `file://${host}${joined.startsWith('/') ? '' : '/'}${joined}`;
+}
+
+/** Local path of a file:// URL; Windows drive letters come through as /C:/... */
+export function fileUrlToPath(url: string): string {
+  const path = decodeURIComponent(url.replace(/^file:\/\/(localhost)?/i, ''));
+  return /^\/[A-Za-z]:/.test(path) ? path.slice(1) : path;
+}
+
+/**
+ * Find the project item a media reference points at: by full path first,
+ * then by file name, then by the item's name in the project
+ */
+export function matchMediaReference(file: MediaReference, items: PremiereProProjectItem[]): { item: PremiereProProjectItem; matchedBy: MediaMatchMethod; candidates: number } | null {
+  const footage = items.filter(item => item.type === 'footage');
+  const levels: Array<[MediaMatchMethod, (item: PremiereProProjectItem) => boolean]> = [
+    ['file path', item => samePath(item.mediaPath, file.path)],
+    ['file name', item => sameName(fileName(item.mediaPath), fileName(file.path) || file.name)],
+    ['item name', item => sameName(item.name, file.name)]
+  ];
+
+  for (const [matchedBy, matches] of levels) {
+    const candidates = footage.filter(matches);
+    if (candidates.length > 0) {
+      return { item: candidates[0]!, matchedBy, candidates: candidates.length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Attach project items to a parsed timeline's clips. Clips whose media
+ * can't be found in the project are dropped from the model and reported.
+ */
+export function conformTimeline(parsed: ParsedTimeline, items: PremiereProProjectItem[], options: { name?: string | undefined } = {}): TimelineImportPlan {
+  const warnings = [...parsed.warnings];
+  const unmatchedClips = [...parsed.unsupportedClips];
+  const matchedFiles = new Map<string, TimelineImportPlan['matchedFiles'][number]>();
+  const ticksPerFrame = parsed.sequence.timebase ?? frameRateToTicksPerFrame(parsed.sequence.frameRate);
+
+  const conformTrack = (track: PremiereProTrack): PremiereProTrack => {
+    const clips: PremiereProClip[] = [];
+    for (const clip of track.clips) {
+      const file = parsed.clipFiles[clip.id]!;
+      const match = matchMediaReference(file, items);
+      if (!match) {
+        unmatchedClips.push({ clipId: clip.id, track: track.name, name: clip.name, start: clip.start ?? 0, file: file.path ?? file.name, reason: 'No project item matches the clip\'s media' });
+        continue;
+      }
+      const key = file.id ?? file.path ?? file.name;
+      const matched = matchedFiles.get(key);
+      if (matched) {
+        matched.clips++;
+      } else {
+        if (match.candidates > 1) {
+          warnings.push(`${match.candidates} project items match ${file.name}; using ${match.item.name}`);
+        }
+        matchedFiles.set(key, { file: file.name, path: file.path, projectItemId: match.item.id, projectItemName: match.item.name, matchedBy: match.matchedBy, clips: 1 });
+      }
+      if (match.item.duration && secondsToTicks(clip.outPoint - match.item.duration) > ticksPerFrame / 2) {
+        warnings.push(`${track.name}: ${clip.name} runs past the end of ${match.item.name}; Premiere will trim it to the media`);
+      }
+      clips.push({ ...clip, projectItemId: match.item.id });
+    }
+    return { ...track, clips };
+  };
+
+  return {
+    sequence: {
+      ...parsed.sequence,
+      name: options.name ?? parsed.sequence.name,
+      videoTracks: parsed.sequence.videoTracks.map(conformTrack),
+      audioTracks: parsed.sequence.audioTracks.map(conformTrack)
+    },
+    matchedFiles: [...matchedFiles.values()],
+    unmatchedClips,
+    warnings
+  };
+}
@@ -0,0 +1,293 @@
+import { formatOtio, parseOtio } from './otio.js';
+import { PremiereProSequence } from '../bridge/index.js';
+
+type Json = Record<string, any>;
+
+/**
+ * Checks a document against the OTIO schemas this module writes: every
+ * object names a schema we know, and carries that schema's fields with the
+ * right types. Returns one message per problem, with the path to it.
+ */
+function validateOtio(value: unknown, path = '$'): string[] {
+  const errors: string[] = [];
+  const fail = (at: string, message: string) => errors.push(`${at}: ${message}`);
+  const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+  const expectSchema = (v: unknown, at: string, schemas: string[]): v is Json => {
+    if (!isObject(v)) {
+      fail(at, `expected ${schemas.join(' or ')}, got ${JSON.stringify(v)}`);
+      return false;
+    }
+    if (!schemas.includes(v.OTIO_SCHEMA)) {
+      fail(at, `expected ${schemas.join(' or ')}, got ${v.OTIO_SCHEMA}`);
+      return false;
+    }
+    return true;
+  };
+  const expectType = (v: Json, key: string, type: string, at: string) => {
+    if (typeof v[key] !== type) {
+      fail(`${at}.${key}`, `expected ${type}, got ${JSON.stringify(v[key])}`);
+    }
+  };
+
+  const rationalTime = (v: unknown, at: string) => {
+    if (expectSchema(v, at, ['RationalTime.1'])) {
+      expectType(v, 'value', 'number', at);
+      expectType(v, 'rate', 'number', at);
+      if (!(v.rate > 0)) fail(`${at}.rate`, 'must be positive');
+      if (!Number.isInteger(v.value)) fail(`${at}.value`, 'should be a whole number of frames');
+    }
+  };
+  const timeRange = (v: unknown, at: string, nullable = false) => {
+    if (nullable && v === null) return;
+    if (expectSchema(v, at, ['TimeRange.1'])) {
+      rationalTime(v.start_time, `${at}.start_time`);
+      rationalTime(v.duration, `${at}.duration`);
+      if (v.duration?.value < 0) fail(`${at}.duration`, 'must not be negative');
+    }
+  };
+  // Fields every SerializableObjectWithMetadata, and every Item, has
+  const withMetadata = (v: Json, at: string) => {
+    expectType(v, 'name', 'string', at);
+    if (!isObject(v.metadata)) fail(`${at}.metadata`, 'expected an object');
+  };
+  const item = (v: Json, at: string, nullableRange: boolean) => {
+    withMetadata(v, at);
+    timeRange(v.source_range, `${at}.source_range`, nullableRange);
+    expectType(v, 'enabled', 'boolean', at);
+    if (!Array.isArray(v.effects)) fail(`${at}.effects`, 'expected an array');
+    if (!Array.isArray(v.markers)) fail(`${at}.markers`, 'expected an array');
+    (v.effects ?? []).forEach((effect: unknown, i: number) => {
+      const effectAt = `${at}.effects[${i}]`;
+      if (expectSchema(effect, effectAt, ['Effect.1', 'LinearTimeWarp.1'])) {
+        withMetadata(effect, effectAt);
+        expectType(effect, 'effect_name', 'string', effectAt);
+        if (effect.OTIO_SCHEMA === 'LinearTimeWarp.1') expectType(effect, 'time_scalar', 'number', effectAt);
+      }
+    });
+    (v.markers ?? []).forEach((marker: unknown, i: number) => markerObject(marker, `${at}.markers[${i}]`));
+  };
+  const markerObject = (v: unknown, at: string) => {
+    if (expectSchema(v, at, ['Marker.2'])) {
+      withMetadata(v, at);
+      timeRange(v.marked_range, `${at}.marked_range`);
+      expectType(v, 'color', 'string', at);
+      expectType(v, 'comment', 'string', at);
+    }
+  };
+  const mediaReference = (v: unknown, at: string) => {
+    if (expectSchema(v, at, ['ExternalReference.1', 'MissingReference.1'])) {
+      withMetadata(v, at);
+      timeRange(v.available_range, `${at}.available_range`, true);
+      if (v.OTIO_SCHEMA === 'ExternalReference.1') {
+        expectType(v, 'target_url', 'string', at);
+        if (!/^file:\/\//.test(v.target_url)) fail(`${at}.target_url`, `expected a file URL, got ${v.target_url}`);
+      }
+    }
+  };
+  const trackChild = (v: unknown, at: string) => {
+    if (!expectSchema(v, at, ['Clip.2', 'Gap.1', 'Transition.1'])) return;
+    if (v.OTIO_SCHEMA === 'Transition.1') {
+      withMetadata(v, at);
+      rationalTime(v.in_offset, `${at}.in_offset`);
+      rationalTime(v.out_offset, `${at}.out_offset`);
+      expectType(v, 'transition_type', 'string', at);
+      return;
+    }
+    item(v, at, false);
+    if (v.OTIO_SCHEMA === 'Clip.2') {
+      if (!isObject(v.media_references)) {
+        fail(`${at}.media_references`, 'expected an object');
+        return;
+      }
+      for (const [key, reference] of Object.entries(v.media_references)) {
+        mediaReference(reference, `${at}.media_references.${key}`);
+      }
+      if (!(v.active_media_reference_key in v.media_references)) {
+        fail(`${at}.active_media_reference_key`, `${v.active_media_reference_key} is not one of the media references`);
+      }
+    }
+  };
+  const track = (v: unknown, at: string) => {
+    if (!expectSchema(v, at, ['Track.1'])) return;
+    item(v, at, true);
+    if (v.kind !== 'Video' && v.kind !== 'Audio') fail(`${at}.kind`, `expected Video or Audio, got ${v.kind}`);
+    if (!Array.isArray(v.children)) {
+      fail(`${at}.children`, 'expected an array');
+      return;
+    }
+    v.children.forEach((child: unknown, i: number) => trackChild(child, `${at}.children[${i}]`));
+    // A transition needs an item on either side of it
+    v.children.forEach((child: Json, i: number) => {
+      if (child?.OTIO_SCHEMA === 'Transition.1' && v.children[i + 1]?.OTIO_SCHEMA === 'Transition.1') {
+        fail(`${at}.children[${i}]`, 'two transitions in a row');
+      }
+    });
+  };
+
+  if (expectSchema(value, path, ['Timeline.1'])) {
+    withMetadata(value, path);
+    if (value.global_start_time !== null) rationalTime(value.global_start_time, `${path}.global_start_time`);
+    const stackAt = `${path}.tracks`;
+    if (expectSchema(value.tracks, stackAt, ['Stack.1'])) {
+      item(value.tracks, stackAt, true);
+      if (!Array.isArray(value.tracks.children)) {
+        fail(`${stackAt}.children`, 'expected an array');
+      } else {
+        value.tracks.children.forEach((child: unknown, i: number) => track(child, `${stackAt}.children[${i}]`));
+      }
+    }
+  }
+  return errors;
+}
+
+/** Every OTIO_SCHEMA value in a document */
+function schemasIn(value: unknown, found = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(entry => schemasIn(entry, found));
+  } else if (typeof value === 'object' && value !== null) {
+    const schema = (value as Json).OTIO_SCHEMA;
+    if (typeof schema === 'string') found.add(schema);
+    Object.values(value).forEach(entry => schemasIn(entry, found));
+  }
+  return found;
+}
+
+function sequenceFixture(): PremiereProSequence {
+  return {
+    id: 'seq-1',
+    name: 'Rough Cut "v2"',
+    duration: 14,
+    frameRate: 25,
+    width: 1920,
+    height: 1080,
+    audioSampleRate: 48000,
+    videoTracks: [
+      {
+        id: 'V1',
+        name: 'V1',
+        type: 'video',
+        clips: [
+          { id: 'c1', name: 'Interview A', start: 0, end: 4, duration: 4, inPoint: 1, outPoint: 5, mediaPath: '/media/day 1/interview_a.mov', effects: ['Gaussian Blur'] },
+          { id: 'c2', name: 'B-roll', start: 4, end: 8, duration: 4, inPoint: 0, outPoint: 4, mediaPath: '/media/broll.mp4' },
+          { id: 'c3', name: 'Fast', start: 10, end: 12, duration: 2, inPoint: 2, outPoint: 6, speed: 2, mediaPath: '/media/fast.mov', enabled: false }
+        ],
+        transitions: [{ name: 'Cross Dissolve', start: 3.6, end: 4.4 }]
+      },
+      {
+        id: 'V2',
+        name: 'V2',
+        type: 'video',
+        clips: [
+          { id: 'c4', name: 'Logo', start: 6, end: 8, duration: 2, inPoint: 0, outPoint: 2, mediaPath: '/media/logo.png' }
+        ]
+      }
+    ],
+    audioTracks: [
+      {
+        id: 'A1',
+        name: 'A1',
+        type: 'audio',
+        clips: [
+          { id: 'c5', name: 'Interview A', start: 0, end: 4, duration: 4, inPoint: 1, outPoint: 5, mediaPath: '/media/day 1/interview_a.mov', audioLevel: -6 },
+          { id: 'c6', name: 'Music', start: 4, end: 14, duration: 10, inPoint: 0, outPoint: 10, mediaPath: '/media/music.wav' }
+        ],
+        transitions: [{ name: 'Constant Power', start: 13, end: 14 }]
+      }
+    ],
+    markers: [
+      { name: 'Chapter 1', comment: 'Opening', start: 0, end: 0, type: 'Chapter', color: 1 },
+      { name: 'Fix colour', comment: '', start: 5, end: 6, color: 4 }
+    ]
+  };
+}
+
+describe('formatOtio', () => {
+  it('writes a document that validates against the OTIO schemas', () => {
+    const result = formatOtio(sequenceFixture());
+    const document = JSON.parse(result.text);
+
+    expect(validateOtio(document)).toEqual([]);
+    expect([...schemasIn(document)].sort()).toEqual(expect.arrayContaining([
+      'Clip.2', 'Gap.1', 'RationalTime.1', 'Stack.1', 'TimeRange.1', 'Timeline.1', 'Track.1'
+    ]));
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('lays each track out end to end, with gaps between clips', () => {
+    const document = JSON.parse(formatOtio(sequenceFixture()).text);
+    const [v1, v2, a1] = document.tracks.children;
+
+    expect(v1.kind).toBe('Video');
+    expect(v1.children.map((child: Json) => child.OTIO_SCHEMA)).toEqual(['Clip.2', 'Transition.1', 'Clip.2', 'Gap.1', 'Clip.2']);
+    expect(v1.children[3].source_range.duration).toEqual({ OTIO_SCHEMA: 'RationalTime.1', rate: 25, value: 50 });
+    expect(v2.children.map((child: Json) => child.OTIO_SCHEMA)).toEqual(['Gap.1', 'Clip.2']);
+    expect(a1.kind).toBe('Audio');
+    expect(a1.children.map((child: Json) => child.OTIO_SCHEMA)).toEqual(['Clip.2', 'Clip.2', 'Transition.1']);
+  });
+
+  it('flags documents that break the schema', () => {
+    const document = JSON.parse(formatOtio(sequenceFixture()).text);
+    document.tracks.children[0].children[0].source_range.duration.rate = 0;
+    delete document.tracks.children[1].kind;
+    document.tracks.children[2].children[0].active_media_reference_key = 'NOPE';
+
+    expect(validateOtio(document)).toEqual([
+      expect.stringContaining('children[0].children[0].source_range.duration.rate'),
+      expect.stringContaining('children[1].kind'),
+      expect.stringContaining('children[2].children[0].active_media_reference_key')
+    ]);
+  });
+});
+
+describe('parseOtio', () => {
+  it('reads back the exported timeline', () => {
+    const original = sequenceFixture();
+    const parsed = parseOtio(formatOtio(original).text);
+    const { sequence } = parsed;
+
+    expect(sequence.name).toBe(original.name);
+    expect(sequence.frameRate).toBe(25);
+    expect(sequence.width).toBe(1920);
+    expect(sequence.height).toBe(1080);
+    expect(sequence.audioSampleRate).toBe(48000);
+
+    const clipShape = (clip: Json) => ({
+      name: clip.name,
+      start: clip.start,
+      end: clip.end,
+      inPoint: clip.inPoint,
+      outPoint: clip.outPoint,
+      mediaPath: clip.mediaPath,
+      speed: clip.speed ?? 1,
+      enabled: clip.enabled !== false,
+      audioLevel: clip.audioLevel,
+      effects: clip.effects ?? []
+    });
+    const tracks = (model: PremiereProSequence) => [...model.videoTracks, ...model.audioTracks].map(track => ({
+      name: track.name,
+      clips: track.clips.map(clipShape),
+      transitions: (track.transitions ?? []).map(transition => ({ name: transition.name, start: transition.start, end: transition.end }))
+    }));
+    expect(tracks(sequence)).toEqual(tracks(original));
+    expect(sequence.markers).toEqual(original.markers);
+    expect(Object.values(parsed.clipFiles).map(file => file.path)).toEqual(
+      [...original.videoTracks, ...original.audioTracks].flatMap(track => track.clips.map(clip => clip.mediaPath))
+    );
+    expect(parsed.unsupportedClips).toEqual([]);
+    expect(parsed.warnings).toEqual([]);
+  });
+
+  it('exports the imported timeline to the same document', () => {
+    const text = formatOtio(sequenceFixture()).text;
+    const again = formatOtio(parseOtio(text).sequence).text;
+
+    expect(validateOtio(JSON.parse(again))).toEqual([]);
+    expect(JSON.parse(again)).toEqual(JSON.parse(text));
+  });
+
+  it('rejects documents that are not timelines', () => {
+    expect(() => parseOtio('{"OTIO_SCHEMA": "Clip.2"}')).toThrow('Not an OTIO timeline');
+    expect(() => parseOtio('not json')).toThrow('Not valid OTIO JSON');
+  });
+});
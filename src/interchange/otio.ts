@@ -0,0 +1,485 @@
+/**
+ * OpenTimelineIO JSON (.otio)
+ *
+ * An OTIO timeline is a Stack of Tracks, each a list of Clips and Gaps laid
+ * end to end; Transitions sit between two items and take no time of their
+ * own, overlapping the items on either side by their in and out offsets.
+ * Times are RationalTimes (a value at a rate), and every object names its
+ * schema and version in OTIO_SCHEMA.
+ */
+
+import {
+  PremiereProClip,
+  PremiereProMarker,
+  PremiereProProjectItem,
+  PremiereProSequence,
+  PremiereProTrack,
+  PremiereProTransition
+} from '../bridge/index.js';
+import { frameRateToTicksPerFrame, secondsToTicks, ticksPerFrameToFrameRate, ticksToSeconds } from '../utils/time.js';
+import { MediaReference, ParsedTimeline, TimelineImportIssue, fileName, fileUrlToPath, pathToFileUrl } from './media.js';
+
+/** Key of the media reference a clip plays, as OTIO itself writes it */
+const DEFAULT_MEDIA_KEY = 'DEFAULT_MEDIA';
+
+/** Metadata namespace for the Premiere properties OTIO has no schema for */
+const METADATA_NAMESPACE = 'premiere_pro';
+
+/** OTIO marker colors, in the order of Premiere's marker color indexes */
+const MARKER_COLORS = ['GREEN', 'RED', 'MAGENTA', 'ORANGE', 'YELLOW', 'WHITE', 'BLUE', 'CYAN'];
+
+/** Transition names used when an OTIO dissolve has none */
+const DEFAULT_TRANSITIONS = { video: 'Cross Dissolve', audio: 'Constant Power' };
+
+/** Frame rate assumed when nothing in the file carries one */
+const DEFAULT_IMPORT_FRAME_RATE = 25;
+
+export interface OtioExportOptions {
+  /** Project items, used for each media reference's available range */
+  items?: PremiereProProjectItem[] | undefined;
+}
+
+export interface OtioExportResult {
+  text: string;
+  frameRate: number;
+  clipCount: number;
+  gapCount: number;
+  transitionCount: number;
+  markerCount: number;
+  warnings: string[];
+}
+
+/** A parsed OTIO object; every one carries its schema name and version */
+type OtioObject = { OTIO_SCHEMA: string; [key: string]: any };
+
+function rationalTime(value: number, rate: number): OtioObject {
+  return { OTIO_SCHEMA: 'RationalTime.1', rate, value };
+}
+
+function timeRange(start: number, duration: number, rate: number): OtioObject {
+  return { OTIO_SCHEMA: 'TimeRange.1', duration: rationalTime(duration, rate), start_time: rationalTime(start, rate) };
+}
+
+function schemaName(object: unknown): string {
+  return typeof object === 'object' && object && typeof (object as OtioObject).OTIO_SCHEMA === 'string'
+    ? (object as OtioObject).OTIO_SCHEMA.split('.')[0]!
+    : '';
+}
+
+/**
+ * Render a sequence as an OTIO timeline: video tracks then audio tracks,
+ * bottom to top, with gaps filling the space between clips
+ */
+export function formatOtio(sequence: PremiereProSequence, options: OtioExportOptions = {}): OtioExportResult {
+  const warnings: string[] = [];
+  const ticksPerFrame = sequence.timebase ?? frameRateToTicksPerFrame(sequence.frameRate);
+  const rate = ticksPerFrameToFrameRate(ticksPerFrame);
+  const toFrames = (seconds: number) => Math.round(secondsToTicks(seconds) / ticksPerFrame);
+  const items = new Map((options.items ?? []).map(item => [item.id, item]));
+  let clipCount = 0;
+  let gapCount = 0;
+  let transitionCount = 0;
+
+  const mediaReference = (clip: PremiereProClip): OtioObject => {
+    if (!clip.mediaPath) {
+      warnings.push(`${clip.name} has no media path; it is written with a missing reference`);
+      return { OTIO_SCHEMA: 'MissingReference.1', metadata: {}, name: clip.name, available_range: null, available_image_bounds: null };
+    }
+    const item = clip.projectItemId ? items.get(clip.projectItemId) : undefined;
+    return {
+      OTIO_SCHEMA: 'ExternalReference.1',
+      metadata: {},
+      name: fileName(clip.mediaPath),
+      available_range: item?.duration ? timeRange(toFrames(clip.mediaStart ?? 0), toFrames(item.duration), rate) : null,
+      available_image_bounds: null,
+      target_url: pathToFileUrl(clip.mediaPath)
+    };
+  };
+
+  const clipObject = (clip: PremiereProClip, recordIn: number, recordOut: number, type: 'video' | 'audio'): OtioObject => {
+    const speed = clip.speed ?? 1;
+    // The source range starts where the clip's first visible frame is, in media time
+    const sourceIn = toFrames((clip.mediaStart ?? 0) + clip.inPoint) + Math.round((recordIn - toFrames(clip.start ?? 0)) * speed);
+    const effects: OtioObject[] = [];
+    if (speed !== 1) {
+      effects.push({ OTIO_SCHEMA: 'LinearTimeWarp.1', metadata: {}, name: '', effect_name: 'LinearTimeWarp', time_scalar: speed });
+    }
+    for (const effect of clip.effects ?? []) {
+      effects.push({ OTIO_SCHEMA: 'Effect.1', metadata: {}, name: effect, effect_name: effect });
+    }
+    const metadata: Record<string, unknown> = {};
+    if (type === 'audio' && clip.audioLevel !== undefined) {
+      metadata.audio_level = clip.audioLevel;
+    }
+    if (clip.reelName) {
+      metadata.reel_name = clip.reelName;
+    }
+    clipCount++;
+    return {
+      OTIO_SCHEMA: 'Clip.2',
+      metadata: Object.keys(metadata).length > 0 ? { [METADATA_NAMESPACE]: metadata } : {},
+      name: clip.name,
+      source_range: timeRange(sourceIn, recordOut - recordIn, rate),
+      effects,
+      markers: [],
+      enabled: clip.enabled !== false,
+      media_references: { [DEFAULT_MEDIA_KEY]: mediaReference(clip) },
+      active_media_reference_key: DEFAULT_MEDIA_KEY
+    };
+  };
+
+  const gapObject = (frames: number): OtioObject => {
+    gapCount++;
+    return { OTIO_SCHEMA: 'Gap.1', metadata: {}, name: '', source_range: timeRange(0, frames, rate), effects: [], markers: [], enabled: true };
+  };
+
+  const trackObject = (track: PremiereProTrack, type: 'video' | 'audio'): OtioObject => {
+    // Items with the record frame they start at, so transitions can be slotted in at their cut
+    const children: Array<{ start: number; object: OtioObject }> = [];
+    let cursor = 0;
+    for (const clip of [...track.clips].sort((a, b) => (a.start ?? 0) - (b.start ?? 0))) {
+      let recordIn = toFrames(clip.start ?? 0);
+      const recordOut = toFrames(clip.end ?? (clip.start ?? 0) + clip.duration);
+      if (recordIn < cursor) {
+        warnings.push(`${track.name}: ${clip.name} overlaps the clip before it; its head is trimmed to fit`);
+        recordIn = cursor;
+      }
+      if (recordOut <= recordIn) {
+        continue;
+      }
+      if (recordIn > cursor) {
+        children.push({ start: cursor, object: gapObject(recordIn - cursor) });
+      }
+      children.push({ start: recordIn, object: clipObject(clip, recordIn, recordOut, type) });
+      cursor = recordOut;
+    }
+
+    const clipEdges = children.filter(child => schemaName(child.object) === 'Clip').map(child => ({
+      start: child.start,
+      end: child.start + child.object.source_range.duration.value
+    }));
+    for (const transition of [...(track.transitions ?? [])].sort((a, b) => b.start - a.start)) {
+      const start = toFrames(transition.start);
+      const end = toFrames(transition.end);
+      const cut = transitionCut(start, end, clipEdges);
+      if (cut === null) {
+        warnings.push(`${track.name}: ${transition.name} at ${transition.start}s isn't on a clip edge and was left out`);
+        continue;
+      }
+      const index = children.findIndex(child => child.start >= cut);
+      const object = {
+        OTIO_SCHEMA: 'Transition.1',
+        metadata: {},
+        name: transition.name,
+        in_offset: rationalTime(cut - start, rate),
+        out_offset: rationalTime(end - cut, rate),
+        transition_type: 'SMPTE_Dissolve'
+      };
+      children.splice(index === -1 ? children.length : index, 0, { start: cut, object });
+      transitionCount++;
+    }
+
+    return {
+      OTIO_SCHEMA: 'Track.1',
+      metadata: {},
+      name: track.name,
+      source_range: null,
+      effects: [],
+      markers: [],
+      enabled: !track.muted,
+      children: children.map(child => child.object),
+      kind: type === 'video' ? 'Video' : 'Audio'
+    };
+  };
+
+  const markers = (sequence.markers ?? []).map(marker => {
+    const start = toFrames(marker.start);
+    return {
+      OTIO_SCHEMA: 'Marker.2',
+      metadata: marker.type ? { [METADATA_NAMESPACE]: { type: marker.type } } : {},
+      name: marker.name,
+      color: MARKER_COLORS[marker.color ?? 0] ?? MARKER_COLORS[0],
+      marked_range: timeRange(start, Math.max(0, toFrames(marker.end) - start), rate),
+      comment: marker.comment
+    };
+  });
+
+  const settings: Record<string, unknown> = {};
+  if (sequence.width) settings.width = sequence.width;
+  if (sequence.height) settings.height = sequence.height;
+  if (sequence.audioSampleRate) settings.audio_sample_rate = sequence.audioSampleRate;
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    metadata: Object.keys(settings).length > 0 ? { [METADATA_NAMESPACE]: settings } : {},
+    name: sequence.name,
+    global_start_time: rationalTime(toFrames(sequence.zeroPoint ?? 0), rate),
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      metadata: {},
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers,
+      enabled: true,
+      children: [
+        ...sequence.videoTracks.map(track => trackObject(track, 'video')),
+        ...sequence.audioTracks.map(track => trackObject(track, 'audio'))
+      ]
+    }
+  };
+
+  return {
+    text: JSON.stringify(timeline, null, 4) + '\n',
+    frameRate: Math.round(rate * 1000) / 1000,
+    clipCount,
+    gapCount,
+    transitionCount,
+    markerCount: markers.length,
+    warnings
+  };
+}
+
+/**
+ * The cut a transition belongs at: the edit between two clips it spans, or
+ * the head or tail of a clip for a fade from or to nothing
+ */
+function transitionCut(start: number, end: number, clips: Array<{ start: number; end: number }>): number | null {
+  const edit = clips.find(clip => clip.end > start && clip.end < end && clips.some(next => next.start === clip.end));
+  if (edit) {
+    return edit.end;
+  }
+  if (clips.some(clip => clip.start === start)) {
+    return start;
+  }
+  if (clips.some(clip => clip.end === end)) {
+    return end;
+  }
+  return null;
+}
+
+/** Length of an item in seconds: its source range, or what its children add up to */
+function itemDuration(item: OtioObject): number {
+  if (item.source_range) {
+    return timeToSeconds(item.source_range.duration);
+  }
+  const children: OtioObject[] = (item.children ?? []).filter((child: OtioObject) => schemaName(child) !== 'Transition');
+  const durations = children.map(itemDuration);
+  return schemaName(item) === 'Stack' ? Math.max(0, ...durations) : durations.reduce((sum, value) => sum + value, 0);
+}
+
+function timeToSeconds(time: OtioObject | null | undefined): number {
+  return time && time.rate ? Number(time.value) / Number(time.rate) : 0;
+}
+
+/** Rate of the first RationalTime in the document, searching depth-first */
+function firstRate(object: unknown): number | undefined {
+  if (Array.isArray(object)) {
+    for (const entry of object) {
+      const rate = firstRate(entry);
+      if (rate) return rate;
+    }
+  } else if (typeof object === 'object' && object) {
+    if (schemaName(object) === 'RationalTime' && Number((object as OtioObject).rate) > 0) {
+      return Number((object as OtioObject).rate);
+    }
+    for (const value of Object.values(object)) {
+      const rate = firstRate(value);
+      if (rate) return rate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse an OTIO JSON timeline into a sequence model. Clips keep their media
+ * references for matching against the project; nested stacks, generators
+ * and image sequences are reported rather than modelled.
+ */
+export function parseOtio(text: string): ParsedTimeline {
+  let document: OtioObject;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid OTIO JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const warnings: string[] = [];
+
+  let timeline = document;
+  if (schemaName(document) === 'SerializableCollection') {
+    const timelines = (document.children ?? []).filter((child: OtioObject) => schemaName(child) === 'Timeline');
+    if (timelines.length === 0) {
+      throw new Error('The collection has no timeline');
+    }
+    if (timelines.length > 1) {
+      warnings.push(`The collection has ${timelines.length} timelines; importing the first, "${timelines[0].name}"`);
+    }
+    timeline = timelines[0];
+  }
+  if (schemaName(timeline) !== 'Timeline') {
+    throw new Error(`Not an OTIO timeline: the document is a ${timeline?.OTIO_SCHEMA ?? 'plain JSON value'}`);
+  }
+
+  let rate = Number(timeline.global_start_time?.rate) || firstRate(timeline.tracks);
+  if (!rate) {
+    warnings.push(`The timeline carries no frame rate; assuming ${DEFAULT_IMPORT_FRAME_RATE} fps`);
+    rate = DEFAULT_IMPORT_FRAME_RATE;
+  }
+  const ticksPerFrame = frameRateToTicksPerFrame(rate);
+  // Snap to the sequence's frame grid so items from other rates line up
+  const snap = (seconds: number) => ticksToSeconds(Math.round(secondsToTicks(seconds) / ticksPerFrame) * ticksPerFrame);
+  const clipFiles: Record<string, MediaReference> = {};
+  const unsupportedClips: TimelineImportIssue[] = [];
+  let skippedMarkers = 0;
+
+  const readTrack = (track: OtioObject, type: 'video' | 'audio', index: number): PremiereProTrack => {
+    const label = `${type === 'video' ? 'V' : 'A'}${index + 1}`;
+    const clips: PremiereProClip[] = [];
+    const transitions: PremiereProTransition[] = [];
+    let cursor = 0;
+    let number = 0;
+
+    for (const item of (track.children ?? []) as OtioObject[]) {
+      const schema = schemaName(item);
+      if (schema === 'Transition') {
+        const start = snap(cursor - timeToSeconds(item.in_offset));
+        const end = snap(cursor + timeToSeconds(item.out_offset));
+        if (end > start) {
+          transitions.push({ id: `${label}:transition-${transitions.length + 1}`, name: item.name || DEFAULT_TRANSITIONS[type], start, end });
+        }
+        continue;
+      }
+
+      const id = `${label}:${++number}`;
+      const start = snap(cursor);
+      const duration = itemDuration(item);
+      cursor += duration;
+      skippedMarkers += (item.markers ?? []).length;
+      if (schema === 'Gap') {
+        continue;
+      }
+      const name = item.name || id;
+      const issue = (reason: string, file?: string): TimelineImportIssue => ({ clipId: id, track: label, name, start, file, reason });
+      if (schema !== 'Clip') {
+        unsupportedClips.push(issue(schema === 'Stack' || schema === 'Track' ? 'Nested stacks and tracks are not imported' : `${item.OTIO_SCHEMA} items are not imported`));
+        continue;
+      }
+
+      const reference: OtioObject | undefined = item.media_references
+        ? item.media_references[item.active_media_reference_key ?? DEFAULT_MEDIA_KEY]
+        : item.media_reference;
+      const referenceSchema = schemaName(reference);
+      let file: MediaReference;
+      if (referenceSchema === 'ExternalReference') {
+        const url = String(reference!.target_url ?? '');
+        const local = !/^[a-z][a-z0-9+.-]*:/i.test(url) || /^file:/i.test(url) || /^[A-Za-z]:[\\/]/.test(url);
+        const path = local ? (/^file:/i.test(url) ? fileUrlToPath(url) : url) : undefined;
+        if (!local) {
+          warnings.push(`${label}: ${name} refers to ${url}; only local files can be matched, so it is matched by name`);
+        }
+        file = { name: reference!.name || fileName(path ?? url) || name, path };
+      } else if (referenceSchema === 'MissingReference' || !reference) {
+        file = { name: reference?.name || name };
+      } else {
+        unsupportedClips.push(issue(referenceSchema === 'GeneratorReference' ? 'Generators are not imported' : `${reference.OTIO_SCHEMA} media is not imported`));
+        continue;
+      }
+
+      let speed = 1;
+      const effects: string[] = [];
+      for (const effect of (item.effects ?? []) as OtioObject[]) {
+        const effectSchema = schemaName(effect);
+        if (effectSchema === 'LinearTimeWarp') {
+          speed *= Number(effect.time_scalar ?? 1) || 1;
+        } else if (effectSchema === 'FreezeFrame') {
+          warnings.push(`${label}: ${name} is a freeze frame; it is placed as a normal clip`);
+        } else if (effect.effect_name || effect.name) {
+          effects.push(effect.effect_name || effect.name);
+        }
+      }
+
+      const range = item.source_range ?? reference?.available_range;
+      if (!range) {
+        unsupportedClips.push(issue('Clip has no source range', file.path ?? file.name));
+        continue;
+      }
+      // Source ranges are in media time; Premiere's in point counts from the media's first frame
+      const mediaStart = timeToSeconds(reference?.available_range?.start_time);
+      const inPoint = Math.max(0, timeToSeconds(range.start_time) - mediaStart);
+      const premiere = item.metadata?.[METADATA_NAMESPACE] ?? {};
+
+      clipFiles[id] = { ...file, reelName: premiere.reel_name };
+      const clip: PremiereProClip = {
+        id,
+        name,
+        inPoint,
+        outPoint: inPoint + duration * Math.abs(speed),
+        duration: snap(start + duration) - start,
+        start,
+        end: snap(start + duration),
+        mediaType: type,
+        enabled: item.enabled !== false,
+        effects
+      };
+      if (file.path) clip.mediaPath = file.path;
+      if (mediaStart) clip.mediaStart = mediaStart;
+      if (speed !== 1) clip.speed = speed;
+      if (typeof premiere.audio_level === 'number') clip.audioLevel = premiere.audio_level;
+      clips.push(clip);
+    }
+
+    skippedMarkers += (track.markers ?? []).length;
+    return { id: label, name: label, type, index, clips, transitions, muted: track.enabled === false };
+  };
+
+  const stack: OtioObject = timeline.tracks ?? { children: [] };
+  const videoTracks: PremiereProTrack[] = [];
+  const audioTracks: PremiereProTrack[] = [];
+  for (const child of (stack.children ?? []) as OtioObject[]) {
+    if (schemaName(child) !== 'Track') {
+      warnings.push(`A top-level ${child.OTIO_SCHEMA ?? 'item'} isn't a track and was skipped`);
+      continue;
+    }
+    if (child.kind === 'Audio') {
+      audioTracks.push(readTrack(child, 'audio', audioTracks.length));
+    } else {
+      videoTracks.push(readTrack(child, 'video', videoTracks.length));
+    }
+  }
+
+  const markers: PremiereProMarker[] = ((stack.markers ?? []) as OtioObject[]).map(marker => {
+    const start = snap(timeToSeconds(marker.marked_range?.start_time));
+    const color = MARKER_COLORS.indexOf(String(marker.color ?? '').toUpperCase());
+    const type = marker.metadata?.[METADATA_NAMESPACE]?.type;
+    const model: PremiereProMarker = {
+      name: marker.name ?? '',
+      comment: marker.comment ?? '',
+      start,
+      end: snap(start + timeToSeconds(marker.marked_range?.duration))
+    };
+    if (color !== -1) model.color = color;
+    if (typeof type === 'string') model.type = type;
+    return model;
+  });
+  if (skippedMarkers > 0) {
+    warnings.push(`${skippedMarkers} clip and track marker${skippedMarkers === 1 ? ' was' : 's were'} not imported; only timeline markers are`);
+  }
+
+  const settings = timeline.metadata?.[METADATA_NAMESPACE] ?? {};
+  const sequence: PremiereProSequence = {
+    id: '',
+    name: timeline.name || 'Imported Timeline',
+    duration: itemDuration(stack),
+    frameRate: ticksPerFrameToFrameRate(ticksPerFrame),
+    timebase: ticksPerFrame,
+    zeroPoint: timeToSeconds(timeline.global_start_time),
+    videoTracks,
+    audioTracks,
+    markers
+  };
+  if (typeof settings.width === 'number') sequence.width = settings.width;
+  if (typeof settings.height === 'number') sequence.height = settings.height;
+  if (typeof settings.audio_sample_rate === 'number') sequence.audioSampleRate = settings.audio_sample_rate;
+
+  return { sequence, clipFiles, unsupportedClips, warnings };
+}
@@ -0,0 +1,186 @@
+import { formatScc } from './scc.js';
+import { frameRateToTicksPerFrame, parseTimecode, timecodeToFrames } from '../utils/time.js';
+
+const SCC_TIMEBASE = frameRateToTicksPerFrame(29.97);
+
+/** Seconds of a 29.97 fps frame number */
+const frame = (count: number) => count * 1001 / 30000;
+
+interface Word {
+  frame: number;
+  bytes: [number, number];
+}
+
+/** Every word in an SCC file with the frame it's sent on, checking odd parity and stripping it */
+function words(text: string): Word[] {
+  const lines = text.split('\n');
+  expect(lines.slice(0, 2)).toEqual(['Scenarist_SCC V1.0', '']);
+  const result: Word[] = [];
+  for (const line of lines.slice(2).filter(Boolean)) {
+    const [timecode, body] = line.split('\t');
+    const start = timecodeToFrames(parseTimecode(timecode!)!, SCC_TIMEBASE);
+    body!.split(' ').forEach((hex, index) => {
+      const bytes = [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2), 16)] as [number, number];
+      for (const byte of bytes) {
+        expect(byte.toString(2).split('').filter(bit => bit === '1').length % 2).toBe(1);
+      }
+      result.push({ frame: start + index, bytes: [bytes[0] & 0x7f, bytes[1] & 0x7f] });
+    });
+  }
+  return result;
+}
+
+const SPECIAL = '®°½¿™¢£♪à èâêîôû';
+const EXTENDED: Record<number, string> = { 0x12: 'ÁÉÓÚÜü‘¡*’—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»', 0x13: 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤¦ÅåØø┌┐└┘' };
+const REMAPPED: Record<number, string> = { 0x2a: 'á', 0x5c: 'é', 0x5e: 'í', 0x5f: 'ó', 0x60: 'ú', 0x7b: 'ç', 0x7c: '÷', 0x7d: 'Ñ', 0x7e: 'ñ', 0x7f: '█' };
+const ROWS = [0x1140, 0x1160, 0x1240, 0x1260, 0x1540, 0x1560, 0x1640, 0x1660, 0x1740, 0x1760, 0x1040, 0x1340, 0x1360, 0x1440, 0x1460];
+
+interface Shown {
+  frame: number;
+  rows: Record<number, string>;
+  /** Preamble or mid-row attribute of each row */
+  attributes: Record<number, number>;
+  cleared?: number;
+}
+
+/**
+ * A channel 1 pop-on decoder: loads text into hidden memory and records what
+ * each End Of Caption puts on screen and when Erase Displayed Memory takes it off
+ */
+function decode(text: string): Shown[] {
+  const shown: Shown[] = [];
+  let memory: { rows: Record<number, string[]>; attributes: Record<number, number> } = { rows: {}, attributes: {} };
+  let row = 0;
+  let column = 0;
+  let previous: string | undefined;
+  const put = (char: string) => {
+    const cells = memory.rows[row] ??= [];
+    cells[column++] = char;
+  };
+
+  for (const { frame, bytes: [first, second] } of words(text)) {
+    const key = `${first},${second}`;
+    if (first >= 0x10 && first <= 0x1f) {
+      // Control codes are sent twice; the repeat is ignored
+      if (key === previous) {
+        previous = undefined;
+        continue;
+      }
+      previous = key;
+      const code = (first << 8) | second;
+      const rowIndex = ROWS.findIndex(base => (code & 0xffe0) === base);
+      if (first === 0x14 && second === 0x20) {
+        // Resume Caption Loading
+      } else if (first === 0x14 && second === 0x2e) {
+        memory = { rows: {}, attributes: {} };
+      } else if (first === 0x14 && second === 0x2f) {
+        shown.push({
+          frame,
+          rows: Object.fromEntries(Object.entries(memory.rows).map(([index, cells]) => [index, Array.from(cells, cell => cell ?? ' ').join('')])),
+          attributes: memory.attributes
+        });
+        memory = { rows: {}, attributes: {} };
+      } else if (first === 0x14 && second === 0x2c) {
+        const last = shown[shown.length - 1];
+        if (last && last.cleared === undefined) {
+          last.cleared = frame;
+        }
+      } else if (first === 0x17 && second >= 0x21 && second <= 0x23) {
+        column += second - 0x20;
+      } else if (first === 0x11 && second >= 0x20 && second <= 0x2f) {
+        memory.attributes[row] = second - 0x20;
+        put(' ');
+      } else if (first === 0x11 && second >= 0x30 && second <= 0x3f) {
+        put(SPECIAL[second - 0x30]!);
+      } else if ((first === 0x12 || first === 0x13) && second >= 0x20 && second <= 0x3f) {
+        column--;
+        put(EXTENDED[first]![second - 0x20]!);
+      } else if (rowIndex !== -1 && second >= 0x40) {
+        row = rowIndex + 1;
+        const low = second & 0x1f;
+        if (low >= 0x10) {
+          column = (low - 0x10) * 2;
+        } else {
+          column = 0;
+          memory.attributes[row] = low;
+        }
+      } else {
+        throw new Error(`Unexpected control code ${first.toString(16)} ${second.toString(16)}`);
+      }
+      continue;
+    }
+    previous = undefined;
+    for (const byte of [first, second]) {
+      if (byte) {
+        put(REMAPPED[byte] ?? String.fromCharCode(byte));
+      }
+    }
+  }
+  return shown;
+}
+
+describe('formatScc', () => {
+  it('sends each cue as a pop-on caption shown on its first frame and erased on its last', () => {
+    const { text, warnings } = formatScc([
+      { start: frame(60), end: frame(120), lines: ['Hello there'] },
+      { start: frame(1800), end: frame(1860), lines: ['A minute in', 'two rows'] }
+    ]);
+    expect(warnings).toEqual([]);
+
+    // Frame 1860 is 00:01:02;02 in drop-frame timecode, as ;00 and ;01 are skipped after each minute
+    expect(text).toMatch(/^00:00:01;(\d\d)\t9420 9420 94ae 94ae /m);
+    expect(text).toContain('00:00:04;00\t942c 942c');
+    expect(text).toMatch(/ 942f 942f\n\n00:01:02;02\t942c 942c\n$/);
+
+    expect(decode(text)).toEqual([
+      { frame: 60, rows: { 15: '          Hello there' }, attributes: {}, cleared: 120 },
+      { frame: 1800, rows: { 14: '          A minute in', 15: '            two rows' }, attributes: {}, cleared: 1860 }
+    ]);
+  });
+
+  it('places and styles rows with preamble and mid-row codes', () => {
+    const { text, warnings } = formatScc([
+      { start: frame(30), end: frame(60), lines: ['Top left'], style: { position: 'top', align: 'left', italic: true } },
+      { start: frame(90), end: frame(120), lines: ['Red'], style: { color: '#f00', underline: true } },
+      { start: frame(150), end: frame(180), lines: ['Bold'], style: { bold: true, align: 'right' } }
+    ]);
+
+    const [top, red, bold] = decode(text);
+    expect(top).toMatchObject({ rows: { 2: 'Top left' }, attributes: { 2: 0x0e } });
+    expect(red).toMatchObject({ rows: { 15: '              Red' }, attributes: { 15: 0x09 } });
+    expect(bold!.rows[15]).toBe(`${' '.repeat(28)}Bold`);
+    expect(warnings).toEqual(['CEA-608 has no bold text; bold cues were written in the regular weight']);
+  });
+
+  it('writes special and extended characters, with fallbacks, and drops the rest', () => {
+    const { text, warnings } = formatScc([
+      { start: frame(60), end: frame(120), lines: ['♪ café “quoted” ñ 中'], style: { align: 'left' } }
+    ]);
+
+    // An extended character follows the basic one shown by decoders without the extended set
+    expect(text).toContain(' 9137 9137 ');
+    expect(text).toContain(' a280 92ae 92ae ');
+    expect(decode(text)[0]!.rows[15]).toBe('♪ café “quoted” ñ ');
+    expect(warnings).toEqual(['1 character(s) have no CEA-608 equivalent and were left out']);
+  });
+
+  it('rewraps long lines, keeps four rows and warns when cues land late', () => {
+    const { text, warnings } = formatScc([
+      { start: frame(60), end: frame(61), lines: ['This line is much too long for the thirty-two columns', 'two', 'three', 'four'] },
+      { start: frame(62), end: frame(120), lines: ['Right behind it'] }
+    ]);
+
+    const [long, next] = decode(text);
+    expect(Object.values(long!.rows).map(row => row.trim())).toEqual(['This line is much too long for', 'the thirty-two columns', 'two', 'three']);
+    expect(next!.frame).toBeGreaterThan(62);
+    expect(warnings).toEqual([
+      "1 cue(s) have lines longer than SCC's 32 columns and were rewrapped",
+      '1 cue(s) need more than 4 rows; only the first 4 were written',
+      '1 cue(s) follow the previous one too closely to load in time and appear late'
+    ]);
+  });
+
+  it('writes only the header when there are no cues', () => {
+    expect(formatScc([])).toEqual({ text: 'Scenarist_SCC V1.0\n\n\n', warnings: [] });
+  });
+});
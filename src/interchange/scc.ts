@@ -0,0 +1,299 @@
+/**
+ * Scenarist (.scc) CEA-608 captions
+ *
+ * An SCC file holds the byte pairs a line-21 caption decoder receives, as
+ * hex words stamped with 29.97 fps drop-frame timecode; the decoder takes
+ * one word per frame. Each cue is sent as a pop-on caption: loaded into the
+ * decoder's hidden memory, swapped on screen by End Of Caption on the cue's
+ * first frame and erased on its last.
+ */
+
+import { formatTimecode, frameRateToTicksPerFrame, framesToTimecode, TICKS_PER_SECOND } from '../utils/time.js';
+import { CaptionCue, CaptionStyle } from './captions.js';
+
+const SCC_TIMEBASE = frameRateToTicksPerFrame(29.97);
+
+/** The screen has 15 caption rows of 32 columns; pop-on captions should use at most four rows */
+const ROWS_ON_SCREEN = 15;
+const COLUMNS = 32;
+const MAX_ROWS = 4;
+
+/** Channel 1 control codes, before parity */
+const RESUME_CAPTION_LOADING = [0x14, 0x20];
+const ERASE_NON_DISPLAYED_MEMORY = [0x14, 0x2e];
+const END_OF_CAPTION = [0x14, 0x2f];
+const ERASE_DISPLAYED_MEMORY = [0x14, 0x2c];
+
+/** Preamble address code bytes for rows 1 to 15 */
+const ROW_CODES = [
+  [0x11, 0x40], [0x11, 0x60], [0x12, 0x40], [0x12, 0x60], [0x15, 0x40], [0x15, 0x60], [0x16, 0x40], [0x16, 0x60],
+  [0x17, 0x40], [0x17, 0x60], [0x10, 0x40], [0x13, 0x40], [0x13, 0x60], [0x14, 0x40], [0x14, 0x60]
+];
+
+/** Attribute values shared by preamble and mid-row codes; add one for underline */
+const ATTRIBUTES: Record<string, number> = { white: 0x00, green: 0x02, blue: 0x04, cyan: 0x06, red: 0x08, yellow: 0x0a, magenta: 0x0c, italics: 0x0e };
+
+const PALETTE: Record<string, [number, number, number]> = {
+  white: [255, 255, 255], green: [0, 255, 0], blue: [0, 0, 255], cyan: [0, 255, 255],
+  red: [255, 0, 0], yellow: [255, 255, 0], magenta: [255, 0, 255]
+};
+
+/** Characters the basic set places where ASCII has * \ ^ _ ` { | } ~ and DEL */
+const BASIC_REMAPPED: Record<string, number> = {
+  'á': 0x2a, 'é': 0x5c, 'í': 0x5e, 'ó': 0x5f, 'ú': 0x60, 'ç': 0x7b, '÷': 0x7c, 'Ñ': 0x7d, 'ñ': 0x7e, '█': 0x7f
+};
+const ASCII_NOT_IN_BASIC = new Set(['*', '\\', '^', '_', '`', '{', '|', '}', '~']);
+
+/** Special characters, sent as 0x11 0x30-0x3F; the tenth slot is the transparent space */
+const SPECIAL_CHARACTERS = '®°½¿™¢£♪à\u0000èâêîôû';
+
+/** Extended characters, sent as 0x12 or 0x13 with 0x20-0x3F after a fallback character they replace */
+const EXTENDED_CHARACTERS: Array<[number, string]> = [
+  [0x12, 'ÁÉÓÚÜü‘¡*’—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»'],
+  [0x13, 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤¦ÅåØø┌┐└┘']
+];
+
+/** What decoders without the extended set show instead */
+const FALLBACKS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '«': '"', '»': '"', '—': '-', '•': '.', '¡': '!',
+  '*': '.', '{': '(', '}': ')', '\\': '/', '_': '-', '|': '!', '~': '-', '^': ' '
+};
+
+export interface SccExportResult {
+  text: string;
+  warnings: string[];
+}
+
+function withParity(byte: number): number {
+  let ones = 0;
+  for (let bit = byte & 0x7f; bit; bit >>= 1) {
+    ones += bit & 1;
+  }
+  return ones % 2 === 0 ? byte | 0x80 : byte & 0x7f;
+}
+
+function word(first: number, second: number): string {
+  return [first, second].map(byte => withParity(byte).toString(16).padStart(2, '0')).join('');
+}
+
+function isBasic(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return char.length === 1 && code >= 0x20 && code < 0x7f && !ASCII_NOT_IN_BASIC.has(char);
+}
+
+/** Nearest caption color for a CSS color name or hex value */
+function captionColor(color: string | undefined): string {
+  if (!color) {
+    return 'white';
+  }
+  const name = color.toLowerCase();
+  if (PALETTE[name]) {
+    return name;
+  }
+  if (name === 'lime') {
+    return 'green';
+  }
+  const hex = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/.exec(name)?.[1];
+  if (!hex) {
+    return 'white';
+  }
+  const full = hex.length === 3 ? [...hex].map(digit => digit + digit).join('') : hex;
+  const rgb = [0, 2, 4].map(index => parseInt(full.slice(index, index + 2), 16));
+  let nearest = 'white';
+  let best = Infinity;
+  for (const [candidate, value] of Object.entries(PALETTE)) {
+    const distance = value.reduce((total, channel, index) => total + (channel - rgb[index]!) ** 2, 0);
+    if (distance < best) {
+      best = distance;
+      nearest = candidate;
+    }
+  }
+  return nearest;
+}
+
+/** Word-wrap lines to the caption row width */
+function wrapLines(lines: string[]): string[] {
+  const rows: string[] = [];
+  for (const line of lines) {
+    let row = '';
+    for (const piece of line.split(/\s+/)) {
+      for (let word = piece; word; word = word.slice(COLUMNS)) {
+        const chunk = word.slice(0, COLUMNS);
+        if (!row) {
+          row = chunk;
+        } else if (row.length + 1 + chunk.length <= COLUMNS) {
+          row += ` ${chunk}`;
+        } else {
+          rows.push(row);
+          row = chunk;
+        }
+      }
+    }
+    if (row) {
+      rows.push(row);
+    }
+  }
+  return rows;
+}
+
+/**
+ * The words that load one cue, grouped into units that must stay together:
+ * single text words, and control codes sent twice as decoders expect
+ */
+function cueUnits(cue: CaptionCue, counts: { dropped: number }): string[][] {
+  const style: CaptionStyle = cue.style ?? {};
+  const units: string[][] = [];
+  let pending: number[] = [];
+  const flush = () => {
+    if (pending.length > 0) {
+      units.push([word(pending[0]!, pending[1] ?? 0x00)]);
+      pending = [];
+    }
+  };
+  const text = (byte: number) => {
+    pending.push(byte);
+    if (pending.length === 2) {
+      flush();
+    }
+  };
+  const control = (bytes: number[]) => {
+    flush();
+    const code = word(bytes[0]!, bytes[1]!);
+    units.push([code, code]);
+  };
+
+  control(RESUME_CAPTION_LOADING);
+  control(ERASE_NON_DISPLAYED_MEMORY);
+
+  const rows = wrapLines(cue.lines).slice(0, MAX_ROWS);
+  const firstRow = style.position === 'top' ? 2 : style.position === 'middle' ? 8 - Math.floor(rows.length / 2) : ROWS_ON_SCREEN - rows.length + 1;
+  const attribute = (style.italic ? ATTRIBUTES.italics! : ATTRIBUTES[captionColor(style.color)]!) + (style.underline ? 1 : 0);
+  rows.forEach((row, index) => {
+    const length = [...row].length;
+    let column = style.align === 'left' ? 0 : style.align === 'right' ? COLUMNS - length : Math.floor((COLUMNS - length) / 2);
+    const [rowFirst, rowSecond] = ROW_CODES[firstRow + index - 1]!;
+    if (column === 0 || attribute === 0) {
+      // The preamble can carry either an indent or a style, not both
+      control(column === 0 ? [rowFirst!, rowSecond! + attribute] : [rowFirst!, rowSecond! + 0x10 + Math.floor(column / 4) * 2]);
+      if (column % 4 > 0) {
+        control([0x17, 0x20 + column % 4]);
+      }
+    } else {
+      // Indent one column short and let the mid-row style code take that column
+      column = Math.max(0, column - 1);
+      control([rowFirst!, rowSecond! + 0x10 + Math.floor(column / 4) * 2]);
+      if (column % 4 > 0) {
+        control([0x17, 0x20 + column % 4]);
+      }
+      control([0x11, 0x20 + attribute]);
+    }
+
+    for (const char of row) {
+      if (isBasic(char)) {
+        text(char.charCodeAt(0));
+      } else if (BASIC_REMAPPED[char] !== undefined) {
+        text(BASIC_REMAPPED[char]!);
+      } else if (SPECIAL_CHARACTERS.includes(char)) {
+        control([0x11, 0x30 + SPECIAL_CHARACTERS.indexOf(char)]);
+      } else {
+        const extended = EXTENDED_CHARACTERS.find(([, characters]) => characters.includes(char));
+        const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+        const fallback = FALLBACKS[char] ?? (isBasic(base) ? base : undefined);
+        if (extended) {
+          text((fallback ?? ' ').charCodeAt(0));
+          control([extended[0], 0x20 + extended[1].indexOf(char)]);
+        } else if (fallback) {
+          text(fallback.charCodeAt(0));
+        } else {
+          counts.dropped++;
+        }
+      }
+    }
+  });
+
+  control(END_OF_CAPTION);
+  return units;
+}
+
+function sccTimecode(frame: number): string {
+  return formatTimecode(framesToTimecode(frame, SCC_TIMEBASE, true));
+}
+
+/**
+ * Write cues as pop-on SCC captions. A cue is loaded in the frames before
+ * it starts, so its End Of Caption lands on its first frame; when cues are
+ * too close together to load in time, the later cue is shown late. Times
+ * are converted to 29.97 fps whatever the sequence frame rate.
+ */
+export function formatScc(cues: CaptionCue[]): SccExportResult {
+  const warnings: string[] = [];
+  const counts = { dropped: 0 };
+  const toFrame = (seconds: number) => Math.round(seconds * TICKS_PER_SECOND / SCC_TIMEBASE);
+  const clear = word(ERASE_DISPLAYED_MEMORY[0]!, ERASE_DISPLAYED_MEMORY[1]!);
+  const lines: string[] = [];
+  let cursor = 0;
+  let pendingClear: number | undefined;
+  let late = 0;
+
+  cues.forEach((cue, index) => {
+    const start = toFrame(cue.start);
+    const units = cueUnits(cue, counts);
+    let size = units.reduce((total, unit) => total + unit.length, 0);
+    // Decoders act on the first of a doubled code, so that End Of Caption goes on the cue's first frame
+    let load = start - (size - 2);
+
+    if (pendingClear !== undefined) {
+      if (pendingClear >= cursor && pendingClear + 2 <= load) {
+        lines.push(`${sccTimecode(pendingClear)}\t${clear} ${clear}`);
+        cursor = pendingClear + 2;
+      } else {
+        // Too close to the next cue for a line of its own: erase partway through loading it
+        size += 2;
+        load = Math.max(cursor, start - (size - 2));
+        let offset = 0;
+        let position = 0;
+        while (position < units.length - 1 && offset + units[position]!.length <= pendingClear - load) {
+          offset += units[position]!.length;
+          position++;
+        }
+        units.splice(position, 0, [clear, clear]);
+      }
+    }
+
+    if (load < cursor) {
+      load = cursor;
+    }
+    if (load > start - (size - 2)) {
+      late++;
+    }
+    lines.push(`${sccTimecode(load)}\t${units.flat().join(' ')}`);
+    cursor = load + size;
+
+    const next = cues[index + 1];
+    const end = toFrame(cue.end);
+    pendingClear = !next || toFrame(next.start) > end ? end : undefined;
+  });
+  if (pendingClear !== undefined) {
+    lines.push(`${sccTimecode(Math.max(cursor, pendingClear))}\t${clear} ${clear}`);
+  }
+
+  const wrapped = cues.filter(cue => cue.lines.some(line => [...line].length > COLUMNS)).length;
+  if (wrapped > 0) {
+    warnings.push(`${wrapped} cue(s) have lines longer than SCC's ${COLUMNS} columns and were rewrapped`);
+  }
+  const truncated = cues.filter(cue => wrapLines(cue.lines).length > MAX_ROWS).length;
+  if (truncated > 0) {
+    warnings.push(`${truncated} cue(s) need more than ${MAX_ROWS} rows; only the first ${MAX_ROWS} were written`);
+  }
+  if (cues.some(cue => cue.style?.bold)) {
+    warnings.push('CEA-608 has no bold text; bold cues were written in the regular weight');
+  }
+  if (counts.dropped > 0) {
+    warnings.push(`${counts.dropped} character(s) have no CEA-608 equivalent and were left out`);
+  }
+  if (late > 0) {
+    warnings.push(`${late} cue(s) follow the previous one too closely to load in time and appear late`);
+  }
+
+  return { text: `Scenarist_SCC V1.0\n\n${lines.join('\n\n')}\n`, warnings };
+}
@@ -0,0 +1,579 @@
+/**
+ * Final Cut Pro 7 XML (xmeml)
+ *
+ * xmeml is the XML interchange format Final Cut Pro 7 introduced and that
+ * Premiere Pro, Resolve and Avid still read and write. A sequence holds
+ * video and audio tracks of clip items and transition items, all timed in
+ * frames at the sequence rate; clip items reference file elements that are
+ * defined in full the first time they appear and by id after that.
+ */
+
+import {
+  PremiereProClip,
+  PremiereProMarker,
+  PremiereProProjectItem,
+  PremiereProSequence,
+  PremiereProTrack,
+  PremiereProTransition
+} from '../bridge/index.js';
+import {
+  formatTimecode,
+  frameRateToTicksPerFrame,
+  framesToTimecode,
+  isDropFrameRate,
+  nominalFrameRate,
+  secondsToTicks,
+  ticksPerFrameToFrameRate,
+  ticksToSeconds,
+  TICKS_PER_SECOND
+} from '../utils/time.js';
+import { XmlElement, childElement, childElements, childText, formatXml, parseXml, xmlElement } from './markup.js';
+import { MediaReference, ParsedTimeline, TimelineImportIssue, fileName, fileUrlToPath, pathToFileUrl, sameName } from './media.js';
+
+/** xmeml version written; version 4 is what FCP 7 and Premiere exchange */
+const XMEML_VERSION = '4';
+
+/**
+ * Premiere audio transitions and their FCP 7 equivalents. Video transitions
+ * share names between the two, so only audio needs mapping.
+ */
+const AUDIO_TRANSITIONS: Record<string, { name: string; effectid: string }> = {
+  'Constant Power': { name: 'Cross Fade (+3dB)', effectid: 'KGAudioTransCrossFade3dB' },
+  'Constant Gain': { name: 'Cross Fade (0dB)', effectid: 'KGAudioTransCrossFade0dB' }
+};
+
+/** FCP filters that are clip attributes rather than applied effects */
+const INTRINSIC_FILTERS = new Set(['basic', 'crop', 'deformation', 'opacity', 'dropshadow', 'motionblur', 'audiolevels', 'audiopan', 'timeremap']);
+
+export interface XmemlExportOptions {
+  /** Project items, used for the media duration of each file element */
+  items?: PremiereProProjectItem[] | undefined;
+}
+
+export interface XmemlExportResult {
+  text: string;
+  frameRate: number;
+  clipCount: number;
+  transitionCount: number;
+  markerCount: number;
+  fileCount: number;
+  warnings: string[];
+}
+
+/** Clip ids are the clip item ids */
+export interface ParsedXmeml extends ParsedTimeline {
+  /** Names of every sequence in the document */
+  sequences: string[];
+}
+
+export interface XmemlImportOptions {
+  /** Which sequence to import when the document has several; defaults to the first */
+  sequenceName?: string | undefined;
+  /** Name for the new sequence; defaults to the one in the document */
+  name?: string | undefined;
+}
+
+function rateElement(ticksPerFrame: number): XmlElement {
+  const nominal = nominalFrameRate(ticksPerFrame);
+  const ntsc = ticksPerFrame !== Math.round(TICKS_PER_SECOND / nominal);
+  return xmlElement('rate', {}, xmlElement('timebase', {}, nominal), xmlElement('ntsc', {}, ntsc ? 'TRUE' : 'FALSE'));
+}
+
+function timecodeElement(frame: number, ticksPerFrame: number, reelName?: string): XmlElement {
+  const dropFrame = isDropFrameRate(ticksPerFrame);
+  return xmlElement('timecode', {},
+    rateElement(ticksPerFrame),
+    xmlElement('string', {}, formatTimecode(framesToTimecode(frame, ticksPerFrame, dropFrame))),
+    xmlElement('frame', {}, frame),
+    xmlElement('displayformat', {}, dropFrame ? 'DF' : 'NDF'),
+    reelName ? xmlElement('reel', {}, xmlElement('name', {}, reelName)) : null
+  );
+}
+
+function effectElement(name: string, effectid: string, effecttype: string, mediatype: 'video' | 'audio', ...content: XmlElement[]): XmlElement {
+  return xmlElement('effect', {},
+    xmlElement('name', {}, name),
+    xmlElement('effectid', {}, effectid),
+    xmlElement('effecttype', {}, effecttype),
+    xmlElement('mediatype', {}, mediatype),
+    ...content
+  );
+}
+
+function parameterElement(id: string, name: string, value: number | string): XmlElement {
+  return xmlElement('parameter', {}, xmlElement('parameterid', {}, id), xmlElement('name', {}, name), xmlElement('value', {}, value));
+}
+
+/**
+ * Render a sequence as an xmeml document: every track with its clips,
+ * transitions, clip effects, audio levels and speed, plus sequence markers
+ */
+export function formatXmeml(sequence: PremiereProSequence, options: XmemlExportOptions = {}): XmemlExportResult {
+  const warnings: string[] = [];
+  const ticksPerFrame = sequence.timebase ?? frameRateToTicksPerFrame(sequence.frameRate);
+  const toFrames = (seconds: number) => Math.round(secondsToTicks(seconds) / ticksPerFrame);
+  const items = new Map((options.items ?? []).map(item => [item.id, item]));
+
+  // Clip item ids and positions first, so links can point forwards
+  const positions = new Map<string, { xmlId: string; mediaType: 'video' | 'audio'; trackIndex: number; clipIndex: number }>();
+  let clipCount = 0;
+  for (const [type, tracks] of [['video', sequence.videoTracks], ['audio', sequence.audioTracks]] as const) {
+    tracks.forEach((track, trackIndex) => {
+      sortedClips(track).forEach((clip, clipIndex) => {
+        positions.set(clip.id, { xmlId: `clipitem-${++clipCount}`, mediaType: type, trackIndex: trackIndex + 1, clipIndex: clipIndex + 1 });
+      });
+    });
+  }
+
+  // A file is defined in full where it first appears, with every kind of media its clips use
+  const fileKey = (clip: PremiereProClip) => clip.projectItemId ?? clip.mediaPath ?? clip.name;
+  const fileMedia = new Map<string, Set<'video' | 'audio'>>();
+  for (const track of [...sequence.videoTracks, ...sequence.audioTracks]) {
+    for (const clip of track.clips) {
+      const media = fileMedia.get(fileKey(clip)) ?? new Set();
+      media.add(clip.mediaType ?? track.type);
+      fileMedia.set(fileKey(clip), media);
+    }
+  }
+  const fileIds = new Map<string, string>();
+
+  const fileElement = (clip: PremiereProClip): XmlElement => {
+    const key = fileKey(clip);
+    const existing = fileIds.get(key);
+    if (existing) {
+      return xmlElement('file', { id: existing });
+    }
+    const id = `file-${fileIds.size + 1}`;
+    fileIds.set(key, id);
+    const item = clip.projectItemId ? items.get(clip.projectItemId) : undefined;
+    const media = fileMedia.get(key)!;
+    const mediaStart = toFrames(clip.mediaStart ?? 0);
+    if (!clip.mediaPath) {
+      warnings.push(`${clip.name} has no media path; its file element only carries a name`);
+    }
+    return xmlElement('file', { id },
+      xmlElement('name', {}, fileName(clip.mediaPath) || clip.name),
+      clip.mediaPath ? xmlElement('pathurl', {}, pathToFileUrl(clip.mediaPath, 'localhost')) : null,
+      rateElement(ticksPerFrame),
+      item?.duration ? xmlElement('duration', {}, toFrames(item.duration)) : null,
+      mediaStart || clip.reelName ? timecodeElement(mediaStart, ticksPerFrame, clip.reelName) : null,
+      xmlElement('media', {},
+        media.has('video') ? xmlElement('video', {}) : null,
+        media.has('audio') ? xmlElement('audio', {}) : null
+      )
+    );
+  };
+
+  const clipElement = (clip: PremiereProClip, type: 'video' | 'audio'): XmlElement => {
+    const position = positions.get(clip.id)!;
+    const speed = clip.speed ?? 1;
+    const item = clip.projectItemId ? items.get(clip.projectItemId) : undefined;
+    const start = toFrames(clip.start ?? 0);
+    const end = toFrames(clip.end ?? (clip.start ?? 0) + clip.duration);
+    // In, out and duration count frames of the retimed clip, so out - in always matches the timeline
+    const inFrame = Math.round(toFrames(clip.inPoint) / Math.abs(speed));
+    const mediaFrames = item?.duration ? toFrames(item.duration) : toFrames(clip.outPoint);
+    const filters: XmlElement[] = [];
+    if (speed !== 1) {
+      filters.push(xmlElement('filter', {}, effectElement('Time Remap', 'timeremap', 'motion', 'video',
+        parameterElement('variablespeed', 'variablespeed', 0),
+        parameterElement('speed', 'speed', Math.round(Math.abs(speed) * 10000) / 100),
+        parameterElement('reverse', 'reverse', speed < 0 ? 'TRUE' : 'FALSE')
+      )));
+    }
+    if (type === 'audio' && clip.audioLevel !== undefined && clip.audioLevel !== 0) {
+      // FCP stores levels as linear gain, where 1 is unity
+      const gain = Math.round(Math.pow(10, clip.audioLevel / 20) * 100000) / 100000;
+      filters.push(xmlElement('filter', {}, effectElement('Audio Levels', 'audiolevels', 'audiolevels', 'audio',
+        parameterElement('level', 'Level', gain)
+      )));
+    }
+    for (const effect of clip.effects ?? []) {
+      filters.push(xmlElement('filter', {}, effectElement(effect, effect, 'filter', type)));
+    }
+
+    const linked = (clip.linkedClipIds ?? []).filter(id => positions.has(id));
+    const links = linked.length === 0 ? [] : [clip.id, ...linked].map(id => {
+      const target = positions.get(id)!;
+      return xmlElement('link', {},
+        xmlElement('linkclipref', {}, target.xmlId),
+        xmlElement('mediatype', {}, target.mediaType),
+        xmlElement('trackindex', {}, target.trackIndex),
+        xmlElement('clipindex', {}, target.clipIndex)
+      );
+    });
+
+    return xmlElement('clipitem', { id: position.xmlId },
+      xmlElement('name', {}, clip.name),
+      xmlElement('enabled', {}, clip.enabled === false ? 'FALSE' : 'TRUE'),
+      xmlElement('duration', {}, Math.round(mediaFrames / Math.abs(speed))),
+      rateElement(ticksPerFrame),
+      xmlElement('start', {}, start),
+      xmlElement('end', {}, end),
+      xmlElement('in', {}, inFrame),
+      xmlElement('out', {}, inFrame + end - start),
+      fileElement(clip),
+      type === 'audio'
+        ? xmlElement('sourcetrack', {}, xmlElement('mediatype', {}, 'audio'), xmlElement('trackindex', {}, 1))
+        : null,
+      ...filters,
+      ...links
+    );
+  };
+
+  let transitionCount = 0;
+  const transitionElement = (transition: PremiereProTransition, track: PremiereProTrack, type: 'video' | 'audio'): XmlElement => {
+    transitionCount++;
+    const mapped = type === 'audio' ? AUDIO_TRANSITIONS[transition.name] : undefined;
+    const name = mapped?.name ?? transition.name;
+    return xmlElement('transitionitem', {},
+      rateElement(ticksPerFrame),
+      xmlElement('start', {}, toFrames(transition.start)),
+      xmlElement('end', {}, toFrames(transition.end)),
+      xmlElement('alignment', {}, transitionAlignment(transition, track, toFrames)),
+      effectElement(name, mapped?.effectid ?? name, 'transition', type,
+        xmlElement('effectcategory', {}, /dissolve|dip|fade|constant|exponential/i.test(name) ? 'Dissolve' : 'Wipe')
+      )
+    );
+  };
+
+  const trackElement = (track: PremiereProTrack, type: 'video' | 'audio'): XmlElement => {
+    const entries = [
+      ...sortedClips(track).map(clip => ({ start: clip.start ?? 0, element: () => clipElement(clip, type) })),
+      ...(track.transitions ?? []).map(transition => ({ start: transition.start, element: () => transitionElement(transition, track, type) }))
+    ].sort((a, b) => a.start - b.start);
+    return xmlElement('track', {},
+      ...entries.map(entry => entry.element()),
+      xmlElement('enabled', {}, track.muted ? 'FALSE' : 'TRUE'),
+      xmlElement('locked', {}, track.locked ? 'TRUE' : 'FALSE')
+    );
+  };
+
+  const markers = (sequence.markers ?? []).map(marker => xmlElement('marker', {},
+    xmlElement('name', {}, marker.name),
+    xmlElement('comment', {}, marker.comment),
+    xmlElement('in', {}, toFrames(marker.start)),
+    xmlElement('out', {}, marker.end > marker.start ? toFrames(marker.end) : -1)
+  ));
+
+  const format = (...characteristics: Array<XmlElement | null>) =>
+    xmlElement('format', {}, xmlElement('samplecharacteristics', {}, ...characteristics));
+
+  const root = xmlElement('xmeml', { version: XMEML_VERSION },
+    xmlElement('sequence', { id: 'sequence-1' },
+      xmlElement('name', {}, sequence.name),
+      xmlElement('duration', {}, toFrames(sequence.duration)),
+      rateElement(ticksPerFrame),
+      timecodeElement(toFrames(sequence.zeroPoint ?? 0), ticksPerFrame),
+      xmlElement('media', {},
+        xmlElement('video', {},
+          format(
+            rateElement(ticksPerFrame),
+            sequence.width ? xmlElement('width', {}, sequence.width) : null,
+            sequence.height ? xmlElement('height', {}, sequence.height) : null
+          ),
+          ...sequence.videoTracks.map(track => trackElement(track, 'video'))
+        ),
+        xmlElement('audio', {},
+          sequence.audioSampleRate
+            ? format(xmlElement('depth', {}, 16), xmlElement('samplerate', {}, sequence.audioSampleRate))
+            : null,
+          ...sequence.audioTracks.map(track => trackElement(track, 'audio'))
+        )
+      ),
+      ...markers
+    )
+  );
+
+  return {
+    text: formatXml(root, 'xmeml'),
+    frameRate: Math.round(ticksPerFrameToFrameRate(ticksPerFrame) * 1000) / 1000,
+    clipCount,
+    transitionCount,
+    markerCount: markers.length,
+    fileCount: fileIds.size,
+    warnings
+  };
+}
+
+function sortedClips(track: PremiereProTrack): PremiereProClip[] {
+  return [...track.clips].sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+}
+
+/**
+ * Where a transition sits relative to its clips: across the cut between
+ * two, or at the head or tail of a single clip with black on the other side
+ */
+function transitionAlignment(transition: PremiereProTransition, track: PremiereProTrack, toFrames: (seconds: number) => number): string {
+  const start = toFrames(transition.start);
+  const end = toFrames(transition.end);
+  const clips = track.clips.map(clip => ({ start: toFrames(clip.start ?? 0), end: toFrames(clip.end ?? 0) }));
+  const cut = clips.find(clip => clip.end > start && clip.end < end && clips.some(next => next.start === clip.end));
+  if (cut) {
+    const center = (start + end) / 2;
+    return cut.end === center ? 'center' : cut.end < center ? 'start' : 'end';
+  }
+  if (clips.some(clip => clip.start === start)) {
+    return 'start-black';
+  }
+  if (clips.some(clip => clip.end === end)) {
+    return 'end-black';
+  }
+  return 'center';
+}
+
+function parseNumber(text: string | undefined, fallback: number): number {
+  const value = text === undefined ? NaN : Number(text);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function parseRate(element: XmlElement | undefined): number | undefined {
+  const rate = childElement(element, 'rate');
+  const timebase = parseNumber(childText(rate, 'timebase'), 0);
+  if (!timebase) {
+    return undefined;
+  }
+  const ntsc = /^true$/i.test(childText(rate, 'ntsc') ?? '');
+  return frameRateToTicksPerFrame(ntsc ? timebase * 1000 / 1001 : timebase);
+}
+
+/** Every sequence in the document outside clip items, including those in bins */
+function findSequences(element: XmlElement): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (typeof child === 'string' || child.name === 'clipitem') {
+      continue;
+    }
+    if (child.name === 'sequence') {
+      found.push(child);
+    } else {
+      found.push(...findSequences(child));
+    }
+  }
+  return found;
+}
+
+/** File elements defined in full anywhere in the document, by id */
+function collectFiles(element: XmlElement, files: Map<string, XmlElement>): Map<string, XmlElement> {
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      continue;
+    }
+    if (child.name === 'file' && child.attributes.id && child.children.length > 0 && !files.has(child.attributes.id)) {
+      files.set(child.attributes.id, child);
+    }
+    collectFiles(child, files);
+  }
+  return files;
+}
+
+/**
+ * Parse an xmeml document into a sequence model. Clips keep their file
+ * references for matching against the project; clip items that aren't
+ * media, such as nested sequences, are reported rather than modelled.
+ */
+export function parseXmeml(text: string, options: Pick<XmemlImportOptions, 'sequenceName'> = {}): ParsedXmeml {
+  const root = parseXml(text);
+  if (root.name !== 'xmeml') {
+    throw new Error(`Not an FCP7 XML document: the root element is <${root.name}>, not <xmeml>`);
+  }
+  const warnings: string[] = [];
+  const sequences = findSequences(root);
+  if (sequences.length === 0) {
+    throw new Error('The document has no sequence');
+  }
+  const names = sequences.map(element => childText(element, 'name') ?? '');
+  let element = sequences[0]!;
+  if (options.sequenceName !== undefined) {
+    const index = names.findIndex(name => sameName(name, options.sequenceName));
+    if (index === -1) {
+      throw new Error(`No sequence named "${options.sequenceName}"; the document has ${names.map(name => `"${name}"`).join(', ')}`);
+    }
+    element = sequences[index]!;
+  } else if (sequences.length > 1) {
+    warnings.push(`The document has ${sequences.length} sequences; importing the first, "${names[0]}"`);
+  }
+
+  let ticksPerFrame = parseRate(element);
+  if (!ticksPerFrame) {
+    warnings.push('The sequence has no frame rate; assuming 25 fps');
+    ticksPerFrame = frameRateToTicksPerFrame(25);
+  }
+  const perFrame = ticksPerFrame;
+  const toSeconds = (frames: number) => ticksToSeconds(frames * perFrame);
+  const files = collectFiles(root, new Map());
+  const clipFiles: Record<string, MediaReference> = {};
+  const unsupportedClips: TimelineImportIssue[] = [];
+
+  const media = childElement(element, 'media');
+  const videoFormat = childElement(childElement(childElement(media, 'video'), 'format'), 'samplecharacteristics');
+  const audioFormat = childElement(childElement(childElement(media, 'audio'), 'format'), 'samplecharacteristics');
+
+  const readFile = (reference: XmlElement | undefined): MediaReference | undefined => {
+    if (!reference) {
+      return undefined;
+    }
+    const id = reference.attributes.id;
+    const definition = reference.children.length > 0 ? reference : id ? files.get(id) : undefined;
+    if (!definition) {
+      return id ? { id, name: id } : undefined;
+    }
+    const pathurl = childText(definition, 'pathurl');
+    const path = pathurl ? fileUrlToPath(pathurl) : undefined;
+    return {
+      id,
+      name: childText(definition, 'name') || fileName(path),
+      path,
+      reelName: childText(childElement(childElement(definition, 'timecode'), 'reel'), 'name') || undefined
+    };
+  };
+
+  const readTrack = (track: XmlElement, type: 'video' | 'audio', index: number): PremiereProTrack => {
+    const label = `${type === 'video' ? 'V' : 'A'}${index + 1}`;
+    const clips: PremiereProClip[] = [];
+    const transitions: PremiereProTransition[] = [];
+    let previousTransition: { start: number; end: number; alignment: string } | undefined;
+    let clipNumber = 0;
+
+    for (const child of track.children) {
+      if (typeof child === 'string') {
+        continue;
+      }
+      if (child.name === 'transitionitem') {
+        const start = parseNumber(childText(child, 'start'), 0);
+        const end = parseNumber(childText(child, 'end'), start);
+        const alignment = childText(child, 'alignment') ?? 'center';
+        const effect = childElement(child, 'effect');
+        const name = childText(effect, 'name') ?? 'Cross Dissolve';
+        const premiereName = Object.entries(AUDIO_TRANSITIONS).find(([, fcp]) => sameName(fcp.name, name) || sameName(fcp.effectid, childText(effect, 'effectid')))?.[0];
+        transitions.push({ id: `${label}:transition-${transitions.length + 1}`, name: premiereName ?? name, start: toSeconds(start), end: toSeconds(end) });
+        previousTransition = { start, end, alignment };
+        continue;
+      }
+      if (child.name !== 'clipitem' && child.name !== 'generatoritem') {
+        continue;
+      }
+
+      clipNumber++;
+      const id = child.attributes.id || `${label}:clip-${clipNumber}`;
+      const name = childText(child, 'name') ?? id;
+      const inFrame = parseNumber(childText(child, 'in'), 0);
+      const outFrame = parseNumber(childText(child, 'out'), inFrame);
+      let start = parseNumber(childText(child, 'start'), -1);
+      let end = parseNumber(childText(child, 'end'), -1);
+
+      let speed: number | undefined;
+      let audioLevel: number | undefined;
+      const effects: string[] = [];
+      for (const filter of childElements(child, 'filter')) {
+        const effect = childElement(filter, 'effect');
+        const effectid = (childText(effect, 'effectid') ?? '').toLowerCase();
+        const parameter = (parameterId: string) => childElements(effect, 'parameter').find(p => sameName(childText(p, 'parameterid'), parameterId));
+        if (effectid === 'timeremap') {
+          const percent = parseNumber(childText(parameter('speed'), 'value'), 100);
+          speed = (percent / 100) * (/^true$/i.test(childText(parameter('reverse'), 'value') ?? '') ? -1 : 1);
+        } else if (effectid === 'audiolevels') {
+          const level = parameter('level');
+          const keyframes = childElements(level, 'keyframe');
+          const gain = parseNumber(childText(level, 'value') ?? childText(keyframes[0], 'value'), 1);
+          if (keyframes.length > 1) {
+            warnings.push(`${label}: ${name} has keyframed audio levels; only a single level is imported`);
+          }
+          // Zero gain is silence; Premiere's volume bottoms out well above -96 dB
+          audioLevel = gain > 0 ? Math.round(20 * Math.log10(gain) * 100) / 100 : -96;
+        } else if (!INTRINSIC_FILTERS.has(effectid) && effect) {
+          effects.push(childText(effect, 'name') ?? effectid);
+        }
+      }
+
+      // Edges that fall inside a transition are written as -1; recover them from the clip's length
+      const length = outFrame - inFrame;
+      if (start < 0 && end >= 0) {
+        start = end - length;
+      } else if (end < 0 && start >= 0) {
+        end = start + length;
+      } else if (start < 0 && end < 0 && previousTransition) {
+        const { start: from, end: to, alignment } = previousTransition;
+        start = alignment === 'start' || alignment === 'start-black' ? from : alignment === 'end' || alignment === 'end-black' ? to : Math.round((from + to) / 2);
+        end = start + length;
+      }
+      previousTransition = undefined;
+
+      const file = readFile(childElement(child, 'file'));
+      const issue = (reason: string): TimelineImportIssue => ({ clipId: id, track: label, name, start: toSeconds(Math.max(0, start)), file: file?.path ?? file?.name, reason });
+      if (childElement(child, 'sequence')) {
+        unsupportedClips.push(issue('Nested sequences are not imported'));
+        continue;
+      }
+      if (!file) {
+        unsupportedClips.push(issue(child.name === 'generatoritem' ? 'Generators are not imported' : 'Clip has no media file'));
+        continue;
+      }
+      if (start < 0 || end < 0) {
+        unsupportedClips.push(issue('Clip position could not be determined'));
+        continue;
+      }
+
+      clipFiles[id] = file;
+      const clip: PremiereProClip = {
+        id,
+        name,
+        inPoint: toSeconds(inFrame * Math.abs(speed ?? 1)),
+        outPoint: toSeconds(outFrame * Math.abs(speed ?? 1)),
+        duration: toSeconds(end - start),
+        start: toSeconds(start),
+        end: toSeconds(end),
+        mediaType: type,
+        enabled: !/^false$/i.test(childText(child, 'enabled') ?? 'TRUE'),
+        effects
+      };
+      if (file.path) clip.mediaPath = file.path;
+      if (file.reelName) clip.reelName = file.reelName;
+      if (speed !== undefined && speed !== 1) clip.speed = speed;
+      if (audioLevel !== undefined) clip.audioLevel = audioLevel;
+      clips.push(clip);
+    }
+
+    return {
+      id: label,
+      name: label,
+      type,
+      index,
+      clips,
+      transitions,
+      locked: /^true$/i.test(childText(track, 'locked') ?? ''),
+      muted: /^false$/i.test(childText(track, 'enabled') ?? '')
+    };
+  };
+
+  const markers: PremiereProMarker[] = childElements(element, 'marker').map(marker => {
+    const start = parseNumber(childText(marker, 'in'), 0);
+    const end = parseNumber(childText(marker, 'out'), -1);
+    return {
+      name: childText(marker, 'name') ?? '',
+      comment: childText(marker, 'comment') ?? '',
+      start: toSeconds(start),
+      end: toSeconds(end > start ? end : start)
+    };
+  });
+
+  const sequence: PremiereProSequence = {
+    id: element.attributes.id ?? '',
+    name: names[sequences.indexOf(element)] || 'Imported Sequence',
+    duration: toSeconds(parseNumber(childText(element, 'duration'), 0)),
+    frameRate: ticksPerFrameToFrameRate(perFrame),
+    timebase: perFrame,
+    zeroPoint: toSeconds(parseNumber(childText(childElement(element, 'timecode'), 'frame'), 0)),
+    videoTracks: childElements(childElement(media, 'video'), 'track').map((track, index) => readTrack(track, 'video', index)),
+    audioTracks: childElements(childElement(media, 'audio'), 'track').map((track, index) => readTrack(track, 'audio', index)),
+    markers
+  };
+  const width = parseNumber(childText(videoFormat, 'width'), 0);
+  const height = parseNumber(childText(videoFormat, 'height'), 0);
+  const sampleRate = parseNumber(childText(audioFormat, 'samplerate'), 0);
+  if (width) sequence.width = width;
+  if (height) sequence.height = height;
+  if (sampleRate) sequence.audioSampleRate = sampleRate;
+
+  return { sequence, clipFiles, sequences: names, unsupportedClips, warnings };
+}
@@ -6,6 +6,7 @@
  */
 
 import { PremiereProBridge } from '../bridge/index.js';
+import { buildScript } from '../bridge/script.js';
 import { Logger } from '../utils/logger.js';
 
 export interface MCPResource {
@@ -15,13 +16,40 @@ export interface MCPResource {
   mimeType: string;
 }
 
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+interface TemplateRoute {
+  pattern: RegExp;
+  read: (params: string[]) => Promise<any>;
+}
+
+/**
+ * Compile a URI template such as `premiere://clip/{clipId}` into a regular
+ * expression with one capture group per variable. Variables match a single
+ * path segment.
+ */
+function compileUriTemplate(template: string): RegExp {
+  const source = template
+    .split(/\{[^}]+\}/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('([^/?#]+)');
+  return new RegExp(`^${source}$`);
+}
+
 export class PremiereProResources {
   private bridge: PremiereProBridge;
   private logger: Logger;
+  private templateRoutes: TemplateRoute[];
 
   constructor(bridge: PremiereProBridge) {
     this.bridge = bridge;
     this.logger = new Logger('PremiereProResources');
+    this.templateRoutes = this.buildTemplateRoutes();
   }
 
   getAvailableResources(): MCPResource[] {
@@ -101,6 +129,80 @@ export class PremiereProResources {
     ];
   }
 
+  getResourceTemplates(): MCPResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'premiere://sequence/{sequenceId}/clips',
+        name: 'Sequence Clips',
+        description: 'All clips in a sequence, whether or not it is open in the timeline panel',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'premiere://sequence/{sequenceId}/tracks',
+        name: 'Sequence Tracks',
+        description: 'Video and audio tracks of a sequence',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'premiere://sequence/{sequenceId}/track/{type}/{index}',
+        name: 'Sequence Track',
+        description: 'One video or audio track of a sequence, by zero-based index, with its clips',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'premiere://sequence/{sequenceId}/markers',
+        name: 'Sequence Markers',
+        description: 'Markers and their positions in a sequence',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'premiere://clip/{clipId}',
+        name: 'Timeline Clip',
+        description: 'Timing, source media and components of a clip on any sequence',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'premiere://projectItem/{nodeId}',
+        name: 'Project Item',
+        description: 'A project panel item (clip, bin or sequence) and, for bins, its children',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  private buildTemplateRoutes(): TemplateRoute[] {
+    const handlers: Record<string, (params: string[]) => Promise<any>> = {
+      'premiere://sequence/{sequenceId}/clips': ([sequenceId]) => this.getTimelineClips(sequenceId),
+      'premiere://sequence/{sequenceId}/tracks': ([sequenceId]) => this.getTimelineTracks(sequenceId),
+      'premiere://sequence/{sequenceId}/track/{type}/{index}': ([sequenceId, type, index]) =>
+        this.getSequenceTrack(sequenceId as string, type as string, index as string),
+      'premiere://sequence/{sequenceId}/markers': ([sequenceId]) => this.getTimelineMarkers(sequenceId),
+      'premiere://clip/{clipId}': ([clipId]) => this.getClip(clipId as string),
+      'premiere://projectItem/{nodeId}': ([nodeId]) => this.getProjectItem(nodeId as string)
+    };
+
+    return this.getResourceTemplates().map((template) => {
+      const read = handlers[template.uriTemplate];
+      if (!read) {
+        throw new Error(`No handler registered for resource template '${template.uriTemplate}'`);
+      }
+      return { pattern: compileUriTemplate(template.uriTemplate), read };
+    });
+  }
+
+  /**
+   * Resolve a URI against the resource templates, or undefined if none match
+   */
+  private async readTemplatedResource(uri: string): Promise<any> {
+    for (const route of this.templateRoutes) {
+      const match = route.pattern.exec(uri);
+      if (match) {
+        return await route.read(match.slice(1).map(decodeURIComponent));
+      }
+    }
+    return undefined;
+  }
+
   async readResource(uri: string): Promise<any> {
     this.logger.info(`Reading resource: ${uri}`);
     
@@ -141,15 +243,20 @@ export class PremiereProResources {
       case 'premiere://project/metadata':
         return await this.getProjectMetadata();
       
-      default:
-        throw new Error(`Resource '${uri}' not found`);
+      default: {
+        const content = await this.readTemplatedResource(uri);
+        if (content === undefined) {
+          throw new Error(`Resource '${uri}' not found`);
+        }
+        return content;
+      }
     }
   }
 
   private async getProjectInfo(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var project = app.project;
-      JSON.stringify({
+      return JSON.stringify({
         id: project.documentID,
         name: project.name,
         path: project.path,
@@ -164,13 +271,13 @@ export class PremiereProResources {
           projectItemCount: project.rootItem.children.numItems
         }
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getProjectSequences(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var project = app.project;
       var sequences = [];
       
@@ -194,17 +301,17 @@ export class PremiereProResources {
         });
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         sequences: sequences,
         totalCount: project.sequences.numSequences
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getProjectMedia(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var project = app.project;
       var mediaItems = [];
       
@@ -235,17 +342,17 @@ export class PremiereProResources {
       
       traverseProjectItems(project.rootItem);
       
-      JSON.stringify({
+      return JSON.stringify({
         mediaItems: mediaItems,
         totalCount: mediaItems.length
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getProjectBins(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var project = app.project;
       var bins = [];
       
@@ -267,22 +374,25 @@ export class PremiereProResources {
       
       traverseBins(project.rootItem);
       
-      JSON.stringify({
+      return JSON.stringify({
         bins: bins,
         totalCount: bins.length
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
-  private async getTimelineClips(): Promise<any> {
-    const script = `
+  private async getTimelineClips(sequenceId?: string): Promise<any> {
+    const script = buildScript(`
       var project = app.project;
       var clips = [];
+      var sequence = args.sequenceId ? project.getSequenceByID(args.sequenceId) : project.activeSequence;
+      if (args.sequenceId && !sequence) {
+        return JSON.stringify({ error: "Sequence not found: " + args.sequenceId });
+      }
       
-      if (project.activeSequence) {
-        var sequence = project.activeSequence;
+      if (sequence) {
         
         // Video tracks
         for (var v = 0; v < sequence.videoTracks.numTracks; v++) {
@@ -327,23 +437,27 @@ export class PremiereProResources {
         }
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         clips: clips,
         totalCount: clips.length,
+        sequence: sequence ? { id: sequence.sequenceID, name: sequence.name } : null,
         activeSequence: project.activeSequence ? project.activeSequence.name : null
       });
-    `;
+    `, { sequenceId });
     
-    return await this.bridge.executeScript(script);
+    return this.unwrapResult(await this.bridge.executeScript(script));
   }
 
-  private async getTimelineTracks(): Promise<any> {
-    const script = `
+  private async getTimelineTracks(sequenceId?: string): Promise<any> {
+    const script = buildScript(`
       var project = app.project;
       var tracks = [];
+      var sequence = args.sequenceId ? project.getSequenceByID(args.sequenceId) : project.activeSequence;
+      if (args.sequenceId && !sequence) {
+        return JSON.stringify({ error: "Sequence not found: " + args.sequenceId });
+      }
       
-      if (project.activeSequence) {
-        var sequence = project.activeSequence;
+      if (sequence) {
         
         // Video tracks
         for (var v = 0; v < sequence.videoTracks.numTracks; v++) {
@@ -378,23 +492,80 @@ export class PremiereProResources {
         }
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         tracks: tracks,
         totalCount: tracks.length,
+        sequence: sequence ? { id: sequence.sequenceID, name: sequence.name } : null,
         activeSequence: project.activeSequence ? project.activeSequence.name : null
       });
-    `;
+    `, { sequenceId });
     
-    return await this.bridge.executeScript(script);
+    return this.unwrapResult(await this.bridge.executeScript(script));
+  }
+
+  private async getSequenceTrack(sequenceId: string, type: string, index: string): Promise<any> {
+    if (type !== 'video' && type !== 'audio') {
+      throw new Error(`Unknown track type '${type}', expected 'video' or 'audio'`);
+    }
+    if (!/^\d+$/.test(index)) {
+      throw new Error(`Invalid track index '${index}'`);
+    }
+
+    const script = buildScript(`
+      var sequence = app.project.getSequenceByID(args.sequenceId);
+      if (!sequence) {
+        return JSON.stringify({ error: "Sequence not found: " + args.sequenceId });
+      }
+      
+      var tracks = args.type === 'video' ? sequence.videoTracks : sequence.audioTracks;
+      if (args.index >= tracks.numTracks) {
+        return JSON.stringify({ error: "Sequence has no " + args.type + " track " + args.index });
+      }
+      
+      var track = tracks[args.index];
+      var clips = [];
+      for (var c = 0; c < track.clips.numItems; c++) {
+        var clip = track.clips[c];
+        clips.push({
+          id: clip.nodeId,
+          name: clip.name,
+          startTime: clip.start,
+          endTime: clip.end,
+          duration: clip.duration,
+          inPoint: clip.inPoint,
+          outPoint: clip.outPoint,
+          mediaPath: clip.projectItem ? clip.projectItem.getMediaPath() : null,
+          effects: clip.components.numItems
+        });
+      }
+      
+      return JSON.stringify({
+        id: track.id,
+        name: track.name,
+        type: args.type,
+        index: args.index,
+        enabled: track.enabled,
+        locked: track.locked,
+        muted: track.muted,
+        clips: clips,
+        transitionCount: track.transitions.numItems,
+        sequence: { id: sequence.sequenceID, name: sequence.name }
+      });
+    `, { sequenceId, type, index: Number(index) });
+    
+    return this.unwrapResult(await this.bridge.executeScript(script));
   }
 
-  private async getTimelineMarkers(): Promise<any> {
-    const script = `
+  private async getTimelineMarkers(sequenceId?: string): Promise<any> {
+    const script = buildScript(`
       var project = app.project;
       var markers = [];
+      var sequence = args.sequenceId ? project.getSequenceByID(args.sequenceId) : project.activeSequence;
+      if (args.sequenceId && !sequence) {
+        return JSON.stringify({ error: "Sequence not found: " + args.sequenceId });
+      }
       
-      if (project.activeSequence) {
-        var sequence = project.activeSequence;
+      if (sequence) {
         
         for (var i = 0; i < sequence.markers.numMarkers; i++) {
           var marker = sequence.markers[i];
@@ -411,18 +582,19 @@ export class PremiereProResources {
         }
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         markers: markers,
         totalCount: markers.length,
+        sequence: sequence ? { id: sequence.sequenceID, name: sequence.name } : null,
         activeSequence: project.activeSequence ? project.activeSequence.name : null
       });
-    `;
+    `, { sequenceId });
     
-    return await this.bridge.executeScript(script);
+    return this.unwrapResult(await this.bridge.executeScript(script));
   }
 
   private async getAvailableEffects(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var effects = [];
       
       // Get video effects
@@ -447,17 +619,17 @@ export class PremiereProResources {
         });
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         effects: effects,
         totalCount: effects.length
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getAppliedEffects(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var project = app.project;
       var appliedEffects = [];
       
@@ -505,17 +677,17 @@ export class PremiereProResources {
         }
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         appliedEffects: appliedEffects,
         totalCount: appliedEffects.length
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getAvailableTransitions(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var transitions = [];
       
       // Get video transitions
@@ -540,17 +712,17 @@ export class PremiereProResources {
         });
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         transitions: transitions,
         totalCount: transitions.length
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getExportPresets(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var presets = [];
       var encoder = app.encoder;
       
@@ -566,17 +738,17 @@ export class PremiereProResources {
         });
       }
       
-      JSON.stringify({
+      return JSON.stringify({
         presets: presets,
         totalCount: presets.length
       });
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async getProjectMetadata(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       var project = app.project;
       var metadata = {};
       
@@ -632,9 +804,95 @@ export class PremiereProResources {
         }
       }
       
-      JSON.stringify(metadata);
-    `;
+      return JSON.stringify(metadata);
+    `);
     
     return await this.bridge.executeScript(script);
   }
+
+  private async getClip(clipId: string): Promise<any> {
+    const script = buildScript(`
+      var clip = app.project.getClipByID(args.clipId);
+      if (!clip) {
+        return JSON.stringify({ error: "Clip not found: " + args.clipId });
+      }
+      
+      var track = clip.getTrack();
+      var components = [];
+      for (var i = 0; i < clip.components.numItems; i++) {
+        var component = clip.components[i];
+        components.push({
+          name: component.displayName,
+          matchName: component.matchName
+        });
+      }
+      
+      return JSON.stringify({
+        id: clip.nodeId,
+        name: clip.name,
+        trackType: clip.mediaType === 'Audio' ? 'audio' : 'video',
+        trackIndex: track ? track.index : null,
+        trackId: track ? track.id : null,
+        startTime: clip.start,
+        endTime: clip.end,
+        duration: clip.duration,
+        inPoint: clip.inPoint,
+        outPoint: clip.outPoint,
+        speed: clip.speed,
+        projectItemId: clip.projectItem ? clip.projectItem.nodeId : null,
+        mediaPath: clip.projectItem ? clip.projectItem.getMediaPath() : null,
+        components: components
+      });
+    `, { clipId });
+    
+    return this.unwrapResult(await this.bridge.executeScript(script));
+  }
+
+  private async getProjectItem(nodeId: string): Promise<any> {
+    const script = buildScript(`
+      var item = app.project.getProjectItemByID(args.nodeId);
+      if (!item) {
+        return JSON.stringify({ error: "Project item not found: " + args.nodeId });
+      }
+      
+      var isBin = item.type === ProjectItemType.BIN || item.type === ProjectItemType.ROOT;
+      var children = [];
+      if (isBin) {
+        for (var i = 0; i < item.children.numItems; i++) {
+          var child = item.children[i];
+          children.push({
+            id: child.nodeId,
+            name: child.name,
+            type: child.type
+          });
+        }
+      }
+      
+      return JSON.stringify({
+        id: item.nodeId,
+        name: item.name,
+        type: item.type,
+        path: item.treePath,
+        mediaPath: isBin ? null : item.getMediaPath(),
+        duration: item.duration ? item.duration.seconds : null,
+        frameRate: isBin ? null : item.getVideoFrameRate(),
+        hasVideo: isBin ? false : item.hasVideo(),
+        hasAudio: isBin ? false : item.hasAudio(),
+        children: isBin ? children : undefined
+      });
+    `, { nodeId });
+    
+    return this.unwrapResult(await this.bridge.executeScript(script));
+  }
+
+  /**
+   * Templated resources report lookups that fail inside Premiere as an
+   * `error` field; surface those as read failures rather than content
+   */
+  private unwrapResult(result: any): any {
+    if (result && typeof result.error === 'string') {
+      throw new Error(result.error);
+    }
+    return result;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PremiereProBridge } from '../bridge/index.js';
+import { PremiereProTools } from '../tools/index.js';
+import { ResourceSubscriptions } from './subscriptions.js';
+
+/** Stands in for an MCP server session, recording what it was sent */
+function fakeServer() {
+  return {
+    sendResourceUpdated: jest.fn(async (_params: { uri: string }) => {}),
+    sendResourceListChanged: jest.fn(async () => {})
+  };
+}
+
+describe('ResourceSubscriptions', () => {
+  let dir: string;
+  let bridge: PremiereProBridge;
+  let tools: PremiereProTools;
+  let subscriptions: ResourceSubscriptions;
+
+  /** Connect a session and wait until the baseline fingerprint is taken */
+  async function connect(server: ReturnType<typeof fakeServer>): Promise<void> {
+    subscriptions.addSession(server as any);
+    await subscriptions.handleToolCompleted('get_project_info', {});
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'premiere-subscriptions-'));
+    bridge = new PremiereProBridge({ simulator: true });
+    await bridge.initialize();
+    tools = new PremiereProTools(bridge);
+    await tools.executeTool('create_project', { name: 'Show', location: dir });
+  });
+
+  afterEach(async () => {
+    subscriptions.stop();
+    await bridge.cleanup();
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('sends list_changed after a tool adds a sequence, with no subscriptions', async () => {
+    subscriptions = new ResourceSubscriptions(bridge, 60_000);
+    const server = fakeServer();
+    await connect(server);
+
+    const args = { name: 'Edit' };
+    expect((await tools.executeTool('create_sequence', args)).success).toBe(true);
+    await subscriptions.handleToolCompleted('create_sequence', args);
+
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('polls for list changes made outside a tool, with no subscriptions', async () => {
+    subscriptions = new ResourceSubscriptions(bridge, 10);
+    const server = fakeServer();
+    await connect(server);
+
+    bridge.getSimulator()!.app.project.createNewSequence('By hand', 'by-hand');
+    for (let i = 0; i < 100 && server.sendResourceListChanged.mock.calls.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(server.sendResourceListChanged).toHaveBeenCalled();
+  });
+
+  it('only sends updates for resources a session subscribed to', async () => {
+    subscriptions = new ResourceSubscriptions(bridge, 60_000);
+    const subscriber = fakeServer();
+    const listener = fakeServer();
+    subscriptions.subscribe(subscriber as any, 'premiere://project/sequences');
+    await connect(listener);
+
+    const args = { name: 'Edit' };
+    await tools.executeTool('create_sequence', args);
+    await subscriptions.handleToolCompleted('create_sequence', args);
+
+    expect(subscriber.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'premiere://project/sequences' });
+    expect(subscriber.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    expect(listener.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(listener.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops polling once the last session closes', async () => {
+    subscriptions = new ResourceSubscriptions(bridge, 10);
+    const server = fakeServer();
+    await connect(server);
+    subscriptions.removeSession(server as any);
+
+    const fingerprint = jest.spyOn(bridge, 'getStateFingerprint');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(fingerprint).not.toHaveBeenCalled();
+  });
+});
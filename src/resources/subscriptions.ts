@@ -0,0 +1,328 @@
+/**
+ * Resource subscriptions
+ *
+ * Tracks which resource URIs each connected client subscribed to and sends
+ * `notifications/resources/updated` when they change, plus
+ * `notifications/resources/list_changed` to every connected client when
+ * resources come or go. Changes are found by diffing state fingerprints from
+ * the bridge: one is taken after every mutating tool call, and a timer keeps
+ * polling so edits made by hand in Premiere Pro are picked up too.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { PremiereProBridge, PremiereProStateFingerprint } from '../bridge/index.js';
+import { Logger } from '../utils/logger.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** How often the project state is polled while any client is connected */
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+
+/** Fingerprints are cheap; don't let an unresponsive panel stall tool calls behind one */
+const FINGERPRINT_TIMEOUT_MS = 5000;
+
+/** Catalog resources that don't depend on the project */
+const STATIC_RESOURCES = new Set([
+  'premiere://effects/available',
+  'premiere://transitions/available',
+  'premiere://export/presets'
+]);
+
+const PROJECT_RESOURCES = new Set([
+  'premiere://project/info',
+  'premiere://project/sequences'
+]);
+
+const MEDIA_RESOURCES = new Set([
+  'premiere://project/media',
+  'premiere://project/bins'
+]);
+
+/** Resources that read whichever sequence is active */
+const ACTIVE_SEQUENCE_RESOURCES = new Set([
+  'premiere://timeline/clips',
+  'premiere://timeline/tracks',
+  'premiere://timeline/markers',
+  'premiere://effects/applied',
+  'premiere://project/metadata'
+]);
+
+/** Everything that changed between two fingerprints or was touched by a tool */
+export interface ResourceChangeSet {
+  /** A different project was opened, or the project was saved elsewhere */
+  project: boolean;
+  /** A different sequence became active */
+  activeSequence: boolean;
+  /** Sequences, clips or project items were added or removed */
+  listChanged: boolean;
+  sequenceIds: Set<string>;
+  clipIds: Set<string>;
+  projectItemIds: Set<string>;
+}
+
+function emptyChangeSet(): ResourceChangeSet {
+  return {
+    project: false,
+    activeSequence: false,
+    listChanged: false,
+    sequenceIds: new Set(),
+    clipIds: new Set(),
+    projectItemIds: new Set()
+  };
+}
+
+function hasChanges(changes: ResourceChangeSet): boolean {
+  return changes.project || changes.activeSequence || changes.listChanged ||
+    changes.sequenceIds.size > 0 || changes.clipIds.size > 0 || changes.projectItemIds.size > 0;
+}
+
+/**
+ * Ids whose signature differs between two maps, including added and removed ids
+ */
+function changedKeys(before: Record<string, string>, after: Record<string, string>): { changed: Set<string>; membershipChanged: boolean } {
+  const changed = new Set<string>();
+  let membershipChanged = false;
+  for (const [id, signature] of Object.entries(after)) {
+    if (!(id in before)) {
+      membershipChanged = true;
+      changed.add(id);
+    } else if (before[id] !== signature) {
+      changed.add(id);
+    }
+  }
+  for (const id of Object.keys(before)) {
+    if (!(id in after)) {
+      membershipChanged = true;
+      changed.add(id);
+    }
+  }
+  return { changed, membershipChanged };
+}
+
+export function diffFingerprints(before: PremiereProStateFingerprint, after: PremiereProStateFingerprint): ResourceChangeSet {
+  const sequences = changedKeys(before.sequences, after.sequences);
+  const clips = changedKeys(before.clips, after.clips);
+  const items = changedKeys(before.items, after.items);
+  const project = before.documentId !== after.documentId || before.path !== after.path;
+
+  return {
+    project,
+    activeSequence: before.activeSequenceId !== after.activeSequenceId,
+    listChanged: project || sequences.membershipChanged || clips.membershipChanged || items.membershipChanged,
+    sequenceIds: sequences.changed,
+    clipIds: clips.changed,
+    projectItemIds: items.changed
+  };
+}
+
+/**
+ * Ids a tool call names in its arguments. Tools take ids under a handful of
+ * conventional names, so this covers changes a fingerprint can't see, such
+ * as effect parameter values.
+ */
+export function changesFromToolArgs(args: Record<string, any>): ResourceChangeSet {
+  const changes = emptyChangeSet();
+  const collect = (target: Set<string>, ...values: unknown[]) => {
+    for (const value of values) {
+      if (typeof value === 'string') {
+        target.add(value);
+      } else if (Array.isArray(value)) {
+        collect(target, ...value);
+      }
+    }
+  };
+
+  collect(changes.sequenceIds, args.sequenceId, args.sequenceIds);
+  collect(changes.clipIds, args.clipId, args.clipId1, args.clipId2, args.clipIds, args.videoClipIds);
+  collect(changes.projectItemIds, args.projectItemId, args.projectItemIds);
+
+  // batch_edit carries the ids inside its operations
+  if (Array.isArray(args.operations)) {
+    for (const operation of args.operations) {
+      mergeChanges(changes, changesFromToolArgs(operation?.args ?? {}));
+    }
+  }
+  return changes;
+}
+
+function mergeChanges(target: ResourceChangeSet, source: ResourceChangeSet): ResourceChangeSet {
+  target.project = target.project || source.project;
+  target.activeSequence = target.activeSequence || source.activeSequence;
+  target.listChanged = target.listChanged || source.listChanged;
+  source.sequenceIds.forEach(id => target.sequenceIds.add(id));
+  source.clipIds.forEach(id => target.clipIds.add(id));
+  source.projectItemIds.forEach(id => target.projectItemIds.add(id));
+  return target;
+}
+
+/**
+ * Whether a change set invalidates a resource URI. Unknown URIs are treated
+ * as affected so a subscriber never misses an update.
+ */
+export function isResourceAffected(uri: string, changes: ResourceChangeSet, activeSequenceId: string | null): boolean {
+  if (STATIC_RESOURCES.has(uri)) {
+    return false;
+  }
+  if (changes.project) {
+    return true;
+  }
+  if (PROJECT_RESOURCES.has(uri)) {
+    return changes.sequenceIds.size > 0 || changes.projectItemIds.size > 0;
+  }
+  if (MEDIA_RESOURCES.has(uri)) {
+    return changes.projectItemIds.size > 0;
+  }
+  if (ACTIVE_SEQUENCE_RESOURCES.has(uri)) {
+    return changes.activeSequence || (activeSequenceId !== null && changes.sequenceIds.has(activeSequenceId));
+  }
+
+  const sequenceMatch = /^premiere:\/\/sequence\/([^/]+)\//.exec(uri);
+  if (sequenceMatch?.[1]) {
+    return changes.sequenceIds.has(decodeURIComponent(sequenceMatch[1]));
+  }
+  const clipMatch = /^premiere:\/\/clip\/([^/]+)$/.exec(uri);
+  if (clipMatch?.[1]) {
+    return changes.clipIds.has(decodeURIComponent(clipMatch[1]));
+  }
+  const itemMatch = /^premiere:\/\/projectItem\/([^/]+)$/.exec(uri);
+  if (itemMatch?.[1]) {
+    return changes.projectItemIds.has(decodeURIComponent(itemMatch[1]));
+  }
+  return true;
+}
+
+export class ResourceSubscriptions {
+  private logger: Logger;
+  private sessions = new Map<Server, Set<string>>();
+  private fingerprint: PremiereProStateFingerprint | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private pendingCheck: Promise<void> = Promise.resolve();
+  private checking = false;
+
+  constructor(
+    private readonly bridge: PremiereProBridge,
+    private readonly pollIntervalMs: number = Number(process.env.PREMIERE_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS
+  ) {
+    this.logger = new Logger('ResourceSubscriptions');
+  }
+
+  /**
+   * Track a client session so it receives list_changed notifications
+   */
+  addSession(server: Server): void {
+    if (!this.sessions.has(server)) {
+      this.sessions.set(server, new Set());
+      this.updatePolling();
+    }
+  }
+
+  removeSession(server: Server): void {
+    this.sessions.delete(server);
+    this.updatePolling();
+  }
+
+  subscribe(server: Server, uri: string): void {
+    this.addSession(server);
+    this.sessions.get(server)?.add(uri);
+    this.logger.debug(`Subscribed to ${uri}`);
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    this.sessions.get(server)?.delete(uri);
+    this.logger.debug(`Unsubscribed from ${uri}`);
+  }
+
+  /**
+   * Called after a tool that may have modified the project; notifies
+   * subscribers of everything the tool named or the fingerprint shows changed
+   */
+  async handleToolCompleted(name: string, args: Record<string, any>): Promise<void> {
+    if (this.sessions.size === 0) {
+      return;
+    }
+    this.logger.debug(`Checking for resource changes after ${name}`);
+    await this.check(changesFromToolArgs(args));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.fingerprint = undefined;
+  }
+
+  /**
+   * Every connected client hears about list changes, as the server advertises
+   * them, so polling runs whether or not anyone has subscribed to a resource
+   */
+  private updatePolling(): void {
+    if (this.sessions.size > 0) {
+      if (!this.timer) {
+        this.timer = setInterval(() => {
+          // Skip a tick rather than queue behind a slow check
+          if (!this.checking) {
+            void this.check();
+          }
+        }, this.pollIntervalMs);
+        this.timer.unref();
+        void this.check();
+      }
+    } else {
+      this.stop();
+    }
+  }
+
+  /**
+   * Checks run one at a time so two fingerprints never race each other
+   */
+  private check(toolChanges?: ResourceChangeSet): Promise<void> {
+    this.pendingCheck = this.pendingCheck.then(() => this.runCheck(toolChanges));
+    return this.pendingCheck;
+  }
+
+  private async runCheck(toolChanges?: ResourceChangeSet): Promise<void> {
+    this.checking = true;
+    try {
+      const changes = toolChanges ?? emptyChangeSet();
+
+      try {
+        const next = await this.bridge.getStateFingerprint(FINGERPRINT_TIMEOUT_MS);
+        // The first fingerprint is only a baseline
+        if (this.fingerprint) {
+          mergeChanges(changes, diffFingerprints(this.fingerprint, next));
+        }
+        this.fingerprint = next;
+      } catch (error) {
+        this.logger.debug(`Could not fingerprint project state: ${getErrorMessage(error)}`);
+      }
+
+      if (hasChanges(changes)) {
+        await this.notify(changes);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async notify(changes: ResourceChangeSet): Promise<void> {
+    const activeSequenceId = this.fingerprint?.activeSequenceId ?? null;
+    const sends: Promise<void>[] = [];
+
+    for (const [server, uris] of this.sessions) {
+      for (const uri of uris) {
+        if (isResourceAffected(uri, changes, activeSequenceId)) {
+          sends.push(server.sendResourceUpdated({ uri }).catch((error) => {
+            this.logger.warn(`Failed to send update for ${uri}: ${getErrorMessage(error)}`);
+          }));
+        }
+      }
+      if (changes.listChanged) {
+        sends.push(server.sendResourceListChanged().catch((error) => {
+          this.logger.warn(`Failed to send resource list change: ${getErrorMessage(error)}`);
+        }));
+      }
+    }
+
+    await Promise.all(sends);
+  }
+}
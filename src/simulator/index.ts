@@ -0,0 +1,67 @@
+/**
+ * In-process Premiere Pro simulator
+ *
+ * Runs the same ExtendScript the bridge would send to the panel against an
+ * in-memory project model, so the server and its tools can be exercised
+ * headless on machines without Premiere Pro (CI, Linux, development).
+ */
+
+import { createContext, runInContext, Context } from 'vm';
+import { Logger } from '../utils/logger.js';
+import { ScriptExecutionError, ResponseParseError, getErrorMessage } from '../utils/errors.js';
+import { Application, ProjectItemType, QEApplication, Time, File, Folder } from './model.js';
+
+export { Application, Project, ProjectItem, Sequence, Track, TrackItem, Component, ComponentParam, Marker, Time, TICKS_PER_SECOND } from './model.js';
+
+/** Scripts are synchronous; anything running longer than this is stuck */
+const DEFAULT_SCRIPT_TIMEOUT_MS = 5000;
+
+export class PremiereProSimulator {
+  private logger: Logger;
+  private context: Context;
+  readonly app: Application;
+
+  constructor() {
+    this.logger = new Logger('PremiereProSimulator');
+    this.app = new Application();
+    this.context = createContext({
+      app: this.app,
+      qe: new QEApplication(this.app),
+      ProjectItemType,
+      Time,
+      File,
+      Folder,
+      $: { writeln: (message: string) => this.logger.debug(`$.writeln: ${message}`) }
+    });
+  }
+
+  /**
+   * Evaluate a script and decode its JSON result the way the panel
+   * transports do. Uncaught script errors surface as ScriptExecutionError.
+   */
+  execute(script: string, timeoutMs: number = DEFAULT_SCRIPT_TIMEOUT_MS): any {
+    let result: unknown;
+    try {
+      result = runInContext(script, this.context, { timeout: timeoutMs });
+    } catch (error) {
+      throw new ScriptExecutionError(
+        `Script failed in simulator: ${getErrorMessage(error)}`,
+        {},
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (typeof result !== 'string') {
+      return result;
+    }
+
+    try {
+      return JSON.parse(result);
+    } catch (error) {
+      throw new ResponseParseError(
+        `Invalid JSON returned by simulated script: ${getErrorMessage(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,1813 @@
+/**
+ * In-memory Premiere Pro object model for the simulator
+ *
+ * These classes mirror the parts of the ExtendScript DOM that our scripts
+ * touch (app.project, project items, sequences, tracks, track items,
+ * components and markers). Scripts run against them unmodified, so property
+ * and method names follow Premiere rather than our own conventions.
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { TICKS_PER_SECOND, frameRateToTicksPerFrame } from '../utils/time.js';
+
+export { TICKS_PER_SECOND };
+
+/** Default length of imported media, since the simulator never decodes files */
+const DEFAULT_MEDIA_DURATION = 10;
+
+/** Still images come in with Premiere's default still duration */
+const DEFAULT_STILL_DURATION = 5;
+
+const AUDIO_EXTENSIONS = new Set(['.wav', '.aif', '.aiff', '.mp3', '.m4a', '.aac', '.flac', '.ogg']);
+const STILL_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.tif', '.tiff', '.psd', '.gif', '.bmp']);
+
+/** Mirrors the ProjectItemType enum exposed to scripts */
+export const ProjectItemType = {
+  CLIP: 1,
+  BIN: 2,
+  ROOT: 3,
+  FILE: 4,
+  SEQUENCE: 5
+} as const;
+
+interface EffectDefinition {
+  name: string;
+  matchName: string;
+  category: string;
+  parameters: Record<string, any>;
+}
+
+const VIDEO_EFFECTS: EffectDefinition[] = [
+  {
+    name: 'Lumetri Color',
+    matchName: 'AE.ADBE Lumetri',
+    category: 'Color Correction',
+    parameters: {
+      'Brightness': 0, 'Contrast': 0, 'Saturation': 100, 'Hue': 0, 'Highlights': 0,
+      'Shadows': 0, 'Temperature': 0, 'Tint': 0, 'Input LUT': '', 'Input LUT Intensity': 1
+    }
+  },
+  { name: 'Gaussian Blur', matchName: 'AE.ADBE Gaussian Blur 2', category: 'Blur & Sharpen', parameters: { 'Blurriness': 0, 'Blur Dimensions': 1 } },
+  { name: 'Warp Stabilizer', matchName: 'AE.ADBE SubspaceStabilizer', category: 'Distort', parameters: { 'Smoothness': 0.5, 'Method': 'warp' } },
+  { name: 'Crop', matchName: 'AE.ADBE AECrop', category: 'Transform', parameters: { 'Left': 0, 'Top': 0, 'Right': 0, 'Bottom': 0 } },
+  { name: 'Transform', matchName: 'AE.ADBE Geometry', category: 'Distort', parameters: { 'Position': [960, 540], 'Scale': 100, 'Rotation': 0, 'Opacity': 100 } },
+  { name: 'Sharpen', matchName: 'AE.ADBE Sharpen', category: 'Blur & Sharpen', parameters: { 'Sharpen Amount': 0 } },
+  { name: 'Black & White', matchName: 'AE.ADBE Black&White', category: 'Image Control', parameters: {} }
+];
+
+const AUDIO_EFFECTS: EffectDefinition[] = [
+  { name: 'Amplify', matchName: 'Amplify', category: 'Amplitude and Compression', parameters: { 'Gain': 0 } },
+  { name: 'Parametric Equalizer', matchName: 'ParametricEQ', category: 'Filter and EQ', parameters: { 'Master Gain': 0 } },
+  { name: 'DeNoise', matchName: 'DeNoise', category: 'Noise Reduction / Restoration', parameters: { 'Amount': 40 } }
+];
+
+const VIDEO_TRANSITIONS = [
+  { name: 'Cross Dissolve', matchName: 'ADBE Cross Dissolve New', category: 'Dissolve' },
+  { name: 'Dip to Black', matchName: 'ADBE Dip To Black', category: 'Dissolve' },
+  { name: 'Dip to White', matchName: 'ADBE Dip To White', category: 'Dissolve' },
+  { name: 'Film Dissolve', matchName: 'ADBE Film Dissolve', category: 'Dissolve' },
+  { name: 'Push', matchName: 'ADBE Push', category: 'Slide' },
+  { name: 'Wipe', matchName: 'ADBE Wipe', category: 'Wipe' }
+];
+
+const AUDIO_TRANSITIONS = [
+  { name: 'Constant Power', matchName: 'ADBE Constant Power', category: 'Crossfade' },
+  { name: 'Constant Gain', matchName: 'ADBE Constant Gain', category: 'Crossfade' },
+  { name: 'Exponential Fade', matchName: 'ADBE Exponential Fade', category: 'Crossfade' }
+];
+
+const EXPORT_PRESETS = [
+  { name: 'H.264', matchName: 'H.264 Match Source - High bitrate', category: 'H.264', description: 'Match source, high bitrate', fileExtension: 'mp4' },
+  { name: 'ProRes', matchName: 'Apple ProRes 422', category: 'QuickTime', description: 'Apple ProRes 422', fileExtension: 'mov' },
+  { name: 'WAV', matchName: 'Waveform Audio 48kHz 16-bit', category: 'Waveform Audio', description: 'Uncompressed audio', fileExtension: 'wav' }
+];
+
+function findEffect(list: EffectDefinition[], name: string): EffectDefinition | undefined {
+  return list.find(effect => effect.name === name || effect.matchName === name);
+}
+
+/**
+ * Build an ExtendScript-style collection: an array that also carries its
+ * count property (numItems, numTracks, ...) and lookups by item name.
+ */
+export function collection<T extends { name?: string }>(items: T[], countKey: string): any {
+  const list: any = items.slice();
+  list[countKey] = items.length;
+  for (const item of items) {
+    const name = item.name;
+    if (name && !/^\d+$/.test(name) && !(name in list)) {
+      list[name] = item;
+    }
+  }
+  return list;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export class Time {
+  seconds: number;
+
+  constructor(value?: string | number) {
+    if (typeof value === 'number') {
+      this.seconds = value;
+    } else if (typeof value === 'string') {
+      this.seconds = parseFloat(value.replace(/s$/, '')) || 0;
+    } else {
+      this.seconds = 0;
+    }
+  }
+
+  static from(value: any): Time {
+    if (value instanceof Time) {
+      return new Time(value.seconds);
+    }
+    if (value && typeof value === 'object' && typeof value.seconds === 'number') {
+      return new Time(value.seconds);
+    }
+    return new Time(typeof value === 'string' || typeof value === 'number' ? value : 0);
+  }
+
+  get ticks(): string {
+    return String(Math.round(this.seconds * TICKS_PER_SECOND));
+  }
+
+  set ticks(value: string) {
+    this.seconds = Number(value) / TICKS_PER_SECOND;
+  }
+
+  valueOf(): number {
+    return this.seconds;
+  }
+
+  toJSON(): number {
+    return this.seconds;
+  }
+}
+
+export class ComponentParam {
+  displayName: string;
+  private value: any;
+  private timeVarying = false;
+  private keys: Array<{ time: number; value: any; interpolation?: number }> = [];
+
+  constructor(displayName: string, value: any) {
+    this.displayName = displayName;
+    this.value = clone(value);
+  }
+
+  get name(): string {
+    return this.displayName;
+  }
+
+  getValue(): any {
+    return clone(this.value);
+  }
+
+  setValue(value: any): boolean {
+    this.value = clone(value);
+    return true;
+  }
+
+  isTimeVarying(): boolean {
+    return this.timeVarying;
+  }
+
+  setTimeVarying(varying: boolean): boolean {
+    this.timeVarying = !!varying;
+    if (!this.timeVarying) {
+      this.keys = [];
+    }
+    return true;
+  }
+
+  addKey(time: any): boolean {
+    const seconds = Time.from(time).seconds;
+    this.timeVarying = true;
+    if (!this.keys.some(key => Math.abs(key.time - seconds) < 1e-9)) {
+      this.keys.push({ time: seconds, value: clone(this.value) });
+      this.keys.sort((a, b) => a.time - b.time);
+    }
+    return true;
+  }
+
+  setValueAtKey(time: any, value: any): boolean {
+    this.keyAt(time).value = clone(value);
+    return true;
+  }
+
+  removeKey(time: any): boolean {
+    const key = this.keyAt(time);
+    this.keys.splice(this.keys.indexOf(key), 1);
+    return true;
+  }
+
+  getValueAtKey(time: any): any {
+    return clone(this.keyAt(time).value);
+  }
+
+  /** Interpolation codes: 0 linear, 4 hold, 5 bezier */
+  setInterpolationTypeAtKey(time: any, interpolation: number): boolean {
+    this.keyAt(time).interpolation = Number(interpolation);
+    return true;
+  }
+
+  /** Keys default to linear, as in Premiere */
+  getInterpolationTypeAtKey(time: any): number {
+    return this.keyAt(time).interpolation ?? 0;
+  }
+
+  areKeyframesSupported(): boolean {
+    return typeof this.value === 'number' || Array.isArray(this.value);
+  }
+
+  getKeys(): Time[] {
+    return this.keys.map(key => new Time(key.time));
+  }
+
+  private keyAt(time: any): { time: number; value: any; interpolation?: number } {
+    const seconds = Time.from(time).seconds;
+    const key = this.keys.find(k => Math.abs(k.time - seconds) < 1e-9);
+    if (!key) {
+      throw new Error(`No keyframe at ${seconds}s`);
+    }
+    return key;
+  }
+}
+
+export class Component {
+  displayName: string;
+  matchName: string;
+  enabled = true;
+  private params: ComponentParam[];
+
+  constructor(displayName: string, matchName: string, parameters: Record<string, any>) {
+    this.displayName = displayName;
+    this.matchName = matchName;
+    this.params = Object.entries(parameters).map(([name, value]) => new ComponentParam(name, value));
+  }
+
+  get name(): string {
+    return this.displayName;
+  }
+
+  get properties(): any {
+    return collection(this.params, 'numItems');
+  }
+
+  cloneComponent(): Component {
+    const copy = new Component(this.displayName, this.matchName, {});
+    copy.enabled = this.enabled;
+    copy.params = this.params.map(param => {
+      const paramCopy = new ComponentParam(param.displayName, param.getValue());
+      return Object.assign(paramCopy, clone({ timeVarying: (param as any).timeVarying, keys: (param as any).keys }));
+    });
+    return copy;
+  }
+}
+
+export class Marker {
+  guid: string;
+  name = '';
+  comments = '';
+  type = 'Comment';
+  color = 0;
+  private webLinkUrl = '';
+  private webLinkFrameTarget = '';
+  private startSeconds: number;
+  private endSeconds: number;
+
+  constructor(seconds: number) {
+    this.guid = uuidv4();
+    this.startSeconds = seconds;
+    this.endSeconds = seconds;
+  }
+
+  get comment(): string {
+    return this.comments;
+  }
+
+  set comment(value: string) {
+    this.comments = value;
+  }
+
+  get start(): Time {
+    return new Time(this.startSeconds);
+  }
+
+  set start(value: any) {
+    const length = this.endSeconds - this.startSeconds;
+    this.startSeconds = Time.from(value).seconds;
+    this.endSeconds = this.startSeconds + length;
+  }
+
+  get end(): Time {
+    return new Time(this.endSeconds);
+  }
+
+  set end(value: any) {
+    this.endSeconds = Math.max(this.startSeconds, Time.from(value).seconds);
+  }
+
+  get duration(): Time {
+    return new Time(this.endSeconds - this.startSeconds);
+  }
+
+  // Type and color are set through methods in Premiere Pro; the fields mirror them
+  setTypeAsComment(): void {
+    this.type = 'Comment';
+  }
+
+  setTypeAsChapter(): void {
+    this.type = 'Chapter';
+  }
+
+  setTypeAsSegmentation(): void {
+    this.type = 'Segmentation';
+  }
+
+  setTypeAsWebLink(url: string, frameTarget: string): void {
+    this.type = 'WebLink';
+    this.webLinkUrl = String(url ?? '');
+    this.webLinkFrameTarget = String(frameTarget ?? '');
+  }
+
+  getWebLinkURL(): string {
+    return this.webLinkUrl;
+  }
+
+  getWebLinkFrameTarget(): string {
+    return this.webLinkFrameTarget;
+  }
+
+  getColorByIndex(): number {
+    return this.color;
+  }
+
+  setColorByIndex(index: number): void {
+    this.color = Math.max(0, Math.min(7, Math.round(Number(index) || 0)));
+  }
+}
+
+export class MarkerCollection {
+  private items: Marker[] = [];
+
+  get numMarkers(): number {
+    return this.items.length;
+  }
+
+  list(): Marker[] {
+    return [...this.items].sort((a, b) => a.start.seconds - b.start.seconds);
+  }
+
+  createMarker(seconds: number): Marker {
+    const marker = new Marker(Time.from(seconds).seconds);
+    this.items.push(marker);
+    return marker;
+  }
+
+  deleteMarker(marker: Marker): boolean {
+    const index = this.items.indexOf(marker);
+    if (index === -1) {
+      return false;
+    }
+    this.items.splice(index, 1);
+    return true;
+  }
+
+  getFirstMarker(): Marker | undefined {
+    return this.list()[0];
+  }
+
+  getNextMarker(marker: Marker): Marker | undefined {
+    const sorted = this.list();
+    return sorted[sorted.indexOf(marker) + 1];
+  }
+}
+
+/**
+ * Markers are indexed like an array in our scripts, so expose them through a
+ * proxy that resolves numeric keys against the time-sorted list.
+ */
+export function markerCollectionProxy(markers: MarkerCollection): any {
+  return new Proxy(markers, {
+    get(target, key, receiver) {
+      if (typeof key === 'string' && /^\d+$/.test(key)) {
+        return target.list()[Number(key)];
+      }
+      const value = Reflect.get(target, key, receiver);
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+/** What importing a file finds in it, guessed from its extension */
+function footageMedia(path: string) {
+  const extension = extname(path).toLowerCase();
+  const isAudio = AUDIO_EXTENSIONS.has(extension);
+  const isStill = STILL_EXTENSIONS.has(extension);
+  return {
+    mediaPath: path,
+    duration: isStill ? DEFAULT_STILL_DURATION : DEFAULT_MEDIA_DURATION,
+    frameRate: isAudio ? 0 : 25,
+    video: !isAudio,
+    audio: !isStill
+  };
+}
+
+/** Owning project of each item, kept off the item so scripts never see it */
+const itemProjects = new WeakMap<ProjectItem, Project>();
+
+/** The application each project is open in, kept apart so snapshots don't copy it */
+const projectApps = new WeakMap<Project, Application>();
+
+/** Each project's graph as it was last saved, to work out whether it's dirty */
+const savedSignatures = new WeakMap<Project, string>();
+
+function projectOf(item: ProjectItem): Project {
+  const project = itemProjects.get(item);
+  if (!project) {
+    throw new Error(`Project item ${item.name} is not attached to a project`);
+  }
+  return project;
+}
+
+export class ProjectItem {
+  nodeId: string;
+  name: string;
+  type: number;
+  parent: ProjectItem | undefined;
+  mediaPath: string;
+  frameRate: number;
+  width: number;
+  height: number;
+  video: boolean;
+  audio: boolean;
+  creationTime: string;
+  sequence: Sequence | undefined;
+  title: Record<string, any> | undefined;
+  shapes: Array<Record<string, any>> = [];
+  /** Source in/out marks, used by the next edit that places this item */
+  inMarkSeconds: number | undefined;
+  outMarkSeconds: number | undefined;
+  private childItems: ProjectItem[] = [];
+  private markerCollection = new MarkerCollection();
+  private mediaDuration: number;
+  private offline = false;
+
+  constructor(project: Project, name: string, type: number, options: Partial<{
+    mediaPath: string;
+    duration: number;
+    frameRate: number;
+    video: boolean;
+    audio: boolean;
+  }> = {}) {
+    itemProjects.set(this, project);
+    this.nodeId = project.nextNodeId();
+    this.name = name;
+    this.type = type;
+    this.parent = undefined;
+    this.mediaPath = options.mediaPath ?? '';
+    this.mediaDuration = options.duration ?? 0;
+    this.frameRate = options.frameRate ?? 0;
+    this.width = options.video ? 1920 : 0;
+    this.height = options.video ? 1080 : 0;
+    this.video = options.video ?? false;
+    this.audio = options.audio ?? false;
+    this.creationTime = new Date().toISOString();
+    this.sequence = undefined;
+    this.title = undefined;
+    this.inMarkSeconds = undefined;
+    this.outMarkSeconds = undefined;
+  }
+
+  /** A sequence's item lasts as long as the sequence does */
+  get durationSeconds(): number {
+    return this.sequence ? this.sequence.end.seconds : this.mediaDuration;
+  }
+
+  set durationSeconds(seconds: number) {
+    this.mediaDuration = seconds;
+  }
+
+  get children(): any {
+    return collection(this.childItems, 'numItems');
+  }
+
+  get treePath(): string {
+    const parts: string[] = [];
+    let item: ProjectItem | undefined = this;
+    while (item) {
+      parts.unshift(item.name);
+      item = item.parent;
+    }
+    return '\\' + parts.join('\\');
+  }
+
+  get duration(): Time | null {
+    return this.type === ProjectItemType.BIN || this.type === ProjectItemType.ROOT ? null : new Time(this.durationSeconds);
+  }
+
+  addChild(item: ProjectItem): ProjectItem {
+    item.parent = this;
+    this.childItems.push(item);
+    return item;
+  }
+
+  removeChild(item: ProjectItem): void {
+    this.childItems = this.childItems.filter(child => child !== item);
+    item.parent = undefined;
+  }
+
+  allChildren(): ProjectItem[] {
+    return this.childItems;
+  }
+
+  createBin(name: string): ProjectItem {
+    return this.addChild(new ProjectItem(projectOf(this), name, ProjectItemType.BIN));
+  }
+
+  deleteBin(): boolean {
+    if (this.type !== ProjectItemType.BIN || !this.parent) {
+      return false;
+    }
+    this.parent.removeChild(this);
+    return true;
+  }
+
+  getMediaPath(): string {
+    return this.mediaPath;
+  }
+
+  /** Footage goes offline when its file is missing, or when taken offline */
+  isOffline(): boolean {
+    return this.offline || (this.type === ProjectItemType.CLIP && !!this.mediaPath && !existsSync(this.mediaPath));
+  }
+
+  setOffline(): boolean {
+    this.offline = true;
+    return true;
+  }
+
+  canChangeMediaPath(): boolean {
+    return this.type === ProjectItemType.CLIP && !!this.mediaPath;
+  }
+
+  /**
+   * Point the item at another file. Without overrideChecks the file must
+   * hold the same kinds of media (video, audio) as the item had.
+   */
+  changeMediaPath(newPath: string, overrideChecks = false): boolean {
+    const path = String(newPath);
+    if (!this.canChangeMediaPath() || !existsSync(path)) {
+      return false;
+    }
+    const media = footageMedia(path);
+    if (!overrideChecks && (media.video !== this.video || media.audio !== this.audio)) {
+      return false;
+    }
+    this.mediaPath = path;
+    this.mediaDuration = media.duration;
+    this.frameRate = media.frameRate;
+    this.video = media.video;
+    this.audio = media.audio;
+    this.width = media.video ? 1920 : 0;
+    this.height = media.video ? 1080 : 0;
+    this.offline = false;
+    return true;
+  }
+
+  getInPoint(): Time {
+    return new Time(this.inMarkSeconds ?? 0);
+  }
+
+  getOutPoint(): Time {
+    return new Time(this.outMarkSeconds ?? this.durationSeconds);
+  }
+
+  setInPoint(time: any, _mediaType?: number): boolean {
+    this.inMarkSeconds = Time.from(time).seconds;
+    return true;
+  }
+
+  setOutPoint(time: any, _mediaType?: number): boolean {
+    this.outMarkSeconds = Time.from(time).seconds;
+    return true;
+  }
+
+  clearInPoint(): boolean {
+    this.inMarkSeconds = undefined;
+    return true;
+  }
+
+  clearOutPoint(): boolean {
+    this.outMarkSeconds = undefined;
+    return true;
+  }
+
+  getVideoFrameRate(): number {
+    return this.frameRate;
+  }
+
+  getMediaWidth(): number {
+    return this.width;
+  }
+
+  getMediaHeight(): number {
+    return this.height;
+  }
+
+  getMediaFrameRate(): number {
+    return this.frameRate;
+  }
+
+  hasVideo(): boolean {
+    return this.video;
+  }
+
+  hasAudio(): boolean {
+    return this.audio;
+  }
+
+  getCreationTime(): string {
+    return this.creationTime;
+  }
+
+  getModificationTime(): string {
+    return this.creationTime;
+  }
+
+  getFileSize(): number {
+    try {
+      return this.mediaPath ? statSync(this.mediaPath).size : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  // Legacy title API used by add_text_overlay and add_shape
+  getText(): Record<string, any> | undefined {
+    return this.title;
+  }
+
+  /** Clip markers; a sequence's item shares the sequence's markers */
+  getMarkers(): any {
+    return this.sequence ? this.sequence.markers : markerCollectionProxy(this.markerCollection);
+  }
+
+  addShape(shapeType: string): Record<string, any> {
+    const shape: Record<string, any> = { type: shapeType };
+    this.shapes.push(shape);
+    return shape;
+  }
+}
+
+export class TrackItem {
+  nodeId: string;
+  name: string;
+  projectItem: ProjectItem;
+  track: Track;
+  mediaType: 'Video' | 'Audio';
+  linked: TrackItem[] = [];
+  maintainAudioPitch = false;
+  disabled = false;
+  startSeconds: number;
+  inSeconds: number;
+  outSeconds: number;
+  speedFactor = 1;
+  componentList: Component[];
+
+  constructor(track: Track, projectItem: ProjectItem, startSeconds: number) {
+    this.nodeId = track.sequence.project.nextNodeId();
+    this.name = projectItem.name;
+    this.projectItem = projectItem;
+    this.track = track;
+    this.mediaType = track.type === 'video' ? 'Video' : 'Audio';
+    this.startSeconds = startSeconds;
+    // Edits place the marked range of the source, or all of it
+    this.inSeconds = projectItem.inMarkSeconds ?? 0;
+    this.outSeconds = projectItem.outMarkSeconds ?? (projectItem.durationSeconds || DEFAULT_STILL_DURATION);
+    this.componentList = track.type === 'video'
+      ? [
+        new Component('Opacity', 'AE.ADBE Opacity', { 'Opacity': 100, 'Blend Mode': 0 }),
+        new Component('Motion', 'AE.ADBE Motion', {
+          'Position': [0.5, 0.5], 'Scale': 100, 'Scale Width': 100, 'Uniform Scale': true,
+          'Rotation': 0, 'Anchor Point': [0.5, 0.5], 'Anti-flicker Filter': 0
+        })
+      ]
+      : [new Component('Volume', 'audioclipgain', { 'Volume': 0, 'Level': 0 })];
+  }
+
+  get clipID(): string {
+    return this.nodeId;
+  }
+
+  get type(): number {
+    return this.track.type === 'video' ? 1 : 2;
+  }
+
+  get durationSeconds(): number {
+    return (this.outSeconds - this.inSeconds) / this.speedFactor;
+  }
+
+  get endSeconds(): number {
+    return this.startSeconds + this.durationSeconds;
+  }
+
+  get start(): Time {
+    return new Time(this.startSeconds);
+  }
+
+  set start(value: any) {
+    this.startSeconds = Time.from(value).seconds;
+  }
+
+  get end(): Time {
+    return new Time(this.endSeconds);
+  }
+
+  set end(value: any) {
+    // Moving the end point trims the source out point to match
+    const duration = Math.max(0, Time.from(value).seconds - this.startSeconds);
+    this.outSeconds = this.inSeconds + duration * this.speedFactor;
+  }
+
+  get duration(): Time {
+    return new Time(this.durationSeconds);
+  }
+
+  get inPoint(): Time {
+    return new Time(this.inSeconds);
+  }
+
+  set inPoint(value: any) {
+    this.inSeconds = Math.max(0, Time.from(value).seconds);
+  }
+
+  get outPoint(): Time {
+    return new Time(this.outSeconds);
+  }
+
+  set outPoint(value: any) {
+    this.outSeconds = Math.max(this.inSeconds, Time.from(value).seconds);
+  }
+
+  get speed(): number {
+    return this.speedFactor;
+  }
+
+  set speed(value: number) {
+    this.speedFactor = value > 0 ? value : 1;
+  }
+
+  get components(): any {
+    return collection(this.componentList, 'numItems');
+  }
+
+  getTrack(): Track {
+    return this.track;
+  }
+
+  getSpeed(): number {
+    return this.speedFactor;
+  }
+
+  hasAudio(): boolean {
+    return this.mediaType === 'Audio' || this.linked.some(item => item.mediaType === 'Audio');
+  }
+
+  isSelected(): boolean {
+    return false;
+  }
+
+  getLinkedItems(): any {
+    return collection(this.linked, 'numItems');
+  }
+
+  addEffect(name: string): Component | null {
+    const catalog = this.mediaType === 'Video' ? VIDEO_EFFECTS : AUDIO_EFFECTS;
+    const definition = findEffect(catalog, name);
+    if (!definition) {
+      return null;
+    }
+    const component = new Component(definition.name, definition.matchName, definition.parameters);
+    this.componentList.push(component);
+    return component;
+  }
+
+  /** Applied effects, excluding the intrinsic Opacity/Motion/Volume components */
+  getEffects(): Component[] {
+    return this.componentList.slice(this.mediaType === 'Video' ? 2 : 1);
+  }
+
+  removeEffect(component: Component): boolean {
+    const index = this.componentList.indexOf(component);
+    if (index === -1) {
+      return false;
+    }
+    this.componentList.splice(index, 1);
+    return true;
+  }
+
+  remove(ripple: boolean): boolean {
+    this.track.removeClip(this, ripple);
+    return true;
+  }
+
+  cloneTo(track: Track): TrackItem {
+    const copy = new TrackItem(track, this.projectItem, this.startSeconds);
+    copy.name = this.name;
+    copy.inSeconds = this.inSeconds;
+    copy.outSeconds = this.outSeconds;
+    copy.speedFactor = this.speedFactor;
+    copy.disabled = this.disabled;
+    copy.componentList = this.componentList.map(component => component.cloneComponent());
+    return copy;
+  }
+}
+
+export class Transition {
+  nodeId: string;
+  name: string;
+  matchName: string;
+  startSeconds: number;
+  endSeconds: number;
+  alignment: 'start' | 'center' | 'end';
+  clips: TrackItem[];
+
+  constructor(track: Track, definition: { name: string; matchName: string }, clips: TrackItem[], startSeconds: number, endSeconds: number, alignment: 'start' | 'center' | 'end') {
+    this.nodeId = track.sequence.project.nextNodeId();
+    this.name = definition.name;
+    this.matchName = definition.matchName;
+    this.clips = clips;
+    this.startSeconds = startSeconds;
+    this.endSeconds = endSeconds;
+    this.alignment = alignment;
+  }
+
+  get start(): Time {
+    return new Time(this.startSeconds);
+  }
+
+  get end(): Time {
+    return new Time(this.endSeconds);
+  }
+
+  get duration(): Time {
+    return new Time(this.endSeconds - this.startSeconds);
+  }
+}
+
+export class Track {
+  id: string;
+  name: string;
+  type: 'video' | 'audio';
+  sequence: Sequence;
+  locked = false;
+  muted = false;
+  targeted = true;
+  /** Sync lock and audio channel type are only reachable through the QE DOM */
+  syncLocked = true;
+  audioChannelType: number = QE_AUDIO_TRACK_TYPES.stereo;
+  items: TrackItem[] = [];
+  transitionList: Transition[] = [];
+
+  constructor(sequence: Sequence, type: 'video' | 'audio', name: string) {
+    this.id = sequence.project.nextNodeId();
+    this.sequence = sequence;
+    this.type = type;
+    this.name = name;
+  }
+
+  get index(): number {
+    const tracks = this.type === 'video' ? this.sequence.videoTrackList : this.sequence.audioTrackList;
+    return tracks.indexOf(this);
+  }
+
+  get enabled(): boolean {
+    return !this.muted;
+  }
+
+  get clips(): any {
+    return collection(this.sortedItems(), 'numItems');
+  }
+
+  get transitions(): any {
+    return collection([...this.transitionList].sort((a, b) => a.startSeconds - b.startSeconds), 'numItems');
+  }
+
+  sortedItems(): TrackItem[] {
+    return [...this.items].sort((a, b) => a.startSeconds - b.startSeconds);
+  }
+
+  isTargeted(): boolean {
+    return this.targeted;
+  }
+
+  setTargeted(targeted: boolean): boolean {
+    this.targeted = !!targeted;
+    return true;
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  setLocked(locked: boolean): boolean {
+    this.locked = !!locked;
+    return true;
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  setMute(muted: boolean): boolean {
+    this.muted = !!muted;
+    return true;
+  }
+
+  private assertUnlocked(): void {
+    if (this.locked) {
+      throw new Error(`Track ${this.name} is locked`);
+    }
+  }
+
+  /** Shift every item starting at or after `fromSeconds` by `delta` */
+  private ripple(fromSeconds: number, delta: number, exclude?: TrackItem): void {
+    for (const item of this.items) {
+      if (item !== exclude && item.startSeconds >= fromSeconds - 1e-9) {
+        item.startSeconds += delta;
+      }
+    }
+    for (const transition of this.transitionList) {
+      if (transition.startSeconds >= fromSeconds - 1e-9) {
+        transition.startSeconds += delta;
+        transition.endSeconds += delta;
+      }
+    }
+  }
+
+  /**
+   * Insert edit: everything at or after the insert point moves right. Passing
+   * an existing track item moves it onto this track instead.
+   */
+  insertClip(source: ProjectItem | TrackItem, time: any): TrackItem {
+    this.assertUnlocked();
+    const seconds = Time.from(time).seconds;
+
+    if (source instanceof TrackItem) {
+      if (source.track !== this) {
+        source.track.detach(source);
+      }
+      source.track = this;
+      source.startSeconds = seconds;
+      if (!this.items.includes(source)) {
+        this.items.push(source);
+      }
+      return source;
+    }
+
+    // Audio-only media lands on the matching audio track, like dragging it in
+    if (this.type === 'video' && !source.video && source.audio) {
+      const audioTrack = this.sequence.audioTrackList[this.index] ?? this.sequence.audioTrackList[0];
+      if (!audioTrack) {
+        throw new Error('Sequence has no audio track for audio-only media');
+      }
+      return audioTrack.insertClip(source, seconds);
+    }
+
+    const item = new TrackItem(this, source, seconds);
+    this.ripple(seconds, item.durationSeconds);
+    this.items.push(item);
+
+    if (this.type === 'video' && source.audio) {
+      const audioTrack = this.sequence.audioTrackList[this.index];
+      if (audioTrack && !audioTrack.locked) {
+        const audioItem = new TrackItem(audioTrack, source, seconds);
+        audioTrack.ripple(seconds, audioItem.durationSeconds);
+        audioTrack.items.push(audioItem);
+        item.linked.push(audioItem);
+        audioItem.linked.push(item);
+      }
+    }
+
+    return item;
+  }
+
+  /** Overwrite edit: the new clip replaces whatever occupies its range */
+  overwriteClip(source: ProjectItem, time: any): TrackItem {
+    this.assertUnlocked();
+    const seconds = Time.from(time).seconds;
+    const item = new TrackItem(this, source, seconds);
+    this.clearRange(seconds, item.endSeconds);
+    this.items.push(item);
+    return item;
+  }
+
+  /** Lift everything between two times, trimming clips that straddle the edges */
+  clearRange(fromSeconds: number, toSeconds: number): void {
+    for (const existing of [...this.items]) {
+      if (existing.endSeconds <= fromSeconds + 1e-9 || existing.startSeconds >= toSeconds - 1e-9) {
+        continue;
+      }
+      if (existing.startSeconds >= fromSeconds - 1e-9 && existing.endSeconds <= toSeconds + 1e-9) {
+        this.detach(existing);
+      } else if (existing.startSeconds < fromSeconds) {
+        if (existing.endSeconds > toSeconds) {
+          const tail = existing.cloneTo(this);
+          tail.inSeconds = existing.inSeconds + (toSeconds - existing.startSeconds) * existing.speedFactor;
+          tail.startSeconds = toSeconds;
+          this.items.push(tail);
+        }
+        existing.end = new Time(fromSeconds);
+      } else {
+        existing.inSeconds += (toSeconds - existing.startSeconds) * existing.speedFactor;
+        existing.startSeconds = toSeconds;
+      }
+    }
+  }
+
+  removeClip(item: TrackItem, ripple: boolean): boolean {
+    this.assertUnlocked();
+    if (!this.items.includes(item)) {
+      throw new Error('Clip is not on this track');
+    }
+    const { startSeconds, durationSeconds } = item;
+    this.detach(item);
+    if (ripple) {
+      this.ripple(startSeconds, -durationSeconds);
+    }
+    return true;
+  }
+
+  /** Take an item off the track without moving anything else */
+  detach(item: TrackItem): void {
+    this.items = this.items.filter(existing => existing !== item);
+    this.transitionList = this.transitionList.filter(transition => !transition.clips.includes(item));
+    for (const linked of item.linked) {
+      linked.linked = linked.linked.filter(other => other !== item);
+    }
+  }
+
+  splitClip(item: TrackItem, time: any): TrackItem {
+    this.assertUnlocked();
+    const seconds = Time.from(time).seconds;
+    if (seconds <= item.startSeconds || seconds >= item.endSeconds) {
+      throw new Error('Split point is outside the clip');
+    }
+    const tail = item.cloneTo(this);
+    tail.startSeconds = seconds;
+    tail.inSeconds = item.inSeconds + (seconds - item.startSeconds) * item.speedFactor;
+    item.end = new Time(seconds);
+    this.items.push(tail);
+    return tail;
+  }
+
+  addTransition(name: string, clip: TrackItem, other: TrackItem | 'start' | 'end', duration: number): Transition | null {
+    const catalog = this.type === 'video' ? VIDEO_TRANSITIONS : AUDIO_TRANSITIONS;
+    const definition = catalog.find(t => t.name === name || t.matchName === name);
+    if (!definition) {
+      return null;
+    }
+    const length = Time.from(duration).seconds;
+
+    let transition: Transition;
+    if (other instanceof TrackItem) {
+      // Centred on the cut between the two clips
+      const cut = clip.endSeconds;
+      transition = new Transition(this, definition, [clip, other], cut - length / 2, cut + length / 2, 'center');
+    } else if (other === 'start') {
+      transition = new Transition(this, definition, [clip], clip.startSeconds, clip.startSeconds + length, 'start');
+    } else {
+      transition = new Transition(this, definition, [clip], clip.endSeconds - length, clip.endSeconds, 'end');
+    }
+    this.transitionList.push(transition);
+    return transition;
+  }
+}
+
+export class Sequence {
+  sequenceID: string;
+  project: Project;
+  projectItem: ProjectItem;
+  framerate: number;
+  frameSizeHorizontal = 1920;
+  frameSizeVertical = 1080;
+  pixelAspectRatio = '1:1';
+  fieldType = 0;
+  audioSampleRate = 48000;
+  videoTrackList: Track[] = [];
+  audioTrackList: Track[] = [];
+  markerCollection = new MarkerCollection();
+  exportedFrames: Array<{ time: number; outputPath: string; format: string }> = [];
+
+  constructor(project: Project, name: string, projectItem: ProjectItem, frameRate = 25) {
+    this.project = project;
+    this.sequenceID = uuidv4();
+    this.projectItem = projectItem;
+    this.projectItem.name = name;
+    this.framerate = frameRate;
+    for (let i = 0; i < 3; i++) {
+      this.videoTrackList.push(new Track(this, 'video', `Video ${i + 1}`));
+      this.audioTrackList.push(new Track(this, 'audio', `Audio ${i + 1}`));
+    }
+  }
+
+  /** A sequence and its project item share one name */
+  get name(): string {
+    return this.projectItem.name;
+  }
+
+  set name(name: string) {
+    this.projectItem.name = name;
+  }
+
+  get frameRate(): number {
+    return this.framerate;
+  }
+
+  /** Ticks per frame, as Premiere reports it */
+  get timebase(): string {
+    return String(frameRateToTicksPerFrame(this.framerate));
+  }
+
+  get zeroPoint(): Time {
+    return new Time(0);
+  }
+
+  get end(): Time {
+    let end = 0;
+    for (const track of [...this.videoTrackList, ...this.audioTrackList]) {
+      for (const item of track.items) {
+        end = Math.max(end, item.endSeconds);
+      }
+    }
+    return new Time(end);
+  }
+
+  get duration(): Time {
+    return this.end;
+  }
+
+  get frameBounds(): { width: number; height: number } {
+    return { width: this.frameSizeHorizontal, height: this.frameSizeVertical };
+  }
+
+  get videoTracks(): any {
+    return collection(this.videoTrackList, 'numTracks');
+  }
+
+  get audioTracks(): any {
+    return collection(this.audioTrackList, 'numTracks');
+  }
+
+  get markers(): any {
+    return markerCollectionProxy(this.markerCollection);
+  }
+
+  getSettings(): Record<string, any> {
+    return {
+      videoFrameRate: new Time(1 / this.framerate),
+      videoFrameWidth: this.frameSizeHorizontal,
+      videoFrameHeight: this.frameSizeVertical,
+      audioSampleRate: this.audioSampleRate
+    };
+  }
+
+  setSettings(settings: Record<string, any>): boolean {
+    if (settings.videoFrameRate !== undefined) {
+      const frameDuration = Time.from(settings.videoFrameRate).seconds;
+      if (frameDuration > 0) {
+        this.framerate = Math.round(1000 / frameDuration) / 1000;
+      }
+    }
+    if (settings.videoFrameWidth) {
+      this.frameSizeHorizontal = Number(settings.videoFrameWidth);
+    }
+    if (settings.videoFrameHeight) {
+      this.frameSizeVertical = Number(settings.videoFrameHeight);
+    }
+    if (settings.audioSampleRate) {
+      this.audioSampleRate = Number(settings.audioSampleRate);
+    }
+    return true;
+  }
+
+  allTracks(): Track[] {
+    return [...this.videoTrackList, ...this.audioTrackList];
+  }
+
+  clone(): Sequence {
+    const copy = this.project.addSequence(`${this.name} Copy`, this.framerate);
+    copy.frameSizeHorizontal = this.frameSizeHorizontal;
+    copy.frameSizeVertical = this.frameSizeVertical;
+    const copies = new Map<TrackItem, TrackItem>();
+    const cloneTracks = (source: Track[], target: Track[], type: 'video' | 'audio') => {
+      target.length = 0;
+      for (const track of source) {
+        const trackCopy = new Track(copy, type, track.name);
+        trackCopy.locked = track.locked;
+        trackCopy.muted = track.muted;
+        trackCopy.targeted = track.targeted;
+        trackCopy.syncLocked = track.syncLocked;
+        trackCopy.audioChannelType = track.audioChannelType;
+        for (const item of track.items) {
+          const itemCopy = item.cloneTo(trackCopy);
+          copies.set(item, itemCopy);
+          trackCopy.items.push(itemCopy);
+        }
+        target.push(trackCopy);
+      }
+    };
+    cloneTracks(this.videoTrackList, copy.videoTrackList, 'video');
+    cloneTracks(this.audioTrackList, copy.audioTrackList, 'audio');
+    for (const [original, itemCopy] of copies) {
+      itemCopy.linked = original.linked.map(item => copies.get(item)).filter((item): item is TrackItem => !!item);
+    }
+    return copy;
+  }
+
+  exportFrame(time: any, outputPath: string, format: string): boolean {
+    this.exportedFrames.push({ time: Time.from(time).seconds, outputPath, format });
+    return true;
+  }
+}
+
+export class Project {
+  documentID: string;
+  name: string;
+  path: string;
+  scratchDiskPath = '';
+  captureFormat = '';
+  previewFormat = '';
+  creationTime: string;
+  modificationTime: string;
+  rootItem: ProjectItem;
+  sequenceList: Sequence[] = [];
+  activeSequence: Sequence | null = null;
+  private nodeCounter = 0;
+
+  constructor(name: string, path: string) {
+    this.documentID = uuidv4();
+    this.name = name;
+    this.path = path;
+    this.creationTime = new Date().toISOString();
+    this.modificationTime = this.creationTime;
+    this.rootItem = new ProjectItem(this, name, ProjectItemType.ROOT);
+  }
+
+  nextNodeId(): string {
+    this.nodeCounter += 1;
+    return String(1000000 + this.nodeCounter);
+  }
+
+  get sequences(): any {
+    return collection(this.sequenceList, 'numSequences');
+  }
+
+  /** Like Premiere, true once anything in the project changes after a save */
+  get dirty(): boolean {
+    return graphSignature(this) !== savedSignatures.get(this);
+  }
+
+  save(): boolean {
+    this.modificationTime = new Date().toISOString();
+    savedSignatures.set(this, graphSignature(this));
+    projectApps.get(this)?.writeProjectFile(this);
+    return true;
+  }
+
+  closeDocument(saveFirst?: boolean, _promptIfDirty?: boolean): boolean {
+    if (saveFirst) {
+      this.save();
+    }
+    projectApps.get(this)?.closeProject(this);
+    return true;
+  }
+
+  saveAs(path: string): boolean {
+    this.path = String(path);
+    this.name = basename(this.path);
+    return this.save();
+  }
+
+  createFootageItem(path: string): ProjectItem {
+    return new ProjectItem(this, basename(path), ProjectItemType.CLIP, footageMedia(path));
+  }
+
+  /** Like Premiere, reports only whether the import worked; the items land in the target bin */
+  importFiles(paths: string[], _suppressUI?: boolean, targetBin?: ProjectItem, _importAsNumberedStills?: boolean): boolean {
+    const bin = targetBin ?? this.rootItem;
+    for (const path of paths) {
+      bin.addChild(this.createFootageItem(String(path)));
+    }
+    return true;
+  }
+
+  addSequence(name: string, frameRate?: number): Sequence {
+    const item = new ProjectItem(this, name, ProjectItemType.SEQUENCE, { video: true, audio: true });
+    const sequence = new Sequence(this, name, item, frameRate);
+    item.sequence = sequence;
+    item.frameRate = sequence.framerate;
+    this.rootItem.addChild(item);
+    this.sequenceList.push(sequence);
+    return sequence;
+  }
+
+  createNewSequence(name: string, _presetPath?: string): Sequence {
+    const sequence = this.addSequence(String(name));
+    this.activeSequence = sequence;
+    return sequence;
+  }
+
+  deleteSequence(sequence: Sequence): boolean {
+    if (!this.sequenceList.includes(sequence)) {
+      return false;
+    }
+    this.sequenceList = this.sequenceList.filter(existing => existing !== sequence);
+    sequence.projectItem.parent?.removeChild(sequence.projectItem);
+    if (this.activeSequence === sequence) {
+      this.activeSequence = this.sequenceList[0] ?? null;
+    }
+    return true;
+  }
+
+  openSequence(sequenceId: string): boolean {
+    const sequence = this.getSequenceByID(sequenceId);
+    if (sequence) {
+      this.activeSequence = sequence;
+    }
+    return !!sequence;
+  }
+
+  getSequenceByID(id: string): Sequence | null {
+    return this.sequenceList.find(sequence => sequence.sequenceID === id) ?? null;
+  }
+
+  allProjectItems(): ProjectItem[] {
+    const results: ProjectItem[] = [];
+    const walk = (item: ProjectItem) => {
+      for (const child of item.allChildren()) {
+        results.push(child);
+        walk(child);
+      }
+    };
+    walk(this.rootItem);
+    return results;
+  }
+
+  getProjectItemByID(id: string): ProjectItem | null {
+    return this.allProjectItems().find(item => item.nodeId === id) ?? null;
+  }
+
+  getClipByID(id: string): TrackItem | null {
+    for (const sequence of this.sequenceList) {
+      for (const track of sequence.allTracks()) {
+        const item = track.items.find(candidate => candidate.nodeId === id);
+        if (item) {
+          return item;
+        }
+      }
+    }
+    return null;
+  }
+
+  getTrackByID(id: string): Track | null {
+    for (const sequence of this.sequenceList) {
+      const track = sequence.allTracks().find(candidate => candidate.id === id);
+      if (track) {
+        return track;
+      }
+    }
+    return null;
+  }
+
+  createNewTitle(text: string): ProjectItem {
+    const item = new ProjectItem(this, String(text).slice(0, 64) || 'Title', ProjectItemType.CLIP, {
+      duration: DEFAULT_STILL_DURATION,
+      video: true
+    });
+    item.title = { text: String(text) };
+    this.rootItem.addChild(item);
+    return item;
+  }
+
+  createMulticamSource(name: string, files: string[], _syncMethod: string): ProjectItem {
+    const bin = this.rootItem.createBin(`${name} Angles`);
+    const angles = files.map(file => bin.addChild(this.createFootageItem(String(file))));
+    const item = new ProjectItem(this, String(name), ProjectItemType.CLIP, {
+      duration: Math.max(0, ...angles.map(angle => angle.durationSeconds)),
+      frameRate: 25,
+      video: true,
+      audio: true
+    });
+    return this.rootItem.addChild(item);
+  }
+
+  createSequenceFromMulticamSource(name: string, source: ProjectItem): Sequence {
+    const sequence = this.createNewSequence(name);
+    sequence.videoTrackList[0]?.insertClip(source, 0);
+    return sequence;
+  }
+}
+
+/**
+ * Rendering of everything reachable from a project graph, so two renderings
+ * differ exactly when something in the graph changed
+ */
+function graphSignature(root: unknown): string {
+  const seen = new Map<object, number>();
+  const render = (value: any): string => {
+    if (typeof value === 'function') {
+      return '';
+    }
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value) ?? 'undefined';
+    }
+    const id = seen.get(value);
+    if (id !== undefined) {
+      return `#${id}`;
+    }
+    seen.set(value, seen.size);
+    if (Array.isArray(value)) {
+      return `[${value.map(render).join(',')}]`;
+    }
+    return `{${Object.keys(value).map(key => `${key}:${render(value[key])}`).join(',')}}`;
+  };
+  return render(root);
+}
+
+/**
+ * Deep copy of a project graph that keeps prototypes and shared references,
+ * standing in for a project file written to disk
+ */
+function cloneGraph<T>(root: T): T {
+  const copies = new Map<any, any>();
+  const copy = (value: any): any => {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (copies.has(value)) {
+      return copies.get(value);
+    }
+    if (Array.isArray(value)) {
+      const list: any[] = [];
+      copies.set(value, list);
+      value.forEach(entry => list.push(copy(entry)));
+      return list;
+    }
+    const clone = Object.create(Object.getPrototypeOf(value));
+    copies.set(value, clone);
+    for (const key of Object.keys(value)) {
+      clone[key] = copy(value[key]);
+    }
+    if (value instanceof ProjectItem) {
+      itemProjects.set(clone, copy(projectOf(value)));
+    }
+    return clone;
+  };
+  return copy(root);
+}
+
+export class Encoder {
+  ENCODE_ENTIRE = 0;
+  ENCODE_IN_TO_OUT = 1;
+  ENCODE_WORKAREA = 2;
+  jobs: Array<Record<string, any>> = [];
+
+  encodeSequence(sequence: Sequence, outputPath: string, presetPath: string, workArea: number, removeOnCompletion: boolean): string {
+    const jobId = uuidv4();
+    this.jobs.push({ jobId, kind: 'encode', sequenceId: sequence?.sequenceID, outputPath, presetPath, workArea, removeOnCompletion });
+    return jobId;
+  }
+
+  createProxyJob(items: ProjectItem[], preset: string): string {
+    const jobId = uuidv4();
+    this.jobs.push({ jobId, kind: 'proxy', itemIds: items.map(item => item.nodeId), preset });
+    return jobId;
+  }
+
+  getExportPresets(): typeof EXPORT_PRESETS {
+    return EXPORT_PRESETS;
+  }
+}
+
+export class ProjectManagerOptions {
+  CLIP_TRANSFER_COPY = 'CLIP_TRANSFER_COPY';
+  CLIP_TRANSFER_TRANSCODE = 'CLIP_TRANSFER_TRANSCODE';
+  CLIP_TRANSCODE_MATCH_PRESET = 'CLIP_TRANSCODE_MATCH_PRESET';
+  CLIP_TRANSCODE_MATCH_CLIPS = 'CLIP_TRANSCODE_MATCH_CLIPS';
+  CLIP_TRANSCODE_MATCH_SEQUENCE = 'CLIP_TRANSCODE_MATCH_SEQUENCE';
+  clipTransferOption = this.CLIP_TRANSFER_COPY;
+  clipTranscoderOption = this.CLIP_TRANSCODE_MATCH_SEQUENCE;
+  destinationPath = '';
+  encoderPresetFilePath = '';
+  excludeUnused = true;
+  handleFrameCount = 0;
+  includeAllSequences = true;
+  includePreviews = false;
+  includeConformedAudio = false;
+  renameMedia = false;
+}
+
+/**
+ * Project Manager. Nothing is transcoded: the media each run would take is
+ * copied whole into a Copied_ folder, as a stand-in for its output.
+ */
+export class ProjectManager {
+  options = new ProjectManagerOptions();
+  errors: string[] = [];
+  runs: Array<ProjectManagerOptions & { itemIds: string[] }> = [];
+
+  process(project: Project): number {
+    this.errors = [];
+    if (!this.options.destinationPath || !existsSync(this.options.destinationPath)) {
+      this.errors.push(`Destination not found: ${this.options.destinationPath}`);
+      return 1;
+    }
+    if (this.options.clipTransferOption === this.options.CLIP_TRANSFER_TRANSCODE && !existsSync(this.options.encoderPresetFilePath)) {
+      this.errors.push(`Preset not found: ${this.options.encoderPresetFilePath}`);
+      return 1;
+    }
+    const used = new Set(project.sequenceList.flatMap(sequence =>
+      sequence.allTracks().flatMap(track => track.items.map(item => item.projectItem))));
+    const items = project.allProjectItems().filter(item =>
+      item.type === ProjectItemType.CLIP && item.mediaPath && !item.isOffline() && (!this.options.excludeUnused || used.has(item)));
+    const folder = join(this.options.destinationPath, `Copied_${basename(project.path, '.prproj')}`);
+    mkdirSync(folder, { recursive: true });
+    for (const item of items) {
+      copyFileSync(item.mediaPath, join(folder, basename(item.mediaPath)));
+    }
+    this.runs.push({ ...this.options, itemIds: items.map(item => item.nodeId) });
+    return 0;
+  }
+}
+
+export class Application {
+  version = '25.0.0 (simulated)';
+  project: Project;
+  encoder = new Encoder();
+  projectManager = new ProjectManager();
+
+  private openProjects: Project[] = [];
+  /** Projects as last saved, by path, so they open again as they were written */
+  private projectFiles = new Map<string, Project>();
+
+  constructor() {
+    this.project = this.open(new Project('Untitled', '/tmp/Untitled.prproj'));
+  }
+
+  get projects(): any {
+    return collection(this.openProjects, 'numProjects');
+  }
+
+  newProject(name: string, location: string): boolean {
+    this.open(new Project(String(name), join(String(location), `${name}.prproj`)));
+    return true;
+  }
+
+  /** Switches to the project if it's already open; paths never saved open as empty projects */
+  openDocument(path: string): boolean {
+    const open = this.openProjects.find(project => project.path === String(path));
+    if (open) {
+      this.project = open;
+      return true;
+    }
+    const saved = this.projectFiles.get(String(path));
+    this.open(saved ? cloneGraph(saved) : new Project(basename(String(path), '.prproj'), String(path)));
+    return true;
+  }
+
+  writeProjectFile(project: Project): void {
+    this.projectFiles.set(project.path, cloneGraph(project));
+  }
+
+  /** A copy of the project as last saved to a path, for checking what was written */
+  readProjectFile(path: string): Project | undefined {
+    const saved = this.projectFiles.get(String(path));
+    return saved ? cloneGraph(saved) : undefined;
+  }
+
+  closeProject(project: Project): void {
+    this.openProjects = this.openProjects.filter(open => open !== project);
+    projectApps.delete(project);
+    if (this.project === project) {
+      this.project = this.openProjects[this.openProjects.length - 1] ?? this.open(new Project('Untitled', '/tmp/Untitled.prproj'));
+    }
+  }
+
+  /** Opened projects exist on disk, so they're written straight away */
+  private open(project: Project): Project {
+    projectApps.set(project, this);
+    this.openProjects.push(project);
+    this.project = project;
+    project.save();
+    return project;
+  }
+
+  enableQE(): boolean {
+    return true;
+  }
+
+  getAvailableVideoEffects(): EffectDefinition[] {
+    return VIDEO_EFFECTS;
+  }
+
+  getAvailableAudioEffects(): EffectDefinition[] {
+    return AUDIO_EFFECTS;
+  }
+
+  getAvailableVideoTransitions(): typeof VIDEO_TRANSITIONS {
+    return VIDEO_TRANSITIONS;
+  }
+
+  getAvailableAudioTransitions(): typeof AUDIO_TRANSITIONS {
+    return AUDIO_TRANSITIONS;
+  }
+}
+
+/** Audio track types as QE's addTracks takes them */
+export const QE_AUDIO_TRACK_TYPES = { mono: 0, stereo: 1, '5.1': 2, adaptive: 3 } as const;
+
+/** A track as the QE DOM sees it */
+export class QETrack {
+  private track: Track;
+
+  constructor(track: Track) {
+    this.track = track;
+  }
+
+  get name(): string {
+    return this.track.name;
+  }
+
+  isLocked(): boolean {
+    return this.track.locked;
+  }
+
+  setLock(locked: boolean): void {
+    this.track.locked = !!locked;
+  }
+
+  isSyncLocked(): boolean {
+    return this.track.syncLocked;
+  }
+
+  setSyncLock(syncLocked: boolean): void {
+    this.track.syncLocked = !!syncLocked;
+  }
+
+  isMuted(): boolean {
+    return this.track.muted;
+  }
+
+  setMute(muted: boolean): void {
+    this.track.muted = !!muted;
+  }
+
+  setName(name: string): void {
+    this.track.name = String(name);
+  }
+}
+
+/**
+ * A sequence as the QE DOM sees it: the only scripting route to adding and
+ * removing tracks. QE only reaches the active sequence.
+ */
+export class QESequence {
+  private sequence: Sequence;
+
+  constructor(sequence: Sequence) {
+    this.sequence = sequence;
+  }
+
+  get name(): string {
+    return this.sequence.name;
+  }
+
+  get numVideoTracks(): number {
+    return this.sequence.videoTrackList.length;
+  }
+
+  get numAudioTracks(): number {
+    return this.sequence.audioTrackList.length;
+  }
+
+  getVideoTrackAt(index: number): QETrack {
+    return new QETrack(this.trackAt(this.sequence.videoTrackList, index));
+  }
+
+  getAudioTrackAt(index: number): QETrack {
+    return new QETrack(this.trackAt(this.sequence.audioTrackList, index));
+  }
+
+  /** New tracks go in after the track at each index, or first for -1 */
+  addTracks(videoCount: number, videoAfter: number, audioCount = 0, audioType: number = QE_AUDIO_TRACK_TYPES.stereo, audioAfter = -1): void {
+    const insert = (tracks: Track[], type: 'video' | 'audio', count: number, after: number) => {
+      const position = Math.max(0, Math.min(tracks.length, Number(after) + 1));
+      for (let i = 0; i < count; i++) {
+        const track = new Track(this.sequence, type, `${type === 'video' ? 'Video' : 'Audio'} ${tracks.length + 1}`);
+        if (type === 'audio') {
+          track.audioChannelType = Number(audioType);
+        }
+        tracks.splice(position + i, 0, track);
+      }
+    };
+    insert(this.sequence.videoTrackList, 'video', Number(videoCount) || 0, videoAfter);
+    insert(this.sequence.audioTrackList, 'audio', Number(audioCount) || 0, audioAfter);
+  }
+
+  removeVideoTrack(index: number): void {
+    this.removeTrack(this.sequence.videoTrackList, index);
+  }
+
+  removeAudioTrack(index: number): void {
+    this.removeTrack(this.sequence.audioTrackList, index);
+  }
+
+  private trackAt(tracks: Track[], index: number): Track {
+    const track = tracks[index];
+    if (!track) {
+      throw new Error(`No track at index ${index}`);
+    }
+    return track;
+  }
+
+  /** Removing a track takes its clips with it */
+  private removeTrack(tracks: Track[], index: number): void {
+    const track = this.trackAt(tracks, index);
+    for (const item of [...track.items]) {
+      track.detach(item);
+    }
+    tracks.splice(index, 1);
+  }
+}
+
+/** The `qe` global scripts get after app.enableQE() */
+export class QEApplication {
+  private app: Application;
+
+  constructor(app: Application) {
+    this.app = app;
+  }
+
+  get project(): { getActiveSequence: () => QESequence | null } {
+    const sequence = this.app.project.activeSequence;
+    return { getActiveSequence: () => sequence ? new QESequence(sequence) : null };
+  }
+}
+
+/** ExtendScript File object backed by the real filesystem */
+export class File {
+  fsName: string;
+  name: string;
+
+  constructor(path: string) {
+    this.fsName = String(path);
+    this.name = basename(this.fsName);
+  }
+
+  get exists(): boolean {
+    try {
+      return statSync(this.fsName).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
+
+/** ExtendScript Folder object backed by the real filesystem */
+export class Folder {
+  fsName: string;
+  name: string;
+
+  constructor(path: string) {
+    this.fsName = String(path);
+    this.name = basename(this.fsName);
+  }
+
+  get exists(): boolean {
+    try {
+      return statSync(this.fsName).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  getFiles(): Array<File | Folder> {
+    try {
+      return readdirSync(this.fsName, { withFileTypes: true })
+        .filter(entry => !entry.name.startsWith('.'))
+        .map(entry => {
+          const path = join(this.fsName, entry.name);
+          return entry.isDirectory() ? new Folder(path) : new File(path);
+        });
+    } catch {
+      return [];
+    }
+  }
+}
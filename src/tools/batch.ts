@@ -0,0 +1,132 @@
+/**
+ * Batch editing support
+ *
+ * A batch runs ordinary tool calls, but instead of sending each tool's
+ * script to Premiere Pro on its own, the scripts are recorded and compiled
+ * into a single payload. Premiere runs the whole batch in one round trip and
+ * hands back one result per operation, which is then fed to the tool that
+ * produced the script so its usual post-processing still applies.
+ *
+ * ExtendScript has no undo API, so a batch can't be rolled back: operations
+ * that succeed before a failure stay applied.
+ */
+
+import { PremiereProBridge } from '../bridge/index.js';
+import { buildScript } from '../bridge/script.js';
+import { ScriptExecutionError } from '../utils/errors.js';
+
+/** A script captured from a tool, waiting for its result from the batch */
+export interface RecordedScript {
+  script: string;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+/** Outcome of one operation inside the compiled batch script */
+export interface BatchScriptResult {
+  status: 'succeeded' | 'failed' | 'skipped';
+  raw?: string;
+  error?: string;
+}
+
+export interface BatchScriptOutput {
+  results: BatchScriptResult[];
+}
+
+export interface BatchOptions {
+  stopOnError: boolean;
+}
+
+/**
+ * Wraps a bridge so that `executeScript` records scripts instead of running
+ * them. Everything else, including bridge helpers that build scripts
+ * themselves, goes through the real bridge.
+ */
+export class ScriptRecorder {
+  readonly bridge: PremiereProBridge;
+  private waiting: ((entry: RecordedScript) => void) | undefined;
+  private closed = false;
+
+  constructor(bridge: PremiereProBridge) {
+    this.bridge = new Proxy(bridge, {
+      get: (target, key, receiver) => {
+        if (key === 'executeScript') {
+          return (script: string) => this.record(script);
+        }
+        return Reflect.get(target, key, receiver);
+      }
+    });
+  }
+
+  /**
+   * Resolves with the next script a tool tries to execute
+   */
+  nextScript(): Promise<RecordedScript> {
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  /**
+   * Stop accepting scripts. Tools that try to run a second script while
+   * their batch result is being processed can't be batched.
+   */
+  close(): void {
+    this.closed = true;
+    this.waiting = undefined;
+  }
+
+  private record(script: string): Promise<any> {
+    const waiting = this.waiting;
+    if (this.closed || !waiting) {
+      return Promise.reject(new ScriptExecutionError('This tool runs more than one script and cannot be part of a batch'));
+    }
+    this.waiting = undefined;
+    return new Promise((resolve, reject) => waiting({ script, resolve, reject }));
+  }
+}
+
+/**
+ * Compile recorded scripts into one payload. Each script is already a
+ * self-contained expression, so they become the bodies of an array of
+ * functions run in order.
+ */
+export function compileBatchScript(scripts: string[], options: BatchOptions): string {
+  const operations = scripts.map(script => `function () { return ${script}; }`).join(',\n');
+
+  return buildScript(`
+    var operations = [
+${operations}
+    ];
+    var results = [];
+    var failed = false;
+
+    for (var i = 0; i < operations.length; i++) {
+      if (failed && args.stopOnError) {
+        results.push({ status: 'skipped' });
+        continue;
+      }
+      try {
+        var raw = operations[i]();
+        var parsed = null;
+        try {
+          parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        } catch (parseError) {
+          parsed = null;
+        }
+        var ok = !(parsed && parsed.success === false);
+        results.push({ status: ok ? 'succeeded' : 'failed', raw: raw });
+        if (!ok) {
+          failed = true;
+        }
+      } catch (e) {
+        results.push({ status: 'failed', error: e.toString() });
+        failed = true;
+      }
+    }
+
+    return JSON.stringify({ results: results });
+  `, {
+    stopOnError: options.stopOnError
+  });
+}
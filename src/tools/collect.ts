@@ -0,0 +1,201 @@
+/**
+ * Project collection
+ *
+ * Plans and carries out copying a project's media into one folder for
+ * archiving, in folders that mirror the project's bins, and writes the
+ * manifest describing what was collected. Files are hashed as they're
+ * copied, so each is read once. A file used by several project items is
+ * copied once, into the bin of the first item using it.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { join, relative } from 'path';
+import { PremiereProMediaUsage, PremiereProProjectItem } from '../bridge/index.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { mediaFileName } from './media.js';
+
+/** Folder inside the target that the media goes into */
+export const COLLECTED_MEDIA_FOLDER = 'Media';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface CollectOptions {
+  /** Also collect media no sequence uses */
+  includeUnused?: boolean | undefined;
+}
+
+export interface CollectFile {
+  source: string;
+  destination: string;
+  /** Destination relative to the target folder, with forward slashes */
+  path: string;
+  bin: string;
+  itemIds: string[];
+  names: string[];
+  size: number;
+}
+
+export interface SkippedItem {
+  itemId: string;
+  name: string;
+  mediaPath: string;
+  reason: string;
+}
+
+export interface CollectPlan {
+  files: CollectFile[];
+  skipped: SkippedItem[];
+  totalBytes: number;
+}
+
+export interface ManifestFile {
+  path: string;
+  size: number;
+  sha256: string;
+  source?: string | undefined;
+  bin?: string | undefined;
+  itemIds?: string[] | undefined;
+}
+
+/** Characters Windows or macOS won't take in a file name */
+function safeName(name: string): string {
+  const safe = name.replace(/[<>:"/\\|?*\u0000-\u001f]/g, '_').replace(/[. ]+$/, '');
+  return safe.length > 0 ? safe : '_';
+}
+
+function relativePath(root: string, path: string): string {
+  return relative(root, path).split(/[\\/]/).join('/');
+}
+
+/**
+ * Work out where each project item's media goes. Items without a media
+ * file, such as titles, are left out silently; offline items and files
+ * that can't be read are listed as skipped. Two different files with the
+ * same name in the same bin get numbered names.
+ */
+export async function planCollect(
+  items: PremiereProProjectItem[],
+  usage: PremiereProMediaUsage[],
+  target: string,
+  options: CollectOptions = {}
+): Promise<CollectPlan> {
+  const used = new Set(usage.map(entry => entry.itemId));
+  const plan: CollectPlan = { files: [], skipped: [], totalBytes: 0 };
+  const bySource = new Map<string, CollectFile>();
+  const taken = new Set<string>();
+
+  for (const item of items) {
+    if (item.type !== 'footage' || !item.mediaPath || (!options.includeUnused && !used.has(item.id))) {
+      continue;
+    }
+    const skip = (reason: string) => plan.skipped.push({ itemId: item.id, name: item.name, mediaPath: item.mediaPath!, reason });
+    if (item.offline) {
+      skip('Media is offline');
+      continue;
+    }
+    const existing = bySource.get(item.mediaPath);
+    if (existing) {
+      existing.itemIds.push(item.id);
+      existing.names.push(item.name);
+      continue;
+    }
+    let size: number;
+    try {
+      const stats = await fs.stat(item.mediaPath);
+      if (!stats.isFile()) {
+        skip('Media is not a single file');
+        continue;
+      }
+      size = stats.size;
+    } catch (error) {
+      skip(`Media can't be read: ${getErrorMessage(error)}`);
+      continue;
+    }
+
+    const folder = join(target, COLLECTED_MEDIA_FOLDER, ...(item.bin ? item.bin.split('/').map(safeName) : []));
+    const fileName = safeName(mediaFileName(item.mediaPath));
+    const dot = fileName.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+    let destination = join(folder, fileName);
+    for (let copy = 2; taken.has(destination.toLowerCase()); copy++) {
+      destination = join(folder, `${stem} (${copy})${extension}`);
+    }
+    taken.add(destination.toLowerCase());
+
+    const file: CollectFile = {
+      source: item.mediaPath,
+      destination,
+      path: relativePath(target, destination),
+      bin: item.bin ?? '',
+      itemIds: [item.id],
+      names: [item.name],
+      size
+    };
+    bySource.set(item.mediaPath, file);
+    plan.files.push(file);
+    plan.totalBytes += size;
+  }
+  return plan;
+}
+
+/**
+ * Estimated size of media trimmed to its used span plus handles, taking
+ * size as proportional to duration. Transcoding changes sizes, so this is
+ * only a guide.
+ */
+export function estimateTrimmedSize(file: CollectFile, items: PremiereProProjectItem[], usage: PremiereProMediaUsage[], handleFrames: number): number {
+  const item = items.find(candidate => candidate.id === file.itemIds[0]);
+  const spans = usage.filter(entry => file.itemIds.includes(entry.itemId));
+  if (!item?.mediaDuration || spans.length === 0) {
+    return file.size;
+  }
+  const handles = 2 * handleFrames / (item.frameRate || 25);
+  const span = Math.max(...spans.map(entry => entry.sourceEnd)) - Math.min(...spans.map(entry => entry.sourceStart));
+  return Math.round(file.size * Math.min(1, (span + handles) / item.mediaDuration));
+}
+
+/** Copy a file, hashing it on the way through */
+export async function copyWithChecksum(source: string, destination: string): Promise<{ size: number; sha256: string }> {
+  const hash = createHash('sha256');
+  let size = 0;
+  const tap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    }
+  });
+  await pipeline(createReadStream(source), tap, createWriteStream(destination));
+  return { size, sha256: hash.digest('hex') };
+}
+
+export async function checksumFile(path: string): Promise<{ size: number; sha256: string }> {
+  const hash = createHash('sha256');
+  let size = 0;
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+  }
+  return { size, sha256: hash.digest('hex') };
+}
+
+/** Every file under a folder, as paths relative to it with forward slashes */
+export async function listCollectedFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const folders = [root];
+  while (folders.length > 0) {
+    const folder = folders.pop()!;
+    for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+      const path = join(folder, entry.name);
+      if (entry.isDirectory()) {
+        folders.push(path);
+      } else if (entry.isFile()) {
+        files.push(relativePath(root, path));
+      }
+    }
+  }
+  return files.sort();
+}
@@ -0,0 +1,135 @@
+/**
+ * Effect parameters
+ *
+ * Describes the parameters of a clip's components (its intrinsic Motion,
+ * Opacity or Volume, and any effects applied to it) for agents to target,
+ * and resolves an effect and parameter named by a tool call to their
+ * positions on the clip. Scripting reports only parameter values, so types
+ * are worked out from the values, and ranges are only known for the
+ * built-in parameters listed here.
+ */
+
+import { PremiereProClipComponents, PremiereProComponent, PremiereProParameter } from '../bridge/index.js';
+import { BLEND_MODES } from './properties.js';
+
+export type EffectParameterType = 'number' | 'boolean' | 'point' | 'choice' | 'text' | 'array' | 'unknown';
+
+export interface EffectParameterDescription {
+  index: number;
+  name: string;
+  type: EffectParameterType;
+  value: unknown;
+  /** Null when scripting doesn't expose the range */
+  min: number | null;
+  max: number | null;
+  /** Choices for a choice parameter, numbered by their position */
+  options?: readonly string[];
+  keyframeable: boolean;
+  animated: boolean;
+  keyframes: PremiereProParameter['keyframes'];
+}
+
+export interface EffectDescription {
+  index: number;
+  name: string;
+  matchName: string;
+  parameters: EffectParameterDescription[];
+}
+
+interface KnownParameter {
+  type?: EffectParameterType;
+  min?: number;
+  max?: number;
+  options?: readonly string[];
+}
+
+/** Ranges of built-in parameters, by component match name and parameter name */
+const KNOWN_PARAMETERS: Record<string, Record<string, KnownParameter>> = {
+  'AE.ADBE Opacity': {
+    'Opacity': { min: 0, max: 100 },
+    'Blend Mode': { type: 'choice', options: BLEND_MODES }
+  },
+  'AE.ADBE Motion': {
+    'Scale': { min: 0, max: 10000 },
+    'Scale Width': { min: 0, max: 10000 },
+    'Anti-flicker Filter': { min: 0, max: 1 }
+  },
+  'AE.ADBE AECrop': {
+    'Left': { min: 0, max: 100 },
+    'Top': { min: 0, max: 100 },
+    'Right': { min: 0, max: 100 },
+    'Bottom': { min: 0, max: 100 }
+  }
+};
+
+function valueType(value: unknown): EffectParameterType {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return 'text';
+  if (Array.isArray(value)) return value.length === 2 && value.every(part => typeof part === 'number') ? 'point' : 'array';
+  return 'unknown';
+}
+
+function describeParameter(component: PremiereProComponent, parameter: PremiereProParameter, index: number): EffectParameterDescription {
+  const known = KNOWN_PARAMETERS[component.matchName]?.[parameter.name] ?? {};
+  return {
+    index,
+    name: parameter.name,
+    type: known.type ?? valueType(parameter.value ?? parameter.keyframes[0]?.value),
+    value: parameter.value,
+    min: known.min ?? (known.options ? 0 : null),
+    max: known.max ?? (known.options ? known.options.length - 1 : null),
+    ...(known.options ? { options: known.options } : {}),
+    keyframeable: parameter.keyframeable,
+    animated: parameter.animated,
+    keyframes: parameter.keyframes
+  };
+}
+
+function matchesEffect(component: PremiereProComponent, effect: string): boolean {
+  return component.matchName === effect || component.name.toLowerCase() === effect.toLowerCase();
+}
+
+/** A clip's components with their parameters described, optionally only those matching an effect name */
+export function describeEffectParameters(clip: PremiereProClipComponents, effect?: string): EffectDescription[] {
+  return clip.components
+    .filter(component => effect === undefined || matchesEffect(component, effect))
+    .map(component => ({
+      index: component.index,
+      name: component.name,
+      matchName: component.matchName,
+      parameters: component.parameters.map((parameter, index) => describeParameter(component, parameter, index))
+    }));
+}
+
+/**
+ * Find a component parameter by effect match name or display name, and by
+ * parameter display name or position. `componentIndex` picks one of several
+ * instances of the same effect; otherwise the first is used. Throws with
+ * the names available when nothing matches.
+ */
+export function resolveEffectParameter(
+  clip: PremiereProClipComponents,
+  effect: string,
+  parameter: string | number,
+  componentIndex?: number
+): { component: PremiereProComponent; parameterIndex: number } {
+  const candidates = clip.components.filter(component => matchesEffect(component, effect));
+  const component = componentIndex === undefined
+    ? candidates[0]
+    : candidates.find(candidate => candidate.index === componentIndex);
+  if (!component) {
+    const available = clip.components.map(candidate => `${candidate.name} (${candidate.matchName}) at ${candidate.index}`).join(', ');
+    throw new Error(componentIndex === undefined
+      ? `Clip has no ${effect} effect; it has ${available}`
+      : `Component ${componentIndex} of the clip isn't ${effect}; the clip has ${available}`);
+  }
+  const parameterIndex = typeof parameter === 'number'
+    ? parameter
+    : component.parameters.findIndex(candidate => candidate.name.toLowerCase() === parameter.toLowerCase());
+  if (!component.parameters[parameterIndex]) {
+    const available = component.parameters.map((candidate, index) => `${index}: ${candidate.name}`).join(', ');
+    throw new Error(`${component.name} has no parameter ${parameter}; its parameters are ${available}`);
+  }
+  return { component, parameterIndex };
+}
@@ -0,0 +1,195 @@
+/**
+ * Timeline gaps
+ *
+ * Finds the empty stretches before and between clips on a sequence's
+ * tracks, and plans the clip moves that close them. Gaps can be taken per
+ * track, or across several tracks at once ("synced"), where only time that
+ * is empty on every track counts as a gap so closing it keeps the tracks in
+ * step. Everything is worked out in whole frames of the sequence; results
+ * are in seconds.
+ */
+
+import { PremiereProClip, PremiereProSequence, PremiereProTrack } from '../bridge/index.js';
+import { TICKS_PER_SECOND, TimeValue, frameRateToTicksPerFrame, secondsToTicks, ticksToTimecode, timeValueToTicks } from '../utils/time.js';
+
+export interface GapOptions {
+  /** Video track indexes to look at; every track when neither list is given */
+  videoTracks?: number[] | undefined;
+  audioTracks?: number[] | undefined;
+  /** Take gaps across all the selected tracks at once instead of track by track */
+  synced?: boolean | undefined;
+  /** Shortest gap to include; defaults to a single frame */
+  minimumGap?: TimeValue | undefined;
+}
+
+export interface TimelineGap {
+  /** Tracks the gap is on: one track, or every selected track for synced gaps */
+  tracks: string[];
+  start: number;
+  end: number;
+  duration: number;
+  startTimecode: string;
+  endTimecode: string;
+}
+
+export interface GapClipMove {
+  clipId: string;
+  name: string;
+  track: string;
+  from: number;
+  to: number;
+  offset: number;
+}
+
+export interface GapClosingPlan {
+  gaps: TimelineGap[];
+  /** Clip moves in the order to make them, earliest clip first */
+  moves: GapClipMove[];
+  warnings: string[];
+}
+
+interface SelectedTrack {
+  label: string;
+  track: PremiereProTrack;
+}
+
+interface FrameClip {
+  clip: PremiereProClip;
+  track: string;
+  start: number;
+  end: number;
+}
+
+function trackLabel(type: 'video' | 'audio', index: number): string {
+  return `${type === 'video' ? 'V' : 'A'}${index + 1}`;
+}
+
+/** The tracks to work on. Throws when a selected track doesn't exist. */
+function selectTracks(sequence: PremiereProSequence, options: GapOptions): SelectedTrack[] {
+  const all = !options.videoTracks && !options.audioTracks;
+  const selected: SelectedTrack[] = [];
+  for (const type of ['video', 'audio'] as const) {
+    const tracks = type === 'video' ? sequence.videoTracks : sequence.audioTracks;
+    const indexes = all ? tracks.map((_, index) => index) : (type === 'video' ? options.videoTracks : options.audioTracks) ?? [];
+    for (const index of indexes) {
+      const track = tracks[index];
+      if (!track) {
+        throw new Error(`Sequence has no ${type} track ${index}`);
+      }
+      selected.push({ label: trackLabel(type, index), track });
+    }
+  }
+  return selected;
+}
+
+/** Empty ranges, in frames, before and between a set of clip ranges */
+function emptyRanges(clips: Array<{ start: number; end: number }>, minimum: number): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let cursor = 0;
+  for (const clip of [...clips].sort((a, b) => a.start - b.start)) {
+    if (clip.start - cursor >= minimum) {
+      ranges.push({ start: cursor, end: clip.start });
+    }
+    cursor = Math.max(cursor, clip.end);
+  }
+  return ranges;
+}
+
+/** Conversions between seconds and the sequence's frames */
+function sequenceFrames(sequence: PremiereProSequence, options: GapOptions) {
+  const timebase = sequence.timebase ?? frameRateToTicksPerFrame(sequence.frameRate);
+  const toSeconds = (frames: number) => frames * timebase / TICKS_PER_SECOND;
+  const timecode = (frames: number) => ticksToTimecode(frames * timebase + secondsToTicks(sequence.zeroPoint ?? 0), timebase);
+  return {
+    toFrames: (seconds: number) => Math.round(secondsToTicks(seconds) / timebase),
+    toSeconds,
+    minimum: options.minimumGap === undefined ? 1 : Math.max(1, Math.round(timeValueToTicks(options.minimumGap, timebase) / timebase)),
+    describe: (gap: { tracks: string[]; start: number; end: number }): TimelineGap => ({
+      tracks: gap.tracks,
+      start: toSeconds(gap.start),
+      end: toSeconds(gap.end),
+      duration: toSeconds(gap.end - gap.start),
+      startTimecode: timecode(gap.start),
+      endTimecode: timecode(gap.end)
+    })
+  };
+}
+
+function gapsOf(sequence: PremiereProSequence, tracks: SelectedTrack[], options: GapOptions): { gaps: Array<{ tracks: string[]; start: number; end: number }>; clips: FrameClip[] } {
+  const { toFrames, minimum } = sequenceFrames(sequence, options);
+  const clips: FrameClip[] = tracks.flatMap(({ label, track }) => track.clips.map(clip => ({
+    clip,
+    track: label,
+    start: toFrames(clip.start ?? 0),
+    end: toFrames(clip.end ?? (clip.start ?? 0) + clip.duration)
+  })));
+  if (options.synced) {
+    const labels = tracks.map(({ label }) => label);
+    return { gaps: emptyRanges(clips, minimum).map(range => ({ tracks: labels, ...range })), clips };
+  }
+  const gaps = tracks.flatMap(({ label }) =>
+    emptyRanges(clips.filter(clip => clip.track === label), minimum).map(range => ({ tracks: [label], ...range })));
+  return { gaps, clips };
+}
+
+/**
+ * Find the gaps on a sequence's tracks: the time before the first clip and
+ * between clips. Time after the last clip isn't a gap. Throws when a
+ * selected track doesn't exist.
+ */
+export function findGaps(sequence: PremiereProSequence, options: GapOptions = {}): TimelineGap[] {
+  const { describe } = sequenceFrames(sequence, options);
+  return gapsOf(sequence, selectTracks(sequence, options), options).gaps.map(describe);
+}
+
+/**
+ * Plan closing the gaps on a sequence's tracks: every clip moves earlier by
+ * the length of the gaps before it. Locked tracks are left out with a
+ * warning, and a warning is added when clips end up out of step with the
+ * clips linked to them.
+ */
+export function planGapClosing(sequence: PremiereProSequence, options: GapOptions = {}): GapClosingPlan {
+  const warnings: string[] = [];
+  const tracks = selectTracks(sequence, options).filter(({ label, track }) => {
+    if (track.locked) {
+      warnings.push(`${label} is locked and was left as it is`);
+    }
+    return !track.locked;
+  });
+  const { toSeconds, describe } = sequenceFrames(sequence, options);
+  const { gaps, clips } = gapsOf(sequence, tracks, options);
+
+  const offsets = new Map<string, number>();
+  const moves: GapClipMove[] = [];
+  for (const clip of [...clips].sort((a, b) => a.start - b.start)) {
+    const closed = gaps
+      .filter(gap => gap.tracks.includes(clip.track) && gap.end <= clip.start)
+      .reduce((total, gap) => total + gap.end - gap.start, 0);
+    offsets.set(clip.clip.id, closed);
+    if (closed > 0) {
+      moves.push({
+        clipId: clip.clip.id,
+        name: clip.clip.name,
+        track: clip.track,
+        from: toSeconds(clip.start),
+        to: toSeconds(clip.start - closed),
+        offset: -toSeconds(closed)
+      });
+    }
+  }
+
+  const allClips = [...sequence.videoTracks, ...sequence.audioTracks].flatMap(track => track.clips);
+  const unsynced = moves.filter(move => {
+    const clip = allClips.find(candidate => candidate.id === move.clipId);
+    return (clip?.linkedClipIds ?? []).some(linkedId => offsets.get(linkedId) !== offsets.get(move.clipId));
+  });
+  if (unsynced.length > 0) {
+    warnings.push(`${unsynced.length} clip(s) would no longer line up with their linked clips; close gaps across synced tracks, including the linked clips' tracks, to keep them together`);
+  }
+
+  return {
+    gaps: gaps.map(describe),
+    moves,
+    warnings
+  };
+}
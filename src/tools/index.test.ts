@@ -0,0 +1,904 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PremiereProBridge } from '../bridge/index.js';
+import { PremiereProTools } from './index.js';
+
+/** A mono 16-bit WAV with a click every half second, i.e. 120 BPM */
+function clickTrack(seconds: number): Buffer {
+  const rate = 11025;
+  const samples = rate * seconds;
+  const wav = Buffer.alloc(44 + samples * 2);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(rate, 24);
+  wav.writeUInt32LE(rate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples * 2, 40);
+  for (let i = 0; i < samples; i++) {
+    const t = (i % (rate / 2)) / rate;
+    const value = t < 0.03 ? Math.sin(i * 0.9) * Math.exp(-t * 100) * 20000 : 0;
+    wav.writeInt16LE(Math.round(value), 44 + i * 2);
+  }
+  return wav;
+}
+
+/** Tools with a case below, collected as the cases are declared */
+const covered = new Set<string>();
+
+/** Declare the case for one tool */
+function tool(name: string, run: () => Promise<void>): void {
+  covered.add(name);
+  it(name, run);
+}
+
+describe('PremiereProTools in the simulator', () => {
+  let dir: string;
+  let media: string;
+  let bridge: PremiereProBridge;
+  let tools: PremiereProTools;
+
+  /** Run a tool and check it succeeded, returning its result */
+  async function call(name: string, args: Record<string, any> = {}): Promise<any> {
+    const result = await tools.executeTool(name, args);
+    if (result.success !== true) {
+      throw new Error(`${name} failed: ${JSON.stringify(result)}`);
+    }
+    return result;
+  }
+
+  async function clips(sequenceId: string, trackType: 'video' | 'audio', trackIndex: number): Promise<any[]> {
+    const result = await call('list_sequence_tracks', { sequenceId });
+    return result[`${trackType}Tracks`][trackIndex].clips;
+  }
+
+  /** Media paths of every item in a simulated project, bins included */
+  function mediaPaths(project: any): string[] {
+    const paths: string[] = [];
+    const walk = (bin: any) => {
+      for (let i = 0; i < bin.children.numItems; i++) {
+        const child = bin.children[i];
+        if (child.children?.numItems) {
+          walk(child);
+        } else if (child.getMediaPath()) {
+          paths.push(child.getMediaPath());
+        }
+      }
+    };
+    walk(project.rootItem);
+    return paths;
+  }
+
+  function simulatedSequence(id: string) {
+    const sequences = bridge.getSimulator()!.app.project.sequences;
+    for (let i = 0; i < sequences.numSequences; i++) {
+      if (sequences[i]!.sequenceID === id) {
+        return sequences[i]!;
+      }
+    }
+    throw new Error(`No sequence ${id}`);
+  }
+
+  /**
+   * A 25 fps sequence with a.mp4 at 0s and b.mov at 10s on V1, their audio
+   * on A1, and music.wav on A3
+   */
+  async function edit() {
+    const a = await call('import_media', { filePath: join(media, 'a.mp4') });
+    const b = await call('import_media', { filePath: join(media, 'b.mov') });
+    const music = await call('import_media', { filePath: join(media, 'music.wav') });
+    const { id: sequenceId } = await call('create_sequence', { name: 'Edit', frameRate: 25, width: 1920, height: 1080, sampleRate: 48000 });
+    const first = await call('add_to_timeline', { sequenceId, projectItemId: a.id, trackIndex: 0, time: 0 });
+    const second = await call('add_to_timeline', { sequenceId, projectItemId: b.id, trackIndex: 0, time: '00:00:10:00' });
+    const musicClip = await call('add_to_timeline', { sequenceId, projectItemId: music.id, trackIndex: 2, time: 0 });
+    return { a, b, music, sequenceId, first, second, musicClip };
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'premiere-tools-'));
+    media = join(dir, 'media');
+    mkdirSync(join(media, 'more', 'sub'), { recursive: true });
+    for (const file of ['a.mp4', 'b.mov', 'c.mov', 'more/d.mp4', 'more/sub/e.mp4']) {
+      writeFileSync(join(media, file), `${file} `.repeat(100));
+    }
+    writeFileSync(join(media, 'music.wav'), clickTrack(12));
+
+    bridge = new PremiereProBridge({ simulator: true });
+    await bridge.initialize();
+    tools = new PremiereProTools(bridge);
+    await call('create_project', { name: 'Show', location: dir });
+  });
+
+  afterEach(async () => {
+    await bridge.cleanup();
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('project', () => {
+    tool('create_project', async () => {
+      const project = await call('create_project', { name: 'Second', location: dir });
+      expect(project).toMatchObject({ name: 'Second', path: join(dir, 'Second.prproj'), isOpen: true });
+      expect((await call('get_project_info')).name).toBe('Second');
+    });
+
+    tool('open_project', async () => {
+      await call('create_project', { name: 'Second', location: dir });
+      const reopened = await call('open_project', { path: join(dir, 'Show.prproj') });
+      expect(reopened).toMatchObject({ name: 'Show', path: join(dir, 'Show.prproj') });
+      expect((await call('get_project_info')).name).toBe('Show');
+    });
+
+    tool('save_project', async () => {
+      await call('import_media', { filePath: join(media, 'a.mp4') });
+      await call('save_project');
+      await call('create_project', { name: 'Second', location: dir });
+      await call('open_project', { path: join(dir, 'Show.prproj') });
+      expect((await call('list_project_items')).items.map((item: any) => item.name)).toEqual(['a.mp4']);
+    });
+
+    tool('save_project_as', async () => {
+      expect(await call('save_project_as', { name: 'Show v2', location: dir })).toMatchObject({ newPath: join(dir, 'Show v2.prproj') });
+      expect((await call('get_project_info')).path).toBe(join(dir, 'Show v2.prproj'));
+    });
+
+    tool('collect_project', async () => {
+      await edit();
+      await call('save_project');
+      const archive = join(dir, 'archive');
+      const collected = await call('collect_project', { targetFolder: archive });
+      expect(collected.files.map((file: any) => file.path).sort()).toEqual(['Media/a.mp4', 'Media/b.mov', 'Media/music.wav']);
+      expect(readFileSync(join(archive, 'Media', 'a.mp4'), 'utf8')).toBe(readFileSync(join(media, 'a.mp4'), 'utf8'));
+      expect(existsSync(join(archive, 'manifest.json'))).toBe(true);
+      expect((await call('get_project_info')).path).toBe(join(dir, 'Show.prproj'));
+    });
+
+    it('collects into a copy, leaving the saved original as it was', async () => {
+      const { first } = await edit();
+      await call('trim_clip', { clipId: first.id, outPoint: 4 });
+      await call('save_project');
+      const app = bridge.getSimulator()!.app;
+      const original = mediaPaths(app.readProjectFile(join(dir, 'Show.prproj'))!);
+      expect(original.every(path => path.startsWith(media))).toBe(true);
+
+      const archive = join(dir, 'archive');
+      const collected = await call('collect_project', { targetFolder: archive });
+      expect(mediaPaths(app.readProjectFile(join(dir, 'Show.prproj'))!)).toEqual(original);
+      const copy = app.readProjectFile(collected.projectPath);
+      expect(copy).toBeDefined();
+      expect(mediaPaths(copy!).sort()).toEqual(['a.mp4', 'b.mov', 'music.wav'].map(file => join(archive, 'Media', file)));
+      expect(app.project.path).toBe(join(dir, 'Show.prproj'));
+      expect(app.project.dirty).toBe(false);
+    });
+
+    it('refuses to collect a project with unsaved changes', async () => {
+      const { first } = await edit();
+      await call('save_project');
+      await call('trim_clip', { clipId: first.id, outPoint: 4 });
+      expect((await call('get_project_info')).isDirty).toBe(true);
+
+      const archive = join(dir, 'archive');
+      const refused = await tools.executeTool('collect_project', { targetFolder: archive });
+      expect(refused).toMatchObject({ success: false, error: expect.stringContaining('unsaved changes') });
+      expect(existsSync(archive)).toBe(false);
+    });
+
+    tool('get_project_info', async () => {
+      const { sequenceId } = await edit();
+      expect(await call('get_project_info')).toMatchObject({
+        name: 'Show',
+        path: join(dir, 'Show.prproj'),
+        itemCount: 4,
+        sequenceCount: 1,
+        hasActiveSequence: true,
+        activeSequence: { id: sequenceId, name: 'Edit' }
+      });
+    });
+
+    tool('list_project_items', async () => {
+      await call('create_bin', { name: 'Footage' });
+      await call('import_media', { filePath: join(media, 'a.mp4') });
+      await call('import_media', { filePath: join(media, 'music.wav') });
+
+      // Only the root of the project is listed
+      const items = await call('list_project_items', { includeBins: true, includeMetadata: true });
+      expect(items.items.map((item: any) => item.name)).toEqual(['a.mp4', 'music.wav']);
+      expect(items.bins.map((bin: any) => bin.name)).toEqual(['Footage']);
+      expect(items.items[0].metadata).toMatchObject({ width: 1920, height: 1080, hasVideo: true });
+      expect(items.items[1].metadata).toMatchObject({ hasVideo: false, hasAudio: true });
+    });
+
+    tool('list_sequences', async () => {
+      const { sequenceId } = await edit();
+      const sequences = await call('list_sequences');
+      expect(sequences.sequences).toEqual([expect.objectContaining({ id: sequenceId, name: 'Edit', width: 1920, height: 1080, frameRate: 25, duration: 20 })]);
+    });
+
+    tool('list_sequence_tracks', async () => {
+      const { sequenceId, first, second, musicClip } = await edit();
+      const tracks = await call('list_sequence_tracks', { sequenceId });
+      expect(tracks.videoTracks[0].clips.map((clip: any) => [clip.id, clip.startTime, clip.endTime])).toEqual([[first.id, 0, 10], [second.id, 10, 20]]);
+      expect(tracks.videoTracks[0].clips[1].startTimecode).toBe('00:00:10:00');
+      expect(tracks.audioTracks[2].clips.map((clip: any) => clip.id)).toEqual([musicClip.id]);
+    });
+  });
+
+  describe('media', () => {
+    tool('import_media', async () => {
+      const a = await call('import_media', { filePath: join(media, 'a.mp4') });
+      expect(a).toMatchObject({ name: 'a.mp4', binName: 'Root', mediaPath: join(media, 'a.mp4'), duration: 10, frameRate: 25 });
+      const music = await call('import_media', { filePath: join(media, 'music.wav') });
+      expect(music).toMatchObject({ name: 'music.wav', frameRate: 0 });
+    });
+
+    tool('import_folder', async () => {
+      await call('create_bin', { name: 'Footage' });
+      const folder = await call('import_folder', { folderPath: join(media, 'more'), binName: 'Footage', recursive: true });
+      expect(folder.importedItems.map((item: any) => item.name)).toEqual(['d.mp4', 'e.mp4']);
+      expect(folder.totalErrors).toBe(0);
+
+      const footage = bridge.getSimulator()!.app.project.rootItem.children[0]!;
+      expect(footage.children.numItems).toBe(2);
+      expect([footage.children[0]!.name, footage.children[1]!.name]).toEqual(['d.mp4', 'e.mp4']);
+    });
+
+    tool('create_bin', async () => {
+      expect(await call('create_bin', { name: 'Footage' })).toMatchObject({ binName: 'Footage', parentBin: 'Root' });
+      const day = await call('create_bin', { name: 'Day 1', parentBinName: 'Footage' });
+      expect(day).toMatchObject({ binName: 'Day 1', parentBin: 'Footage' });
+
+      const footage = bridge.getSimulator()!.app.project.rootItem.children[0]!;
+      expect(footage.children[0]!.nodeId).toBe(day.binId);
+    });
+
+    tool('find_offline_media', async () => {
+      await call('import_folder', { folderPath: join(media, 'more'), recursive: true });
+      expect((await call('find_offline_media')).offlineCount).toBe(0);
+
+      renameSync(join(media, 'more'), join(media, 'moved'));
+      const offline = await call('find_offline_media');
+      expect(offline.items.map((item: any) => [item.name, item.lastKnownPath, item.fileExists])).toEqual([
+        ['d.mp4', join(media, 'more', 'd.mp4'), false],
+        ['e.mp4', join(media, 'more', 'sub', 'e.mp4'), false]
+      ]);
+    });
+
+    tool('relink_media', async () => {
+      await call('import_folder', { folderPath: join(media, 'more'), recursive: true });
+      renameSync(join(media, 'more'), join(media, 'moved'));
+
+      const dryRun = await call('relink_media', { searchRoot: media, dryRun: true });
+      expect(dryRun.summary).toMatchObject({ matched: 2, relinked: 0 });
+      expect((await call('find_offline_media')).offlineCount).toBe(2);
+
+      const relinked = await call('relink_media', { searchRoot: media });
+      expect(relinked.matches.map((match: any) => [match.status, match.newPath])).toEqual([
+        ['relinked', join(media, 'moved', 'd.mp4')],
+        ['relinked', join(media, 'moved', 'sub', 'e.mp4')]
+      ]);
+      expect((await call('find_offline_media')).offlineCount).toBe(0);
+    });
+
+    tool('replace_footage', async () => {
+      const { b } = await edit();
+      const replaced = await call('replace_footage', { projectItemId: b.id, filePath: join(media, 'c.mov') });
+      expect(replaced).toMatchObject({ previousPath: join(media, 'b.mov'), mediaPath: join(media, 'c.mov'), offline: false, clipCount: 2 });
+    });
+  });
+
+  describe('sequences and tracks', () => {
+    tool('create_sequence', async () => {
+      const sequence = await call('create_sequence', { name: 'Edit', frameRate: 25 });
+      expect(sequence).toMatchObject({ name: 'Edit', frameRate: 25 });
+      expect((await call('list_sequences')).sequences[0]).toMatchObject({ id: sequence.id, frameRate: 25, videoTrackCount: 3, audioTrackCount: 3 });
+    });
+
+    tool('duplicate_sequence', async () => {
+      const { sequenceId } = await edit();
+      const copy = await call('duplicate_sequence', { sequenceId, newName: 'Edit copy' });
+      expect(copy).toMatchObject({ originalSequenceId: sequenceId, newName: 'Edit copy' });
+      expect((await clips(copy.newSequenceId, 'video', 0)).map(clip => clip.name)).toEqual(['a.mp4', 'b.mov']);
+    });
+
+    tool('delete_sequence', async () => {
+      const { sequenceId } = await edit();
+      expect(await call('delete_sequence', { sequenceId })).toMatchObject({ deletedSequenceId: sequenceId, deletedSequenceName: 'Edit' });
+      expect((await call('list_sequences')).sequences).toEqual([]);
+    });
+
+    tool('add_track', async () => {
+      const { sequenceId } = await edit();
+      const video = await call('add_track', { sequenceId, trackType: 'video' });
+      expect(video.tracks).toEqual([expect.objectContaining({ type: 'video', index: 3 })]);
+      const audio = await call('add_track', { sequenceId, trackType: 'audio', count: 2, afterIndex: -1, channelType: 'mono' });
+      expect(audio.tracks.map((track: any) => track.index)).toEqual([0, 1]);
+      expect((await clips(sequenceId, 'audio', 4)).map(clip => clip.name)).toEqual(['music.wav']);
+    });
+
+    tool('delete_track', async () => {
+      const { sequenceId } = await edit();
+      expect((await call('delete_track', { sequenceId, trackType: 'audio', trackIndex: 1 })).track.name).toBe('Audio 2');
+      expect((await call('list_sequence_tracks', { sequenceId })).audioTracks.map((track: any) => track.name)).toEqual(['Audio 1', 'Audio 3']);
+
+      const refused = await tools.executeTool('delete_track', { sequenceId, trackType: 'video', trackIndex: 0 });
+      expect(refused.success).toBe(false);
+      expect(await clips(sequenceId, 'video', 0)).toHaveLength(2);
+    });
+
+    tool('rename_track', async () => {
+      const { sequenceId } = await edit();
+      expect((await call('rename_track', { sequenceId, trackType: 'video', trackIndex: 2, name: 'Titles' })).track.name).toBe('Titles');
+      expect((await call('list_sequence_tracks', { sequenceId })).videoTracks[2].name).toBe('Titles');
+    });
+
+    tool('set_track_state', async () => {
+      const { sequenceId } = await edit();
+      const state = await call('set_track_state', { sequenceId, trackType: 'video', trackIndex: 2, locked: true, visible: false });
+      expect(state.track).toMatchObject({ index: 2, locked: true, visible: false });
+      expect((await call('list_sequence_tracks', { sequenceId })).videoTracks[2]).toMatchObject({ locked: true, visible: false });
+    });
+
+    tool('mute_track', async () => {
+      const { sequenceId } = await edit();
+      await call('mute_track', { sequenceId, trackIndex: 1, muted: true });
+      expect(simulatedSequence(sequenceId).audioTracks[1]!.isMuted()).toBe(true);
+      await call('mute_track', { sequenceId, trackIndex: 1, muted: false });
+      expect(simulatedSequence(sequenceId).audioTracks[1]!.isMuted()).toBe(false);
+    });
+  });
+
+  describe('timeline', () => {
+    tool('add_to_timeline', async () => {
+      const { sequenceId, a } = await edit();
+      const inserted = await call('add_to_timeline', { sequenceId, projectItemId: a.id, trackIndex: 0, time: '250f', insertMode: 'insert' });
+      expect(inserted).toMatchObject({ insertMode: 'insert', name: 'a.mp4' });
+      expect((await clips(sequenceId, 'video', 0)).map(clip => [clip.name, clip.startTime, clip.endTime])).toEqual([
+        ['a.mp4', 0, 10],
+        ['a.mp4', 10, 20],
+        ['b.mov', 20, 30]
+      ]);
+    });
+
+    tool('remove_from_timeline', async () => {
+      const { sequenceId, first, second } = await edit();
+      expect(await call('remove_from_timeline', { clipId: first.id, deleteMode: 'ripple' })).toMatchObject({ clipName: 'a.mp4', deleteMode: 'ripple' });
+      expect((await clips(sequenceId, 'video', 0)).map(clip => [clip.id, clip.startTime])).toEqual([[second.id, 0]]);
+    });
+
+    tool('move_clip', async () => {
+      const { sequenceId, second } = await edit();
+      expect(await call('move_clip', { clipId: second.id, newTime: 12, newTrackIndex: 1 })).toMatchObject({ oldTime: 10, newTime: 12, newTrackIndex: 1 });
+      expect((await clips(sequenceId, 'video', 1)).map(clip => [clip.id, clip.startTime, clip.endTime])).toEqual([[second.id, 12, 22]]);
+    });
+
+    tool('trim_clip', async () => {
+      const { sequenceId, first } = await edit();
+      expect(await call('trim_clip', { clipId: first.id, inPoint: 1, outPoint: '00:00:04:00' })).toMatchObject({ newInPoint: 1, newOutPoint: 4, newDuration: 3 });
+      expect((await clips(sequenceId, 'video', 0))[0]).toMatchObject({ id: first.id, duration: 3 });
+    });
+
+    tool('split_clip', async () => {
+      const { sequenceId, second } = await edit();
+      const split = await call('split_clip', { clipId: second.id, splitTime: 3 });
+      expect(split).toMatchObject({ originalClipId: second.id, splitPoint: 13 });
+      expect((await clips(sequenceId, 'video', 0)).map(clip => [clip.id, clip.startTime, clip.endTime])).toEqual([
+        [expect.any(String), 0, 10],
+        [second.id, 10, 13],
+        [split.newClipId, 13, 20]
+      ]);
+    });
+
+    tool('ripple_trim', async () => {
+      const { sequenceId, first } = await edit();
+      const ripple = await call('ripple_trim', { clipId: first.id, edge: 'out', offset: -1 });
+      expect(ripple.clips.map((clip: any) => clip.role)).toEqual(['clip', 'linked']);
+      expect((await clips(sequenceId, 'video', 0)).map(clip => [clip.startTime, clip.endTime])).toEqual([[0, 9], [9, 19]]);
+      expect((await clips(sequenceId, 'audio', 0)).map(clip => [clip.startTime, clip.endTime])).toEqual([[0, 9], [9, 19]]);
+    });
+
+    tool('roll_edit', async () => {
+      const { sequenceId, first, second } = await edit();
+      // Give b.mov a second of media before its in point to roll into
+      await call('ripple_trim', { clipId: second.id, edge: 'in', offset: 1 });
+      const roll = await call('roll_edit', { clipId: first.id, edge: 'out', offset: '-10f' });
+      expect(roll.offset).toBeCloseTo(-0.4);
+      const [left, right] = await clips(sequenceId, 'video', 0);
+      expect(left.endTime).toBeCloseTo(9.6);
+      expect(right.startTime).toBeCloseTo(9.6);
+      expect(right.endTime).toBe(19);
+    });
+
+    tool('slip_clip', async () => {
+      const { sequenceId, second } = await edit();
+      await call('ripple_trim', { clipId: second.id, edge: 'in', offset: 1 });
+      const slip = await call('slip_clip', { clipId: second.id, offset: '-13f' });
+      expect(slip.clips.map((clip: any) => [clip.role, clip.startOffset, clip.endOffset, clip.inPointOffset])).toEqual([
+        ['clip', 0, 0, -0.52],
+        ['linked', 0, 0, -0.52]
+      ]);
+      expect((await clips(sequenceId, 'video', 0))[1]).toMatchObject({ startTime: 10, endTime: 19 });
+    });
+
+    tool('slide_clip', async () => {
+      const { sequenceId, second } = await edit();
+      const { newClipId } = await call('split_clip', { clipId: second.id, splitTime: 3 });
+      const slide = await call('slide_clip', { clipId: newClipId, offset: -0.2 });
+      expect(slide.neighbours).toEqual([expect.objectContaining({ clipId: second.id, endOffset: -0.2 })]);
+      const [, left, right] = await clips(sequenceId, 'video', 0);
+      expect(left.endTime).toBeCloseTo(12.8);
+      expect(right.startTime).toBeCloseTo(12.8);
+      expect(right.duration).toBeCloseTo(7);
+    });
+
+    tool('find_gaps', async () => {
+      const { sequenceId, a } = await edit();
+      await call('add_to_timeline', { sequenceId, projectItemId: a.id, trackIndex: 1, time: 2 });
+      const gaps = await call('find_gaps', { sequenceId, videoTracks: [1] });
+      expect(gaps).toMatchObject({ totalCount: 1, totalDuration: 2 });
+      expect(gaps.gaps).toEqual([expect.objectContaining({ tracks: ['V2'], start: 0, end: 2, endTimecode: '00:00:02:00' })]);
+    });
+
+    tool('close_gaps', async () => {
+      const { sequenceId, a } = await edit();
+      const overlay = await call('add_to_timeline', { sequenceId, projectItemId: a.id, trackIndex: 1, time: 2 });
+      const dryRun = await call('close_gaps', { sequenceId, videoTracks: [1], dryRun: true });
+      expect(dryRun.moves).toEqual([expect.objectContaining({ clipId: overlay.id, from: 2, to: 0 })]);
+      expect((await clips(sequenceId, 'video', 1))[0].startTime).toBe(2);
+
+      await call('close_gaps', { sequenceId, videoTracks: [1] });
+      expect((await clips(sequenceId, 'video', 1))[0].startTime).toBe(0);
+    });
+
+    tool('nest_clips', async () => {
+      const { sequenceId, first, second } = await edit();
+      const nest = await call('nest_clips', { sequenceId, clipIds: [first.id, second.id], name: 'Act 1' });
+      expect(nest).toMatchObject({ name: 'Act 1', clipCount: 2, parentSequenceId: sequenceId, start: 0, end: 20 });
+      expect((await clips(sequenceId, 'video', 0)).map(clip => clip.id)).toEqual([nest.nestClipId]);
+      expect((await clips(nest.sequenceId, 'video', 0)).map(clip => clip.name)).toEqual(['a.mp4', 'b.mov']);
+    });
+
+    tool('unnest_clip', async () => {
+      const { sequenceId, first, second } = await edit();
+      const nest = await call('nest_clips', { sequenceId, clipIds: [first.id, second.id] });
+      const unnested = await call('unnest_clip', { clipId: nest.nestClipId });
+      expect(unnested.clips.filter((clip: any) => clip.trackType === 'video').map((clip: any) => [clip.name, clip.start, clip.end])).toEqual([
+        ['a.mp4', 0, 10],
+        ['b.mov', 10, 20]
+      ]);
+      expect((await clips(sequenceId, 'video', 0)).map(clip => clip.name)).toEqual(['a.mp4', 'b.mov']);
+    });
+  });
+
+  describe('effects and transitions', () => {
+    tool('apply_effect', async () => {
+      const { first } = await edit();
+      const effect = await call('apply_effect', { clipId: first.id, effectName: 'Gaussian Blur', parameters: { Blurriness: 20 } });
+      expect(effect).toMatchObject({ effectId: 'AE.ADBE Gaussian Blur 2', parametersApplied: 1 });
+      const parameters = await call('get_effect_parameters', { clipId: first.id, effect: 'Gaussian Blur' });
+      expect(parameters.effects[0].parameters[0]).toMatchObject({ name: 'Blurriness', value: 20 });
+    });
+
+    tool('remove_effect', async () => {
+      const { first } = await edit();
+      await call('apply_effect', { clipId: first.id, effectName: 'Gaussian Blur' });
+      await call('remove_effect', { clipId: first.id, effectName: 'Gaussian Blur' });
+      const remaining = await call('get_effect_parameters', { clipId: first.id });
+      expect(remaining.effects.map((component: any) => component.name)).not.toContain('Gaussian Blur');
+    });
+
+    tool('get_effect_parameters', async () => {
+      const { first } = await edit();
+      const parameters = await call('get_effect_parameters', { clipId: first.id });
+      expect(parameters).toMatchObject({ clipId: first.id, name: 'a.mp4', trackType: 'video', duration: 10 });
+      expect(parameters.effects.map((component: any) => component.matchName)).toEqual(expect.arrayContaining(['AE.ADBE Motion', 'AE.ADBE Opacity']));
+    });
+
+    tool('set_effect_keyframes', async () => {
+      const { first } = await edit();
+      await call('apply_effect', { clipId: first.id, effectName: 'Gaussian Blur' });
+      await call('set_effect_keyframes', {
+        clipId: first.id,
+        effect: 'Gaussian Blur',
+        parameter: 'Blurriness',
+        action: 'add',
+        keyframes: [{ time: 0, value: 0 }, { time: '25f', value: 40, interpolation: 'hold' }]
+      });
+      const listed = await call('set_effect_keyframes', { clipId: first.id, effect: 'AE.ADBE Gaussian Blur 2', parameter: 0, action: 'list' });
+      expect(listed).toMatchObject({ animated: true, parameter: 'Blurriness' });
+      expect(listed.keyframes).toEqual([
+        { time: 0, value: 0, interpolation: 'linear' },
+        { time: 1, value: 40, interpolation: 'hold' }
+      ]);
+
+      const removed = await call('set_effect_keyframes', { clipId: first.id, effect: 'Gaussian Blur', parameter: 'Blurriness', action: 'remove', times: [0] });
+      expect(removed.keyframes).toEqual([{ time: 1, value: 40, interpolation: 'hold' }]);
+    });
+
+    tool('add_transition', async () => {
+      const { first, second } = await edit();
+      const dissolve = await call('add_transition', { clipId1: first.id, clipId2: second.id, transitionName: 'Cross Dissolve', duration: '10f' });
+      expect(dissolve).toMatchObject({ transitionName: 'Cross Dissolve', duration: 0.4, clip1Id: first.id, clip2Id: second.id });
+    });
+
+    tool('add_transition_to_clip', async () => {
+      const { first } = await edit();
+      const dip = await call('add_transition_to_clip', { clipId: first.id, transitionName: 'Dip to Black', position: 'start', duration: 1 });
+      expect(dip).toMatchObject({ transitionName: 'Dip to Black', position: 'start', duration: 1, clipId: first.id });
+    });
+  });
+
+  describe('audio', () => {
+    tool('adjust_audio_levels', async () => {
+      const { musicClip } = await edit();
+      expect(await call('adjust_audio_levels', { clipId: musicClip.id, level: -6 })).toMatchObject({ oldLevel: 0, newLevel: -6 });
+      expect(await call('adjust_audio_levels', { clipId: musicClip.id, level: 3 })).toMatchObject({ oldLevel: -6, newLevel: 3 });
+    });
+
+    tool('add_audio_keyframes', async () => {
+      const { musicClip } = await edit();
+      const keyframes = await call('add_audio_keyframes', { clipId: musicClip.id, keyframes: [{ time: 1, level: -3 }, { time: '00:00:02:00', level: 0 }] });
+      expect(keyframes.addedKeyframes).toEqual([{ time: 1, level: -3 }, { time: 2, level: 0 }]);
+      expect(keyframes.totalKeyframes).toBe(2);
+    });
+  });
+
+  describe('graphics and clip properties', () => {
+    tool('add_text_overlay', async () => {
+      const { sequenceId } = await edit();
+      const text = await call('add_text_overlay', {
+        text: 'Hello',
+        sequenceId,
+        trackIndex: 2,
+        startTime: 1,
+        duration: 2,
+        fontSize: 48,
+        color: '#FFFFFF',
+        position: { x: 50, y: 80 },
+        alignment: 'center'
+      });
+      expect((await clips(sequenceId, 'video', 2)).map(clip => [clip.id, clip.startTime, clip.endTime])).toEqual([[text.clipId, 1, 3]]);
+    });
+
+    tool('add_shape', async () => {
+      const { sequenceId } = await edit();
+      const shape = await call('add_shape', { shapeType: 'rectangle', sequenceId, trackIndex: 2, startTime: 3, duration: 1, color: '#FF0000', size: { width: 200, height: 100 } });
+      expect(shape).toMatchObject({ shapeType: 'rectangle', startTime: 3, duration: 1 });
+      expect((await clips(sequenceId, 'video', 2)).map(clip => [clip.id, clip.startTime, clip.endTime])).toEqual([[shape.clipId, 3, 4]]);
+    });
+
+    tool('color_correct', async () => {
+      const { first } = await edit();
+      const corrected = await call('color_correct', { clipId: first.id, brightness: 10, saturation: -20 });
+      expect(corrected.adjustments).toMatchObject({ brightness: 10, saturation: -20 });
+    });
+
+    tool('apply_lut', async () => {
+      const { first } = await edit();
+      const lutPath = join(dir, 'look.cube');
+      writeFileSync(lutPath, 'LUT_3D_SIZE 2\n0 0 0\n1 0 0\n0 1 0\n1 1 0\n0 0 1\n1 0 1\n0 1 1\n1 1 1\n');
+      expect(await call('apply_lut', { clipId: first.id, lutPath, intensity: 80 })).toMatchObject({ lutPath, intensity: 80 });
+    });
+
+    tool('set_clip_transform', async () => {
+      const { first } = await edit();
+      const transform = await call('set_clip_transform', { clipId: first.id, scale: 50, position: { x: 1440, y: 270 }, rotation: 5, crop: { left: 10 } });
+      expect(transform.transform).toMatchObject({ scale: 50, position: { x: 1440, y: 270 }, rotation: 5, crop: { left: 10, right: 0 } });
+
+      const zoom = await call('set_clip_transform', { clipId: first.id, keyframes: [{ time: 0, scale: 100 }, { time: 2, scale: 120, interpolation: 'bezier' }] });
+      expect(zoom.keyframes.scale).toEqual([
+        { time: 0, value: 100, interpolation: 'linear' },
+        { time: 2, value: 120, interpolation: 'bezier' }
+      ]);
+    });
+
+    tool('set_clip_opacity', async () => {
+      const { first } = await edit();
+      const opacity = await call('set_clip_opacity', { clipId: first.id, opacity: 60, blendMode: 'screen' });
+      expect(opacity.opacity).toEqual({ opacity: 60, blendMode: 'screen' });
+
+      const fade = await call('set_clip_opacity', { clipId: first.id, keyframes: [{ time: 0, opacity: 0 }, { time: 1, opacity: 100 }] });
+      expect(fade.keyframes.opacity.map((keyframe: any) => [keyframe.time, keyframe.value])).toEqual([[0, 0], [1, 100]]);
+    });
+
+    tool('get_clip_properties', async () => {
+      const { first } = await edit();
+      await call('set_clip_transform', { clipId: first.id, rotation: 5 });
+      await call('set_clip_opacity', { clipId: first.id, blendMode: 'multiply', keyframes: [{ time: 0, opacity: 0 }, { time: 1, opacity: 100, interpolation: 'hold' }] });
+
+      const properties = await call('get_clip_properties', { clipId: first.id });
+      expect(properties).toMatchObject({ clipId: first.id, name: 'a.mp4', duration: 10 });
+      expect(properties.transform).toMatchObject({ position: { x: 960, y: 540 }, scale: 100, rotation: 5 });
+      expect(properties.opacity.blendMode).toBe('multiply');
+      expect(properties.keyframes.opacity).toEqual([
+        { time: 0, value: 0, interpolation: 'linear' },
+        { time: 1, value: 100, interpolation: 'hold' }
+      ]);
+    });
+
+    tool('stabilize_clip', async () => {
+      const { first } = await edit();
+      expect(await call('stabilize_clip', { clipId: first.id, method: 'subspace', smoothness: 30 })).toMatchObject({ method: 'subspace', smoothness: 30 });
+      const parameters = await call('get_effect_parameters', { clipId: first.id });
+      expect(parameters.effects.map((component: any) => component.name)).toContain('Warp Stabilizer');
+    });
+
+    tool('speed_change', async () => {
+      const { first } = await edit();
+      expect(await call('speed_change', { clipId: first.id, speed: 2 })).toMatchObject({ oldSpeed: 1, newSpeed: 2 });
+      expect(await call('speed_change', { clipId: first.id, speed: 0.5, maintainAudio: false })).toMatchObject({ oldSpeed: 2, newSpeed: 0.5, maintainAudio: false });
+    });
+  });
+
+  describe('export', () => {
+    tool('export_sequence', async () => {
+      const { sequenceId } = await edit();
+      const outputPath = join(dir, 'edit.mp4');
+      expect(await call('export_sequence', { sequenceId, outputPath, format: 'mp4', quality: 'high' })).toMatchObject({ outputPath, format: 'H.264', quality: 'high' });
+    });
+
+    tool('export_frame', async () => {
+      const { sequenceId } = await edit();
+      const outputPath = join(dir, 'frame.png');
+      expect(await call('export_frame', { sequenceId, time: '00:00:01:00', outputPath, format: 'png' })).toMatchObject({ time: 1, outputPath, format: 'png' });
+    });
+  });
+
+  describe('interchange', () => {
+    tool('export_edl', async () => {
+      const { sequenceId } = await edit();
+      const outputPath = join(dir, 'edit.edl');
+      const edl = await call('export_edl', { sequenceId, outputPath, audioTrackIndexes: [0] });
+      expect(edl).toMatchObject({ eventCount: 2, frameRate: 25, dropFrame: false, channels: { V: 'Video 1', A: 'Audio 1' } });
+      const text = readFileSync(outputPath, 'utf8');
+      expect(text).toMatch(/^TITLE: Edit\nFCM: NON-DROP FRAME\n/);
+      expect(text).toContain('* FROM CLIP NAME: b.mov');
+    });
+
+    tool('import_edl', async () => {
+      const { sequenceId } = await edit();
+      const edl = await call('export_edl', { sequenceId, audioTrackIndexes: [0] });
+      const imported = await call('import_edl', { edl: edl.edl, sequenceName: 'From EDL' });
+      expect(imported).toMatchObject({ sequenceName: 'From EDL', eventCount: 2, unmatchedEvents: [], unmappedTransitions: [] });
+      expect((await clips(imported.sequenceId, 'video', 0)).map(clip => [clip.name, clip.startTime, clip.endTime])).toEqual([
+        ['a.mp4', 0, 10],
+        ['b.mov', 10, 20]
+      ]);
+    });
+
+    tool('export_xml', async () => {
+      const { sequenceId } = await edit();
+      const outputPath = join(dir, 'edit.xml');
+      const xml = await call('export_xml', { sequenceId, outputPath });
+      expect(xml).toMatchObject({ frameRate: 25, clipCount: 5, fileCount: 3, warnings: [] });
+      expect(readFileSync(outputPath, 'utf8')).toContain('<xmeml version="4">');
+    });
+
+    tool('import_xml', async () => {
+      const { sequenceId } = await edit();
+      const xmlPath = join(dir, 'edit.xml');
+      const xml = await call('export_xml', { sequenceId, outputPath: xmlPath });
+      const imported = await call('import_xml', { xmlPath, sequenceName: 'From XML' });
+      expect(imported).toMatchObject({ sequenceName: 'From XML', clipsPlaced: xml.clipCount, unmatchedClips: [] });
+      expect((await clips(imported.sequenceId, 'video', 0)).map(clip => [clip.name, clip.startTime, clip.endTime])).toEqual([
+        ['a.mp4', 0, 10],
+        ['b.mov', 10, 20]
+      ]);
+    });
+
+    tool('export_otio', async () => {
+      const { sequenceId } = await edit();
+      const otio = await call('export_otio', { sequenceId });
+      expect(otio).toMatchObject({ frameRate: 25, clipCount: 5, warnings: [] });
+      const timeline = JSON.parse(otio.otio);
+      expect(timeline.OTIO_SCHEMA).toBe('Timeline.1');
+      expect(timeline.tracks.children.map((track: any) => track.kind)).toEqual(['Video', 'Video', 'Video', 'Audio', 'Audio', 'Audio']);
+    });
+
+    tool('import_otio', async () => {
+      const { sequenceId } = await edit();
+      const otioPath = join(dir, 'edit.otio');
+      const otio = await call('export_otio', { sequenceId, outputPath: otioPath });
+      const imported = await call('import_otio', { otioPath, sequenceName: 'From OTIO' });
+      expect(imported).toMatchObject({ sequenceName: 'From OTIO', clipsPlaced: otio.clipCount, unmatchedClips: [] });
+      expect((await clips(imported.sequenceId, 'audio', 2)).map(clip => [clip.name, clip.startTime, clip.endTime])).toEqual([['music.wav', 0, 10]]);
+    });
+
+    tool('import_captions', async () => {
+      const { sequenceId } = await edit();
+      const captions = '1\n00:00:00,000 --> 00:00:02,000\nHello there\n\n2\n00:00:02,520 --> 00:00:04,000\nGeneral Kenobi\n';
+      const imported = await call('import_captions', { sequenceId, captions, trackIndex: 1 });
+      expect(imported).toMatchObject({ cueCount: 2 });
+      expect((await clips(sequenceId, 'video', 1)).map(clip => [clip.startTime, clip.endTime])).toEqual([[0, 2], [2.52, 4]]);
+    });
+
+    it('shifts imported captions by an offset in any time form', async () => {
+      const { sequenceId } = await edit();
+      const captions = '1\n00:00:00,000 --> 00:00:02,000\nHello there\n\n2\n00:00:02,520 --> 00:00:04,000\nGeneral Kenobi\n';
+      await call('import_captions', { sequenceId, captions, trackIndex: 1, offset: '00:00:01:12' });
+      expect((await clips(sequenceId, 'video', 1)).map(clip => [clip.startTime, clip.endTime])).toEqual([[1.48, 3.48], [4, 5.48]]);
+
+      const earlier = await call('import_captions', { sequenceId, captions, trackIndex: 2, offset: '-13f' });
+      expect(earlier.cueCount).toBe(2);
+      expect((await clips(sequenceId, 'video', 2)).map(clip => [clip.startTime, clip.endTime])).toEqual([[0, 1.48], [2, 3.48]]);
+    });
+
+    tool('export_captions', async () => {
+      const { sequenceId } = await edit();
+      await call('add_text_overlay', { text: 'Hello there', sequenceId, trackIndex: 1, startTime: 0, duration: 2 });
+      await call('add_text_overlay', { text: 'General Kenobi', sequenceId, trackIndex: 1, startTime: '63f', duration: '37f' });
+
+      const exported = await call('export_captions', { sequenceId, format: 'vtt', trackIndex: 1 });
+      expect(exported).toMatchObject({ cueCount: 2, violationCount: 0 });
+      expect(exported.captions).toMatch(/^WEBVTT\n/);
+      expect(exported.captions).toContain('00:00:02.520 --> 00:00:04.000');
+      expect(exported.captions).toContain('General Kenobi');
+    });
+
+    it('shifts exported captions by an offset in any time form', async () => {
+      const { sequenceId } = await edit();
+      await call('add_text_overlay', { text: 'Hello there', sequenceId, trackIndex: 1, startTime: 0, duration: 2 });
+
+      const later = await call('export_captions', { sequenceId, format: 'srt', trackIndex: 1, offset: '01:00:00:00' });
+      expect(later.captions).toContain('01:00:00,000 --> 01:00:02,000');
+      const earlier = await call('export_captions', { sequenceId, format: 'srt', trackIndex: 1, offset: '-25f' });
+      expect(earlier.captions).toContain('00:00:00,000 --> 00:00:01,000');
+    });
+  });
+
+  describe('markers', () => {
+    tool('add_marker', async () => {
+      const { sequenceId, first } = await edit();
+      const chapter = await call('add_marker', { sequenceId, time: 1, name: 'Intro', type: 'chapter', color: 'red' });
+      expect(chapter.marker).toMatchObject({ name: 'Intro', type: 'chapter', color: 'red', start: 1, end: 1 });
+      const note = await call('add_marker', { sequenceId, time: '00:00:05:00', duration: '25f', comment: 'Fix' });
+      expect(note.marker).toMatchObject({ type: 'comment', color: 'green', start: 5, end: 6 });
+      const clipNote = await call('add_marker', { clipId: first.id, time: 2, name: 'Clip note' });
+      expect(clipNote).toMatchObject({ clipId: first.id, marker: { name: 'Clip note', start: 2 } });
+    });
+
+    tool('update_marker', async () => {
+      const { sequenceId } = await edit();
+      const { marker } = await call('add_marker', { sequenceId, time: 5, duration: 1, name: 'Note', comment: 'Fix' });
+      const updated = await call('update_marker', { sequenceId, markerId: marker.id, time: 7, comment: 'Fixed', color: 'blue' });
+      expect(updated.marker).toMatchObject({ name: 'Note', comment: 'Fixed', color: 'blue', start: 7, end: 8 });
+    });
+
+    tool('delete_marker', async () => {
+      const { sequenceId } = await edit();
+      const { marker } = await call('add_marker', { sequenceId, time: 5, name: 'Note' });
+      await call('add_marker', { sequenceId, time: 6, name: 'Keep' });
+      expect((await call('delete_marker', { sequenceId, markerId: marker.id })).marker.name).toBe('Note');
+      expect((await call('list_markers', { sequenceId })).markers.map((entry: any) => entry.name)).toEqual(['Keep']);
+    });
+
+    tool('list_markers', async () => {
+      const { sequenceId, first } = await edit();
+      await call('add_marker', { sequenceId, time: 6, name: 'Later' });
+      await call('add_marker', { sequenceId, time: 1, name: 'Intro', type: 'chapter' });
+      await call('add_marker', { clipId: first.id, time: 2, name: 'Clip note' });
+
+      expect((await call('list_markers', { sequenceId })).markers.map((marker: any) => marker.name)).toEqual(['Intro', 'Later']);
+      expect((await call('list_markers', { sequenceId, type: 'chapter' })).markers.map((marker: any) => marker.name)).toEqual(['Intro']);
+      expect((await call('list_markers', { clipId: first.id })).markers.map((marker: any) => marker.name)).toEqual(['Clip note']);
+    });
+
+    tool('export_markers', async () => {
+      const { sequenceId } = await edit();
+      await call('add_marker', { sequenceId, time: 0, name: 'Intro', type: 'chapter' });
+      await call('add_marker', { sequenceId, time: 10, name: 'Middle', type: 'chapter' });
+      await call('add_marker', { sequenceId, time: 15, name: 'End', type: 'chapter' });
+      await call('add_marker', { sequenceId, time: 5, duration: 1, name: 'Note', comment: 'Fix', color: 'blue' });
+
+      const youtube = await call('export_markers', { sequenceId, format: 'youtube' });
+      expect(youtube.markers).toBe('00:00 Intro\n00:10 Middle\n00:15 End\n');
+      const csv = await call('export_markers', { sequenceId, format: 'csv', type: 'comment' });
+      expect(csv.markers).toContain('00:00:05:00,Note,Fix,blue,comment,00:00:01:00,');
+      expect(csv.markerCount).toBe(1);
+    });
+
+    tool('import_markers', async () => {
+      const { sequenceId } = await edit();
+      const imported = await call('import_markers', { sequenceId, csv: '00:00:06:00,Review,Check colour,yellow\n00:00:07:00,Second,,\nnot a time,Bad,,\n' });
+      expect(imported.markers.map((marker: any) => [marker.name, marker.start, marker.color])).toEqual([['Review', 6, 'yellow'], ['Second', 7, 'green']]);
+      expect(imported.skippedRows).toHaveLength(1);
+      expect((await call('list_markers', { sequenceId })).markers).toHaveLength(2);
+    });
+  });
+
+  describe('advanced', () => {
+    tool('create_multicam_sequence', async () => {
+      const multicam = await call('create_multicam_sequence', { name: 'Multicam', cameraFiles: [join(media, 'a.mp4'), join(media, 'b.mov')], syncMethod: 'timecode' });
+      expect(multicam).toMatchObject({ name: 'Multicam', cameraCount: 2, syncMethod: 'timecode' });
+      expect((await call('list_sequences')).sequences.map((sequence: any) => sequence.id)).toContain(multicam.sequenceId);
+    });
+
+    tool('create_proxy_media', async () => {
+      const { a, b } = await edit();
+      expect(await call('create_proxy_media', { projectItemIds: [a.id, b.id], proxyPreset: '1024x540 H.264' })).toMatchObject({ itemCount: 2, replaceOriginals: false });
+    });
+
+    tool('auto_edit_to_music', async () => {
+      const { sequenceId, first } = await edit();
+      const audioTrackId = simulatedSequence(sequenceId).audioTracks[2]!.id;
+      const cut = await call('auto_edit_to_music', { audioTrackId, videoClipIds: [first.id], editStyle: 'cuts_only' });
+      expect(cut.tempo).toBeCloseTo(120, 0);
+      expect(cut.confidence).toBeGreaterThan(0.5);
+      expect(cut.cuts.length).toBeGreaterThan(1);
+    });
+
+    tool('batch_edit', async () => {
+      const { sequenceId, second } = await edit();
+      const batch = await call('batch_edit', {
+        operations: [
+          { tool: 'add_marker', args: { sequenceId, time: 3, name: 'Batch' } },
+          { tool: 'move_clip', args: { clipId: second.id, newTime: 12 } }
+        ]
+      });
+      expect(batch.operations.map((operation: any) => operation.status)).toEqual(['succeeded', 'succeeded']);
+      expect((await clips(sequenceId, 'video', 0))[1].startTime).toBe(12);
+      expect((await call('list_markers', { sequenceId })).markers.map((marker: any) => marker.name)).toEqual(['Batch']);
+    });
+
+    it('refuses a batch holding a tool that runs more than one script, before running any of it', async () => {
+      const { sequenceId, a } = await edit();
+      await call('add_to_timeline', { sequenceId, projectItemId: a.id, trackIndex: 1, time: 2 });
+      const batch = await tools.executeTool('batch_edit', {
+        operations: [
+          { tool: 'add_marker', args: { sequenceId, time: 3, name: 'Batch' } },
+          { tool: 'close_gaps', args: { sequenceId, videoTracks: [1] } }
+        ]
+      });
+      expect(batch).toMatchObject({ success: false, error: expect.stringContaining('Operation 1 (close_gaps)') });
+      expect((await call('list_markers', { sequenceId })).markers).toEqual([]);
+      expect((await clips(sequenceId, 'video', 1))[0].startTime).toBe(2);
+    });
+
+    it('skips the rest of a batch once an operation fails', async () => {
+      const { sequenceId, second } = await edit();
+      const batch = await tools.executeTool('batch_edit', {
+        operations: [
+          { tool: 'move_clip', args: { clipId: second.id, newTime: 12 } },
+          { tool: 'move_clip', args: { clipId: 'missing', newTime: 1 } },
+          { tool: 'add_marker', args: { sequenceId, time: 3, name: 'Batch' } }
+        ]
+      });
+      expect(batch.success).toBe(false);
+      expect(batch.operations.map((operation: any) => operation.status)).toEqual(['succeeded', 'failed', 'skipped']);
+      expect((await clips(sequenceId, 'video', 0))[1].startTime).toBe(12);
+      expect((await call('list_markers', { sequenceId })).markers).toEqual([]);
+    });
+
+    it("takes each operation's status from the tool's own result", async () => {
+      const { sequenceId, second } = await edit();
+      const moveClip = (PremiereProTools.prototype as any).moveClip;
+      jest.spyOn(PremiereProTools.prototype as any, 'moveClip').mockImplementation(async function (this: any, ...args: any[]) {
+        await moveClip.apply(this, args);
+        return { success: false, error: 'Failed after the script ran' };
+      });
+
+      const batch = await tools.executeTool('batch_edit', {
+        operations: [
+          { tool: 'move_clip', args: { clipId: second.id, newTime: 12 } },
+          { tool: 'add_marker', args: { sequenceId, time: 3, name: 'Batch' } }
+        ]
+      });
+      expect(batch.success).toBe(false);
+      expect(batch.operations.map((operation: any) => operation.status)).toEqual(['failed', 'succeeded']);
+      expect(batch.message).toContain('1 operations after operation 0 had already run');
+    });
+  });
+});
+
+describe('PremiereProTools', () => {
+  it('has a case above for every tool', () => {
+    const tools = new PremiereProTools(new PremiereProBridge({ simulator: true }));
+    expect([...covered].sort()).toEqual(tools.getAvailableTools().map(entry => entry.name).sort());
+  });
+});
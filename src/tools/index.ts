@@ -6,11 +6,95 @@
  */
 
 import { z } from 'zod';
-import { PremiereProBridge } from '../bridge/index.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, extname, join, relative } from 'path';
+import {
+  PremiereProBridge,
+  PremiereProClipComponents,
+  PremiereProMarker,
+  PremiereProMarkerChanges,
+  PremiereProMarkerTarget,
+  PremiereProParameterChange,
+  PremiereProProjectItem,
+  PremiereProSequenceBuildResult,
+  PremiereProTrackChanges,
+  PremiereProTrimEdit,
+  IMPORT_SCRIPT_HELPERS,
+  TRACK_SCRIPT_HELPERS
+} from '../bridge/index.js';
+import { buildScript } from '../bridge/script.js';
+import { ScriptRecorder, RecordedScript, BatchScriptOutput, compileBatchScript } from './batch.js';
+import { describeEffectParameters, resolveEffectParameter } from './effects.js';
+import { findGaps, planGapClosing } from './gaps.js';
+import {
+  COLLECTED_MEDIA_FOLDER,
+  MANIFEST_FILE,
+  ManifestFile,
+  checksumFile,
+  copyWithChecksum,
+  estimateTrimmedSize,
+  listCollectedFiles,
+  planCollect
+} from './collect.js';
+import { RelinkMatch, indexMediaFiles, mediaCandidates, mediaFileName, mediaMismatch } from './media.js';
+import { BLEND_MODES, describeClipProperties, opacityChanges, transformChanges } from './properties.js';
 import { Logger } from '../utils/logger.js';
+import {
+  TimeValue,
+  TIME_SCRIPT_HELPERS,
+  TICKS_PER_SECOND,
+  TIME_VALUE_FORMATS,
+  frameRateToTicksPerFrame,
+  isDropFrameRate,
+  isTimeOffset,
+  isTimeValue,
+  parseTimeValue,
+  secondsToTicks,
+  secondsToTimecode,
+  ticksPerFrameToFrameRate,
+  ticksToSeconds,
+  ticksToTimecode,
+  timeOffsetToTicks,
+  timeValueToTicks
+} from '../utils/time.js';
+import { BeatEditStyle, BeatGrid, analyzeAudioFile, selectCutBeats } from '../audio/index.js';
+import {
+  CaptionCue,
+  CaptionFormat,
+  EdlExportOptions,
+  EdlImportOptions,
+  MARKER_COLORS,
+  MARKER_TYPES,
+  ParsedTimeline,
+  TimelineImportPlan,
+  XmemlImportOptions,
+  conformCaptions,
+  conformEdl,
+  conformTimeline,
+  formatEdl,
+  formatMarkerCsv,
+  formatMarkerJson,
+  formatOtio,
+  formatScc,
+  formatSrt,
+  formatVtt,
+  formatXmeml,
+  formatYoutubeChapters,
+  markerColorName,
+  markerTypeName,
+  matchMediaReference,
+  parseCaptions,
+  parseEdl,
+  parseMarkerCsv,
+  parseOtio,
+  parseXmeml,
+  validateCaptions
+} from '../interchange/index.js';
 import {
   ToolNotFoundError,
   InvalidToolArgumentsError,
+  ScriptExecutionError,
   PremiereErrorCode,
   getErrorMessage,
 } from '../utils/errors.js';
@@ -21,6 +105,96 @@ export interface MCPTool {
   inputSchema: z.ZodSchema<any>;
 }
 
+/** Called by long-running tools as they go, with the amount done out of a total */
+export type ToolProgressReporter = (progress: number, total: number, message: string) => void;
+
+/** Base timeout for a batch, plus an allowance per operation */
+const BATCH_BASE_TIMEOUT_MS = 30000;
+const BATCH_TIMEOUT_PER_OPERATION_MS = 5000;
+
+/**
+ * Schema for a time argument: seconds, frames, ticks or SMPTE timecode,
+ * resolved against the sequence's frame rate when the tool runs
+ */
+function timeValue(description: string) {
+  return z.union([z.number(), z.string()])
+    .refine(isTimeValue, { message: `Expected ${TIME_VALUE_FORMATS}` })
+    .describe(`${description}, as ${TIME_VALUE_FORMATS}`);
+}
+
+/** Schema for a signed time argument, such as how far to move an edit point */
+function timeOffset(description: string) {
+  return z.union([z.number(), z.string()])
+    .refine(isTimeOffset, { message: `Expected ${TIME_VALUE_FORMATS}, with a leading - for negative offsets` })
+    .describe(`${description}, as ${TIME_VALUE_FORMATS}; a leading - (or a negative number) moves it earlier`);
+}
+
+/** Schema for keyframe interpolation */
+const interpolation = z.enum(['linear', 'bezier', 'hold']).optional()
+  .describe('How the value moves on to the next keyframe: linear, bezier (eased) or hold (jumps at the next keyframe). Defaults to linear');
+
+/** Schema fields for the Motion and Crop values set_clip_transform takes, statically or per keyframe */
+function transformValues() {
+  return {
+    position: z.object({ x: z.number(), y: z.number() }).optional().describe('Position of the clip\'s anchor point in sequence pixels; the frame centre is half the frame width and height'),
+    scale: z.number().min(0).optional().describe('Scale in percent (100 is the original size); the height scale when uniformScale is off'),
+    scaleWidth: z.number().min(0).optional().describe('Width scale in percent, used when uniformScale is off'),
+    rotation: z.number().optional().describe('Rotation in degrees, clockwise'),
+    anchorPoint: z.object({ x: z.number(), y: z.number() }).optional().describe('Point the clip scales and rotates around, as a fraction of the clip\'s frame (0.5, 0.5 is the centre)'),
+    crop: z.object({
+      left: z.number().min(0).max(100).optional(),
+      top: z.number().min(0).max(100).optional(),
+      right: z.number().min(0).max(100).optional(),
+      bottom: z.number().min(0).max(100).optional()
+    }).optional().describe('Crop from each edge in percent of the frame, applied with the Crop effect')
+  };
+}
+
+/** Tools that only read state; every other tool may change the project */
+const READ_ONLY_TOOLS = new Set([
+  'list_project_items',
+  'list_sequences',
+  'list_sequence_tracks',
+  'get_project_info',
+  'export_sequence',
+  'export_frame',
+  'export_edl',
+  'export_xml',
+  'export_otio',
+  'export_captions',
+  'list_markers',
+  'export_markers',
+  'find_gaps',
+  'get_clip_properties',
+  'get_effect_parameters',
+  'find_offline_media'
+]);
+
+/**
+ * Tools that run more than one script, e.g. reading a sequence before
+ * changing it. A batch records a single script per tool, so these are
+ * refused before any of the batch is sent to Premiere Pro.
+ */
+const UNBATCHABLE_TOOLS = new Set([
+  'auto_edit_to_music',
+  'close_gaps',
+  'collect_project',
+  'delete_track',
+  'export_captions',
+  'export_otio',
+  'export_xml',
+  'import_captions',
+  'import_edl',
+  'import_markers',
+  'import_otio',
+  'import_xml',
+  'nest_clips',
+  'relink_media',
+  'set_clip_opacity',
+  'set_clip_transform',
+  'set_effect_keyframes'
+]);
+
 export class PremiereProTools {
   private bridge: PremiereProBridge;
   private logger: Logger;
@@ -88,6 +262,20 @@ export class PremiereProTools {
           location: z.string().describe('The absolute directory path where the project should be saved')
         })
       },
+      {
+        name: 'collect_project',
+        description: 'Collects the project for archiving: copies the media its sequences use into a folder, in subfolders mirroring the bins, saves a copy of the project relinked to the copied media there, and writes a manifest with file sizes and checksums. Use dryRun to see what would be copied and its size first.',
+        inputSchema: z.object({
+          targetFolder: z.string().describe('The absolute path of the folder to collect into; it is created if needed'),
+          projectName: z.string().min(1).optional().describe('Name for the project copy (default: the project\'s own name)'),
+          includeUnused: z.boolean().optional().describe('Also collect media no sequence uses (default: false)'),
+          trimToUsedRanges: z.boolean().optional().describe('Keep only the used part of each clip\'s media plus handles, transcoded by Premiere Pro\'s Project Manager with presetPath (default: false)'),
+          handleFrames: z.number().int().min(0).optional().describe('Frames kept either side of the used part when trimming (default: 30)'),
+          presetPath: z.string().optional().describe('The absolute path of the encoder preset (.epr) trimmed media is transcoded with; required when trimming'),
+          overwrite: z.boolean().optional().describe('Replace files already in the target folder (default: false)'),
+          dryRun: z.boolean().optional().describe('Report the files and total size without copying anything (default: false)')
+        })
+      },
 
       // Media Management
       {
@@ -115,6 +303,30 @@ export class PremiereProTools {
           parentBinName: z.string().optional().describe('The name of the parent bin to create this bin inside')
         })
       },
+      {
+        name: 'find_offline_media',
+        description: 'Lists every project item whose media is offline, with the path its file was last found at, its bin, and whether a file is back at that path.',
+        inputSchema: z.object({})
+      },
+      {
+        name: 'relink_media',
+        description: 'Relinks offline media to files found under a folder, e.g. after media moved to another drive. Files are matched by name, and optionally by duration and frame rate; returns a table of what each item matched.',
+        inputSchema: z.object({
+          searchRoot: z.string().describe('The absolute path of the folder to search, subfolders included'),
+          itemIds: z.array(z.string()).min(1).optional().describe('IDs of the project items to relink (default: every offline item)'),
+          matchDuration: z.boolean().optional().describe('Only accept files as long as the original media (default: false)'),
+          matchFrameRate: z.boolean().optional().describe('Only accept files with the original frame rate (default: false)'),
+          dryRun: z.boolean().optional().describe('Report the matches without relinking (default: false)')
+        })
+      },
+      {
+        name: 'replace_footage',
+        description: 'Swaps the media file of a project item for another file; every clip using the item, in every sequence, plays the new file.',
+        inputSchema: z.object({
+          projectItemId: z.string().describe('The ID of the project item'),
+          filePath: z.string().describe('The absolute path of the new media file')
+        })
+      },
 
       // Sequence Management
       {
@@ -144,6 +356,51 @@ export class PremiereProTools {
           sequenceId: z.string().describe('The ID of the sequence to delete')
         })
       },
+      {
+        name: 'add_track',
+        description: 'Adds video or audio tracks to a sequence, after a given track or after the last track of that type. Audio tracks can be mono, stereo, 5.1 or adaptive.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          trackType: z.enum(['video', 'audio']).describe('Whether to add video or audio tracks'),
+          count: z.number().int().min(1).max(99).optional().describe('How many tracks to add (default 1)'),
+          afterIndex: z.number().int().min(-1).optional().describe('Index of the track to add the new tracks after; -1 adds them first. Defaults to after the last track'),
+          channelType: z.enum(['mono', 'stereo', '5.1', 'adaptive']).optional().describe('Channel layout of new audio tracks (default stereo)')
+        })
+      },
+      {
+        name: 'delete_track',
+        description: 'Deletes a video or audio track from a sequence. Locked tracks and the last track of a type are never deleted, and a track holding clips is only deleted with force.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          trackType: z.enum(['video', 'audio']).describe('Whether the track is a video or audio track'),
+          trackIndex: z.number().int().min(0).describe('The index of the track'),
+          force: z.boolean().optional().describe('Delete the track even if it holds clips, deleting them with it')
+        })
+      },
+      {
+        name: 'rename_track',
+        description: 'Renames a video or audio track in a sequence.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          trackType: z.enum(['video', 'audio']).describe('Whether the track is a video or audio track'),
+          trackIndex: z.number().int().min(0).describe('The index of the track'),
+          name: z.string().min(1).describe('The new track name')
+        })
+      },
+      {
+        name: 'set_track_state',
+        description: 'Locks or unlocks a track, targets it for edits, turns sync lock on or off, and shows or hides a video track or mutes an audio track. Settings left out are unchanged.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          trackType: z.enum(['video', 'audio']).describe('Whether the track is a video or audio track'),
+          trackIndex: z.number().int().min(0).describe('The index of the track'),
+          locked: z.boolean().optional().describe('Lock the track so edits leave it alone'),
+          targeted: z.boolean().optional().describe('Target the track for edits such as inserts and pastes'),
+          syncLocked: z.boolean().optional().describe('Keep the track in step when other tracks are rippled'),
+          visible: z.boolean().optional().describe('Show (true) or hide (false) a video track\'s output'),
+          muted: z.boolean().optional().describe('Mute (true) or unmute (false) an audio track')
+        })
+      },
 
       // Timeline Operations
       {
@@ -153,7 +410,7 @@ export class PremiereProTools {
           sequenceId: z.string().describe('The ID of the sequence (timeline) to add the clip to'),
           projectItemId: z.string().describe('The ID of the project item (clip) to add'),
           trackIndex: z.number().describe('The index of the video or audio track (0-based)'),
-          time: z.number().describe('The time in seconds where the clip should be placed on the timeline'),
+          time: timeValue('Where the clip should be placed on the timeline'),
           insertMode: z.enum(['overwrite', 'insert']).optional().describe('Whether to overwrite existing content or insert and shift')
         })
       },
@@ -170,7 +427,7 @@ export class PremiereProTools {
         description: 'Moves a clip to a different position on the timeline.',
         inputSchema: z.object({
           clipId: z.string().describe('The ID of the clip to move'),
-          newTime: z.number().describe('The new time position in seconds'),
+          newTime: timeValue('The new start position on the timeline'),
           newTrackIndex: z.number().optional().describe('The new track index (if moving to different track)')
         })
       },
@@ -179,9 +436,9 @@ export class PremiereProTools {
         description: 'Adjusts the in and out points of a clip on the timeline, effectively shortening it.',
         inputSchema: z.object({
           clipId: z.string().describe('The ID of the clip on the timeline to trim'),
-          inPoint: z.number().optional().describe('The new in point in seconds from the start of the clip'),
-          outPoint: z.number().optional().describe('The new out point in seconds from the start of the clip'),
-          duration: z.number().optional().describe('Alternative: set the desired duration in seconds')
+          inPoint: timeValue('The new in point, measured from the start of the clip').optional(),
+          outPoint: timeValue('The new out point, measured from the start of the clip').optional(),
+          duration: timeValue('Alternative: set the desired duration').optional()
         })
       },
       {
@@ -189,7 +446,84 @@ export class PremiereProTools {
         description: 'Splits a clip at a specific time point, creating two separate clips.',
         inputSchema: z.object({
           clipId: z.string().describe('The ID of the clip to split'),
-          splitTime: z.number().describe('The time in seconds where to split the clip')
+          splitTime: timeValue('Where to split, measured from the start of the clip')
+        })
+      },
+      {
+        name: 'ripple_trim',
+        description: 'Ripple trims a clip\'s in or out point: the clip gets shorter or longer and everything after it on its track moves to close or open the difference. Linked audio or video is trimmed with it. Refuses when the source media doesn\'t reach far enough.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the clip to trim'),
+          edge: z.enum(['in', 'out']).describe('The edit point to trim'),
+          offset: timeOffset('How far to move the edit point')
+        })
+      },
+      {
+        name: 'roll_edit',
+        description: 'Rolls the edit point between a clip and the clip against its in or out point: one gets longer and the other shorter, so nothing else moves. Linked audio or video is rolled with it. Refuses when either clip\'s source media doesn\'t reach far enough.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of a clip on either side of the edit'),
+          edge: z.enum(['in', 'out']).optional().describe('Which of the clip\'s edit points to roll (default: out)'),
+          offset: timeOffset('How far to move the edit point')
+        })
+      },
+      {
+        name: 'slip_clip',
+        description: 'Slips a clip: shows an earlier or later part of its source media without moving or resizing it on the timeline. Linked audio or video is slipped with it. Refuses when the source media doesn\'t reach far enough.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the clip to slip'),
+          offset: timeOffset('How far to move the source range; positive values show later media')
+        })
+      },
+      {
+        name: 'slide_clip',
+        description: 'Slides a clip along the timeline, keeping its content, while the clips against it are trimmed to match, so the overall length of the track is unchanged. Linked audio or video slides with it. Refuses when a neighbour\'s source media doesn\'t reach far enough or there is no room to slide into.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the clip to slide'),
+          offset: timeOffset('How far to move the clip')
+        })
+      },
+      {
+        name: 'find_gaps',
+        description: 'Finds the gaps on a sequence\'s tracks: empty time before the first clip and between clips. Gaps can be found track by track, or across several tracks at once, where only time that is empty on every one of them counts.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          videoTracks: z.array(z.number()).optional().describe('Indexes of the video tracks to look at; every track when neither videoTracks nor audioTracks is given'),
+          audioTracks: z.array(z.number()).optional().describe('Indexes of the audio tracks to look at'),
+          synced: z.boolean().optional().describe('Find gaps that are empty on all the selected tracks at once, instead of on each track (default: false)'),
+          minimumGap: timeValue('Shortest gap to report; defaults to one frame').optional()
+        })
+      },
+      {
+        name: 'close_gaps',
+        description: 'Closes the gaps on a sequence\'s tracks by moving each clip earlier by the length of the gaps before it. Gaps are closed track by track, or across several tracks at once so clips on those tracks stay in step. Locked tracks are left alone. With dryRun, only reports what would move.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          videoTracks: z.array(z.number()).optional().describe('Indexes of the video tracks to close gaps on; every track when neither videoTracks nor audioTracks is given'),
+          audioTracks: z.array(z.number()).optional().describe('Indexes of the audio tracks to close gaps on'),
+          synced: z.boolean().optional().describe('Only close time that is empty on all the selected tracks at once, keeping them in step (default: false, each track on its own)'),
+          minimumGap: timeValue('Shortest gap to close; shorter gaps are left as they are. Defaults to one frame').optional(),
+          dryRun: z.boolean().optional().describe('Report the gaps and clip moves without making them (default: false)')
+        })
+      },
+      {
+        name: 'nest_clips',
+        description: 'Nests clips into a new sequence that replaces them on the timeline, e.g. to group graphics or apply one effect to a section. Pick clips by ID, or by a time range (optionally limited to some tracks), in which case the clips lying wholly inside the range are nested. Returns the new sequence ID and the nest clip ID.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence holding the clips'),
+          clipIds: z.array(z.string()).min(1).optional().describe('IDs of the clips to nest'),
+          start: timeValue('Start of the range to nest, instead of clipIds').optional(),
+          end: timeValue('End of the range to nest').optional(),
+          videoTracks: z.array(z.number().int().min(0)).optional().describe('Video track indexes to take clips from in the range; every track when neither videoTracks nor audioTracks is given'),
+          audioTracks: z.array(z.number().int().min(0)).optional().describe('Audio track indexes to take clips from in the range'),
+          name: z.string().min(1).optional().describe('Name for the nested sequence (default "Nested Sequence")')
+        })
+      },
+      {
+        name: 'unnest_clip',
+        description: 'Replaces a nest clip with the clips inside its nested sequence, put back on the same track indexes where they play through the nest. Fails without changing anything when a track they go on is missing, locked or occupied.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the nest clip')
         })
       },
 
@@ -218,7 +552,7 @@ export class PremiereProTools {
           clipId1: z.string().describe('The ID of the first clip (outgoing)'),
           clipId2: z.string().describe('The ID of the second clip (incoming)'),
           transitionName: z.string().describe('The name of the transition to add (e.g., "Cross Dissolve")'),
-          duration: z.number().describe('The duration of the transition in seconds')
+          duration: timeValue('The duration of the transition')
         })
       },
       {
@@ -228,7 +562,32 @@ export class PremiereProTools {
           clipId: z.string().describe('The ID of the clip'),
           transitionName: z.string().describe('The name of the transition'),
           position: z.enum(['start', 'end']).describe('Whether to add the transition at the start or end of the clip'),
-          duration: z.number().describe('The duration of the transition in seconds')
+          duration: timeValue('The duration of the transition')
+        })
+      },
+      {
+        name: 'get_effect_parameters',
+        description: 'Lists the components on a clip (Motion, Opacity, Volume and applied effects) with each parameter\'s index, name, type, range where known, current value and keyframes. Use it to find the names set_effect_keyframes and apply_effect take.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the clip'),
+          effect: z.string().optional().describe('Only list components with this match name (e.g. "AE.ADBE Gaussian Blur 2") or display name')
+        })
+      },
+      {
+        name: 'set_effect_keyframes',
+        description: 'Adds, removes or lists the keyframes of any parameter of a clip\'s effects or intrinsic components. Values are in the parameter\'s own units, as get_effect_parameters reports them.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the clip'),
+          effect: z.string().describe('Match name (e.g. "AE.ADBE Motion") or display name of the effect'),
+          componentIndex: z.number().int().min(0).optional().describe('Which component to use when the clip has the effect more than once, as get_effect_parameters numbers them'),
+          parameter: z.union([z.string(), z.number().int().min(0)]).describe('Parameter display name, or its index within the effect'),
+          action: z.enum(['add', 'remove', 'list']).describe('add sets keyframes alongside any existing ones, remove deletes keyframes, list only reads them'),
+          keyframes: z.array(z.object({
+            time: timeValue('Keyframe time from the start of the clip'),
+            value: z.any().describe('Parameter value at the keyframe'),
+            interpolation
+          })).optional().describe('Keyframes to add'),
+          times: z.array(timeValue('Time of a keyframe to remove, from the start of the clip')).optional().describe('Keyframes to remove; omit to remove them all')
         })
       },
 
@@ -247,7 +606,7 @@ export class PremiereProTools {
         inputSchema: z.object({
           clipId: z.string().describe('The ID of the audio clip'),
           keyframes: z.array(z.object({
-            time: z.number().describe('Time in seconds'),
+            time: timeValue('Keyframe time'),
             level: z.number().describe('Audio level in dB')
           })).describe('Array of keyframe data')
         })
@@ -270,8 +629,8 @@ export class PremiereProTools {
           text: z.string().describe('The text content to display'),
           sequenceId: z.string().describe('The sequence to add the text to'),
           trackIndex: z.number().describe('The video track to place the text on'),
-          startTime: z.number().describe('The time in seconds when the text should appear'),
-          duration: z.number().describe('How long the text should remain on screen in seconds'),
+          startTime: timeValue('When the text should appear'),
+          duration: timeValue('How long the text should remain on screen'),
           fontFamily: z.string().optional().describe('e.g., "Arial", "Times New Roman"'),
           fontSize: z.number().optional().describe('e.g., 48'),
           color: z.string().optional().describe('The hex color code for the text, e.g., "#FFFFFF"'),
@@ -289,8 +648,8 @@ export class PremiereProTools {
           shapeType: z.enum(['rectangle', 'circle', 'triangle']).describe('The type of shape to add'),
           sequenceId: z.string().describe('The sequence to add the shape to'),
           trackIndex: z.number().describe('The video track to place the shape on'),
-          startTime: z.number().describe('The time in seconds when the shape should appear'),
-          duration: z.number().describe('How long the shape should remain on screen in seconds'),
+          startTime: timeValue('When the shape should appear'),
+          duration: timeValue('How long the shape should remain on screen'),
           color: z.string().optional().describe('The hex color code for the shape'),
           size: z.object({
             width: z.number().optional().describe('Width in pixels'),
@@ -329,6 +688,43 @@ export class PremiereProTools {
         })
       },
 
+      // Clip Properties
+      {
+        name: 'set_clip_transform',
+        description: 'Sets a video clip\'s Motion (position, scale, rotation, anchor point) and crop, either as static values or as keyframes for moves such as picture-in-picture slides and Ken Burns pans and zooms. Keyframes replace any existing keyframes on the properties they set.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the video clip'),
+          ...transformValues(),
+          uniformScale: z.boolean().optional().describe('Scale width and height together'),
+          keyframes: z.array(z.object({
+            time: timeValue('Keyframe time from the start of the clip'),
+            ...transformValues(),
+            interpolation
+          })).optional().describe('Keyframes, each setting one or more values; a value can be static or keyframed, not both')
+        })
+      },
+      {
+        name: 'set_clip_opacity',
+        description: 'Sets a video clip\'s opacity and blend mode. Opacity can be static or keyframed, e.g. for fades.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the video clip'),
+          opacity: z.number().min(0).max(100).optional().describe('Opacity in percent'),
+          blendMode: z.enum(BLEND_MODES).optional().describe('Blend mode, as in the Opacity panel\'s menu'),
+          keyframes: z.array(z.object({
+            time: timeValue('Keyframe time from the start of the clip'),
+            opacity: z.number().min(0).max(100).describe('Opacity in percent'),
+            interpolation
+          })).optional().describe('Opacity keyframes, replacing any existing ones')
+        })
+      },
+      {
+        name: 'get_clip_properties',
+        description: 'Reads a video clip\'s position, scale, rotation, anchor point, crop, opacity and blend mode, with the keyframes of any animated values.',
+        inputSchema: z.object({
+          clipId: z.string().describe('The ID of the video clip')
+        })
+      },
+
       // Export and Rendering
       {
         name: 'export_sequence',
@@ -347,12 +743,184 @@ export class PremiereProTools {
         description: 'Exports a single frame from a sequence as an image file.',
         inputSchema: z.object({
           sequenceId: z.string().describe('The ID of the sequence'),
-          time: z.number().describe('The time in seconds to export the frame from'),
+          time: timeValue('The sequence time to export the frame from'),
           outputPath: z.string().describe('The absolute path where the image file will be saved'),
           format: z.enum(['png', 'jpg', 'tiff']).optional().describe('The image format')
         })
       },
 
+      // Interchange
+      {
+        name: 'export_edl',
+        description: 'Exports a sequence as a CMX3600 EDL, with reel names, source and record timecode, dissolves for applied transitions and clip name comments. Exports one video track and up to four audio tracks.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          outputPath: z.string().optional().describe('The absolute path to write the .edl file to; when omitted the EDL text is returned instead'),
+          title: z.string().optional().describe('The EDL title; defaults to the sequence name'),
+          videoTrackIndex: z.number().int().min(0).nullable().optional().describe('The video track to export (0-based, default 0), or null for an audio-only EDL'),
+          audioTrackIndexes: z.array(z.number().int().min(0)).max(4).optional().describe('Audio tracks (0-based) mapped in order to EDL channels A, A2, A3 and A4; default none'),
+          frameRate: z.number().positive().optional().describe('Timecode frame rate, e.g. 23.976, 25 or 29.97; defaults to the sequence frame rate'),
+          dropFrame: z.boolean().optional().describe('Write drop-frame timecode; defaults to true for 29.97 and 59.94 fps')
+        })
+      },
+      {
+        name: 'import_edl',
+        description: 'Conforms a new sequence from a CMX3600 EDL. Each event\'s reel is matched to a project item by source file, tape name, clip name or file name, and placed with its source in/out at its record position. Dissolves become transitions. Unmatched events and transitions that could not be mapped are reported.',
+        inputSchema: z.object({
+          edlPath: z.string().optional().describe('The absolute path of the .edl file'),
+          edl: z.string().optional().describe('The EDL text, instead of a file path'),
+          sequenceName: z.string().optional().describe('Name for the new sequence; defaults to the EDL title'),
+          frameRate: z.number().positive().optional().describe('The EDL timecode frame rate; defaults to 29.97 for drop-frame EDLs, otherwise the frame rate of the matched media'),
+          recordStart: timeValue('The record timecode placed at the start of the sequence; defaults to the hour the first event starts in, e.g. 01:00:00:00').optional()
+        })
+      },
+      {
+        name: 'export_xml',
+        description: 'Exports a sequence as Final Cut Pro 7 XML (xmeml), readable by Premiere Pro, DaVinci Resolve and Avid. Includes every track with its clips and source in/out, transitions, clip effects, speed, audio levels and sequence markers.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          outputPath: z.string().optional().describe('The absolute path to write the .xml file to; when omitted the XML text is returned instead')
+        })
+      },
+      {
+        name: 'import_xml',
+        description: 'Rebuilds a sequence from a Final Cut Pro 7 XML (xmeml) file. Clips are matched to project items by file path, file name or item name, and placed on the same tracks with their source in/out, speed, audio level and effects. Transitions and sequence markers are recreated. Clips that could not be matched or rebuilt are reported.',
+        inputSchema: z.object({
+          xmlPath: z.string().optional().describe('The absolute path of the .xml file'),
+          xml: z.string().optional().describe('The XML text, instead of a file path'),
+          sequenceName: z.string().optional().describe('Name for the new sequence; defaults to the name in the XML'),
+          sourceSequence: z.string().optional().describe('Which sequence to import when the XML holds several; defaults to the first'),
+          importMissingMedia: z.boolean().optional().describe('Import referenced files that exist on disk but are not in the project yet (default true)')
+        })
+      },
+      {
+        name: 'export_otio',
+        description: 'Exports a sequence as an OpenTimelineIO (.otio) JSON timeline: a stack of video and audio tracks holding clips with external references to their media files, gaps, transitions and timeline markers.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          outputPath: z.string().optional().describe('The absolute path to write the .otio file to; when omitted the JSON is returned instead')
+        })
+      },
+      {
+        name: 'import_otio',
+        description: 'Builds a sequence from an OpenTimelineIO (.otio) JSON timeline. Clips are matched to project items by media file path, file name or item name, and placed with their source range and speed. Transitions and timeline markers are recreated. Clips that could not be matched or rebuilt are reported.',
+        inputSchema: z.object({
+          otioPath: z.string().optional().describe('The absolute path of the .otio file'),
+          otio: z.string().optional().describe('The OTIO JSON text, instead of a file path'),
+          sequenceName: z.string().optional().describe('Name for the new sequence; defaults to the timeline name'),
+          importMissingMedia: z.boolean().optional().describe('Import referenced files that exist on disk but are not in the project yet (default true)')
+        })
+      },
+
+      // Captions
+      {
+        name: 'import_captions',
+        description: 'Imports SRT or WebVTT captions into a sequence. Cues are snapped to the sequence frame grid and placed on a new caption track, or burned in as title clips on a video track when caption tracks are not available. Multi-line text, emphasis, color and placement are kept where they cover a whole cue.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence to add captions to'),
+          captionsPath: z.string().optional().describe('The absolute path of the .srt or .vtt file'),
+          captions: z.string().optional().describe('The caption file text, instead of a file path'),
+          format: z.enum(['srt', 'vtt']).optional().describe('Caption file format (default: detected from the content)'),
+          offset: timeOffset('How far to shift every cue').optional(),
+          sourceFrameRate: z.number().positive().optional().describe('Frame rate the captions were timed against, e.g. 23.976 for captions made for a 25 fps conversion; cue times are rescaled so each cue keeps its frame position at the sequence frame rate'),
+          method: z.enum(['auto', 'caption-track', 'burn-in']).optional().describe('Place captions on a caption track, burn them in as title clips, or use a caption track when available (default: auto)'),
+          captionFormat: z.enum(['subtitle', 'cea-608', 'cea-708', 'teletext']).optional().describe('Caption track format (default: subtitle)'),
+          trackIndex: z.number().optional().describe('Video track for burned-in captions (default: the first video track above V1 with nothing under the captions)'),
+          fontFamily: z.string().optional().describe('Font for burned-in captions'),
+          fontSize: z.number().optional().describe('Font size for burned-in captions'),
+          color: z.string().optional().describe('Hex text color for burned-in captions, for cues without their own color')
+        })
+      },
+      {
+        name: 'export_captions',
+        description: 'Exports captions from a sequence as an SRT, WebVTT or SCC sidecar file. Captions are read from the text and title clips on a video track, or from a caption project item. Cues that read too fast, have lines that are too long or have too many lines are reported as warnings.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence to export captions from'),
+          format: z.enum(['srt', 'vtt', 'scc']).describe('Caption file format'),
+          trackIndex: z.number().optional().describe('Video track holding the text or title clips to export'),
+          captionItemId: z.string().optional().describe('A caption project item to export instead, such as the one import_captions created'),
+          outputPath: z.string().optional().describe('The absolute path to write the caption file to; when omitted the captions are returned as text'),
+          offset: timeOffset('How far to shift every cue').optional(),
+          maxCharactersPerSecond: z.number().positive().optional().describe('Reading speed above which a cue is reported (default 20)'),
+          maxLineLength: z.number().int().positive().optional().describe('Characters per line above which a cue is reported (default 42)'),
+          maxLines: z.number().int().positive().optional().describe('Lines per cue above which a cue is reported (default 2)')
+        })
+      },
+
+      // Markers
+      {
+        name: 'add_marker',
+        description: 'Adds a marker to a sequence, or to a clip (stored on its source media). Markers can be comments, chapters, segmentation markers or web links, with a name, comment text, color and duration.',
+        inputSchema: z.object({
+          sequenceId: z.string().optional().describe('The sequence to add a sequence marker to'),
+          clipId: z.string().optional().describe('The clip to add a clip marker to, instead of a sequence'),
+          time: timeValue('Where the marker goes on the sequence timeline'),
+          duration: timeValue('Length of the marker; omit for a marker with no duration').optional(),
+          name: z.string().optional().describe('The marker name'),
+          comment: z.string().optional().describe('The marker comment text'),
+          type: z.enum(['comment', 'chapter', 'segmentation', 'weblink']).optional().describe('Marker type (default: comment)'),
+          color: z.enum(MARKER_COLORS).optional().describe('Marker color (default: green)'),
+          url: z.string().optional().describe('Link for web link markers'),
+          frameTarget: z.string().optional().describe('Frame target for web link markers')
+        })
+      },
+      {
+        name: 'update_marker',
+        description: 'Changes a sequence or clip marker. Only the fields given are changed; moving a marker keeps its duration.',
+        inputSchema: z.object({
+          sequenceId: z.string().optional().describe('The sequence holding the marker'),
+          clipId: z.string().optional().describe('The clip holding the marker, instead of a sequence'),
+          markerId: z.string().describe('The ID of the marker, as returned by list_markers'),
+          time: timeValue('New position on the sequence timeline').optional(),
+          duration: timeValue('New length of the marker').optional(),
+          name: z.string().optional().describe('New marker name'),
+          comment: z.string().optional().describe('New marker comment text'),
+          type: z.enum(['comment', 'chapter', 'segmentation', 'weblink']).optional().describe('New marker type'),
+          color: z.enum(MARKER_COLORS).optional().describe('New marker color'),
+          url: z.string().optional().describe('Link for web link markers'),
+          frameTarget: z.string().optional().describe('Frame target for web link markers')
+        })
+      },
+      {
+        name: 'delete_marker',
+        description: 'Deletes a sequence or clip marker.',
+        inputSchema: z.object({
+          sequenceId: z.string().optional().describe('The sequence holding the marker'),
+          clipId: z.string().optional().describe('The clip holding the marker, instead of a sequence'),
+          markerId: z.string().describe('The ID of the marker, as returned by list_markers')
+        })
+      },
+      {
+        name: 'list_markers',
+        description: 'Lists the markers of a sequence or clip in time order, with their type, color, name, comment and timeline range.',
+        inputSchema: z.object({
+          sequenceId: z.string().optional().describe('The sequence to list markers of'),
+          clipId: z.string().optional().describe('The clip to list markers of, instead of a sequence'),
+          type: z.enum(['comment', 'chapter', 'segmentation', 'weblink']).optional().describe('Only list markers of this type')
+        })
+      },
+      {
+        name: 'export_markers',
+        description: 'Exports a sequence\'s markers as CSV for spreadsheets, as JSON, or as a YouTube chapter list ("00:00 Intro" lines) for a video description. YouTube chapter lists use the chapter markers when there are any, and warn about anything YouTube would reject.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence'),
+          format: z.enum(['csv', 'json', 'youtube']).describe('Marker list format'),
+          type: z.enum(['comment', 'chapter', 'segmentation', 'weblink']).optional().describe('Only export markers of this type'),
+          outputPath: z.string().optional().describe('The absolute path to write the list to; when omitted the list is returned as text')
+        })
+      },
+      {
+        name: 'import_markers',
+        description: 'Adds sequence markers from a CSV of review notes. Rows hold a timecode, name, comment and color; a header row can name the columns and add end, duration, type and URL columns, so Premiere Pro\'s own marker exports can be read too. Rows whose timecode can\'t be read or falls outside the sequence are skipped and reported.',
+        inputSchema: z.object({
+          sequenceId: z.string().describe('The ID of the sequence to add markers to'),
+          csvPath: z.string().optional().describe('The absolute path of the .csv file'),
+          csv: z.string().optional().describe('The CSV text, instead of a file path'),
+          type: z.enum(['comment', 'chapter', 'segmentation', 'weblink']).optional().describe('Type of markers whose row has none (default: comment)'),
+          color: z.enum(MARKER_COLORS).optional().describe('Color of markers whose row has none (default: green)')
+        })
+      },
+
       // Advanced Features
       {
         name: 'create_multicam_sequence',
@@ -374,12 +942,12 @@ export class PremiereProTools {
       },
       {
         name: 'auto_edit_to_music',
-        description: 'Automatically creates an edit by cutting video clips to the beat of a music track.',
+        description: 'Automatically creates an edit by cutting video clips to the beat of a music track. The music (PCM WAV or AIFF) is analysed for tempo and beats, the video clips are cut to the resulting grid in place of the originals, and the beat grid is returned so markers can be placed on it.',
         inputSchema: z.object({
           audioTrackId: z.string().describe('The ID of the audio track containing the music'),
           videoClipIds: z.array(z.string()).describe('An array of video clip IDs to use for the edit'),
-          editStyle: z.enum(['cuts_only', 'cuts_and_transitions', 'beat_sync']).describe('The desired editing style'),
-          sensitivity: z.number().optional().describe('Beat detection sensitivity (0-100)')
+          editStyle: z.enum(['cuts_only', 'cuts_and_transitions', 'beat_sync']).describe('cuts_only cuts on a regular beat grid from the first downbeat; cuts_and_transitions adds cross dissolves at each cut; beat_sync cuts on the accented beats'),
+          sensitivity: z.number().min(0).max(100).optional().describe('Beat detection sensitivity (0-100). Higher values detect quieter onsets and cut more often (default: 50)')
         })
       },
       {
@@ -399,11 +967,31 @@ export class PremiereProTools {
           speed: z.number().describe('Speed multiplier (0.1 = 10% speed, 2.0 = 200% speed)'),
           maintainAudio: z.boolean().optional().describe('Whether to maintain audio pitch when changing speed')
         })
+      },
+
+      // Batch Editing
+      {
+        name: 'batch_edit',
+        description: 'Runs an ordered list of tool calls (e.g. add_to_timeline, trim_clip, move_clip) in a single round trip to Premiere Pro. Each operation uses the same arguments as the tool it names; tools that run more than one script (such as close_gaps, nest_clips, set_clip_transform and the import and export tools) cannot be batched. Operations run in order and, by default, the rest are skipped once one fails. A batch cannot be rolled back: operations that succeeded before a failure stay applied. Returns a result per operation.',
+        inputSchema: z.object({
+          operations: z.array(z.object({
+            tool: z.string().describe('Name of the tool to run, e.g. "trim_clip"'),
+            args: z.record(z.any()).optional().describe('Arguments for that tool, exactly as the tool itself takes them')
+          })).min(1).describe('The operations to run, in order'),
+          stopOnError: z.boolean().optional().describe('Skip the remaining operations after a failure (default: true)')
+        })
       }
     ];
   }
 
-  async executeTool(name: string, args: Record<string, any>): Promise<any> {
+  /**
+   * Whether a tool can modify the project, and so invalidate resources
+   */
+  isMutatingTool(name: string): boolean {
+    return !READ_ONLY_TOOLS.has(name);
+  }
+
+  async executeTool(name: string, args: Record<string, any>, onProgress?: ToolProgressReporter): Promise<any> {
     const tool = this.getAvailableTools().find(t => t.name === name);
     if (!tool) {
       const availableTools = this.getAvailableTools().map(t => t.name);
@@ -456,6 +1044,8 @@ export class PremiereProTools {
           return await this.saveProject();
         case 'save_project_as':
           return await this.saveProjectAs(args.name, args.location);
+        case 'collect_project':
+          return await this.collectProject(args, onProgress);
 
         // Media Management
         case 'import_media':
@@ -464,6 +1054,12 @@ export class PremiereProTools {
           return await this.importFolder(args.folderPath, args.binName, args.recursive);
         case 'create_bin':
           return await this.createBin(args.name, args.parentBinName);
+        case 'find_offline_media':
+          return await this.findOfflineMedia();
+        case 'relink_media':
+          return await this.relinkMedia(args);
+        case 'replace_footage':
+          return await this.replaceFootage(args.projectItemId, args.filePath);
 
         // Sequence Management
         case 'create_sequence':
@@ -472,6 +1068,20 @@ export class PremiereProTools {
           return await this.duplicateSequence(args.sequenceId, args.newName);
         case 'delete_sequence':
           return await this.deleteSequence(args.sequenceId);
+        case 'add_track':
+          return await this.addTrack(args);
+        case 'delete_track':
+          return await this.deleteTrack(args);
+        case 'rename_track':
+          return await this.updateTrack(args, { name: args.name });
+        case 'set_track_state':
+          return await this.updateTrack(args, {
+            locked: args.locked,
+            targeted: args.targeted,
+            syncLocked: args.syncLocked,
+            visible: args.visible,
+            muted: args.muted
+          });
 
         // Timeline Operations
         case 'add_to_timeline':
@@ -484,6 +1094,22 @@ export class PremiereProTools {
           return await this.trimClip(args.clipId, args.inPoint, args.outPoint, args.duration);
         case 'split_clip':
           return await this.splitClip(args.clipId, args.splitTime);
+        case 'ripple_trim':
+          return await this.trimEdit(args.clipId, 'ripple', args.offset, args.edge);
+        case 'roll_edit':
+          return await this.trimEdit(args.clipId, 'roll', args.offset, args.edge);
+        case 'slip_clip':
+          return await this.trimEdit(args.clipId, 'slip', args.offset);
+        case 'slide_clip':
+          return await this.trimEdit(args.clipId, 'slide', args.offset);
+        case 'find_gaps':
+          return await this.findGaps(args);
+        case 'close_gaps':
+          return await this.closeGaps(args);
+        case 'nest_clips':
+          return await this.nestClips(args);
+        case 'unnest_clip':
+          return await this.unnestClip(args.clipId);
 
         // Effects and Transitions
         case 'apply_effect':
@@ -494,6 +1120,10 @@ export class PremiereProTools {
           return await this.addTransition(args.clipId1, args.clipId2, args.transitionName, args.duration);
         case 'add_transition_to_clip':
           return await this.addTransitionToClip(args.clipId, args.transitionName, args.position, args.duration);
+        case 'get_effect_parameters':
+          return await this.getEffectParameters(args.clipId, args.effect);
+        case 'set_effect_keyframes':
+          return await this.setEffectKeyframes(args);
 
         // Audio Operations
         case 'adjust_audio_levels':
@@ -515,12 +1145,67 @@ export class PremiereProTools {
         case 'apply_lut':
           return await this.applyLut(args.clipId, args.lutPath, args.intensity);
 
+        // Clip Properties
+        case 'set_clip_transform':
+          return await this.setClipProperties(args.clipId, clip => transformChanges(clip, args));
+        case 'set_clip_opacity':
+          return await this.setClipProperties(args.clipId, clip => opacityChanges(clip, args));
+        case 'get_clip_properties':
+          return await this.getClipProperties(args.clipId);
+
         // Export and Rendering
         case 'export_sequence':
           return await this.exportSequence(args.sequenceId, args.outputPath, args.presetPath, args.format, args.quality, args.resolution);
         case 'export_frame':
           return await this.exportFrame(args.sequenceId, args.time, args.outputPath, args.format);
 
+        // Interchange
+        case 'export_edl':
+          return await this.exportEdl(args.sequenceId, args.outputPath, {
+            title: args.title,
+            videoTrackIndex: args.videoTrackIndex,
+            audioTrackIndexes: args.audioTrackIndexes,
+            frameRate: args.frameRate,
+            dropFrame: args.dropFrame
+          });
+        case 'import_edl':
+          return await this.importEdl(args.edlPath, args.edl, {
+            name: args.sequenceName,
+            frameRate: args.frameRate,
+            recordStart: args.recordStart
+          });
+        case 'export_xml':
+          return await this.exportXml(args.sequenceId, args.outputPath);
+        case 'import_xml':
+          return await this.importXml(args.xmlPath, args.xml, {
+            name: args.sequenceName,
+            sequenceName: args.sourceSequence
+          }, args.importMissingMedia !== false);
+        case 'export_otio':
+          return await this.exportOtio(args.sequenceId, args.outputPath);
+        case 'import_otio':
+          return await this.importOtio(args.otioPath, args.otio, args.sequenceName, args.importMissingMedia !== false);
+
+        // Captions
+        case 'import_captions':
+          return await this.importCaptions(args);
+        case 'export_captions':
+          return await this.exportCaptions(args);
+
+        // Markers
+        case 'add_marker':
+          return await this.addMarker(args);
+        case 'update_marker':
+          return await this.updateMarker(args);
+        case 'delete_marker':
+          return await this.deleteMarker(args);
+        case 'list_markers':
+          return await this.listMarkers(args);
+        case 'export_markers':
+          return await this.exportMarkers(args);
+        case 'import_markers':
+          return await this.importMarkers(args);
+
         // Advanced Features
         case 'create_multicam_sequence':
           return await this.createMulticamSequence(args.name, args.cameraFiles, args.syncMethod);
@@ -533,6 +1218,10 @@ export class PremiereProTools {
         case 'speed_change':
           return await this.speedChange(args.clipId, args.speed, args.maintainAudio);
 
+        // Batch Editing
+        case 'batch_edit':
+          return await this.batchEdit(args.operations, args.stopOnError);
+
         default:
           return {
             success: false,
@@ -556,7 +1245,7 @@ export class PremiereProTools {
 
   // Discovery Tools Implementation
   private async listProjectItems(includeBins = true, includeMetadata = false): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
         var items = [];
         var bins = [];
@@ -572,7 +1261,7 @@ export class PremiereProTools {
             duration: item.duration ? item.duration.seconds : null
           };
           
-          if (${includeMetadata}) {
+          if (args.includeMetadata) {
             itemInfo.metadata = {
               width: item.getMediaWidth ? item.getMediaWidth() : null,
               height: item.getMediaHeight ? item.getMediaHeight() : null,
@@ -589,26 +1278,26 @@ export class PremiereProTools {
           }
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           items: items,
-          bins: ${includeBins} ? bins : [],
+          bins: args.includeBins ? bins : [],
           totalItems: items.length,
           totalBins: bins.length
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { includeBins, includeMetadata });
     
     return await this.bridge.executeScript(script);
   }
 
   private async listSequences(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
         var sequences = [];
         
@@ -626,37 +1315,55 @@ export class PremiereProTools {
           });
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           sequences: sequences,
           count: sequences.length
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
 
   private async listSequenceTracks(sequenceId: string): Promise<any> {
-    const script = `
+    const script = buildScript(`
+      ${TRACK_SCRIPT_HELPERS}
       try {
-        var sequence = app.project.getSequenceByID("${sequenceId}");
+        var sequence = app.project.getSequenceByID(args.sequenceId);
         if (!sequence) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Sequence not found"
           });
-          return;
         }
         
         var videoTracks = [];
         var audioTracks = [];
         
+        // Sync lock is only reported through the QE DOM; without it the tracks are listed anyway
+        var readStates = function (qeSequence) {
+          var read = { video: [], audio: [] };
+          for (var v = 0; v < sequence.videoTracks.numTracks; v++) {
+            read.video.push(readTrackState(sequence, 'video', v, qeSequence));
+          }
+          for (var a = 0; a < sequence.audioTracks.numTracks; a++) {
+            read.audio.push(readTrackState(sequence, 'audio', a, qeSequence));
+          }
+          return read;
+        };
+        var states;
+        try {
+          states = withQeSequence(sequence, readStates);
+        } catch (qeError) {
+          states = readStates(null);
+        }
+        
         // List video tracks
         for (var i = 0; i < sequence.videoTracks.numTracks; i++) {
           var track = sequence.videoTracks[i];
@@ -669,18 +1376,17 @@ export class PremiereProTools {
               name: clip.name,
               startTime: clip.start.seconds,
               endTime: clip.end.seconds,
-              duration: clip.duration.seconds
+              duration: clip.duration.seconds,
+              startTicks: clip.start.ticks,
+              endTicks: clip.end.ticks,
+              durationTicks: clip.duration.ticks
             });
           }
           
-          videoTracks.push({
-            index: i,
-            name: track.name || "Video " + (i + 1),
-            enabled: track.isTargeted(),
-            locked: track.isLocked(),
-            clips: clips,
-            clipCount: clips.length
-          });
+          var state = states.video[i];
+          state.enabled = state.targeted;
+          state.clips = clips;
+          videoTracks.push(state);
         }
         
         // List audio tracks
@@ -695,45 +1401,64 @@ export class PremiereProTools {
               name: clip.name,
               startTime: clip.start.seconds,
               endTime: clip.end.seconds,
-              duration: clip.duration.seconds
+              duration: clip.duration.seconds,
+              startTicks: clip.start.ticks,
+              endTicks: clip.end.ticks,
+              durationTicks: clip.duration.ticks
             });
           }
           
-          audioTracks.push({
-            index: i,
-            name: track.name || "Audio " + (i + 1),
-            enabled: track.isTargeted(),
-            locked: track.isLocked(),
-            clips: clips,
-            clipCount: clips.length
-          });
+          var state = states.audio[i];
+          state.enabled = state.targeted;
+          state.clips = clips;
+          audioTracks.push(state);
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
-          sequenceId: "${sequenceId}",
+          sequenceId: args.sequenceId,
           sequenceName: sequence.name,
+          timebase: sequence.timebase,
           videoTracks: videoTracks,
           audioTracks: audioTracks,
           totalVideoTracks: videoTracks.length,
           totalAudioTracks: audioTracks.length
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { sequenceId });
     
-    return await this.bridge.executeScript(script);
+    const result = await this.bridge.executeScript(script);
+    if (!result?.success || !result.timebase) {
+      return result;
+    }
+
+    // Timecode is formatted here rather than in the script, from the exact tick values
+    const ticksPerFrame = Number(result.timebase);
+    const dropFrame = isDropFrameRate(ticksPerFrame);
+    for (const track of [...result.videoTracks, ...result.audioTracks]) {
+      for (const clip of track.clips) {
+        clip.startTimecode = ticksToTimecode(clip.startTicks, ticksPerFrame, dropFrame);
+        clip.endTimecode = ticksToTimecode(clip.endTicks, ticksPerFrame, dropFrame);
+        clip.durationTimecode = ticksToTimecode(clip.durationTicks, ticksPerFrame, dropFrame);
+      }
+    }
+    return {
+      ...result,
+      frameRate: ticksPerFrameToFrameRate(ticksPerFrame),
+      dropFrame
+    };
   }
 
   private async getProjectInfo(): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
         var project = app.project;
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           name: project.name,
           path: project.path,
@@ -747,12 +1472,12 @@ export class PremiereProTools {
           hasActiveSequence: project.activeSequence !== null
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `);
     
     return await this.bridge.executeScript(script);
   }
@@ -809,28 +1534,162 @@ export class PremiereProTools {
   }
 
   private async saveProjectAs(name: string, location: string): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
         var project = app.project;
-        var newPath = "${location}/${name}.prproj";
+        var newPath = args.location + "/" + args.name + ".prproj";
         project.saveAs(newPath);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Project saved as: " + newPath,
           newPath: newPath
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { name, location });
     
     return await this.bridge.executeScript(script);
   }
 
+  private async collectProject(args: any, onProgress?: ToolProgressReporter): Promise<any> {
+    const report = (progress: number, total: number, message: string) => {
+      this.logger.info(`collect_project: ${message}`);
+      onProgress?.(progress, total, message);
+    };
+    try {
+      const trim = !!args.trimToUsedRanges;
+      const handleFrames: number = args.handleFrames ?? 30;
+      if (trim && !args.presetPath) {
+        throw new Error('Trimming to used ranges transcodes the media, so it needs a presetPath');
+      }
+      const project = await this.getProjectInfo();
+      if (!project.success || !project.path) {
+        throw new Error(project.error || 'No open project');
+      }
+      const target: string = args.targetFolder;
+      const projectPath = join(target, `${args.projectName ?? basename(project.path, '.prproj')}.prproj`);
+
+      const items = await this.bridge.listProjectItems();
+      const usage = await this.bridge.listMediaUsage();
+      const plan = await planCollect(items, usage, target, { includeUnused: args.includeUnused });
+      const estimatedBytes = trim
+        ? plan.files.reduce((total, file) => total + estimateTrimmedSize(file, items, usage, handleFrames), 0)
+        : plan.totalBytes;
+      const files = plan.files.map(file => ({ source: file.source, path: file.path, bin: file.bin, itemIds: file.itemIds, size: file.size }));
+
+      if (args.dryRun) {
+        return {
+          success: true,
+          message: `Would collect ${plan.files.length} files, about ${estimatedBytes} bytes`,
+          dryRun: true,
+          mode: trim ? 'trim' : 'copy',
+          targetFolder: target,
+          fileCount: plan.files.length,
+          sourceBytes: plan.totalBytes,
+          estimatedBytes,
+          ...(trim ? { note: 'Trimmed sizes are estimated from the share of each file used; transcoding changes them' } : { projectPath }),
+          files,
+          skipped: plan.skipped
+        };
+      }
+
+      // The copy is saved from the open project, and the original is reopened from disk afterwards
+      if (!trim && project.isDirty) {
+        throw new Error('The project has unsaved changes; save it first so the collected copy matches it');
+      }
+
+      if (!args.overwrite) {
+        const existing: string[] = [];
+        for (const path of [...plan.files.map(file => file.destination), projectPath, join(target, MANIFEST_FILE)]) {
+          if (await fs.access(path).then(() => true, () => false)) {
+            existing.push(path);
+          }
+        }
+        if (existing.length > 0) {
+          throw new Error(`The target folder already has ${existing.slice(0, 5).join(', ')}${existing.length > 5 ? ` and ${existing.length - 5} more` : ''}; use overwrite to replace them`);
+        }
+      }
+      await fs.mkdir(target, { recursive: true });
+
+      const manifestFiles: ManifestFile[] = [];
+      let collectedProject: string | null = projectPath;
+      const warnings: string[] = [];
+      if (trim) {
+        await fs.access(args.presetPath).catch(() => {
+          throw new Error(`Preset not found: ${args.presetPath}`);
+        });
+        report(0, plan.files.length, 'Project Manager is transcoding the used media');
+        const errors = await this.bridge.runProjectManager({
+          destinationPath: target,
+          presetPath: args.presetPath,
+          handleFrames,
+          excludeUnused: !args.includeUnused
+        });
+        warnings.push(...errors.map(error => `Project Manager: ${error}`));
+        // Project Manager lays out its own folders, so its output is hashed where it put it
+        const written = (await listCollectedFiles(target)).filter(path => path !== MANIFEST_FILE);
+        collectedProject = written.filter(path => path.endsWith('.prproj')).map(path => join(target, path))[0] ?? null;
+        if (!collectedProject) {
+          warnings.push('Project Manager did not write a project file');
+        }
+        for (const [index, path] of written.entries()) {
+          manifestFiles.push({ path, ...(await checksumFile(join(target, path))) });
+          report(index + 1, written.length, `Hashed ${path} (${index + 1} of ${written.length})`);
+        }
+      } else {
+        let copied = 0;
+        for (const [index, file] of plan.files.entries()) {
+          await fs.mkdir(dirname(file.destination), { recursive: true });
+          const { size, sha256 } = await copyWithChecksum(file.source, file.destination);
+          copied += size;
+          manifestFiles.push({ path: file.path, size, sha256, source: file.source, bin: file.bin, itemIds: file.itemIds });
+          report(copied, plan.totalBytes, `Copied ${file.path} (${index + 1} of ${plan.files.length})`);
+        }
+        const relinks = plan.files.flatMap(file => file.itemIds.map(itemId => ({ itemId, path: file.destination })));
+        await this.bridge.saveRelinkedProjectCopy(projectPath, relinks);
+      }
+
+      const manifest = {
+        createdAt: new Date().toISOString(),
+        sourceProject: project.path,
+        project: collectedProject ? relative(target, collectedProject).split(/[\\/]/).join('/') : null,
+        mode: trim ? 'trim' : 'copy',
+        ...(trim ? { handleFrames } : { mediaFolder: COLLECTED_MEDIA_FOLDER }),
+        fileCount: manifestFiles.length,
+        totalBytes: manifestFiles.reduce((total, file) => total + file.size, 0),
+        files: manifestFiles,
+        skipped: plan.skipped
+      };
+      const manifestPath = join(target, MANIFEST_FILE);
+      await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf8');
+
+      return {
+        success: true,
+        message: `Collected ${manifestFiles.length} files into ${target}`,
+        mode: manifest.mode,
+        targetFolder: target,
+        projectPath: collectedProject,
+        manifestPath,
+        fileCount: manifest.fileCount,
+        totalBytes: manifest.totalBytes,
+        files: manifestFiles,
+        skipped: plan.skipped,
+        warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to collect project: ${getErrorMessage(error)}`,
+        targetFolder: args.targetFolder
+      };
+    }
+  }
+
   // Media Management Implementation
   private async importMedia(filePath: string, binName?: string): Promise<any> {
     try {
@@ -852,9 +1711,10 @@ export class PremiereProTools {
   }
 
   private async importFolder(folderPath: string, binName?: string, recursive = false): Promise<any> {
-    const script = `
+    const script = buildScript(`
+      ${IMPORT_SCRIPT_HELPERS}
       try {
-        var folder = new Folder("${folderPath}");
+        var folder = new Folder(args.folderPath);
         var importedItems = [];
         var errors = [];
         
@@ -864,32 +1724,32 @@ export class PremiereProTools {
             var file = files[i];
             if (file instanceof File) {
               try {
-                var item = targetBin.importFiles([file.fsName]);
-                if (item && item.length > 0) {
-                  importedItems.push({
-                    name: file.name,
-                    path: file.fsName,
-                    id: item[0].nodeId
-                  });
-                }
+                var item = importFile(file.fsName, targetBin);
+                importedItems.push({
+                  name: file.name,
+                  path: file.fsName,
+                  id: item.nodeId
+                });
               } catch (e) {
                 errors.push({
                   file: file.name,
                   error: e.toString()
                 });
               }
-            } else if (file instanceof Folder && ${recursive}) {
+            } else if (file instanceof Folder && args.recursive) {
               importFiles(file, targetBin);
             }
           }
         }
         
         var targetBin = app.project.rootItem;
-        ${binName ? `targetBin = app.project.rootItem.children["${binName}"] || app.project.rootItem;` : ''}
+        if (args.binName) {
+          targetBin = app.project.rootItem.children[args.binName] || app.project.rootItem;
+        }
         
         importFiles(folder, targetBin);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           importedItems: importedItems,
           errors: errors,
@@ -897,126 +1757,346 @@ export class PremiereProTools {
           totalErrors: errors.length
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { folderPath, binName, recursive });
     
     return await this.bridge.executeScript(script);
   }
 
   private async createBin(name: string, parentBinName?: string): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
         var parentBin = app.project.rootItem;
-        ${parentBinName ? `parentBin = app.project.rootItem.children["${parentBinName}"] || app.project.rootItem;` : ''}
+        if (args.parentBinName) {
+          parentBin = app.project.rootItem.children[args.parentBinName] || app.project.rootItem;
+        }
         
-        var newBin = parentBin.createBin("${name}");
+        var newBin = parentBin.createBin(args.name);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
-          binName: "${name}",
+          binName: args.name,
           binId: newBin.nodeId,
-          parentBin: parentBinName || "Root"
+          parentBin: args.parentBinName || "Root"
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { name, parentBinName });
     
     return await this.bridge.executeScript(script);
   }
 
-  // Sequence Management Implementation
-  private async createSequence(name: string, presetPath?: string, _width?: number, _height?: number, _frameRate?: number, _sampleRate?: number): Promise<any> {
+  private async findOfflineMedia(): Promise<any> {
     try {
-      const result = await this.bridge.createSequence(name, presetPath);
+      const items = (await this.bridge.listProjectItems()).filter(item => item.type === 'footage' && item.offline);
+      const offline = await Promise.all(items.map(async item => ({
+        id: item.id,
+        name: item.name,
+        bin: item.bin ?? '',
+        lastKnownPath: item.mediaPath ?? '',
+        fileExists: item.mediaPath ? await fs.access(item.mediaPath).then(() => true, () => false) : false,
+        mediaDuration: item.mediaDuration ?? null,
+        frameRate: item.frameRate ?? null
+      })));
       return {
         success: true,
-        message: `Sequence "${name}" created successfully`,
-        sequenceName: name,
-        ...result
+        offlineCount: offline.length,
+        items: offline
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to create sequence: ${error instanceof Error ? error.message : String(error)}`,
-        sequenceName: name
+        error: `Failed to find offline media: ${getErrorMessage(error)}`
       };
     }
   }
 
-  private async duplicateSequence(sequenceId: string, newName: string): Promise<any> {
-    const script = `
-      try {
-        var originalSeq = app.project.getSequenceByID("${sequenceId}");
-        if (!originalSeq) {
-          JSON.stringify({
-            success: false,
-            error: "Sequence not found"
-          });
-          return;
+  private async relinkMedia(args: any): Promise<any> {
+    try {
+      const items = (await this.bridge.listProjectItems()).filter(item => item.type === 'footage');
+      let targets = items.filter(item => item.offline);
+      if (args.itemIds) {
+        const missing = args.itemIds.filter((id: string) => !items.some(item => item.id === id));
+        if (missing.length > 0) {
+          throw new Error(`No footage items with IDs ${missing.join(', ')}`);
+        }
+        targets = items.filter(item => args.itemIds.includes(item.id));
+      }
+      const index = await indexMediaFiles(args.searchRoot);
+      const checked = args.matchDuration || args.matchFrameRate;
+
+      const matches: RelinkMatch[] = [];
+      for (const item of targets) {
+        const ranked = mediaCandidates(item, index);
+        const match: RelinkMatch = {
+          itemId: item.id,
+          name: item.name,
+          lastKnownPath: item.mediaPath ?? '',
+          newPath: null,
+          status: 'not_found',
+          candidates: ranked.map(candidate => candidate.path)
+        };
+        matches.push(match);
+        if (ranked.length === 0) {
+          match.reason = `No file named ${mediaFileName(item.mediaPath ?? '')} under ${args.searchRoot}`;
+          continue;
+        }
+
+        let accepted = ranked;
+        if (checked) {
+          const probes = await this.bridge.probeMedia(ranked.map(candidate => candidate.path));
+          const reasons = probes.map(probe => mediaMismatch(item, probe, args));
+          accepted = ranked.filter((_, position) => reasons[position] === null);
+          if (accepted.length === 0) {
+            match.status = 'mismatched';
+            match.reason = ranked.map((candidate, position) => `${candidate.path}: ${reasons[position]}`).join('; ');
+            continue;
+          }
+        }
+        if (accepted.length > 1 && accepted[0]!.score === accepted[1]!.score) {
+          match.status = 'ambiguous';
+          match.reason = `${accepted.filter(candidate => candidate.score === accepted[0]!.score).length} files match equally well; relink this item with replace_footage`;
+          continue;
+        }
+
+        match.newPath = accepted[0]!.path;
+        if (args.dryRun) {
+          match.status = 'matched';
+          continue;
+        }
+        try {
+          const change = await this.bridge.changeMediaPath(item.id, match.newPath, false);
+          match.status = change.offline ? 'failed' : 'relinked';
+          if (change.offline) {
+            match.reason = 'The item is still offline after relinking';
+          }
+        } catch (error) {
+          match.status = 'failed';
+          match.reason = getErrorMessage(error);
+        }
+      }
+
+      const count = (status: RelinkMatch['status']) => matches.filter(match => match.status === status).length;
+      return {
+        success: true,
+        message: args.dryRun
+          ? `Matched ${count('matched')} of ${matches.length} items (dry run)`
+          : `Relinked ${count('relinked')} of ${matches.length} items`,
+        dryRun: !!args.dryRun,
+        filesSearched: index.fileCount,
+        summary: {
+          relinked: count('relinked'),
+          matched: count('matched'),
+          notFound: count('not_found'),
+          ambiguous: count('ambiguous'),
+          mismatched: count('mismatched'),
+          failed: count('failed')
+        },
+        matches,
+        unreadableFolders: index.skipped
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to relink media: ${getErrorMessage(error)}`,
+        searchRoot: args.searchRoot
+      };
+    }
+  }
+
+  private async replaceFootage(projectItemId: string, filePath: string): Promise<any> {
+    try {
+      try {
+        await fs.access(filePath);
+      } catch {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      const change = await this.bridge.changeMediaPath(projectItemId, filePath, true);
+      return {
+        success: true,
+        message: `Replaced the media of ${change.name}, used by ${change.clipCount} clips`,
+        projectItemId,
+        ...change
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to replace footage: ${getErrorMessage(error)}`,
+        projectItemId,
+        filePath
+      };
+    }
+  }
+
+  // Sequence Management Implementation
+  private async createSequence(name: string, presetPath?: string, _width?: number, _height?: number, _frameRate?: number, _sampleRate?: number): Promise<any> {
+    try {
+      const result = await this.bridge.createSequence(name, presetPath);
+      return {
+        success: true,
+        message: `Sequence "${name}" created successfully`,
+        sequenceName: name,
+        ...result
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create sequence: ${error instanceof Error ? error.message : String(error)}`,
+        sequenceName: name
+      };
+    }
+  }
+
+  private async duplicateSequence(sequenceId: string, newName: string): Promise<any> {
+    const script = buildScript(`
+      try {
+        var originalSeq = app.project.getSequenceByID(args.sequenceId);
+        if (!originalSeq) {
+          return JSON.stringify({
+            success: false,
+            error: "Sequence not found"
+          });
         }
         
         var newSeq = originalSeq.clone();
-        newSeq.name = "${newName}";
+        newSeq.name = args.newName;
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
-          originalSequenceId: "${sequenceId}",
+          originalSequenceId: args.sequenceId,
           newSequenceId: newSeq.sequenceID,
-          newName: "${newName}"
+          newName: args.newName
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { sequenceId, newName });
     
     return await this.bridge.executeScript(script);
   }
 
   private async deleteSequence(sequenceId: string): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var sequence = app.project.getSequenceByID("${sequenceId}");
+        var sequence = app.project.getSequenceByID(args.sequenceId);
         if (!sequence) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Sequence not found"
           });
-          return;
         }
         
         var sequenceName = sequence.name;
         app.project.deleteSequence(sequence);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Sequence deleted successfully",
-          deletedSequenceId: "${sequenceId}",
+          deletedSequenceId: args.sequenceId,
           deletedSequenceName: sequenceName
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { sequenceId });
     
     return await this.bridge.executeScript(script);
   }
 
+  private async addTrack(args: any): Promise<any> {
+    try {
+      if (args.channelType && args.trackType !== 'audio') {
+        throw new Error('channelType only applies to audio tracks');
+      }
+      const count = args.count ?? 1;
+      const tracks = await this.bridge.addTracks(args.sequenceId, args.trackType, count, {
+        after: args.afterIndex,
+        audioType: args.channelType
+      });
+      return {
+        success: true,
+        message: `Added ${count} ${args.trackType} track(s)`,
+        sequenceId: args.sequenceId,
+        tracks
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add track: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId
+      };
+    }
+  }
+
+  private async deleteTrack(args: any): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const tracks = args.trackType === 'video' ? sequence.videoTracks : sequence.audioTracks;
+      const track = tracks[args.trackIndex];
+      if (!track) {
+        throw new Error(`Sequence has no ${args.trackType} track ${args.trackIndex}`);
+      }
+      if (track.locked) {
+        throw new Error(`Track "${track.name}" is locked; unlock it first`);
+      }
+      if (tracks.length === 1) {
+        throw new Error(`Track "${track.name}" is the sequence's only ${args.trackType} track`);
+      }
+      if (track.clips.length > 0 && !args.force) {
+        throw new Error(`Track "${track.name}" holds ${track.clips.length} clip(s); pass force to delete them with it`);
+      }
+      const deleted = await this.bridge.deleteTrack(args.sequenceId, args.trackType, args.trackIndex);
+      return {
+        success: true,
+        message: `Deleted track "${deleted.name}"${deleted.clipCount > 0 ? ` and its ${deleted.clipCount} clip(s)` : ''}`,
+        sequenceId: args.sequenceId,
+        track: deleted
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete track: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId
+      };
+    }
+  }
+
+  private async updateTrack(args: any, changes: PremiereProTrackChanges): Promise<any> {
+    try {
+      if (Object.values(changes).every(value => value === undefined)) {
+        throw new Error('No track settings to change');
+      }
+      const track = await this.bridge.updateTrack(args.sequenceId, args.trackType, args.trackIndex, changes);
+      return {
+        success: true,
+        sequenceId: args.sequenceId,
+        track
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update track: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId
+      };
+    }
+  }
+
   // Timeline Operations Implementation
-  private async addToTimeline(sequenceId: string, projectItemId: string, trackIndex: number, time: number, insertMode = 'overwrite'): Promise<any> {
+  private async addToTimeline(sequenceId: string, projectItemId: string, trackIndex: number, time: TimeValue, insertMode = 'overwrite'): Promise<any> {
     try {
       const result = await this.bridge.addToTimeline(sequenceId, projectItemId, trackIndex, time);
       return {
@@ -1042,114 +2122,121 @@ export class PremiereProTools {
   }
 
   private async removeFromTimeline(clipId: string, deleteMode = 'ripple'): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var clipName = clip.name;
         var track = clip.getTrack();
         
-        if ("${deleteMode}" === "ripple") {
+        if (args.deleteMode === "ripple") {
           track.removeClip(clip, true); // ripple delete
         } else {
           track.removeClip(clip, false); // lift delete
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Clip removed from timeline",
-          clipId: "${clipId}",
+          clipId: args.clipId,
           clipName: clipName,
-          deleteMode: "${deleteMode}"
+          deleteMode: args.deleteMode
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, deleteMode });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async moveClip(clipId: string, newTime: number, newTrackIndex?: number): Promise<any> {
-    const script = `
+  private async moveClip(clipId: string, newTime: TimeValue, newTrackIndex?: number): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var oldTime = clip.start.seconds;
         var oldTrack = clip.getTrack();
         var oldTrackIndex = oldTrack.index;
+        var newStart = specTime(args.newTime, clipSequence(clip));
         
-        clip.start = new Time("${newTime}s");
+        clip.start = newStart;
         
-        ${newTrackIndex !== undefined ? `
-        var newTrack = app.project.activeSequence.videoTracks[${newTrackIndex}];
-        if (newTrack) {
-          oldTrack.removeClip(clip, false);
-          newTrack.insertClip(clip, new Time("${newTime}s"));
+        if (args.newTrackIndex !== undefined) {
+          var newTrack = app.project.activeSequence.videoTracks[args.newTrackIndex];
+          if (newTrack) {
+            oldTrack.removeClip(clip, false);
+            newTrack.insertClip(clip, newStart);
+          }
         }
-        ` : ''}
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Clip moved successfully",
-          clipId: "${clipId}",
+          clipId: args.clipId,
           oldTime: oldTime,
-          newTime: ${newTime},
+          newTime: clip.start.seconds,
           oldTrackIndex: oldTrackIndex,
-          newTrackIndex: ${newTrackIndex !== undefined ? newTrackIndex : 'unchanged'}
+          newTrackIndex: args.newTrackIndex !== undefined ? args.newTrackIndex : "unchanged"
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, newTime: parseTimeValue(newTime), newTrackIndex });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async trimClip(clipId: string, inPoint?: number, outPoint?: number, duration?: number): Promise<any> {
-    const script = `
+  private async trimClip(clipId: string, inPoint?: TimeValue, outPoint?: TimeValue, duration?: TimeValue): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var oldInPoint = clip.inPoint.seconds;
         var oldOutPoint = clip.outPoint.seconds;
         var oldDuration = clip.duration.seconds;
+        var sequence = clipSequence(clip);
         
-        ${inPoint !== undefined ? `clip.inPoint = new Time("${inPoint}s");` : ''}
-        ${outPoint !== undefined ? `clip.outPoint = new Time("${outPoint}s");` : ''}
-        ${duration !== undefined ? `clip.outPoint = new Time(clip.inPoint.seconds + ${duration});` : ''}
+        if (args.inPoint) {
+          clip.inPoint = specTime(args.inPoint, sequence);
+        }
+        if (args.outPoint) {
+          clip.outPoint = specTime(args.outPoint, sequence);
+        }
+        if (args.duration) {
+          clip.outPoint = ticksTime(Number(clip.inPoint.ticks) + specTicks(args.duration, sequence));
+        }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Clip trimmed successfully",
-          clipId: "${clipId}",
+          clipId: args.clipId,
           oldInPoint: oldInPoint,
           oldOutPoint: oldOutPoint,
           oldDuration: oldDuration,
@@ -1158,114 +2245,271 @@ export class PremiereProTools {
           newDuration: clip.duration.seconds
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, {
+      clipId,
+      inPoint: inPoint !== undefined ? parseTimeValue(inPoint) : null,
+      outPoint: outPoint !== undefined ? parseTimeValue(outPoint) : null,
+      duration: duration !== undefined ? parseTimeValue(duration) : null
+    });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async splitClip(clipId: string, splitTime: number): Promise<any> {
-    const script = `
+  private async splitClip(clipId: string, splitTime: TimeValue): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var track = clip.getTrack();
-        var splitPoint = new Time(clip.start.seconds + ${splitTime});
+        var offsetTicks = specTicks(args.splitTime, clipSequence(clip));
+        var splitPoint = ticksTime(Number(clip.start.ticks) + offsetTicks);
         
         var newClip = track.splitClip(clip, splitPoint);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Clip split successfully",
-          originalClipId: "${clipId}",
+          originalClipId: args.clipId,
           newClipId: newClip.nodeId,
-          splitTime: ${splitTime},
+          splitTime: offsetTicks / TICKS_PER_SECOND,
           splitPoint: splitPoint.seconds
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, splitTime: parseTimeValue(splitTime) });
     
     return await this.bridge.executeScript(script);
   }
 
+  private async trimEdit(clipId: string, edit: PremiereProTrimEdit, offset: TimeValue, edge?: 'in' | 'out'): Promise<any> {
+    const names = { ripple: 'Ripple trim', roll: 'Roll edit', slip: 'Slip', slide: 'Slide' };
+    try {
+      const result = await this.bridge.trimEdit(clipId, edit, offset, edge);
+      const moved = result.changes.filter(change => change.role === 'neighbour');
+      return {
+        success: true,
+        message: `${names[edit]} by ${result.offset}s applied to ${result.changes.length - moved.length} clip(s), changing ${moved.length} neighbouring clip(s)`,
+        clipId,
+        edit,
+        ...(edit === 'ripple' || edit === 'roll' ? { edge: edge ?? 'out' } : {}),
+        offset: result.offset,
+        clips: result.changes.filter(change => change.role !== 'neighbour'),
+        neighbours: moved
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `${names[edit]} failed: ${getErrorMessage(error)}`,
+        clipId,
+        edit
+      };
+    }
+  }
+
+  private async findGaps(args: any): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const gaps = findGaps(sequence, args);
+      return {
+        success: true,
+        sequenceId: args.sequenceId,
+        synced: !!args.synced,
+        gaps,
+        totalCount: gaps.length,
+        totalDuration: gaps.reduce((total, gap) => total + gap.duration, 0)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find gaps: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId
+      };
+    }
+  }
+
+  private async closeGaps(args: any): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const plan = planGapClosing(sequence, args);
+      if (!args.dryRun && plan.moves.length > 0) {
+        await this.bridge.moveClips(plan.moves.map(move => ({ clipId: move.clipId, start: move.to })));
+      }
+      return {
+        success: true,
+        message: `${args.dryRun ? 'Would close' : 'Closed'} ${plan.gaps.length} gaps, moving ${plan.moves.length} clips`,
+        sequenceId: args.sequenceId,
+        synced: !!args.synced,
+        dryRun: !!args.dryRun,
+        gaps: plan.gaps,
+        moves: plan.moves,
+        warnings: plan.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to close gaps: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId
+      };
+    }
+  }
+
+  private async nestClips(args: any): Promise<any> {
+    try {
+      const warnings: string[] = [];
+      let clipIds: string[] = args.clipIds ?? [];
+      if (args.clipIds && (args.start !== undefined || args.end !== undefined)) {
+        throw new Error('Give either clipIds or a start and end, not both');
+      }
+      if (!args.clipIds) {
+        if (args.start === undefined || args.end === undefined) {
+          throw new Error('Give the clipIds to nest, or a start and end');
+        }
+        const sequence = await this.bridge.getSequence(args.sequenceId);
+        const timebase = sequence.timebase ?? frameRateToTicksPerFrame(sequence.frameRate);
+        const start = ticksToSeconds(timeValueToTicks(args.start, timebase));
+        const end = ticksToSeconds(timeValueToTicks(args.end, timebase));
+        if (end <= start) {
+          throw new Error('The range ends before it starts');
+        }
+        const all = !args.videoTracks && !args.audioTracks;
+        for (const type of ['video', 'audio'] as const) {
+          const tracks = type === 'video' ? sequence.videoTracks : sequence.audioTracks;
+          const indexes: number[] = all ? tracks.map((_, index) => index) : (type === 'video' ? args.videoTracks : args.audioTracks) ?? [];
+          for (const index of indexes) {
+            const track = tracks[index];
+            if (!track) {
+              throw new Error(`Sequence has no ${type} track ${index}`);
+            }
+            for (const clip of track.clips) {
+              const clipStart = clip.start ?? 0;
+              const clipEnd = clip.end ?? clipStart + clip.duration;
+              if (clipStart >= start - 1e-6 && clipEnd <= end + 1e-6) {
+                clipIds.push(clip.id);
+              } else if (clipStart < end && clipEnd > start) {
+                warnings.push(`${clip.name} (${clip.id}) runs past the range and was left out`);
+              }
+            }
+          }
+        }
+        if (clipIds.length === 0) {
+          throw new Error('No clips lie wholly inside the range');
+        }
+      }
+
+      const nest = await this.bridge.nestClips(args.sequenceId, clipIds, args.name ?? 'Nested Sequence');
+      return {
+        success: true,
+        message: `Nested ${nest.clipCount} clips into "${nest.name}"`,
+        ...nest,
+        parentSequenceId: args.sequenceId,
+        warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to nest clips: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId
+      };
+    }
+  }
+
+  private async unnestClip(clipId: string): Promise<any> {
+    try {
+      const result = await this.bridge.unnestClip(clipId);
+      return {
+        success: true,
+        message: `Unnested ${result.clips.length} clips`,
+        nestClipId: clipId,
+        nestedSequenceId: result.sequenceId,
+        clips: result.clips,
+        warnings: result.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to unnest clip: ${getErrorMessage(error)}`,
+        clipId
+      };
+    }
+  }
+
   // Effects and Transitions Implementation
   private async applyEffect(clipId: string, effectName: string, parameters?: Record<string, any>): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
-        var effect = clip.addEffect("${effectName}");
+        var effect = clip.addEffect(args.effectName);
         if (!effect) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Effect not found or could not be applied"
           });
-          return;
         }
         
-        ${parameters ? Object.entries(parameters).map(([key, value]) => 
-          `try { if (effect.properties["${key}"]) effect.properties["${key}"].setValue(${JSON.stringify(value)}); } catch (e) { /* Parameter not found */ }`
-        ).join('\n') : ''}
+        var parametersApplied = 0;
+        for (var key in args.parameters) {
+          parametersApplied++;
+          try { if (effect.properties[key]) effect.properties[key].setValue(args.parameters[key]); } catch (e) { /* Parameter not found */ }
+        }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Effect applied successfully",
-          clipId: "${clipId}",
-          effectName: "${effectName}",
+          clipId: args.clipId,
+          effectName: args.effectName,
           effectId: effect.matchName,
-          parametersApplied: ${parameters ? Object.keys(parameters).length : 0}
+          parametersApplied: parametersApplied
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, effectName, parameters: parameters || {} });
     
     return await this.bridge.executeScript(script);
   }
 
   private async removeEffect(clipId: string, effectName: string): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var effects = clip.getEffects();
         var removed = false;
         
         for (var i = 0; i < effects.length; i++) {
-          if (effects[i].displayName === "${effectName}") {
+          if (effects[i].displayName === args.effectName) {
             clip.removeEffect(effects[i]);
             removed = true;
             break;
@@ -1273,497 +2517,590 @@ export class PremiereProTools {
         }
         
         if (!removed) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Effect not found on clip"
           });
-          return;
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Effect removed successfully",
-          clipId: "${clipId}",
-          effectName: "${effectName}"
+          clipId: args.clipId,
+          effectName: args.effectName
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, effectName });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async addTransition(clipId1: string, clipId2: string, transitionName: string, duration: number): Promise<any> {
-    const script = `
+  private async addTransition(clipId1: string, clipId2: string, transitionName: string, duration: TimeValue): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var clip1 = app.project.getClipByID("${clipId1}");
-        var clip2 = app.project.getClipByID("${clipId2}");
+        var clip1 = app.project.getClipByID(args.clipId1);
+        var clip2 = app.project.getClipByID(args.clipId2);
         
         if (!clip1 || !clip2) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "One or both clips not found"
           });
-          return;
         }
         
         var track = clip1.getTrack();
-        var transition = track.addTransition("${transitionName}", clip1, clip2, ${duration});
+        var duration = specTime(args.duration, clipSequence(clip1));
+        var transition = track.addTransition(args.transitionName, clip1, clip2, duration);
         
         if (!transition) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to add transition"
           });
-          return;
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Transition added successfully",
-          transitionName: "${transitionName}",
-          duration: ${duration},
-          clip1Id: "${clipId1}",
-          clip2Id: "${clipId2}",
+          transitionName: args.transitionName,
+          duration: duration.seconds,
+          clip1Id: args.clipId1,
+          clip2Id: args.clipId2,
           transitionId: transition.nodeId
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId1, clipId2, transitionName, duration: parseTimeValue(duration) });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async addTransitionToClip(clipId: string, transitionName: string, position: 'start' | 'end', duration: number): Promise<any> {
-    const script = `
+  private async addTransitionToClip(clipId: string, transitionName: string, position: 'start' | 'end', duration: TimeValue): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var track = clip.getTrack();
+        var duration = specTime(args.duration, clipSequence(clip));
         var transition;
         
-        if ("${position}" === "start") {
-          transition = track.addTransition("${transitionName}", clip, "start", ${duration});
+        if (args.position === "start") {
+          transition = track.addTransition(args.transitionName, clip, "start", duration);
         } else {
-          transition = track.addTransition("${transitionName}", clip, "end", ${duration});
+          transition = track.addTransition(args.transitionName, clip, "end", duration);
         }
         
         if (!transition) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to add transition"
           });
-          return;
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Transition added successfully",
-          transitionName: "${transitionName}",
-          position: "${position}",
-          duration: ${duration},
-          clipId: "${clipId}",
+          transitionName: args.transitionName,
+          position: args.position,
+          duration: duration.seconds,
+          clipId: args.clipId,
           transitionId: transition.nodeId
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, transitionName, position, duration: parseTimeValue(duration) });
     
     return await this.bridge.executeScript(script);
   }
 
+  private async getEffectParameters(clipId: string, effect?: string): Promise<any> {
+    try {
+      const clip = await this.bridge.getClipComponents(clipId);
+      const effects = describeEffectParameters(clip, effect);
+      if (effect !== undefined && effects.length === 0) {
+        throw new Error(`Clip has no ${effect} effect`);
+      }
+      return {
+        success: true,
+        clipId,
+        name: clip.name,
+        trackType: clip.trackType,
+        duration: clip.duration,
+        effects
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get effect parameters: ${getErrorMessage(error)}`,
+        clipId
+      };
+    }
+  }
+
+  private async setEffectKeyframes(args: any): Promise<any> {
+    try {
+      const clip = await this.bridge.getClipComponents(args.clipId);
+      const { component, parameterIndex } = resolveEffectParameter(clip, args.effect, args.parameter, args.componentIndex);
+      let parameter = component.parameters[parameterIndex]!;
+      if (args.action === 'add') {
+        if (!args.keyframes?.length) {
+          throw new Error('No keyframes to add');
+        }
+        parameter = await this.bridge.changeKeyframes(args.clipId, component.index, parameterIndex, { add: args.keyframes });
+      } else if (args.action === 'remove') {
+        parameter = await this.bridge.changeKeyframes(args.clipId, component.index, parameterIndex, { remove: args.times ?? 'all' });
+      }
+      return {
+        success: true,
+        clipId: args.clipId,
+        effect: component.name,
+        matchName: component.matchName,
+        componentIndex: component.index,
+        parameter: parameter.name,
+        parameterIndex,
+        action: args.action,
+        animated: parameter.animated,
+        value: parameter.value,
+        keyframes: parameter.keyframes
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to ${args.action} effect keyframes: ${getErrorMessage(error)}`,
+        clipId: args.clipId
+      };
+    }
+  }
+
   // Audio Operations Implementation
   private async adjustAudioLevels(clipId: string, level: number): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var audioComponent = clip.components[0];
         if (!audioComponent || !audioComponent.properties["Volume"]) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Audio component not found or clip has no audio"
           });
-          return;
         }
         
         var oldLevel = audioComponent.properties["Volume"].getValue();
-        audioComponent.properties["Volume"].setValue(${level});
+        audioComponent.properties["Volume"].setValue(args.level);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Audio level adjusted successfully",
-          clipId: "${clipId}",
+          clipId: args.clipId,
           oldLevel: oldLevel,
-          newLevel: ${level}
+          newLevel: args.level
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, level });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async addAudioKeyframes(clipId: string, keyframes: Array<{time: number, level: number}>): Promise<any> {
-    const script = `
+  private async addAudioKeyframes(clipId: string, keyframes: Array<{time: TimeValue, level: number}>): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var audioComponent = clip.components[0];
         if (!audioComponent || !audioComponent.properties["Volume"]) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Audio component not found or clip has no audio"
           });
-          return;
         }
         
         var volumeProperty = audioComponent.properties["Volume"];
+        var sequence = clipSequence(clip);
         var addedKeyframes = [];
         
-        ${keyframes.map(kf => `
-        try {
-          volumeProperty.addKey(new Time("${kf.time}s"));
-          volumeProperty.setValueAtKey(new Time("${kf.time}s"), ${kf.level});
-          addedKeyframes.push({ time: ${kf.time}, level: ${kf.level} });
-        } catch (e) {
-          // Keyframe already exists or invalid time
+        for (var i = 0; i < args.keyframes.length; i++) {
+          var kf = args.keyframes[i];
+          try {
+            var keyTime = specTime(kf.time, sequence);
+            volumeProperty.addKey(keyTime);
+            volumeProperty.setValueAtKey(keyTime, kf.level);
+            addedKeyframes.push({ time: keyTime.seconds, level: kf.level });
+          } catch (e) {
+            // Keyframe already exists or invalid time
+          }
         }
-        `).join('\n')}
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Audio keyframes added successfully",
-          clipId: "${clipId}",
+          clipId: args.clipId,
           addedKeyframes: addedKeyframes,
           totalKeyframes: addedKeyframes.length
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, keyframes: keyframes.map(kf => ({ time: parseTimeValue(kf.time), level: kf.level })) });
     
     return await this.bridge.executeScript(script);
   }
 
   private async muteTrack(sequenceId: string, trackIndex: number, muted: boolean): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var sequence = app.project.getSequenceByID("${sequenceId}");
+        var sequence = app.project.getSequenceByID(args.sequenceId);
         if (!sequence) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Sequence not found"
           });
-          return;
         }
         
-        var track = sequence.audioTracks[${trackIndex}];
+        var track = sequence.audioTracks[args.trackIndex];
         if (!track) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Audio track not found"
           });
-          return;
         }
         
-        track.setMute(${muted});
+        track.setMute(args.muted);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Track mute status changed successfully",
-          sequenceId: "${sequenceId}",
-          trackIndex: ${trackIndex},
-          muted: ${muted}
+          sequenceId: args.sequenceId,
+          trackIndex: args.trackIndex,
+          muted: args.muted
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { sequenceId, trackIndex, muted });
     
     return await this.bridge.executeScript(script);
   }
 
   // Text and Graphics Implementation
   private async addTextOverlay(args: any): Promise<any> {
-    const script = `
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var sequence = app.project.getSequenceByID("${args.sequenceId}");
+        var sequence = app.project.getSequenceByID(args.sequenceId);
         if (!sequence) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Sequence not found"
           });
-          return;
         }
         
-        var track = sequence.videoTracks[${args.trackIndex}];
+        var track = sequence.videoTracks[args.trackIndex];
         if (!track) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Video track not found"
           });
-          return;
         }
         
         // Create a text clip using the legacy title system
-        var titleItem = app.project.createNewTitle("${args.text}");
+        var titleItem = app.project.createNewTitle(args.text);
         if (!titleItem) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to create title"
           });
-          return;
         }
         
         // Set text properties using the legacy title API
         var title = titleItem.getText();
         if (title) {
-          title.text = "${args.text}";
-          ${args.fontFamily ? `title.fontFamily = "${args.fontFamily}";` : ''}
-          ${args.fontSize ? `title.fontSize = ${args.fontSize};` : ''}
-          ${args.color ? `title.fillColor = "${args.color}";` : ''}
-          ${args.position ? `
-          title.horizontalJustification = "${args.alignment || 'center'}";
-          title.verticalJustification = "center";
-          ` : ''}
+          title.text = args.text;
+          if (args.fontFamily) title.fontFamily = args.fontFamily;
+          if (args.fontSize) title.fontSize = args.fontSize;
+          if (args.color) title.fillColor = args.color;
+          if (args.position) {
+            title.horizontalJustification = args.alignment || "center";
+            title.verticalJustification = "center";
+          }
         }
         
         // Insert the title into the timeline
-        var titleClip = track.insertClip(titleItem, new Time("${args.startTime}s"));
-        titleClip.end = new Time(titleClip.start.seconds + ${args.duration});
+        var titleClip = track.insertClip(titleItem, specTime(args.startTime, sequence));
+        titleClip.end = ticksTime(Number(titleClip.start.ticks) + specTicks(args.duration, sequence));
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Text overlay added successfully",
-          text: "${args.text}",
+          text: args.text,
           clipId: titleClip.nodeId,
-          startTime: ${args.startTime},
-          duration: ${args.duration},
-          trackIndex: ${args.trackIndex}
+          startTime: titleClip.start.seconds,
+          duration: titleClip.duration.seconds,
+          trackIndex: args.trackIndex
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { ...args, startTime: parseTimeValue(args.startTime), duration: parseTimeValue(args.duration) });
     
     return await this.bridge.executeScript(script);
   }
 
   private async addShape(args: any): Promise<any> {
-    const script = `
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var sequence = app.project.getSequenceByID("${args.sequenceId}");
+        var sequence = app.project.getSequenceByID(args.sequenceId);
         if (!sequence) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Sequence not found"
           });
-          return;
         }
         
-        var track = sequence.videoTracks[${args.trackIndex}];
+        var track = sequence.videoTracks[args.trackIndex];
         if (!track) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Video track not found"
           });
-          return;
         }
         
         // Create a shape using the legacy title system
         var shapeItem = app.project.createNewTitle("Shape");
         if (!shapeItem) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to create shape"
           });
-          return;
         }
         
         // Add shape to title
-        var shape = shapeItem.addShape("${args.shapeType}");
+        var shape = shapeItem.addShape(args.shapeType);
         if (shape) {
-          ${args.color ? `shape.fillColor = "${args.color}";` : ''}
-          ${args.size ? `
-          shape.width = ${args.size.width || 100};
-          shape.height = ${args.size.height || 100};
-          ` : ''}
-          ${args.position ? `
-          shape.x = ${args.position.x || 50};
-          shape.y = ${args.position.y || 50};
-          ` : ''}
+          if (args.color) shape.fillColor = args.color;
+          if (args.size) {
+            shape.width = args.size.width || 100;
+            shape.height = args.size.height || 100;
+          }
+          if (args.position) {
+            shape.x = args.position.x || 50;
+            shape.y = args.position.y || 50;
+          }
         }
         
         // Insert the shape into the timeline
-        var shapeClip = track.insertClip(shapeItem, new Time("${args.startTime}s"));
-        shapeClip.end = new Time(shapeClip.start.seconds + ${args.duration});
+        var shapeClip = track.insertClip(shapeItem, specTime(args.startTime, sequence));
+        shapeClip.end = ticksTime(Number(shapeClip.start.ticks) + specTicks(args.duration, sequence));
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Shape added successfully",
-          shapeType: "${args.shapeType}",
+          shapeType: args.shapeType,
           clipId: shapeClip.nodeId,
-          startTime: ${args.startTime},
-          duration: ${args.duration},
-          trackIndex: ${args.trackIndex}
+          startTime: shapeClip.start.seconds,
+          duration: shapeClip.duration.seconds,
+          trackIndex: args.trackIndex
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { ...args, startTime: parseTimeValue(args.startTime), duration: parseTimeValue(args.duration) });
     
     return await this.bridge.executeScript(script);
   }
 
   // Color Correction Implementation
   private async colorCorrect(clipId: string, adjustments: any): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var colorCorrection = clip.addEffect("Lumetri Color");
         if (!colorCorrection) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to add color correction effect"
           });
-          return;
         }
         
-        ${adjustments.brightness !== undefined ? `try { colorCorrection.properties["Brightness"].setValue(${adjustments.brightness}); } catch (e) {}` : ''}
-        ${adjustments.contrast !== undefined ? `try { colorCorrection.properties["Contrast"].setValue(${adjustments.contrast}); } catch (e) {}` : ''}
-        ${adjustments.saturation !== undefined ? `try { colorCorrection.properties["Saturation"].setValue(${adjustments.saturation}); } catch (e) {}` : ''}
-        ${adjustments.hue !== undefined ? `try { colorCorrection.properties["Hue"].setValue(${adjustments.hue}); } catch (e) {}` : ''}
-        ${adjustments.highlights !== undefined ? `try { colorCorrection.properties["Highlights"].setValue(${adjustments.highlights}); } catch (e) {}` : ''}
-        ${adjustments.shadows !== undefined ? `try { colorCorrection.properties["Shadows"].setValue(${adjustments.shadows}); } catch (e) {}` : ''}
-        ${adjustments.temperature !== undefined ? `try { colorCorrection.properties["Temperature"].setValue(${adjustments.temperature}); } catch (e) {}` : ''}
-        ${adjustments.tint !== undefined ? `try { colorCorrection.properties["Tint"].setValue(${adjustments.tint}); } catch (e) {}` : ''}
+        var propertyNames = {
+          brightness: "Brightness",
+          contrast: "Contrast",
+          saturation: "Saturation",
+          hue: "Hue",
+          highlights: "Highlights",
+          shadows: "Shadows",
+          temperature: "Temperature",
+          tint: "Tint"
+        };
+        for (var key in propertyNames) {
+          if (args.adjustments[key] !== undefined) {
+            try { colorCorrection.properties[propertyNames[key]].setValue(args.adjustments[key]); } catch (e) {}
+          }
+        }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Color correction applied successfully",
-          clipId: "${clipId}",
-          adjustments: ${JSON.stringify(adjustments)}
+          clipId: args.clipId,
+          adjustments: args.adjustments
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, adjustments });
     
     return await this.bridge.executeScript(script);
   }
 
   private async applyLut(clipId: string, lutPath: string, intensity = 100): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var lutEffect = clip.addEffect("Lumetri Color");
         if (!lutEffect) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to add LUT effect"
           });
-          return;
         }
         
         // Apply LUT file
         try {
-          lutEffect.properties["Input LUT"].setValue("${lutPath}");
-          lutEffect.properties["Input LUT Intensity"].setValue(${intensity / 100});
+          lutEffect.properties["Input LUT"].setValue(args.lutPath);
+          lutEffect.properties["Input LUT Intensity"].setValue(args.intensity / 100);
         } catch (e) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to apply LUT file: " + e.toString()
           });
-          return;
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "LUT applied successfully",
-          clipId: "${clipId}",
-          lutPath: "${lutPath}",
-          intensity: ${intensity}
+          clipId: args.clipId,
+          lutPath: args.lutPath,
+          intensity: args.intensity
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, lutPath, intensity });
     
     return await this.bridge.executeScript(script);
   }
 
+  // Clip Properties Implementation
+  private async setClipProperties(clipId: string, plan: (clip: PremiereProClipComponents) => PremiereProParameterChange[]): Promise<any> {
+    try {
+      const changes = plan(await this.bridge.getClipComponents(clipId));
+      const clip = await this.bridge.setClipParameters(clipId, changes);
+      return {
+        success: true,
+        message: `Set ${changes.length} clip properties`,
+        clipId,
+        ...describeClipProperties(clip)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set clip properties: ${getErrorMessage(error)}`,
+        clipId
+      };
+    }
+  }
+
+  private async getClipProperties(clipId: string): Promise<any> {
+    try {
+      const clip = await this.bridge.getClipComponents(clipId);
+      return {
+        success: true,
+        clipId,
+        name: clip.name,
+        duration: clip.duration,
+        ...describeClipProperties(clip)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get clip properties: ${getErrorMessage(error)}`,
+        clipId
+      };
+    }
+  }
+
   // Export and Rendering Implementation
   private async exportSequence(sequenceId: string, outputPath: string, presetPath?: string, format?: string, quality?: string, resolution?: string): Promise<any> {
     try {
@@ -1789,248 +3126,1311 @@ export class PremiereProTools {
     }
   }
 
-  private async exportFrame(sequenceId: string, time: number, outputPath: string, format = 'png'): Promise<any> {
-    const script = `
+  private async exportFrame(sequenceId: string, time: TimeValue, outputPath: string, format = 'png'): Promise<any> {
+    const script = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var sequence = app.project.getSequenceByID("${sequenceId}");
+        var sequence = app.project.getSequenceByID(args.sequenceId);
         if (!sequence) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Sequence not found"
           });
-          return;
         }
         
-        sequence.exportFrame(new Time("${time}s"), "${outputPath}", "${format}");
+        var frameTime = specTime(args.time, sequence);
+        sequence.exportFrame(frameTime, args.outputPath, args.format);
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Frame exported successfully",
-          sequenceId: "${sequenceId}",
-          time: ${time},
-          outputPath: "${outputPath}",
-          format: "${format}"
+          sequenceId: args.sequenceId,
+          time: frameTime.seconds,
+          outputPath: args.outputPath,
+          format: args.format
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { sequenceId, time: parseTimeValue(time), outputPath, format });
     
     return await this.bridge.executeScript(script);
   }
 
-  // Advanced Features Implementation
-  private async createMulticamSequence(name: string, cameraFiles: string[], syncMethod: string): Promise<any> {
-    const script = `
-      try {
-        var multicamSource = app.project.createMulticamSource("${name}", [${cameraFiles.map(f => `"${f}"`).join(', ')}], "${syncMethod}");
-        if (!multicamSource) {
-          JSON.stringify({
-            success: false,
-            error: "Failed to create multicam source"
-          });
-          return;
-        }
-        
-        var sequence = app.project.createSequenceFromMulticamSource("${name}", multicamSource);
-        if (!sequence) {
-          JSON.stringify({
-            success: false,
-            error: "Failed to create sequence from multicam source"
-          });
-          return;
-        }
-        
-        JSON.stringify({
-          success: true,
-          message: "Multicam sequence created successfully",
-          name: "${name}",
-          sequenceId: sequence.sequenceID,
-          cameraCount: ${cameraFiles.length},
-          syncMethod: "${syncMethod}"
-        });
-      } catch (e) {
-        JSON.stringify({
-          success: false,
-          error: e.toString()
-        });
+  // Interchange Implementation
+  private async exportEdl(sequenceId: string, outputPath: string | undefined, options: EdlExportOptions): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(sequenceId);
+      const edl = formatEdl(sequence, options);
+      if (outputPath) {
+        await fs.writeFile(outputPath, edl.text, 'utf8');
       }
-    `;
-    
-    return await this.bridge.executeScript(script);
-  }
+
+      return {
+        success: true,
+        message: `Exported ${edl.eventCount} EDL events`,
+        sequenceId,
+        sequenceName: sequence.name,
+        outputPath,
+        eventCount: edl.eventCount,
+        frameRate: edl.frameRate,
+        dropFrame: edl.dropFrame,
+        channels: edl.channels,
+        warnings: edl.warnings,
+        ...(outputPath ? {} : { edl: edl.text })
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to export EDL: ${getErrorMessage(error)}`,
+        sequenceId,
+        outputPath
+      };
+    }
+  }
+
+  private async importEdl(edlPath: string | undefined, edlText: string | undefined, options: EdlImportOptions): Promise<any> {
+    try {
+      if (!edlPath && edlText === undefined) {
+        return {
+          success: false,
+          error: 'Provide either edlPath or edl'
+        };
+      }
+      const text = edlText ?? await fs.readFile(edlPath!, 'utf8');
+      const edl = parseEdl(text);
+      if (edl.events.length === 0) {
+        return {
+          success: false,
+          error: 'The EDL has no events',
+          edlPath,
+          warnings: edl.warnings
+        };
+      }
+
+      const items = await this.bridge.listProjectItems();
+      const plan = conformEdl(edl, items, options);
+      const built = await this.bridge.buildSequence(plan.sequence);
+
+      // Anything the bridge couldn't place is reported alongside what never matched
+      for (const failure of built.failures) {
+        const modelId = failure.modelTransitionId ?? failure.modelClipId ?? '';
+        const event = edl.events.find(entry => entry.number === Number(modelId.split(':')[0]));
+        if (!event) {
+          continue;
+        }
+        const issue = { event: event.number, line: event.line, reel: event.source.reel, clipName: event.source.clipName, channel: event.channel, reason: failure.reason };
+        if (failure.transition) {
+          plan.unmappedTransitions.push(issue);
+        } else {
+          plan.unmatchedEvents.push(issue);
+        }
+      }
+
+      return {
+        success: true,
+        message: `Conformed ${built.clips.length} clips from ${edl.events.length} EDL events into "${built.name}"`,
+        sequenceId: built.sequenceId,
+        sequenceName: built.name,
+        edlPath,
+        title: edl.title,
+        frameRate: plan.frameRate,
+        dropFrame: plan.dropFrame,
+        eventCount: edl.events.length,
+        clipsPlaced: built.clips.length,
+        transitionsAdded: built.transitions.length,
+        matchedSources: plan.matchedSources,
+        unmatchedEvents: plan.unmatchedEvents,
+        unmappedTransitions: plan.unmappedTransitions,
+        warnings: plan.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to import EDL: ${getErrorMessage(error)}`,
+        edlPath
+      };
+    }
+  }
+
+  private async exportXml(sequenceId: string, outputPath: string | undefined): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(sequenceId);
+      const items = await this.bridge.listProjectItems();
+      const xml = formatXmeml(sequence, { items });
+      if (outputPath) {
+        await fs.writeFile(outputPath, xml.text, 'utf8');
+      }
+
+      return {
+        success: true,
+        message: `Exported ${xml.clipCount} clips and ${xml.transitionCount} transitions to FCP7 XML`,
+        sequenceId,
+        sequenceName: sequence.name,
+        outputPath,
+        frameRate: xml.frameRate,
+        clipCount: xml.clipCount,
+        transitionCount: xml.transitionCount,
+        markerCount: xml.markerCount,
+        fileCount: xml.fileCount,
+        warnings: xml.warnings,
+        ...(outputPath ? {} : { xml: xml.text })
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to export XML: ${getErrorMessage(error)}`,
+        sequenceId,
+        outputPath
+      };
+    }
+  }
+
+  private async importXml(xmlPath: string | undefined, xmlText: string | undefined, options: XmemlImportOptions, importMissingMedia: boolean): Promise<any> {
+    try {
+      if (!xmlPath && xmlText === undefined) {
+        return {
+          success: false,
+          error: 'Provide either xmlPath or xml'
+        };
+      }
+      const text = xmlText ?? await fs.readFile(xmlPath!, 'utf8');
+      const parsed = parseXmeml(text, options);
+
+      const { items, importedMedia } = await this.projectItemsFor(parsed, importMissingMedia);
+      const plan = conformTimeline(parsed, items, options);
+      const built = await this.bridge.buildSequence(plan.sequence);
+      const { unmappedTransitions, effectFailures } = this.collectBuildFailures(plan, built);
+
+      return {
+        success: true,
+        message: `Rebuilt "${built.name}" with ${built.clips.length} clips from FCP7 XML`,
+        sequenceId: built.sequenceId,
+        sequenceName: built.name,
+        xmlPath,
+        sourceSequence: parsed.sequence.name,
+        frameRate: Math.round(plan.sequence.frameRate * 1000) / 1000,
+        clipsPlaced: built.clips.length,
+        transitionsAdded: built.transitions.length,
+        markersAdded: built.markers,
+        importedMedia,
+        matchedFiles: plan.matchedFiles,
+        unmatchedClips: plan.unmatchedClips,
+        unmappedTransitions,
+        effectFailures,
+        warnings: plan.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to import XML: ${getErrorMessage(error)}`,
+        xmlPath
+      };
+    }
+  }
+
+  private async exportOtio(sequenceId: string, outputPath: string | undefined): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(sequenceId);
+      const items = await this.bridge.listProjectItems();
+      const otio = formatOtio(sequence, { items });
+      if (outputPath) {
+        await fs.writeFile(outputPath, otio.text, 'utf8');
+      }
+
+      return {
+        success: true,
+        message: `Exported ${otio.clipCount} clips, ${otio.gapCount} gaps and ${otio.transitionCount} transitions to OTIO`,
+        sequenceId,
+        sequenceName: sequence.name,
+        outputPath,
+        frameRate: otio.frameRate,
+        clipCount: otio.clipCount,
+        gapCount: otio.gapCount,
+        transitionCount: otio.transitionCount,
+        markerCount: otio.markerCount,
+        warnings: otio.warnings,
+        ...(outputPath ? {} : { otio: otio.text })
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to export OTIO: ${getErrorMessage(error)}`,
+        sequenceId,
+        outputPath
+      };
+    }
+  }
+
+  private async importOtio(otioPath: string | undefined, otioText: string | undefined, sequenceName: string | undefined, importMissingMedia: boolean): Promise<any> {
+    try {
+      if (!otioPath && otioText === undefined) {
+        return {
+          success: false,
+          error: 'Provide either otioPath or otio'
+        };
+      }
+      const text = otioText ?? await fs.readFile(otioPath!, 'utf8');
+      const parsed = parseOtio(text);
+      const { items, importedMedia } = await this.projectItemsFor(parsed, importMissingMedia);
+      const plan = conformTimeline(parsed, items, { name: sequenceName });
+      const built = await this.bridge.buildSequence(plan.sequence);
+      const { unmappedTransitions, effectFailures } = this.collectBuildFailures(plan, built);
+
+      return {
+        success: true,
+        message: `Built "${built.name}" with ${built.clips.length} clips from OTIO`,
+        sequenceId: built.sequenceId,
+        sequenceName: built.name,
+        otioPath,
+        timelineName: parsed.sequence.name,
+        frameRate: Math.round(plan.sequence.frameRate * 1000) / 1000,
+        clipsPlaced: built.clips.length,
+        transitionsAdded: built.transitions.length,
+        markersAdded: built.markers,
+        importedMedia,
+        matchedFiles: plan.matchedFiles,
+        unmatchedClips: plan.unmatchedClips,
+        unmappedTransitions,
+        effectFailures,
+        warnings: plan.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to import OTIO: ${getErrorMessage(error)}`,
+        otioPath
+      };
+    }
+  }
+
+  /**
+   * The project's items for conforming a parsed timeline, after importing
+   * any referenced files that exist on disk but aren't in the project yet
+   */
+  private async projectItemsFor(parsed: ParsedTimeline, importMissingMedia: boolean): Promise<{ items: PremiereProProjectItem[]; importedMedia: string[] }> {
+    const items = await this.bridge.listProjectItems();
+    const importedMedia: string[] = [];
+    if (!importMissingMedia) {
+      return { items, importedMedia };
+    }
+    const missing = new Set(Object.values(parsed.clipFiles)
+      .filter(file => file.path && !matchMediaReference(file, items))
+      .map(file => file.path!));
+    for (const path of missing) {
+      try {
+        await fs.access(path);
+      } catch {
+        continue;
+      }
+      await this.bridge.importMedia(path);
+      importedMedia.push(path);
+    }
+    return { items: importedMedia.length > 0 ? await this.bridge.listProjectItems() : items, importedMedia };
+  }
+
+  /**
+   * Sort what buildSequence couldn't do into the plan's unmatched clips,
+   * transitions that couldn't be added, and effects that aren't available
+   */
+  private collectBuildFailures(plan: TimelineImportPlan, built: PremiereProSequenceBuildResult): {
+    unmappedTransitions: Array<{ track: string; transition: string; start: number; reason: string }>;
+    effectFailures: Array<{ clipId: string; name: string; effect: string; reason: string }>;
+  } {
+    const clipsById = new Map([...plan.sequence.videoTracks, ...plan.sequence.audioTracks]
+      .flatMap(track => track.clips.map(clip => [clip.id, { clip, track }] as const)));
+    const effectFailures: Array<{ clipId: string; name: string; effect: string; reason: string }> = [];
+    const unmappedTransitions: Array<{ track: string; transition: string; start: number; reason: string }> = [];
+    for (const failure of built.failures) {
+      const track = `${failure.trackType === 'video' ? 'V' : 'A'}${failure.trackIndex + 1}`;
+      const found = failure.modelClipId ? clipsById.get(failure.modelClipId) : undefined;
+      if (failure.transition) {
+        unmappedTransitions.push({ track, transition: failure.transition, start: failure.start ?? 0, reason: failure.reason });
+      } else if (failure.effect && found) {
+        effectFailures.push({ clipId: found.clip.id, name: found.clip.name, effect: failure.effect, reason: failure.reason });
+      } else if (found) {
+        plan.unmatchedClips.push({ clipId: found.clip.id, track, name: found.clip.name, start: found.clip.start ?? 0, file: found.clip.mediaPath, reason: failure.reason });
+      }
+    }
+    return { unmappedTransitions, effectFailures };
+  }
+
+  // Captions Implementation
+  private async importCaptions(args: any): Promise<any> {
+    try {
+      if (!args.captionsPath && args.captions === undefined) {
+        return {
+          success: false,
+          error: 'Provide either captionsPath or captions'
+        };
+      }
+      const text: string = args.captions ?? await fs.readFile(args.captionsPath, 'utf8');
+      const format: CaptionFormat | undefined = args.format ?? (args.captionsPath ? { '.srt': 'srt', '.vtt': 'vtt' }[extname(args.captionsPath).toLowerCase()] as CaptionFormat | undefined : undefined);
+      const parsed = parseCaptions(text, format);
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const timebase = sequence.timebase ?? Math.round(TICKS_PER_SECOND / sequence.frameRate);
+      const offset = args.offset === undefined ? undefined : ticksToSeconds(timeOffsetToTicks(args.offset, timebase));
+      const { cues, warnings } = conformCaptions(parsed.cues, { offset, sourceFrameRate: args.sourceFrameRate, timebase });
+      if (cues.length === 0) {
+        return {
+          success: false,
+          error: 'No cues fall inside the sequence after applying the offset',
+          sequenceId: args.sequenceId,
+          warnings
+        };
+      }
+
+      // Caption tracks are made from a file Premiere Pro imports, so write the conformed cues as SRT
+      const directory = await fs.mkdtemp(join(tmpdir(), 'premiere-captions-'));
+      const captionFile = join(directory, `${args.captionsPath ? basename(args.captionsPath, extname(args.captionsPath)) : 'Captions'}.srt`);
+      await fs.writeFile(captionFile, formatSrt(cues), 'utf8');
+
+      const placed = await this.bridge.addCaptions(args.sequenceId, cues.map(cue => ({
+        start: cue.start,
+        end: cue.end,
+        text: cue.lines.join('\n'),
+        ...(cue.style ? { style: cue.style } : {})
+      })), {
+        method: args.method ?? 'auto',
+        captionFile,
+        captionFormat: args.captionFormat ?? 'subtitle',
+        trackIndex: args.trackIndex,
+        fontFamily: args.fontFamily,
+        fontSize: args.fontSize,
+        color: args.color
+      });
+      if (placed.method === 'burn-in') {
+        warnings.push('Caption tracks are not available; captions were burned in as title clips');
+      }
+
+      return {
+        success: true,
+        message: placed.method === 'caption-track'
+          ? `Added ${cues.length} captions on a new caption track`
+          : `Burned in ${placed.clips.length} of ${cues.length} captions on video track ${placed.trackIndex}`,
+        sequenceId: args.sequenceId,
+        captionsPath: args.captionsPath,
+        format: parsed.format,
+        method: placed.method,
+        cueCount: cues.length,
+        captionItemId: placed.captionItemId,
+        trackIndex: placed.trackIndex,
+        clips: placed.clips,
+        failures: placed.failures,
+        styleSheets: parsed.styleSheets.length,
+        warnings: [...parsed.warnings, ...warnings]
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to import captions: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId,
+        captionsPath: args.captionsPath
+      };
+    }
+  }
+
+  private async exportCaptions(args: any): Promise<any> {
+    try {
+      if ((args.trackIndex === undefined) === (args.captionItemId === undefined)) {
+        return {
+          success: false,
+          error: 'Provide either trackIndex or captionItemId'
+        };
+      }
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const timebase = sequence.timebase ?? Math.round(TICKS_PER_SECOND / sequence.frameRate);
+      const warnings: string[] = [];
+      let source: CaptionCue[];
+      if (args.captionItemId !== undefined) {
+        // Scripting can't read cues off a caption track, so read the file the caption item was imported from
+        const item = (await this.bridge.listProjectItems()).find(candidate => candidate.id === args.captionItemId);
+        if (!item?.mediaPath) {
+          return {
+            success: false,
+            error: `Caption item not found or has no caption file: ${args.captionItemId}`,
+            sequenceId: args.sequenceId
+          };
+        }
+        const extension = extname(item.mediaPath).toLowerCase();
+        if (extension !== '.srt' && extension !== '.vtt') {
+          return {
+            success: false,
+            error: `Only SRT and WebVTT caption items can be read, not ${extension || item.mediaPath}`,
+            sequenceId: args.sequenceId
+          };
+        }
+        const parsed = parseCaptions(await fs.readFile(item.mediaPath, 'utf8'), extension === '.vtt' ? 'vtt' : 'srt');
+        source = parsed.cues;
+        warnings.push(...parsed.warnings);
+      } else {
+        const { captions, skippedClips } = await this.bridge.getTextClips(args.sequenceId, args.trackIndex);
+        source = captions.map(caption => ({
+          start: caption.start,
+          end: caption.end,
+          lines: caption.text.split(/\r\n|\r|\n/).map(line => line.trim()).filter(Boolean),
+          ...(caption.style && Object.keys(caption.style).length > 0 ? { style: caption.style } : {})
+        }));
+        if (skippedClips > 0) {
+          warnings.push(`${skippedClips} clip(s) on video track ${args.trackIndex} have no text and were skipped`);
+        }
+      }
+
+      const offset = args.offset === undefined ? undefined : ticksToSeconds(timeOffsetToTicks(args.offset, timebase));
+      const conformed = conformCaptions(source, { offset, timebase });
+      const cues = conformed.cues;
+      if (cues.length === 0) {
+        return {
+          success: false,
+          error: 'No captions found to export',
+          sequenceId: args.sequenceId,
+          warnings: [...warnings, ...conformed.warnings]
+        };
+      }
+      warnings.push(...conformed.warnings);
+
+      let text: string;
+      if (args.format === 'scc') {
+        const scc = formatScc(cues);
+        text = scc.text;
+        warnings.push(...scc.warnings);
+      } else {
+        text = args.format === 'vtt' ? formatVtt(cues) : formatSrt(cues);
+      }
+      const violations = validateCaptions(cues, {
+        maxCharactersPerSecond: args.maxCharactersPerSecond,
+        maxLineLength: args.maxLineLength,
+        maxLines: args.maxLines
+      });
+      warnings.push(...violations.map(violation =>
+        `Cue ${violation.cue + 1} at ${secondsToTimecode(violation.start, timebase)}: ${violation.message}`));
+      if (args.outputPath) {
+        await fs.writeFile(args.outputPath, text, 'utf8');
+      }
+
+      return {
+        success: true,
+        message: `Exported ${cues.length} captions as ${args.format.toUpperCase()}${violations.length > 0 ? ` with ${violations.length} guideline violations` : ''}`,
+        sequenceId: args.sequenceId,
+        format: args.format,
+        outputPath: args.outputPath,
+        cueCount: cues.length,
+        violationCount: violations.length,
+        warnings,
+        ...(args.outputPath ? {} : { captions: text })
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to export captions: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId,
+        outputPath: args.outputPath
+      };
+    }
+  }
+
+  // Markers Implementation
+  private async addMarker(args: any): Promise<any> {
+    const target = this.markerTarget(args);
+    if (!target) {
+      return { success: false, error: 'Provide either sequenceId or clipId' };
+    }
+    if (args.type === 'weblink' && !args.url) {
+      return { success: false, error: 'Web link markers need a url' };
+    }
+    try {
+      const [marker] = await this.bridge.addMarkers(target, [{ ...this.markerChanges(args), start: args.time }]);
+      return {
+        success: true,
+        message: `Added ${args.type ?? 'comment'} marker at ${marker!.start}s`,
+        ...target,
+        marker: this.describeMarker(marker!)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add marker: ${getErrorMessage(error)}`,
+        ...target
+      };
+    }
+  }
+
+  private async updateMarker(args: any): Promise<any> {
+    const target = this.markerTarget(args);
+    if (!target) {
+      return { success: false, error: 'Provide either sequenceId or clipId' };
+    }
+    try {
+      const marker = await this.bridge.updateMarker(target, args.markerId, { ...this.markerChanges(args), start: args.time });
+      return {
+        success: true,
+        message: 'Marker updated',
+        ...target,
+        marker: this.describeMarker(marker)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update marker: ${getErrorMessage(error)}`,
+        ...target,
+        markerId: args.markerId
+      };
+    }
+  }
+
+  private async deleteMarker(args: any): Promise<any> {
+    const target = this.markerTarget(args);
+    if (!target) {
+      return { success: false, error: 'Provide either sequenceId or clipId' };
+    }
+    try {
+      const marker = await this.bridge.deleteMarker(target, args.markerId);
+      return {
+        success: true,
+        message: `Deleted marker "${marker.name}"`,
+        ...target,
+        marker: this.describeMarker(marker)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete marker: ${getErrorMessage(error)}`,
+        ...target,
+        markerId: args.markerId
+      };
+    }
+  }
+
+  private async listMarkers(args: any): Promise<any> {
+    const target = this.markerTarget(args);
+    if (!target) {
+      return { success: false, error: 'Provide either sequenceId or clipId' };
+    }
+    try {
+      const markers = (await this.bridge.listMarkers(target))
+        .map(marker => this.describeMarker(marker))
+        .filter(marker => !args.type || marker.type === args.type);
+      return {
+        success: true,
+        ...target,
+        markers,
+        totalCount: markers.length
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list markers: ${getErrorMessage(error)}`,
+        ...target
+      };
+    }
+  }
+
+  private async exportMarkers(args: any): Promise<any> {
+    try {
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const markers = (sequence.markers ?? [])
+        .filter(marker => !args.type || markerTypeName(marker.type) === args.type);
+      let text: string;
+      let count = markers.length;
+      const warnings: string[] = [];
+      if (args.format === 'youtube') {
+        const chapters = formatYoutubeChapters(markers, sequence);
+        text = chapters.text;
+        count = chapters.chapterCount;
+        warnings.push(...chapters.warnings);
+      } else {
+        text = args.format === 'json' ? formatMarkerJson(markers, sequence) : formatMarkerCsv(markers, sequence);
+      }
+      if (args.outputPath) {
+        await fs.writeFile(args.outputPath, text, 'utf8');
+      }
+
+      return {
+        success: true,
+        message: args.format === 'youtube' ? `Exported ${count} YouTube chapters` : `Exported ${count} markers as ${args.format.toUpperCase()}`,
+        sequenceId: args.sequenceId,
+        sequenceName: sequence.name,
+        format: args.format,
+        outputPath: args.outputPath,
+        markerCount: count,
+        warnings,
+        ...(args.outputPath ? {} : { markers: text })
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to export markers: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId,
+        outputPath: args.outputPath
+      };
+    }
+  }
+
+  private async importMarkers(args: any): Promise<any> {
+    try {
+      if (!args.csvPath && args.csv === undefined) {
+        return {
+          success: false,
+          error: 'Provide either csvPath or csv'
+        };
+      }
+      let text: string = args.csv;
+      if (text === undefined) {
+        // Premiere Pro writes its marker lists as UTF-16
+        const data = await fs.readFile(args.csvPath);
+        text = data[0] === 0xFF && data[1] === 0xFE ? data.toString('utf16le') : data.toString('utf8');
+      }
+      const sequence = await this.bridge.getSequence(args.sequenceId);
+      const plan = parseMarkerCsv(text, sequence, { type: args.type, color: args.color });
+      if (plan.markers.length === 0) {
+        return {
+          success: false,
+          error: 'No markers to add',
+          sequenceId: args.sequenceId,
+          csvPath: args.csvPath,
+          skippedRows: plan.issues,
+          warnings: plan.warnings
+        };
+      }
+      const markers = await this.bridge.addMarkers({ sequenceId: args.sequenceId }, plan.markers.map(({ line: _line, ...marker }) => marker));
+
+      return {
+        success: true,
+        message: `Added ${markers.length} markers${plan.issues.length > 0 ? `; skipped ${plan.issues.length} rows` : ''}`,
+        sequenceId: args.sequenceId,
+        csvPath: args.csvPath,
+        markers: markers.map(marker => this.describeMarker(marker)),
+        skippedRows: plan.issues,
+        warnings: plan.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to import markers: ${getErrorMessage(error)}`,
+        sequenceId: args.sequenceId,
+        csvPath: args.csvPath
+      };
+    }
+  }
+
+  /** The sequence or clip a marker tool works on, or null unless exactly one is given */
+  private markerTarget(args: any): PremiereProMarkerTarget | null {
+    if ((args.sequenceId === undefined) === (args.clipId === undefined)) {
+      return null;
+    }
+    return args.clipId !== undefined ? { clipId: args.clipId } : { sequenceId: args.sequenceId };
+  }
+
+  /** Marker tool arguments as bridge marker fields */
+  private markerChanges(args: any): PremiereProMarkerChanges {
+    return {
+      name: args.name,
+      comment: args.comment,
+      duration: args.duration,
+      type: args.type ? MARKER_TYPES[args.type as keyof typeof MARKER_TYPES] : undefined,
+      color: args.color ? MARKER_COLORS.indexOf(args.color) : undefined,
+      url: args.url,
+      frameTarget: args.frameTarget
+    };
+  }
+
+  /** A bridge marker with its type and color named as the marker tools take them */
+  private describeMarker(marker: PremiereProMarker): Record<string, any> {
+    return {
+      id: marker.id,
+      name: marker.name,
+      comment: marker.comment,
+      type: markerTypeName(marker.type),
+      color: markerColorName(marker.color),
+      start: marker.start,
+      end: marker.end,
+      duration: marker.end - marker.start,
+      ...(marker.url !== undefined ? { url: marker.url, frameTarget: marker.frameTarget } : {})
+    };
+  }
+
+  // Advanced Features Implementation
+  private async createMulticamSequence(name: string, cameraFiles: string[], syncMethod: string): Promise<any> {
+    const script = buildScript(`
+      try {
+        var multicamSource = app.project.createMulticamSource(args.name, args.cameraFiles, args.syncMethod);
+        if (!multicamSource) {
+          return JSON.stringify({
+            success: false,
+            error: "Failed to create multicam source"
+          });
+        }
+        
+        var sequence = app.project.createSequenceFromMulticamSource(args.name, multicamSource);
+        if (!sequence) {
+          return JSON.stringify({
+            success: false,
+            error: "Failed to create sequence from multicam source"
+          });
+        }
+        
+        return JSON.stringify({
+          success: true,
+          message: "Multicam sequence created successfully",
+          name: args.name,
+          sequenceId: sequence.sequenceID,
+          cameraCount: args.cameraFiles.length,
+          syncMethod: args.syncMethod
+        });
+      } catch (e) {
+        return JSON.stringify({
+          success: false,
+          error: e.toString()
+        });
+      }
+    `, { name, cameraFiles, syncMethod });
+    
+    return await this.bridge.executeScript(script);
+  }
 
   private async createProxyMedia(projectItemIds: string[], proxyPreset: string, replaceOriginals = false): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var projectItems = [${projectItemIds.map(id => `app.project.getProjectItemByID("${id}")`).join(', ')}];
-        var validItems = projectItems.filter(function(item) { return item !== null; });
+        var validItems = [];
+        for (var i = 0; i < args.projectItemIds.length; i++) {
+          var item = app.project.getProjectItemByID(args.projectItemIds[i]);
+          if (item !== null) {
+            validItems.push(item);
+          }
+        }
         
         if (validItems.length === 0) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "No valid project items found"
           });
-          return;
         }
         
-        var proxyJob = app.encoder.createProxyJob(validItems, "${proxyPreset}");
+        var proxyJob = app.encoder.createProxyJob(validItems, args.proxyPreset);
         if (!proxyJob) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to create proxy job"
           });
-          return;
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Proxy media creation started",
-          proxyPreset: "${proxyPreset}",
+          proxyPreset: args.proxyPreset,
           itemCount: validItems.length,
-          replaceOriginals: ${replaceOriginals}
+          replaceOriginals: args.replaceOriginals
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { projectItemIds, proxyPreset, replaceOriginals });
     
     return await this.bridge.executeScript(script);
   }
 
-  private async autoEditToMusic(audioTrackId: string, videoClipIds: string[], editStyle: string, sensitivity = 50): Promise<any> {
-    const script = `
+  private async autoEditToMusic(audioTrackId: string, videoClipIds: string[], editStyle: BeatEditStyle, sensitivity = 50): Promise<any> {
+    // Find the music and the clips to cut, with every time in ticks
+    const gatherScript = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
       try {
-        var audioTrack = app.project.getTrackByID("${audioTrackId}");
-        var videoClips = [${videoClipIds.map(id => `app.project.getClipByID("${id}")`).join(', ')}];
+        var audioTrack = app.project.getTrackByID(args.audioTrackId);
         
         if (!audioTrack) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Audio track not found"
           });
-          return;
+        }
+        if (audioTrack.clips.numItems === 0) {
+          return JSON.stringify({
+            success: false,
+            error: "Audio track has no clips"
+          });
         }
         
-        var validVideoClips = videoClips.filter(function(clip) { return clip !== null; });
-        if (validVideoClips.length === 0) {
-          JSON.stringify({
+        var music = audioTrack.clips[0];
+        var sequence = clipSequence(music);
+        var videoClips = [];
+        var missingClipIds = [];
+        for (var i = 0; i < args.videoClipIds.length; i++) {
+          var clip = app.project.getClipByID(args.videoClipIds[i]);
+          if (!clip || clip.mediaType === "Audio") {
+            missingClipIds.push(args.videoClipIds[i]);
+            continue;
+          }
+          videoClips.push({
+            id: args.videoClipIds[i],
+            name: clip.name,
+            projectItemId: clip.projectItem.nodeId,
+            trackIndex: clip.getTrack().index,
+            inTicks: clip.inPoint.ticks,
+            outTicks: clip.outPoint.ticks
+          });
+        }
+        if (videoClips.length === 0) {
+          return JSON.stringify({
             success: false,
             error: "No valid video clips found"
           });
-          return;
         }
         
-        // This would require sophisticated beat detection and auto-editing algorithms
-        // For now, return a placeholder response with the detected parameters
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
-          message: "Auto-edit to music analysis completed",
-          audioTrackId: "${audioTrackId}",
-          videoClipCount: validVideoClips.length,
-          editStyle: "${editStyle}",
-          sensitivity: ${sensitivity},
-          note: "This feature requires advanced beat detection implementation"
+          sequenceId: sequence.sequenceID,
+          timebase: sequence.timebase,
+          music: {
+            id: music.nodeId,
+            name: music.name,
+            mediaPath: music.projectItem.getMediaPath(),
+            startTicks: music.start.ticks,
+            endTicks: music.end.ticks,
+            inTicks: music.inPoint.ticks,
+            speed: music.getSpeed ? music.getSpeed() : 1
+          },
+          videoClips: videoClips,
+          missingClipIds: missingClipIds
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
-    
-    return await this.bridge.executeScript(script);
+    `, { audioTrackId, videoClipIds });
+
+    const timeline = await this.bridge.executeScript(gatherScript);
+    if (!timeline?.success) {
+      return timeline;
+    }
+
+    const ticksPerFrame = Number(timeline.timebase);
+    const music = timeline.music;
+    const speed = Number(music.speed) || 1;
+    const musicStart = Number(music.startTicks);
+    const musicEnd = Number(music.endTicks);
+    const toTimelineSeconds = (seconds: number) => ticksToSeconds(musicStart) + seconds / speed;
+    const snapToFrame = (seconds: number) => Math.round(secondsToTicks(seconds) / ticksPerFrame) * ticksPerFrame;
+
+    let grid: BeatGrid;
+    try {
+      grid = await analyzeAudioFile(music.mediaPath, {
+        start: ticksToSeconds(music.inTicks),
+        duration: ticksToSeconds(musicEnd - musicStart) * speed,
+        sensitivity
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Beat detection failed: ${getErrorMessage(error)}`,
+        audioTrackId,
+        musicClipId: music.id
+      };
+    }
+    if (grid.beats.length === 0) {
+      return {
+        success: false,
+        error: 'No beats were detected in the music',
+        audioTrackId,
+        musicClipId: music.id
+      };
+    }
+
+    // Cut boundaries on the frame grid, from the start of the music to its end
+    const cutTicks = selectCutBeats(grid, editStyle, sensitivity)
+      .map(beat => snapToFrame(toTimelineSeconds(beat)))
+      .filter(ticks => ticks > musicStart && ticks < musicEnd);
+    const boundaries = [...new Set([musicStart, ...cutTicks, musicEnd])].sort((a, b) => a - b);
+    const segments = this.planBeatSegments(boundaries, timeline.videoClips);
+
+    const transitionTicks = editStyle === 'cuts_and_transitions'
+      ? Math.max(ticksPerFrame, snapToFrame(Math.min(grid.beatInterval / 2, 1)))
+      : 0;
+
+    const applyScript = buildScript(`
+      ${TIME_SCRIPT_HELPERS}
+      try {
+        var sequence = app.project.getSequenceByID(args.sequenceId);
+        if (!sequence) {
+          return JSON.stringify({
+            success: false,
+            error: "Sequence not found"
+          });
+        }
+        var track = sequence.videoTracks[args.trackIndex];
+        if (!track) {
+          return JSON.stringify({
+            success: false,
+            error: "Video track not found"
+          });
+        }
+        
+        // The cut replaces the source clips, along with their linked audio
+        var removedClipIds = [];
+        for (var i = 0; i < args.sourceClipIds.length; i++) {
+          var source = app.project.getClipByID(args.sourceClipIds[i]);
+          if (!source) {
+            continue;
+          }
+          var linked = source.getLinkedItems ? source.getLinkedItems() : null;
+          var linkedItems = [];
+          for (var l = 0; linked && l < linked.numItems; l++) {
+            if (linked[l].nodeId !== args.musicClipId) {
+              linkedItems.push(linked[l]);
+            }
+          }
+          source.getTrack().removeClip(source, false);
+          removedClipIds.push(source.nodeId);
+          for (var l = 0; l < linkedItems.length; l++) {
+            linkedItems[l].getTrack().removeClip(linkedItems[l], false);
+            removedClipIds.push(linkedItems[l].nodeId);
+          }
+        }
+        
+        var placed = [];
+        for (var i = 0; i < args.segments.length; i++) {
+          var segment = args.segments[i];
+          var projectItem = app.project.getProjectItemByID(segment.projectItemId);
+          projectItem.setInPoint(ticksTime(segment.inTicks), 4);
+          projectItem.setOutPoint(ticksTime(segment.outTicks), 4);
+          var item = track.overwriteClip(projectItem, ticksTime(segment.startTicks));
+          projectItem.clearInPoint();
+          projectItem.clearOutPoint();
+          placed.push(item);
+        }
+        
+        var transitionsAdded = 0;
+        if (args.transitionTicks > 0) {
+          for (var i = 1; i < placed.length; i++) {
+            var shortest = Math.min(Number(placed[i - 1].duration.ticks), Number(placed[i].duration.ticks));
+            if (shortest > args.transitionTicks && track.addTransition("Cross Dissolve", placed[i - 1], placed[i], ticksTime(args.transitionTicks))) {
+              transitionsAdded++;
+            }
+          }
+        }
+        
+        var cuts = [];
+        for (var i = 0; i < placed.length; i++) {
+          cuts.push({
+            clipId: placed[i].nodeId,
+            sourceClipId: args.segments[i].sourceClipId,
+            startTicks: placed[i].start.ticks,
+            durationTicks: placed[i].duration.ticks
+          });
+        }
+        
+        return JSON.stringify({
+          success: true,
+          cuts: cuts,
+          removedClipIds: removedClipIds,
+          transitionsAdded: transitionsAdded
+        });
+      } catch (e) {
+        return JSON.stringify({
+          success: false,
+          error: e.toString()
+        });
+      }
+    `, {
+      sequenceId: timeline.sequenceId,
+      trackIndex: timeline.videoClips[0].trackIndex,
+      musicClipId: music.id,
+      sourceClipIds: timeline.videoClips.map((clip: any) => clip.id),
+      segments,
+      transitionTicks
+    });
+
+    const applied = await this.bridge.executeScript(applyScript);
+    if (!applied?.success) {
+      return applied;
+    }
+
+    const dropFrame = isDropFrameRate(ticksPerFrame);
+    const toGridTime = (beat: number) => Number(toTimelineSeconds(beat).toFixed(3));
+    return {
+      success: true,
+      message: `Cut ${applied.cuts.length} segments to the beat at ${grid.tempo.toFixed(1)} BPM`,
+      audioTrackId,
+      musicClipId: music.id,
+      musicPath: music.mediaPath,
+      editStyle,
+      sensitivity,
+      tempo: Number(grid.tempo.toFixed(2)),
+      beatInterval: Number((grid.beatInterval / speed).toFixed(4)),
+      confidence: Number(grid.confidence.toFixed(2)),
+      beatGrid: {
+        beats: grid.beats.map(toGridTime),
+        downbeats: grid.downbeats.map(toGridTime),
+        onsets: grid.onsets.map(toGridTime)
+      },
+      cuts: applied.cuts.map((cut: any) => ({
+        clipId: cut.clipId,
+        sourceClipId: cut.sourceClipId,
+        time: ticksToSeconds(cut.startTicks),
+        timecode: ticksToTimecode(cut.startTicks, ticksPerFrame, dropFrame),
+        duration: ticksToSeconds(cut.durationTicks)
+      })),
+      transitionsAdded: applied.transitionsAdded,
+      removedClipIds: applied.removedClipIds,
+      missingClipIds: timeline.missingClipIds
+    };
+  }
+
+  /**
+   * Assign source footage to each span between cut boundaries. Clips are used
+   * in turn, each continuing from where its last segment ended, and a clip
+   * without enough footage left is restarted or skipped for one that has it.
+   */
+  private planBeatSegments(boundaries: number[], clips: Array<{ id: string; projectItemId: string; inTicks: string; outTicks: string }>): any[] {
+    const cursors = clips.map(clip => Number(clip.inTicks));
+    const segments: any[] = [];
+
+    for (let i = 0; i + 1 < boundaries.length; i++) {
+      const start = boundaries[i]!;
+      const length = boundaries[i + 1]! - start;
+      let chosen = -1;
+      let sourceIn = 0;
+
+      for (let attempt = 0; attempt < clips.length && chosen < 0; attempt++) {
+        const index = (i + attempt) % clips.length;
+        const clip = clips[index]!;
+        const clipIn = Number(clip.inTicks);
+        const clipOut = Number(clip.outTicks);
+        if (cursors[index]! + length <= clipOut) {
+          chosen = index;
+          sourceIn = cursors[index]!;
+        } else if (clipIn + length <= clipOut) {
+          chosen = index;
+          sourceIn = clipIn;
+        }
+      }
+
+      // Nothing is long enough: use the longest clip and leave a short gap
+      if (chosen < 0) {
+        chosen = clips.reduce((best, clip, index) =>
+          Number(clip.outTicks) - Number(clip.inTicks) > Number(clips[best]!.outTicks) - Number(clips[best]!.inTicks) ? index : best, 0);
+        sourceIn = Number(clips[chosen]!.inTicks);
+      }
+
+      const clip = clips[chosen]!;
+      const sourceOut = Math.min(sourceIn + length, Number(clip.outTicks));
+      cursors[chosen] = sourceOut;
+      segments.push({
+        sourceClipId: clip.id,
+        projectItemId: clip.projectItemId,
+        startTicks: start,
+        inTicks: sourceIn,
+        outTicks: sourceOut
+      });
+    }
+    return segments;
   }
 
   private async stabilizeClip(clipId: string, method = 'warp', smoothness = 50): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var stabilizationEffect = clip.addEffect("Warp Stabilizer");
         if (!stabilizationEffect) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Failed to add stabilization effect"
           });
-          return;
         }
         
         // Configure stabilization settings
         try {
-          stabilizationEffect.properties["Smoothness"].setValue(${smoothness / 100});
-          stabilizationEffect.properties["Method"].setValue("${method}");
+          stabilizationEffect.properties["Smoothness"].setValue(args.smoothness / 100);
+          stabilizationEffect.properties["Method"].setValue(args.method);
         } catch (e) {
           // Some properties might not be available
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Video stabilization applied successfully",
-          clipId: "${clipId}",
-          method: "${method}",
-          smoothness: ${smoothness}
+          clipId: args.clipId,
+          method: args.method,
+          smoothness: args.smoothness
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, method, smoothness });
     
     return await this.bridge.executeScript(script);
   }
 
   private async speedChange(clipId: string, speed: number, maintainAudio = true): Promise<any> {
-    const script = `
+    const script = buildScript(`
       try {
-        var clip = app.project.getClipByID("${clipId}");
+        var clip = app.project.getClipByID(args.clipId);
         if (!clip) {
-          JSON.stringify({
+          return JSON.stringify({
             success: false,
             error: "Clip not found"
           });
-          return;
         }
         
         var oldSpeed = clip.speed;
-        clip.speed = ${speed};
+        clip.speed = args.speed;
         
-        if (${maintainAudio} && clip.hasAudio && clip.hasAudio()) {
+        if (args.maintainAudio && clip.hasAudio && clip.hasAudio()) {
           clip.maintainAudioPitch = true;
         }
         
-        JSON.stringify({
+        return JSON.stringify({
           success: true,
           message: "Speed change applied successfully",
-          clipId: "${clipId}",
+          clipId: args.clipId,
           oldSpeed: oldSpeed,
-          newSpeed: ${speed},
-          maintainAudio: ${maintainAudio}
+          newSpeed: args.speed,
+          maintainAudio: args.maintainAudio
         });
       } catch (e) {
-        JSON.stringify({
+        return JSON.stringify({
           success: false,
           error: e.toString()
         });
       }
-    `;
+    `, { clipId, speed, maintainAudio });
     
     return await this.bridge.executeScript(script);
   }
-} 
\ No newline at end of file
+
+  // Batch Editing Implementation
+  private async batchEdit(operations: Array<{ tool: string; args?: Record<string, any> }>, stopOnError = true): Promise<any> {
+    const nested = operations.findIndex(op => op.tool === 'batch_edit');
+    if (nested !== -1) {
+      return {
+        success: false,
+        error: `Operation ${nested} is a batch_edit; batches cannot be nested`,
+        code: PremiereErrorCode.INVALID_TOOL_ARGUMENTS
+      };
+    }
+    const unbatchable = operations.findIndex(op => UNBATCHABLE_TOOLS.has(op.tool));
+    if (unbatchable !== -1) {
+      return {
+        success: false,
+        error: `Operation ${unbatchable} (${operations[unbatchable]?.tool}) runs more than one script and cannot be batched; no operations were run`,
+        code: PremiereErrorCode.INVALID_TOOL_ARGUMENTS
+      };
+    }
+
+    // Run each tool against a recording bridge. A tool either hands over its
+    // script, or finishes without one (e.g. rejected arguments).
+    const recorder = new ScriptRecorder(this.bridge);
+    const recordingTools = new PremiereProTools(recorder.bridge);
+    const pending: Array<{ tool: string; outcome: Promise<any>; recorded?: RecordedScript; result?: any }> = [];
+
+    for (const op of operations) {
+      const nextScript = recorder.nextScript();
+      const outcome = recordingTools.executeTool(op.tool, op.args ?? {});
+      const first = await Promise.race([
+        nextScript.then(recorded => ({ recorded })),
+        outcome.then(result => ({ result }))
+      ]);
+      pending.push({ tool: op.tool, outcome, ...first });
+
+      if ('result' in first && first.result?.success === false) {
+        break;
+      }
+    }
+    recorder.close();
+
+    const rejected = pending.findIndex(entry => entry.result?.success === false);
+    if (rejected !== -1) {
+      // Nothing has been sent to Premiere yet, so the batch fails as a whole
+      for (const entry of pending) {
+        entry.recorded?.reject(new ScriptExecutionError('Batch not run'));
+      }
+      await Promise.allSettled(pending.map(entry => entry.outcome));
+      return {
+        success: false,
+        error: `Operation ${rejected} (${operations[rejected]?.tool}) was rejected; no operations were run`,
+        operations: operations.map((op, index) => ({
+          index,
+          tool: op.tool,
+          status: index === rejected ? 'invalid' : 'not_run',
+          result: index === rejected ? pending[rejected]?.result : undefined
+        }))
+      };
+    }
+
+    const scripted = pending.filter((entry): entry is typeof entry & { recorded: RecordedScript } => !!entry.recorded);
+    const script = compileBatchScript(scripted.map(entry => entry.recorded.script), { stopOnError });
+
+    let output: BatchScriptOutput;
+    try {
+      output = await this.bridge.executeScript(script, BATCH_BASE_TIMEOUT_MS + operations.length * BATCH_TIMEOUT_PER_OPERATION_MS);
+    } catch (error) {
+      for (const entry of scripted) {
+        entry.recorded.reject(error instanceof Error ? error : new ScriptExecutionError(getErrorMessage(error)));
+      }
+      await Promise.allSettled(pending.map(entry => entry.outcome));
+      throw error;
+    }
+
+    // Hand each result back to its tool so it finishes exactly as it would alone
+    scripted.forEach((entry, index) => {
+      const result = output.results[index];
+      if (result?.raw !== undefined) {
+        try {
+          entry.recorded.resolve(typeof result.raw === 'string' ? JSON.parse(result.raw) : result.raw);
+        } catch (error) {
+          entry.recorded.reject(new ScriptExecutionError(`Invalid JSON from batched ${entry.tool}: ${getErrorMessage(error)}`));
+        }
+      } else {
+        entry.recorded.reject(new ScriptExecutionError(result?.error ?? 'Skipped after an earlier operation failed'));
+      }
+    });
+
+    // A tool's own result decides its status: it can still fail after its
+    // script succeeded, e.g. while processing what the script returned
+    const results = await Promise.all(pending.map(entry => entry.outcome));
+    let scriptIndex = 0;
+    const report = pending.map((entry, index) => {
+      const scriptResult = entry.recorded ? output.results[scriptIndex++] : undefined;
+      const status = scriptResult?.status === 'skipped' ? 'skipped' : results[index]?.success === false ? 'failed' : 'succeeded';
+      return {
+        index,
+        tool: entry.tool,
+        status,
+        result: status === 'skipped' ? undefined : results[index]
+      };
+    });
+
+    const failed = report.filter(op => op.status === 'failed').length;
+    // The script only stops on errors it sees; a tool that failed afterwards
+    // could not stop the operations behind it, so say which ones still ran
+    const firstFailed = report.findIndex(op => op.status === 'failed');
+    const ranAfterFailure = stopOnError && firstFailed !== -1
+      ? report.slice(firstFailed + 1).filter(op => op.status !== 'skipped').length
+      : 0;
+    return {
+      success: failed === 0,
+      message: failed === 0
+        ? `Batch of ${report.length} operations completed`
+        : `${failed} of ${report.length} operations failed; operations that succeeded were not rolled back, as Premiere Pro scripts cannot undo` +
+          (ranAfterFailure > 0 ? `. ${ranAfterFailure} operations after operation ${firstFailed} had already run when it failed` : ''),
+      rolledBack: false,
+      operations: report
+    };
+  }
+}
\ No newline at end of file
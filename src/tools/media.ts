@@ -0,0 +1,132 @@
+/**
+ * Media relinking
+ *
+ * Finds files on disk that could be the missing media of offline project
+ * items. Files are matched by name, case-insensitively, and optionally by
+ * the duration and frame rate Premiere Pro reads from them. When several
+ * files share the name, the one whose folders best match the item's last
+ * known path is preferred, so a drive copied somewhere else as a whole
+ * relinks to the same files.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { PremiereProMediaProbe, PremiereProProjectItem } from '../bridge/index.js';
+
+export interface MediaMatchOptions {
+  matchDuration?: boolean | undefined;
+  matchFrameRate?: boolean | undefined;
+}
+
+export interface MediaFileIndex {
+  /** Paths of the files found, by lower-cased file name */
+  files: Map<string, string[]>;
+  fileCount: number;
+  /** Folders that couldn't be read */
+  skipped: string[];
+}
+
+export type RelinkStatus = 'relinked' | 'matched' | 'not_found' | 'ambiguous' | 'mismatched' | 'failed';
+
+export interface RelinkMatch {
+  itemId: string;
+  name: string;
+  lastKnownPath: string;
+  /** The file relinked to, or that would be in a dry run */
+  newPath: string | null;
+  status: RelinkStatus;
+  /** Files with the item's file name, best match first */
+  candidates: string[];
+  reason?: string;
+}
+
+/** Frame rates this close are taken as the same, to allow for 29.97 being read as 29.970029... */
+const FRAME_RATE_TOLERANCE = 0.01;
+
+/** Path parts, for paths from either Windows or macOS */
+function pathParts(path: string): string[] {
+  return path.split(/[\\/]+/).filter(part => part.length > 0);
+}
+
+export function mediaFileName(path: string): string {
+  return pathParts(path).pop() ?? '';
+}
+
+/**
+ * Every file under a folder, by name. Hidden folders are left out, and
+ * folders that can't be read are listed rather than failing the search.
+ */
+export async function indexMediaFiles(root: string): Promise<MediaFileIndex> {
+  const stats = await fs.stat(root);
+  if (!stats.isDirectory()) {
+    throw new Error(`${root} is not a folder`);
+  }
+  const index: MediaFileIndex = { files: new Map(), fileCount: 0, skipped: [] };
+  const folders = [root];
+  while (folders.length > 0) {
+    const folder = folders.pop()!;
+    let entries;
+    try {
+      entries = await fs.readdir(folder, { withFileTypes: true });
+    } catch {
+      index.skipped.push(folder);
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const path = join(folder, entry.name);
+      if (entry.isDirectory()) {
+        folders.push(path);
+      } else if (entry.isFile()) {
+        const key = entry.name.toLowerCase();
+        index.files.set(key, [...(index.files.get(key) ?? []), path]);
+        index.fileCount++;
+      }
+    }
+  }
+  return index;
+}
+
+/** How many folders, from the file upwards, a candidate shares with the last known path */
+function sharedFolders(lastKnownPath: string, candidate: string): number {
+  const known = pathParts(lastKnownPath.toLowerCase()).slice(0, -1).reverse();
+  const found = pathParts(candidate.toLowerCase()).slice(0, -1).reverse();
+  let shared = 0;
+  while (shared < known.length && shared < found.length && known[shared] === found[shared]) {
+    shared++;
+  }
+  return shared;
+}
+
+/** Files named like an item's media, best match first */
+export function mediaCandidates(item: PremiereProProjectItem, index: MediaFileIndex): Array<{ path: string; score: number }> {
+  const lastKnownPath = item.mediaPath ?? '';
+  return (index.files.get(mediaFileName(lastKnownPath).toLowerCase()) ?? [])
+    .map(path => ({ path, score: sharedFolders(lastKnownPath, path) }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+/**
+ * Why a probed file doesn't match an item's media, or null when it does.
+ * A check is skipped when the item's own value isn't known.
+ */
+export function mediaMismatch(item: PremiereProProjectItem, probe: PremiereProMediaProbe, options: MediaMatchOptions): string | null {
+  if (probe.error || probe.duration === null) {
+    return `couldn't be read: ${probe.error ?? 'no duration'}`;
+  }
+  if (options.matchFrameRate && item.frameRate) {
+    if (probe.frameRate === null || Math.abs(probe.frameRate - item.frameRate) > FRAME_RATE_TOLERANCE) {
+      return `frame rate is ${probe.frameRate ?? 'unknown'}, not ${item.frameRate}`;
+    }
+  }
+  if (options.matchDuration && item.mediaDuration) {
+    // Within a frame, or a millisecond for audio
+    const tolerance = item.frameRate ? 1 / item.frameRate : 0.001;
+    if (Math.abs(probe.duration - item.mediaDuration) > tolerance) {
+      return `duration is ${probe.duration}s, not ${item.mediaDuration}s`;
+    }
+  }
+  return null;
+}
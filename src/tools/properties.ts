@@ -0,0 +1,269 @@
+/**
+ * Clip motion and opacity
+ *
+ * Maps set_clip_transform and set_clip_opacity arguments onto the
+ * parameters of a video clip's intrinsic Motion and Opacity components,
+ * and of the Crop effect, which Premiere Pro keeps apart from Motion; and
+ * reads those parameters back in the same shape. Position is given in
+ * pixels of the sequence frame, where Premiere Pro stores it as a fraction
+ * of the frame. Anchor Point stays a fraction of the clip's own frame
+ * (0.5, 0.5 is the centre), since scripting can't tell the clip's size.
+ */
+
+import { PremiereProClipComponents, PremiereProInterpolation, PremiereProParameter, PremiereProParameterChange } from '../bridge/index.js';
+import { TimeValue } from '../utils/time.js';
+
+/** Blend modes in the order of the Opacity panel's menu, which is how the parameter numbers them */
+export const BLEND_MODES = [
+  'normal', 'dissolve', 'darken', 'multiply', 'color-burn', 'linear-burn', 'darker-color',
+  'lighten', 'screen', 'color-dodge', 'linear-dodge', 'lighter-color', 'overlay', 'soft-light',
+  'hard-light', 'vivid-light', 'linear-light', 'pin-light', 'hard-mix', 'difference', 'exclusion',
+  'subtract', 'divide', 'hue', 'saturation', 'color', 'luminosity'
+] as const;
+
+export type BlendMode = typeof BLEND_MODES[number];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Crop from each edge, as a percentage of the frame */
+export interface Crop {
+  left?: number | undefined;
+  top?: number | undefined;
+  right?: number | undefined;
+  bottom?: number | undefined;
+}
+
+export interface KeyframeTiming {
+  /** Time from the start of the clip */
+  time: TimeValue;
+  /** How the value moves on to the next keyframe; defaults to linear */
+  interpolation?: PremiereProInterpolation | undefined;
+}
+
+/** The transform values that can be keyframed */
+export interface TransformValues {
+  position?: Point | undefined;
+  scale?: number | undefined;
+  scaleWidth?: number | undefined;
+  rotation?: number | undefined;
+  anchorPoint?: Point | undefined;
+  crop?: Crop | undefined;
+}
+
+export interface TransformSettings extends TransformValues {
+  uniformScale?: boolean | undefined;
+  keyframes?: Array<TransformValues & KeyframeTiming> | undefined;
+}
+
+export interface OpacitySettings {
+  opacity?: number | undefined;
+  blendMode?: BlendMode | undefined;
+  keyframes?: Array<{ opacity?: number | undefined } & KeyframeTiming> | undefined;
+}
+
+export interface ClipProperties {
+  transform: {
+    position: Point | null;
+    scale: number | null;
+    scaleWidth: number | null;
+    uniformScale: boolean | null;
+    rotation: number | null;
+    anchorPoint: Point | null;
+    crop: Record<keyof Crop, number | null>;
+  };
+  opacity: {
+    opacity: number | null;
+    blendMode: BlendMode | number | null;
+  };
+  /** Keyframes of the animated properties, by property */
+  keyframes: Record<string, Array<{ time: number; value: unknown; interpolation: PremiereProInterpolation | null }>>;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+}
+
+interface PropertyDefinition {
+  component: string;
+  /** Effect to add for the property when the clip doesn't have it */
+  effect?: string;
+  parameter: string;
+  toParameter?: (value: any, frame: Frame) => unknown;
+  fromParameter?: (value: any, frame: Frame) => unknown;
+}
+
+/** Values read back are rounded so float noise from the fraction conversions doesn't show */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+const PROPERTIES: Record<string, PropertyDefinition> = {
+  position: {
+    component: 'Motion',
+    parameter: 'Position',
+    toParameter: (point: Point, frame) => [point.x / frame.width, point.y / frame.height],
+    fromParameter: (value: number[], frame) => ({ x: round(value[0]! * frame.width), y: round(value[1]! * frame.height) })
+  },
+  scale: { component: 'Motion', parameter: 'Scale' },
+  scaleWidth: { component: 'Motion', parameter: 'Scale Width' },
+  uniformScale: { component: 'Motion', parameter: 'Uniform Scale', fromParameter: value => !!value },
+  rotation: { component: 'Motion', parameter: 'Rotation' },
+  anchorPoint: {
+    component: 'Motion',
+    parameter: 'Anchor Point',
+    toParameter: (point: Point) => [point.x, point.y],
+    fromParameter: (value: number[]) => ({ x: round(value[0]!), y: round(value[1]!) })
+  },
+  cropLeft: { component: 'Crop', effect: 'Crop', parameter: 'Left' },
+  cropTop: { component: 'Crop', effect: 'Crop', parameter: 'Top' },
+  cropRight: { component: 'Crop', effect: 'Crop', parameter: 'Right' },
+  cropBottom: { component: 'Crop', effect: 'Crop', parameter: 'Bottom' },
+  opacity: { component: 'Opacity', parameter: 'Opacity' },
+  blendMode: {
+    component: 'Opacity',
+    parameter: 'Blend Mode',
+    toParameter: (mode: BlendMode) => BLEND_MODES.indexOf(mode),
+    fromParameter: (index: number) => BLEND_MODES[index] ?? index
+  }
+};
+
+/** Crop flattened into one property per edge, as the Crop effect has them */
+function flatten(values: Record<string, any>): Record<string, unknown> {
+  const { crop, interpolation: _interpolation, time: _time, keyframes: _keyframes, ...rest } = values;
+  return {
+    ...rest,
+    cropLeft: crop?.left,
+    cropTop: crop?.top,
+    cropRight: crop?.right,
+    cropBottom: crop?.bottom
+  };
+}
+
+function clipFrame(clip: PremiereProClipComponents): Frame {
+  if (!clip.frameWidth || !clip.frameHeight) {
+    throw new Error(`Couldn't read the frame size of the sequence holding clip ${clip.clipId}`);
+  }
+  return { width: clip.frameWidth, height: clip.frameHeight };
+}
+
+function assertVideoClip(clip: PremiereProClipComponents): void {
+  if (clip.trackType !== 'video') {
+    throw new Error(`Clip ${clip.clipId} is an audio clip; motion and opacity only apply to video clips`);
+  }
+}
+
+/**
+ * Parameter changes for a set of static values and keyframes. A property
+ * can be set statically or keyframed, not both; every keyframe must set at
+ * least one property.
+ */
+function propertyChanges(clip: PremiereProClipComponents, settings: Record<string, any>, keyframes: Array<Record<string, any>>): PremiereProParameterChange[] {
+  assertVideoClip(clip);
+  const statics = flatten(settings);
+  const keyed = keyframes.map(flatten);
+  const names = Object.keys(PROPERTIES).filter(name =>
+    statics[name] !== undefined || keyed.some(keyframe => keyframe[name] !== undefined));
+  keyed.forEach((keyframe, index) => {
+    if (!Object.keys(PROPERTIES).some(name => keyframe[name] !== undefined)) {
+      throw new Error(`Keyframe ${index + 1} doesn't set any values`);
+    }
+  });
+  if (names.length === 0) {
+    throw new Error('No values or keyframes to set');
+  }
+  const frame = names.includes('position') ? clipFrame(clip) : { width: 0, height: 0 };
+
+  return names.map(name => {
+    const definition = PROPERTIES[name]!;
+    const convert = (value: unknown) => definition.toParameter ? definition.toParameter(value, frame) : value;
+    const target = { component: definition.component, effect: definition.effect, parameter: definition.parameter };
+    const keys = keyframes
+      .map((keyframe, index) => ({ keyframe, value: keyed[index]![name] }))
+      .filter(({ value }) => value !== undefined);
+    if (keys.length === 0) {
+      return { ...target, value: convert(statics[name]) };
+    }
+    if (statics[name] !== undefined) {
+      throw new Error(`${name} is given both as a value and in keyframes`);
+    }
+    return {
+      ...target,
+      keyframes: keys.map(({ keyframe, value }) => ({
+        time: keyframe.time,
+        value: convert(value),
+        interpolation: keyframe.interpolation
+      }))
+    };
+  });
+}
+
+export function transformChanges(clip: PremiereProClipComponents, settings: TransformSettings): PremiereProParameterChange[] {
+  const { keyframes, ...values } = settings;
+  return propertyChanges(clip, values, keyframes ?? []);
+}
+
+export function opacityChanges(clip: PremiereProClipComponents, settings: OpacitySettings): PremiereProParameterChange[] {
+  const { keyframes, ...values } = settings;
+  return propertyChanges(clip, values, keyframes ?? []);
+}
+
+/**
+ * A video clip's motion, crop and opacity as the tools report them.
+ * Keyframed properties read as null, with their values in `keyframes`.
+ * Crop reads as zero on every edge when the clip has no Crop effect.
+ */
+export function describeClipProperties(clip: PremiereProClipComponents): ClipProperties {
+  assertVideoClip(clip);
+  const frame = clip.frameWidth && clip.frameHeight ? { width: clip.frameWidth, height: clip.frameHeight } : null;
+  const keyframes: ClipProperties['keyframes'] = {};
+  const read = (name: string): any => {
+    const definition = PROPERTIES[name]!;
+    const parameter: PremiereProParameter | undefined = clip.components
+      .find(component => component.name === definition.component)?.parameters
+      .find(candidate => candidate.name === definition.parameter);
+    if (!parameter || parameter.value === null) {
+      return null;
+    }
+    if (name === 'position' && !frame) {
+      return null;
+    }
+    const convert = (value: unknown) => definition.fromParameter ? definition.fromParameter(value, frame ?? { width: 0, height: 0 }) : value;
+    if (parameter.animated) {
+      keyframes[name] = parameter.keyframes.map(keyframe => ({
+        time: keyframe.time,
+        value: convert(keyframe.value),
+        interpolation: keyframe.interpolation
+      }));
+      return null;
+    }
+    return convert(parameter.value);
+  };
+
+  const cropped = clip.components.some(component => component.name === 'Crop');
+
+  return {
+    transform: {
+      position: read('position'),
+      scale: read('scale'),
+      scaleWidth: read('scaleWidth'),
+      uniformScale: read('uniformScale'),
+      rotation: read('rotation'),
+      anchorPoint: read('anchorPoint'),
+      crop: {
+        left: cropped ? read('cropLeft') : 0,
+        top: cropped ? read('cropTop') : 0,
+        right: cropped ? read('cropRight') : 0,
+        bottom: cropped ? read('cropBottom') : 0
+      }
+    },
+    opacity: {
+      opacity: read('opacity'),
+      blendMode: read('blendMode')
+    },
+    keyframes
+  };
+}
@@ -48,6 +48,9 @@ export enum PremiereErrorCode {
   FILE_NOT_FOUND = 'FILE_NOT_FOUND',
   FILE_OPERATION_FAILED = 'FILE_OPERATION_FAILED',
 
+  // Media errors
+  AUDIO_DECODE_FAILED = 'AUDIO_DECODE_FAILED',
+
   // General errors
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
@@ -219,6 +222,20 @@ export class InvalidToolArgumentsError extends PremiereError {
   }
 }
 
+/**
+ * Error thrown when an audio file can't be read for analysis
+ */
+export class AudioDecodeError extends PremiereError {
+  constructor(path: string, reason: string, cause?: Error) {
+    super(
+      PremiereErrorCode.AUDIO_DECODE_FAILED,
+      `Failed to decode audio file ${path}: ${reason}`,
+      { context: { path }, ...(cause !== undefined ? { cause } : {}) }
+    );
+    this.name = 'AudioDecodeError';
+  }
+}
+
 /**
  * Helper to safely extract error message from unknown error type
  */
@@ -0,0 +1,344 @@
+/**
+ * Frame-accurate time handling
+ *
+ * Premiere measures time in ticks, 254016000000 per second, a number chosen
+ * so every common frame rate (including the NTSC rates 23.976, 29.97 and
+ * 59.94) is a whole number of ticks per frame. Tools accept times as seconds,
+ * frame counts, ticks or SMPTE timecode; this module parses those forms,
+ * converts between them for a given frame rate, and provides the matching
+ * ExtendScript helpers so scripts resolve times against the sequence's own
+ * timebase instead of rounding floating-point seconds.
+ */
+
+/** Premiere's internal time unit: ticks per second */
+export const TICKS_PER_SECOND = 254016000000;
+
+/**
+ * A time as tools accept it: a number of seconds, or a string such as
+ * `"12.5s"`, `"300f"`, `"3048192000000t"`, `"00:01:02:03"` (non-drop) or
+ * `"00:01:02;03"` (drop-frame)
+ */
+export type TimeValue = number | string;
+
+export interface Timecode {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  frames: number;
+  dropFrame: boolean;
+}
+
+/**
+ * A parsed time that still needs a frame rate to become ticks. This is what
+ * travels to scripts, which resolve it against the sequence timebase.
+ */
+export type TimeSpec =
+  | { unit: 'seconds'; seconds: number }
+  | { unit: 'frames'; frames: number }
+  | { unit: 'ticks'; ticks: string }
+  | { unit: 'timecode'; timecode: Timecode };
+
+const TIMECODE_PATTERN = /^(\d{1,2}):(\d{2}):(\d{2})([:;.,])(\d{2,3})$/;
+const SECONDS_PATTERN = /^(\d+(?:\.\d+)?|\.\d+)\s*(?:s|sec|secs|seconds?)?$/i;
+const FRAMES_PATTERN = /^(\d+)\s*(?:f|frames?)$/i;
+const TICKS_PATTERN = /^(\d+)\s*(?:t|ticks?)$/i;
+
+/** Human-readable list of accepted forms, for schema descriptions and errors */
+export const TIME_VALUE_FORMATS = 'seconds (e.g. 12.5 or "12.5s"), frames ("300f"), ticks ("3048192000000t") or SMPTE timecode ("00:00:12:12", or "00:00:12;12" for drop-frame)';
+
+/**
+ * Parse SMPTE timecode. A `;`, `,` or `.` before the frames field marks
+ * drop-frame timecode, following the usual convention.
+ */
+export function parseTimecode(text: string): Timecode | null {
+  const match = TIMECODE_PATTERN.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, separator, frames] = match;
+  const timecode: Timecode = {
+    hours: Number(hours),
+    minutes: Number(minutes),
+    seconds: Number(seconds),
+    frames: Number(frames),
+    dropFrame: separator !== ':'
+  };
+  if (timecode.minutes > 59 || timecode.seconds > 59) {
+    return null;
+  }
+  return timecode;
+}
+
+/**
+ * Parse a tool time argument. Throws when the value isn't one of the
+ * accepted forms.
+ */
+export function parseTimeValue(value: TimeValue): TimeSpec {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid time ${value}; expected ${TIME_VALUE_FORMATS}`);
+    }
+    return { unit: 'seconds', seconds: value };
+  }
+
+  const text = value.trim();
+  const timecode = parseTimecode(text);
+  if (timecode) {
+    return { unit: 'timecode', timecode };
+  }
+
+  const frames = FRAMES_PATTERN.exec(text);
+  if (frames?.[1]) {
+    return { unit: 'frames', frames: Number(frames[1]) };
+  }
+  const ticks = TICKS_PATTERN.exec(text);
+  if (ticks?.[1]) {
+    return { unit: 'ticks', ticks: ticks[1] };
+  }
+  const seconds = SECONDS_PATTERN.exec(text);
+  if (seconds?.[1]) {
+    return { unit: 'seconds', seconds: Number(seconds[1]) };
+  }
+
+  throw new Error(`Invalid time "${value}"; expected ${TIME_VALUE_FORMATS}`);
+}
+
+export function isTimeValue(value: unknown): value is TimeValue {
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    return false;
+  }
+  try {
+    parseTimeValue(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A signed time, such as how far to move an edit point; sign is -1 for earlier */
+export interface TimeOffset {
+  sign: 1 | -1;
+  spec: TimeSpec;
+}
+
+/**
+ * Parse a signed time argument: a negative number, or any time value
+ * string with a leading `-` or `+`. Throws when the rest isn't one of the
+ * accepted forms.
+ */
+export function parseTimeOffset(value: TimeValue): TimeOffset {
+  if (typeof value === 'number') {
+    return { sign: value < 0 ? -1 : 1, spec: parseTimeValue(Math.abs(value)) };
+  }
+  const text = value.trim();
+  const sign = text.startsWith('-') ? -1 : 1;
+  return { sign, spec: parseTimeValue(/^[-+]/.test(text) ? text.slice(1) : text) };
+}
+
+export function isTimeOffset(value: unknown): value is TimeValue {
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    return false;
+  }
+  try {
+    parseTimeOffset(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ticks per frame for a frame rate. NTSC rates are snapped to their exact
+ * 1000/1001 values, so 29.97 gives Premiere's 8475667200 rather than a
+ * rounded approximation.
+ */
+export function frameRateToTicksPerFrame(frameRate: number): number {
+  const nominal = Math.round(frameRate);
+  if (Math.abs(frameRate - nominal) > 0.001 && Math.abs(frameRate - nominal * 1000 / 1001) < 0.01) {
+    return Math.round(TICKS_PER_SECOND * 1001 / (nominal * 1000));
+  }
+  return Math.round(TICKS_PER_SECOND / frameRate);
+}
+
+export function ticksPerFrameToFrameRate(ticksPerFrame: number): number {
+  return TICKS_PER_SECOND / ticksPerFrame;
+}
+
+/**
+ * Frames per second as timecode counts them: 30 for 29.97, 24 for 23.976
+ */
+export function nominalFrameRate(ticksPerFrame: number): number {
+  return Math.round(TICKS_PER_SECOND / ticksPerFrame);
+}
+
+/**
+ * Drop-frame timecode only exists for the NTSC multiples of 30 (29.97, 59.94)
+ */
+export function isDropFrameRate(ticksPerFrame: number): boolean {
+  const nominal = nominalFrameRate(ticksPerFrame);
+  return nominal % 30 === 0 && ticksPerFrame !== Math.round(TICKS_PER_SECOND / nominal);
+}
+
+/** Frame numbers skipped at the start of each minute, except every tenth */
+function droppedFramesPerMinute(ticksPerFrame: number): number {
+  return nominalFrameRate(ticksPerFrame) / 15;
+}
+
+export function timecodeToFrames(timecode: Timecode, ticksPerFrame: number): number {
+  const nominal = nominalFrameRate(ticksPerFrame);
+  if (timecode.frames >= nominal) {
+    throw new Error(`Timecode frame field ${timecode.frames} is out of range at ${nominal} fps`);
+  }
+
+  const totalSeconds = timecode.hours * 3600 + timecode.minutes * 60 + timecode.seconds;
+  let frames = totalSeconds * nominal + timecode.frames;
+  if (timecode.dropFrame && isDropFrameRate(ticksPerFrame)) {
+    const totalMinutes = timecode.hours * 60 + timecode.minutes;
+    frames -= droppedFramesPerMinute(ticksPerFrame) * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frames;
+}
+
+export function framesToTimecode(frames: number, ticksPerFrame: number, dropFrame = isDropFrameRate(ticksPerFrame)): Timecode {
+  const nominal = nominalFrameRate(ticksPerFrame);
+  const useDropFrame = dropFrame && isDropFrameRate(ticksPerFrame);
+  let count = Math.max(0, Math.round(frames));
+
+  if (useDropFrame) {
+    const drop = droppedFramesPerMinute(ticksPerFrame);
+    const framesPerMinute = nominal * 60 - drop;
+    const framesPerTenMinutes = nominal * 600 - drop * 9;
+    const tens = Math.floor(count / framesPerTenMinutes);
+    const remainder = count % framesPerTenMinutes;
+    count += drop * 9 * tens;
+    if (remainder > drop) {
+      count += drop * Math.floor((remainder - drop) / framesPerMinute);
+    }
+  }
+
+  const totalSeconds = Math.floor(count / nominal);
+  return {
+    hours: Math.floor(totalSeconds / 3600),
+    minutes: Math.floor(totalSeconds / 60) % 60,
+    seconds: totalSeconds % 60,
+    frames: count % nominal,
+    dropFrame: useDropFrame
+  };
+}
+
+export function formatTimecode(timecode: Timecode): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(timecode.hours)}:${pad(timecode.minutes)}:${pad(timecode.seconds)}${timecode.dropFrame ? ';' : ':'}${pad(timecode.frames)}`;
+}
+
+export function secondsToTicks(seconds: number): number {
+  return Math.round(seconds * TICKS_PER_SECOND);
+}
+
+export function ticksToSeconds(ticks: number | string): number {
+  return Number(ticks) / TICKS_PER_SECOND;
+}
+
+/**
+ * Nearest whole frame to a tick position
+ */
+export function ticksToFrames(ticks: number | string, ticksPerFrame: number): number {
+  return Math.round(Number(ticks) / ticksPerFrame);
+}
+
+export function ticksToTimecode(ticks: number | string, ticksPerFrame: number, dropFrame?: boolean): string {
+  return formatTimecode(framesToTimecode(ticksToFrames(ticks, ticksPerFrame), ticksPerFrame, dropFrame));
+}
+
+export function secondsToTimecode(seconds: number, ticksPerFrame: number, dropFrame?: boolean): string {
+  return ticksToTimecode(secondsToTicks(seconds), ticksPerFrame, dropFrame);
+}
+
+/**
+ * Resolve a time to ticks at a frame rate. Seconds are snapped to the
+ * nearest frame; explicit ticks are kept as given.
+ */
+export function timeSpecToTicks(spec: TimeSpec, ticksPerFrame: number): number {
+  switch (spec.unit) {
+    case 'ticks':
+      return Number(spec.ticks);
+    case 'frames':
+      return spec.frames * ticksPerFrame;
+    case 'timecode':
+      return timecodeToFrames(spec.timecode, ticksPerFrame) * ticksPerFrame;
+    case 'seconds':
+      return Math.round(secondsToTicks(spec.seconds) / ticksPerFrame) * ticksPerFrame;
+  }
+}
+
+export function timeValueToTicks(value: TimeValue, ticksPerFrame: number): number {
+  return timeSpecToTicks(parseTimeValue(value), ticksPerFrame);
+}
+
+/** Resolve a signed time, as parseTimeOffset reads it, to ticks at a frame rate */
+export function timeOffsetToTicks(value: TimeValue, ticksPerFrame: number): number {
+  const { sign, spec } = parseTimeOffset(value);
+  return sign * timeSpecToTicks(spec, ticksPerFrame);
+}
+
+/**
+ * ExtendScript counterparts of timeSpecToTicks, for splicing into script
+ * bodies. `specTime(spec, sequence)` returns a Time on the sequence's frame
+ * grid, `signedTicks(offset, sequence)` resolves a parsed TimeOffset, and
+ * `clipSequence(clip)` finds the sequence a track item belongs to.
+ */
+export const TIME_SCRIPT_HELPERS = `
+        var TICKS_PER_SECOND = ${TICKS_PER_SECOND};
+
+        function frameTicks(sequence) {
+          return Number(sequence.timebase);
+        }
+
+        function timecodeFrames(timecode, sequence) {
+          var perFrame = frameTicks(sequence);
+          var nominal = Math.round(TICKS_PER_SECOND / perFrame);
+          if (timecode.frames >= nominal) {
+            throw new Error("Timecode frame field " + timecode.frames + " is out of range at " + nominal + " fps");
+          }
+          var frames = (timecode.hours * 3600 + timecode.minutes * 60 + timecode.seconds) * nominal + timecode.frames;
+          var dropFrameRate = nominal % 30 === 0 && perFrame !== Math.round(TICKS_PER_SECOND / nominal);
+          if (timecode.dropFrame && dropFrameRate) {
+            var totalMinutes = timecode.hours * 60 + timecode.minutes;
+            frames -= (nominal / 15) * (totalMinutes - Math.floor(totalMinutes / 10));
+          }
+          return frames;
+        }
+
+        function specTicks(spec, sequence) {
+          var perFrame = frameTicks(sequence);
+          if (spec.unit === "ticks") {
+            return Number(spec.ticks);
+          }
+          if (spec.unit === "frames") {
+            return spec.frames * perFrame;
+          }
+          if (spec.unit === "timecode") {
+            return timecodeFrames(spec.timecode, sequence) * perFrame;
+          }
+          return Math.round(spec.seconds * TICKS_PER_SECOND / perFrame) * perFrame;
+        }
+
+        function ticksTime(ticks) {
+          var time = new Time();
+          time.ticks = String(ticks);
+          return time;
+        }
+
+        function specTime(spec, sequence) {
+          return ticksTime(specTicks(spec, sequence));
+        }
+
+        function signedTicks(offset, sequence) {
+          return offset.sign * specTicks(offset.spec, sequence);
+        }
+
+        function clipSequence(clip) {
+          var track = clip.getTrack ? clip.getTrack() : null;
+          return (track && track.sequence) || app.project.activeSequence;
+        }
+`;
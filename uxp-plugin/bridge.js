@@ -13,9 +13,14 @@ class MCPPremiereBridge {
     constructor() {
         this.isConnected = false;
         this.mcpServerPort = 3000;
+        this.bridgeToken = '';
         this.tempDirectory = '';
         this.commandQueue = [];
         this.isProcessing = false;
+        this.socket = null;
+        this.socketEnabled = true;
+        this.socketReconnectTimer = null;
+        this.socketReconnectDelay = 2000;
         
         // Initialize the bridge
         this.init();
@@ -29,6 +34,107 @@ class MCPPremiereBridge {
         
         // Start polling for commands
         this.startCommandPolling();
+        
+        // Prefer the WebSocket transport; file polling stays as the fallback
+        this.connectSocket();
+    }
+    
+    connectSocket() {
+        if (typeof WebSocket === 'undefined') {
+            this.log('WebSocket not available, using file transport only', 'warning');
+            return;
+        }
+        if (this.socket && this.socket.readyState <= 1) {
+            return;
+        }
+        
+        const url = `ws://127.0.0.1:${this.mcpServerPort}`;
+        // The server refuses the connection without the token when PREMIERE_BRIDGE_TOKEN is set
+        const query = this.bridgeToken ? `/?token=${encodeURIComponent(this.bridgeToken)}` : '';
+        try {
+            this.socket = new WebSocket(url + query);
+        } catch (error) {
+            this.log(`Error opening socket: ${error.message}`, 'error');
+            this.scheduleReconnect();
+            return;
+        }
+        
+        this.socket.onopen = () => {
+            this.log(`Socket connected to MCP server at ${url}`, 'info');
+            this.socketReconnectDelay = 2000;
+            this.updateServerStatus(true);
+        };
+        
+        this.socket.onmessage = (event) => {
+            this.handleSocketMessage(event.data);
+        };
+        
+        this.socket.onclose = () => {
+            this.updateServerStatus(false);
+            this.socket = null;
+            this.scheduleReconnect();
+        };
+        
+        this.socket.onerror = () => {
+            // onclose follows and handles the reconnect
+        };
+    }
+    
+    scheduleReconnect() {
+        if (this.socketReconnectTimer || !this.socketEnabled) {
+            return;
+        }
+        this.socketReconnectTimer = setTimeout(() => {
+            this.socketReconnectTimer = null;
+            this.connectSocket();
+        }, this.socketReconnectDelay);
+        // Back off up to 30s while the MCP server is down
+        this.socketReconnectDelay = Math.min(this.socketReconnectDelay * 2, 30000);
+    }
+    
+    disconnectSocket() {
+        if (this.socketReconnectTimer) {
+            clearTimeout(this.socketReconnectTimer);
+            this.socketReconnectTimer = null;
+        }
+        if (this.socket) {
+            this.socket.onclose = null;
+            this.socket.close();
+            this.socket = null;
+        }
+        this.updateServerStatus(false);
+    }
+    
+    async handleSocketMessage(data) {
+        let command;
+        try {
+            command = JSON.parse(data);
+        } catch (error) {
+            this.log(`Ignoring malformed socket message: ${error.message}`, 'warning');
+            return;
+        }
+        if (command.type !== 'command') {
+            return;
+        }
+        
+        this.log(`Processing command: ${command.id}`, 'info');
+        this.addToQueue(command);
+        this.updateCommandStatus(command.id, 'executing');
+        
+        // Commands are answered independently so a slow script doesn't block the rest
+        let response;
+        try {
+            const result = await this.executeExtendScript(command.script);
+            response = { type: 'response', id: command.id, result: result };
+            this.updateCommandStatus(command.id, 'completed');
+        } catch (error) {
+            response = { type: 'response', id: command.id, error: error.message };
+            this.updateCommandStatus(command.id, 'error');
+        }
+        
+        if (this.socket && this.socket.readyState === 1) {
+            this.socket.send(JSON.stringify(response));
+        }
     }
     
     setupFileWatcher() {
@@ -206,9 +312,11 @@ class MCPPremiereBridge {
                 const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
                 this.mcpServerPort = config.serverPort || 3000;
                 this.tempDirectory = config.tempDirectory || this.tempDirectory;
+                this.bridgeToken = config.bridgeToken || '';
                 
                 // Update UI
                 document.getElementById('serverPort').value = this.mcpServerPort;
+                document.getElementById('bridgeToken').value = this.bridgeToken;
                 document.getElementById('tempDirectory').value = this.tempDirectory;
                 
                 this.log('Configuration loaded', 'info');
@@ -222,7 +330,8 @@ class MCPPremiereBridge {
         try {
             const config = {
                 serverPort: document.getElementById('serverPort').value || 3000,
-                tempDirectory: document.getElementById('tempDirectory').value || this.tempDirectory
+                tempDirectory: document.getElementById('tempDirectory').value || this.tempDirectory,
+                bridgeToken: document.getElementById('bridgeToken').value || ''
             };
             
             const configPath = path.join(this.getTempDirectory(), 'config.json');
@@ -230,6 +339,7 @@ class MCPPremiereBridge {
             
             this.mcpServerPort = config.serverPort;
             this.tempDirectory = config.tempDirectory;
+            this.bridgeToken = config.bridgeToken;
             
             this.log('Configuration saved', 'info');
         } catch (error) {
@@ -244,6 +354,8 @@ class MCPPremiereBridge {
         
         // Start file watching
         this.setupFileWatcher();
+        this.socketEnabled = true;
+        this.connectSocket();
         
         // Test Premiere Pro connection
         this.testPremiereConnection();
@@ -252,6 +364,8 @@ class MCPPremiereBridge {
     stopBridge() {
         this.log('Stopping MCP Bridge...', 'info');
         this.isConnected = false;
+        this.socketEnabled = false;
+        this.disconnectSocket();
         this.updateUI();
     }
     